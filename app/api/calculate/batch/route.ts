@@ -0,0 +1,17 @@
+import { calculateBatchFromBody } from "@/lib/calculateApi";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, errors: [{ path: "", message: "Body is not valid JSON." }] },
+      { status: 400 },
+    );
+  }
+
+  // Per-item failures live inside items; only a malformed batch is a 400
+  const result = calculateBatchFromBody(body);
+  return Response.json(result, { status: result.ok ? 200 : 400 });
+}
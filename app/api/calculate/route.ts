@@ -0,0 +1,16 @@
+import { calculateFromBody } from "@/lib/calculateApi";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { ok: false, errors: [{ path: "", message: "Body is not valid JSON." }] },
+      { status: 400 },
+    );
+  }
+
+  const result = calculateFromBody(body);
+  return Response.json(result, { status: result.ok ? 200 : 400 });
+}
@@ -0,0 +1,5 @@
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export function GET() {
+  return Response.json(buildOpenApiDocument());
+}
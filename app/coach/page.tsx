@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect } from "react";
+import { ClientRoster } from "@/components/ClientRoster";
+import { useProfileStore } from "@/lib/profileStore";
+import { useSettingsStore } from "@/lib/settingsStore";
+import { useI18n } from "@/lib/useI18n";
+
+export default function CoachPage() {
+  const hasHydrated = useProfileStore((s) => s.hasHydrated);
+  const { locale, t } = useI18n();
+
+  useEffect(() => {
+    void useProfileStore.persist.rehydrate();
+    void useSettingsStore.persist.rehydrate();
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return (
+    <main className="min-h-screen p-6">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-3xl font-semibold">{t("coach.title")}</h1>
+          <p className="text-sm text-gray-600">{t("coach.subtitle")}</p>
+        </header>
+        {hasHydrated ? (
+          <ClientRoster />
+        ) : (
+          <p className="text-sm text-gray-600">{t("app.loadingProfiles")}</p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,59 +1,261 @@
 "use client";
 
-import { useMemo, useState } from "react";
-import { ProfileForm } from "@/components/ProfileForm";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { ProfileForm, type ProfileFormHandle } from "@/components/ProfileForm";
+import { ProfileSwitcher } from "@/components/ProfileSwitcher";
 import { ResultsPanel } from "@/components/ResultsPanel";
+import { WeightLogPanel } from "@/components/WeightLogPanel";
+import { DexaImportPanel } from "@/components/DexaImportPanel";
+import { FoodLogPanel } from "@/components/FoodLogPanel";
+import { MealPlanPanel } from "@/components/MealPlanPanel";
+import { ScenarioComparePanel } from "@/components/ScenarioComparePanel";
+import { SensitivityPanel } from "@/components/SensitivityPanel";
+import { BackupPanel } from "@/components/BackupPanel";
 import type { ProfileInput } from "@/types/nutrition";
+import type { ProfileFormValues } from "@/lib/schema";
 import { calculateAll } from "@/lib/calcs";
+import { selectActiveProfile, useProfileStore } from "@/lib/profileStore";
+import {
+  selectWeightLog,
+  selectWeightLogSettings,
+  useWeightLogStore,
+} from "@/lib/weightLogStore";
+import { calculateAdaptiveTdee } from "@/lib/adaptiveTdee";
+import { useDexaHistoryStore } from "@/lib/dexaHistoryStore";
+import { useFoodStore } from "@/lib/foodStore";
+import { useSettingsStore } from "@/lib/settingsStore";
+import { useI18n } from "@/lib/useI18n";
+import { LOCALE_LABELS, LOCALES, type Locale } from "@/lib/i18n";
+import type { ParsedDexaScan } from "@/lib/dexaImport";
+import { DEFAULT_UNITS, SIMPLE_MASS_UNIT } from "@/lib/units";
+import {
+  decodeProfilePermalink,
+  readPermalinkToken,
+  type PermalinkIssue,
+} from "@/lib/permalink";
 
 
 export default function Home() {
-  const [input, setInput] = useState<ProfileInput | null>(null);
+  const hasHydrated = useProfileStore((s) => s.hasHydrated);
+  const activeProfile = useProfileStore(selectActiveProfile);
+  const saveProfileValues = useProfileStore((s) => s.saveProfileValues);
+  const importProfile = useProfileStore((s) => s.importProfile);
+  const activeProfileId = activeProfile?.id;
+  const { locale, t } = useI18n();
+  const localeSetting = useSettingsStore((s) => s.locale);
+  const setLocale = useSettingsStore((s) => s.setLocale);
+
+  // Tag the input with the profile it came from so switching never shows stale results
+  const [calc, setCalc] = useState<{ profileId?: string; input: ProfileInput } | null>(null);
+  const input = calc && calc.profileId === activeProfileId ? calc.input : null;
+
+  useEffect(() => {
+    void useProfileStore.persist.rehydrate();
+    void useWeightLogStore.persist.rehydrate();
+    void useDexaHistoryStore.persist.rehydrate();
+    void useFoodStore.persist.rehydrate();
+    void useSettingsStore.persist.rehydrate();
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const formRef = useRef<ProfileFormHandle>(null);
+
+  // Bone mineral goes in its own field; the engine adds it to lean tissue for fat-free mass
+  const applyDexaScan = useCallback((scan: ParsedDexaScan) => {
+    const total = scan.regions.total;
+    if (!total) return;
+    const round1 = (n: number) => Math.round(n * 10) / 10;
+    formRef.current?.patchValues({
+      dexaEnabled: true,
+      dexaFatMassKg: total.fatMassKg != null ? round1(total.fatMassKg) : undefined,
+      dexaLeanMassKg: total.leanMassKg != null ? round1(total.leanMassKg) : undefined,
+      dexaBoneMineralKg: total.bmcKg != null ? round1(total.bmcKg) : undefined,
+    });
+  }, []);
+
+  // Shared permalink in the URL, read once on the client (the server has no hash)
+  const [sharedLink] = useState(() =>
+    typeof window === "undefined" ? undefined : readPermalinkToken(window.location.hash),
+  );
+  const decodedLink = useMemo(
+    () => (sharedLink ? decodeProfilePermalink(sharedLink, t) : undefined),
+    [sharedLink, t],
+  );
+  const [linkDismissed, setLinkDismissed] = useState(false);
+  const linkIssues: PermalinkIssue[] | null =
+    decodedLink && !decodedLink.ok && !linkDismissed ? decodedLink.issues : null;
+
+  // Bumped by a backup import so the form reloads a profile it may have replaced
+  const [importRevision, setImportRevision] = useState(0);
+
+  // Import a valid link as a new profile once saved profiles are loaded, only once
+  const linkImported = useRef(false);
+  useEffect(() => {
+    if (!hasHydrated || !decodedLink || linkImported.current) return;
+    linkImported.current = true;
+    if (decodedLink.ok) importProfile(t("app.sharedLinkProfile"), decodedLink.values);
+    // Drop the hash so a reload doesn't import the same link again
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+  }, [hasHydrated, decodedLink, importProfile, t]);
+
+  const handleInput = useCallback(
+    (next: ProfileInput) => setCalc({ profileId: activeProfileId, input: next }),
+    [activeProfileId],
+  );
+
+  const handleValues = useCallback(
+    (values: ProfileFormValues) => {
+      if (activeProfileId) saveProfileValues(activeProfileId, values);
+    },
+    [activeProfileId, saveProfileValues],
+  );
+
+  // The log shows the form's units, even before the profile has valid inputs
+  const logUnits = input?.units ?? activeProfile?.values.units ?? DEFAULT_UNITS;
+
+  const weightLog = useWeightLogStore(selectWeightLog(activeProfileId));
+  const logSettings = useWeightLogStore(selectWeightLogSettings(activeProfileId));
+
+  const adaptive = useMemo(
+    () => calculateAdaptiveTdee(weightLog, { windowDays: logSettings.windowDays }),
+    [weightLog, logSettings.windowDays],
+  );
 
   const results = useMemo(() => {
     if (!input) return null;
     try {
-      return calculateAll(input);
+      return calculateAll(input, {
+        adaptiveTdee:
+          logSettings.useAdaptiveTdee && adaptive.ok ? adaptive.value.tdee : undefined,
+      });
     } catch {
       return null;
     }
-  }, [input]);
+  }, [input, adaptive, logSettings.useAdaptiveTdee]);
 
   return (
-    <main className="min-h-screen p-6">
+    <main className="min-h-screen p-6 print:hidden">
       <div className="mx-auto max-w-6xl space-y-6">
-        <header className="space-y-2">
-          <h1 className="text-3xl font-semibold">Nutrition Calculator</h1>
-          <p className="text-sm text-gray-600">
-            Offline-first macro calculator with nerdy BMR/TDEE transparency.
-          </p>
+        <header className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-semibold">{t("app.title")}</h1>
+            <p className="text-sm text-gray-600">{t("app.tagline")}</p>
+          </div>
+          <div className="flex items-end gap-3">
+            <Link
+              href="/coach"
+              className="rounded-xl border px-3 py-2 text-sm hover:bg-gray-50"
+            >
+              {t("app.coachDashboard")}
+            </Link>
+            <label className="space-y-1">
+              <div className="text-sm font-medium">{t("app.language")}</div>
+              <select
+                className="rounded-xl border px-3 py-2"
+                value={localeSetting}
+                onChange={(e) => setLocale(e.target.value as Locale | "auto")}
+              >
+                <option value="auto">{t("app.languageAuto")}</option>
+                {LOCALES.map((l) => (
+                  <option key={l} value={l}>
+                    {LOCALE_LABELS[l]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
         </header>
 
+        {/* Gated on hydration so the server markup (no hash) matches the first client render */}
+        {hasHydrated && linkIssues && (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-semibold">{t("app.sharedLinkFailed")}</div>
+              <button
+                type="button"
+                className="text-xs text-gray-600 hover:underline"
+                onClick={() => setLinkDismissed(true)}
+              >
+                {t("app.dismiss")}
+              </button>
+            </div>
+            <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-gray-700">
+              {linkIssues.map((issue, i) => (
+                <li key={i}>
+                  <span className="font-mono text-xs">{issue.path}</span>: {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="grid gap-6 lg:grid-cols-2">
           <section className="space-y-4">
-            <ProfileForm onChange={setInput} />
+            {/* Before hydration the store holds a placeholder profile with a random id */}
+            {hasHydrated && <ProfileSwitcher />}
+            {hasHydrated && activeProfile ? (
+              <ProfileForm
+                ref={formRef}
+                key={`${activeProfile.id}:${importRevision}`}
+                initialValues={activeProfile.values}
+                onChange={handleInput}
+                onValuesChange={handleValues}
+                bmr={results?.bmr.recommendedBmr}
+              />
+            ) : (
+              <p className="text-sm text-gray-600">{t("app.loadingProfiles")}</p>
+            )}
+            {hasHydrated && activeProfile && (
+              <WeightLogPanel
+                profileId={activeProfile.id}
+                massUnit={SIMPLE_MASS_UNIT[logUnits.mass]}
+                energyUnit={logUnits.energy}
+                adaptive={adaptive}
+              />
+            )}
+            {hasHydrated && activeProfile && (
+              <FoodLogPanel profileId={activeProfile.id} results={results} />
+            )}
+            {hasHydrated && activeProfile && (
+              <MealPlanPanel profileId={activeProfile.id} results={results} />
+            )}
+            {hasHydrated && activeProfile && (
+              <DexaImportPanel
+                profileId={activeProfile.id}
+                weightKg={results?.bodyComposition.weightKg}
+                onApply={applyDexaScan}
+              />
+            )}
           </section>
 
           <section className="rounded-2xl border p-4">
-            <h2 className="text-lg font-semibold">Results</h2>
+            <h2 className="text-lg font-semibold">{t("app.results")}</h2>
 
             {!input ? (
-              <p className="mt-2 text-sm text-gray-600">
-                Enter valid inputs to see results.
-              </p>
+              <p className="mt-2 text-sm text-gray-600">{t("app.enterValidInputs")}</p>
             ) : !results ? (
               <p className="mt-2 text-sm text-gray-600">
-                Calculation engine not implemented yet - next step.
+                {t("app.engineMissing")}
               </p>
             ) : (
               <div className="mt-3">
-                <ResultsPanel results={results} />
+                <ResultsPanel
+                  results={results}
+                  input={input}
+                  adaptive={adaptive}
+                  clientName={activeProfile?.name}
+                  onFocusField={(field) => formRef.current?.focusField(field)}
+                />
               </div>
             )}
 
             {input && (
               <div className="mt-4 text-xs text-gray-500">
-                Input snapshot:
+                {t("app.inputSnapshot")}
                 <pre className="mt-2 overflow-auto rounded-xl bg-gray-50 p-3">
                   {JSON.stringify(input, null, 2)}
                 </pre>
@@ -61,6 +263,12 @@ export default function Home() {
             )}
           </section>
         </div>
+
+        {hasHydrated && activeProfile && input && (
+          <ScenarioComparePanel profileId={activeProfile.id} input={input} />
+        )}
+        {input && <SensitivityPanel input={input} />}
+        {hasHydrated && <BackupPanel onImported={() => setImportRevision((n) => n + 1)} />}
       </div>
     </main>
   );
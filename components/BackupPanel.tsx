@@ -0,0 +1,290 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Upload } from "lucide-react";
+import { useProfileStore } from "@/lib/profileStore";
+import { useWeightLogStore } from "@/lib/weightLogStore";
+import { useFoodStore } from "@/lib/foodStore";
+import { useDexaHistoryStore } from "@/lib/dexaHistoryStore";
+import { useI18n } from "@/lib/useI18n";
+import { downloadText } from "@/lib/download";
+import {
+  BACKUP_CSV_TABLES,
+  backupCsv,
+  backupJson,
+  buildBackup,
+  parseBackup,
+  resolveImport,
+  toSavedProfile,
+  type BackupCsvTable,
+  type BackupError,
+  type FoodImportItem,
+  type ImportAction,
+  type ImportPlan,
+  type ProfileImportItem,
+} from "@/lib/backup";
+
+const iconButton =
+  "inline-flex items-center gap-1 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50 disabled:opacity-50";
+
+type Props = {
+  // Called after an import was written, e.g. to reload a form showing a replaced profile
+  onImported?: () => void;
+};
+
+const profileStatus = ({ existing, changed, profile }: ProfileImportItem) =>
+  !existing
+    ? "new"
+    : !changed
+      ? "same"
+      : profile.updatedAt > existing.updatedAt
+        ? "newer"
+        : "older";
+
+const foodStatus = ({ existing, changed }: FoodImportItem) =>
+  !existing ? "new" : changed ? "changed" : "same";
+
+const profileActions = (item: ProfileImportItem): ImportAction[] =>
+  item.existing ? ["replace", "keepBoth", "skip"] : ["add", "skip"];
+
+const foodActions = (item: FoodImportItem): FoodImportItem["action"][] =>
+  item.existing ? ["replace", "skip"] : ["add", "skip"];
+
+export function BackupPanel({ onImported }: Props) {
+  const profiles = useProfileStore((s) => s.profiles);
+  const upsertProfiles = useProfileStore((s) => s.upsertProfiles);
+  const weightLogs = useWeightLogStore((s) => s.logs);
+  const weightLogSettings = useWeightLogStore((s) => s.settings);
+  const replaceWeightLog = useWeightLogStore((s) => s.replaceLog);
+  const foodLogs = useFoodStore((s) => s.logs);
+  const customFoods = useFoodStore((s) => s.customFoods);
+  const replaceFoodLogs = useFoodStore((s) => s.replaceLogs);
+  const upsertCustomFoods = useFoodStore((s) => s.upsertCustomFoods);
+  const dexaScans = useDexaHistoryStore((s) => s.scans);
+  const replaceScans = useDexaHistoryStore((s) => s.replaceScans);
+  const { t, fmt } = useI18n();
+
+  const [csvTable, setCsvTable] = useState<BackupCsvTable>("profiles");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [error, setError] = useState<BackupError | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const backup = () =>
+    buildBackup({ profiles, weightLogs, weightLogSettings, foodLogs, dexaScans, customFoods });
+
+  const today = () => new Date().toISOString().slice(0, 10);
+
+  const exportJson = () =>
+    downloadText(backupJson(backup()), `nutrition-backup-${today()}.json`, "application/json");
+
+  const exportCsv = () =>
+    downloadText(
+      backupCsv(backup(), csvTable),
+      `nutrition-${csvTable}-${today()}.csv`,
+      "text/csv;charset=utf-8",
+    );
+
+  const readFile = async (file: File) => {
+    const result = parseBackup(await file.text(), { profiles, customFoods });
+    setStatus(null);
+    setError(result.ok ? null : result.error);
+    setPlan(result.ok ? result.plan : null);
+  };
+
+  const setProfileAction = (index: number, action: ImportAction) =>
+    setPlan((p) =>
+      p && {
+        ...p,
+        profiles: p.profiles.map((item, i) => (i === index ? { ...item, action } : item)),
+      },
+    );
+
+  const setFoodAction = (index: number, action: FoodImportItem["action"]) =>
+    setPlan((p) =>
+      p && { ...p, foods: p.foods.map((item, i) => (i === index ? { ...item, action } : item)) },
+    );
+
+  // Logs travel with their profile: a profile that's written brings the backup's logs along
+  const confirmImport = () => {
+    if (!plan) return;
+    const resolved = resolveImport(plan);
+    upsertProfiles(resolved.profiles.map(toSavedProfile));
+    for (const p of resolved.profiles) {
+      if (p.weightLog) replaceWeightLog(p.id, p.weightLog, p.weightLogSettings);
+      if (p.foodLog) replaceFoodLogs(p.id, p.foodLog);
+      if (p.dexaScans) replaceScans(p.id, p.dexaScans);
+    }
+    upsertCustomFoods(resolved.customFoods);
+    setPlan(null);
+    setStatus(
+      t("backup.done", {
+        profiles: resolved.profiles.length,
+        foods: resolved.customFoods.length,
+      }),
+    );
+    onImported?.();
+  };
+
+  return (
+    <section className="rounded-2xl border p-4">
+      <h2 className="text-lg font-semibold">{t("backup.title")}</h2>
+      <p className="mt-1 text-xs text-gray-600">{t("backup.subtitle")}</p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <button type="button" className={iconButton} onClick={exportJson}>
+          <Download size={16} /> {t("backup.exportJson")}
+        </button>
+        <select
+          className="rounded-xl border px-3 py-2 text-sm"
+          value={csvTable}
+          onChange={(e) => setCsvTable(e.target.value as BackupCsvTable)}
+        >
+          {BACKUP_CSV_TABLES.map((table) => (
+            <option key={table} value={table}>
+              {t(`backup.csv.${table}`)}
+            </option>
+          ))}
+        </select>
+        <button type="button" className={iconButton} onClick={exportCsv}>
+          <Download size={16} /> {t("backup.exportCsv")}
+        </button>
+        <label className={`${iconButton} cursor-pointer`}>
+          <Upload size={16} /> {t("backup.import")}
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void readFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-700">{t(`backup.error.${error}`)}</p>}
+      {status && <p className="mt-3 text-sm text-gray-700">{status}</p>}
+
+      {plan && (
+        <div className="mt-4 space-y-4 rounded-xl bg-gray-50 p-3">
+          <div>
+            <p className="text-sm">
+              {t("backup.preview", { date: fmt.date(Date.parse(plan.exportedAt)) })}
+            </p>
+            <p className="text-xs text-gray-600">{t("backup.replaceNote")}</p>
+          </div>
+
+          {plan.profiles.length > 0 && (
+            <PreviewTable
+              title={t("backup.profiles")}
+              rows={plan.profiles.map((item, i) => ({
+                key: `${item.profile.id}-${i}`,
+                label: item.profile.name,
+                status: t(`backup.status.${profileStatus(item)}`),
+                action: item.action,
+                actions: profileActions(item),
+                onAction: (a) => setProfileAction(i, a),
+              }))}
+            />
+          )}
+
+          {plan.foods.length > 0 && (
+            <PreviewTable
+              title={t("backup.foods")}
+              rows={plan.foods.map((item, i) => ({
+                key: `${item.food.id}-${i}`,
+                label: item.food.name,
+                status: t(`backup.status.${foodStatus(item)}`),
+                action: item.action,
+                actions: foodActions(item),
+                onAction: (a) => setFoodAction(i, a as FoodImportItem["action"]),
+              }))}
+            />
+          )}
+
+          {plan.rejected.length > 0 && (
+            <div>
+              <div className="text-sm font-semibold">
+                {t("backup.rejected", { count: plan.rejected.length })}
+              </div>
+              <ul className="mt-1 list-disc space-y-1 pl-5 text-sm text-gray-700">
+                {plan.rejected.map((r, i) => (
+                  <li key={i}>
+                    {r.label}
+                    <ul className="text-xs text-gray-600">
+                      {r.issues.map((issue, j) => (
+                        <li key={j} className="font-mono">
+                          {issue}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className={iconButton}
+              disabled={[...plan.profiles, ...plan.foods].every((item) => item.action === "skip")}
+              onClick={confirmImport}
+            >
+              {t("backup.confirm")}
+            </button>
+            <button type="button" className={iconButton} onClick={() => setPlan(null)}>
+              {t("backup.cancel")}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+/* =========================
+   Preview
+========================= */
+
+type PreviewRow = {
+  key: string;
+  label: string;
+  status: string;
+  action: ImportAction;
+  actions: ImportAction[];
+  onAction: (action: ImportAction) => void;
+};
+
+function PreviewTable({ title, rows }: { title: string; rows: PreviewRow[] }) {
+  const { t } = useI18n();
+  return (
+    <div>
+      <div className="text-sm font-semibold">{title}</div>
+      <table className="mt-1 w-full text-sm">
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-t">
+              <td className="py-1 pr-3">{row.label}</td>
+              <td className="py-1 pr-3 text-gray-600">{row.status}</td>
+              <td className="py-1 text-right">
+                <select
+                  className="rounded-lg border px-2 py-1"
+                  value={row.action}
+                  onChange={(e) => row.onAction(e.target.value as ImportAction)}
+                >
+                  {row.actions.map((a) => (
+                    <option key={a} value={a}>
+                      {t(`backup.action.${a}`)}
+                    </option>
+                  ))}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { TRACE_SYMBOLS, traceNum, type TraceStep } from "@/lib/calcTrace";
+
+/**
+ * Expandable "show the math" rows for Results.trace: the symbolic formula,
+ * the same formula with the profile's values, and the unrounded result.
+ */
+
+export function TraceRow({ step, value }: { step: TraceStep; value?: string }) {
+  return (
+    <details className="group/trace">
+      <summary className="flex cursor-pointer list-none items-baseline justify-between gap-4">
+        <div className="text-sm text-gray-600 group-open/trace:font-medium group-open/trace:text-gray-900">
+          {step.label}
+        </div>
+        <div className="text-sm font-medium tabular-nums">
+          {value ?? `${traceNum(step.value, 0)} ${step.unit}`}
+        </div>
+      </summary>
+      <div className="mt-1 space-y-0.5 rounded-xl bg-gray-50 p-2 font-mono text-xs text-gray-700">
+        <div>{step.formula}</div>
+        <div>= {step.substituted}</div>
+        <div className="font-semibold text-gray-900">
+          = {traceNum(step.value, 3)} {step.unit}
+        </div>
+        {step.note && <div className="font-sans text-gray-600">{step.note}</div>}
+      </div>
+    </details>
+  );
+}
+
+export function TraceList({ steps }: { steps: TraceStep[] }) {
+  return (
+    <div className="space-y-2">
+      {steps.map((s) => (
+        <TraceRow key={s.label} step={s} />
+      ))}
+    </div>
+  );
+}
+
+export function TraceSymbols({ symbols }: { symbols: string[] }) {
+  return (
+    <p className="text-xs text-gray-600">
+      {symbols
+        .filter((s) => TRACE_SYMBOLS[s])
+        .map((s) => `${s} = ${TRACE_SYMBOLS[s]}`)
+        .join("; ")}
+    </p>
+  );
+}
@@ -0,0 +1,319 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Download, Plus, RefreshCw } from "lucide-react";
+import type { BmrMethod, BmrPolicyMode, Goal } from "@/types/nutrition";
+import { useProfileStore } from "@/lib/profileStore";
+import { useI18n } from "@/lib/useI18n";
+import { GOALS } from "@/lib/macroStrategy";
+import { BMR_METHODS, BMR_METHOD_LABELS } from "@/lib/bmrEquations";
+import {
+  allTags,
+  clientRow,
+  filterClients,
+  parseTags,
+  rosterCsv,
+  sortClients,
+  withBmrPolicy,
+  type ClientRow,
+} from "@/lib/clients";
+import { downloadText } from "@/lib/download";
+
+const iconButton =
+  "inline-flex items-center gap-1 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50 disabled:opacity-50";
+
+// "single" is encoded with its formula, e.g. "single:mifflin"; "weighted" needs per-client weights
+const POLICY_CHOICES = [
+  "auto",
+  "mean",
+  "median",
+  ...BMR_METHODS.map((m) => `single:${m}`),
+];
+
+function parsePolicyChoice(choice: string): { mode: BmrPolicyMode; method: BmrMethod } {
+  const [mode, method] = choice.split(":") as [BmrPolicyMode, BmrMethod | undefined];
+  return { mode, method: method ?? "mifflin" };
+}
+
+export function ClientRoster() {
+  const profiles = useProfileStore((s) => s.profiles);
+  const createProfile = useProfileStore((s) => s.createProfile);
+  const setActiveProfile = useProfileStore((s) => s.setActiveProfile);
+  const setClientTags = useProfileStore((s) => s.setClientTags);
+  const setClientGoal = useProfileStore((s) => s.setClientGoal);
+  const recomputeClients = useProfileStore((s) => s.recomputeClients);
+  const { t } = useI18n();
+  const router = useRouter();
+
+  const [query, setQuery] = useState("");
+  const [tag, setTag] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [policyChoice, setPolicyChoice] = useState("auto");
+  const [failed, setFailed] = useState<Set<string>>(() => new Set());
+  const [status, setStatus] = useState<string | null>(null);
+
+  const rows = useMemo(() => sortClients(profiles.map(clientRow)), [profiles]);
+  const tags = useMemo(() => allTags(rows), [rows]);
+  const shown = useMemo(
+    () => filterClients(rows, { query, tag: tag || undefined }),
+    [rows, query, tag],
+  );
+
+  // Bulk actions only touch selected clients that are still shown
+  const targetIds = shown.filter((r) => selected.has(r.id)).map((r) => r.id);
+  const allShownSelected = shown.length > 0 && targetIds.length === shown.length;
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const toggleAllShown = () =>
+    setSelected(allShownSelected ? new Set() : new Set(shown.map((r) => r.id)));
+
+  const recompute = (applyPolicy: boolean) => {
+    const policy = parsePolicyChoice(policyChoice);
+    const failedIds = recomputeClients(
+      targetIds,
+      applyPolicy ? (values) => withBmrPolicy(values, policy) : undefined,
+    );
+    setFailed((prev) => {
+      const next = new Set([...prev].filter((id) => !targetIds.includes(id)));
+      failedIds.forEach((id) => next.add(id));
+      return next;
+    });
+    const okCount = targetIds.length - failedIds.length;
+    setStatus(
+      [
+        t("coach.recomputed", { count: okCount }),
+        failedIds.length > 0 ? t("coach.failed", { count: failedIds.length }) : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+    );
+  };
+
+  const exportCsv = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadText(rosterCsv(shown), `clients-${date}.csv`, "text/csv;charset=utf-8");
+  };
+
+  const open = (id: string) => {
+    setActiveProfile(id);
+    router.push("/");
+  };
+
+  const newClient = () => {
+    createProfile();
+    router.push("/");
+  };
+
+  return (
+    <section className="space-y-4 rounded-2xl border p-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <input
+          className="min-w-0 flex-1 rounded-xl border px-3 py-2"
+          type="search"
+          placeholder={t("coach.search")}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <select
+          className="rounded-xl border px-3 py-2"
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+        >
+          <option value="">{t("coach.allTags")}</option>
+          {tags.map((x) => (
+            <option key={x} value={x}>
+              {x}
+            </option>
+          ))}
+        </select>
+        <button type="button" className={iconButton} onClick={newClient}>
+          <Plus className="h-4 w-4" /> {t("coach.newClient")}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 rounded-xl bg-gray-50 p-3">
+        <span className="text-sm text-gray-600">
+          {t("coach.selected", { count: targetIds.length })}
+        </span>
+        <button
+          type="button"
+          className={iconButton}
+          disabled={targetIds.length === 0}
+          onClick={() => recompute(false)}
+        >
+          <RefreshCw className="h-4 w-4" /> {t("coach.recompute")}
+        </button>
+        <label className="flex items-center gap-2 text-sm">
+          {t("coach.policy")}
+          <select
+            className="rounded-xl border px-3 py-2"
+            value={policyChoice}
+            onChange={(e) => setPolicyChoice(e.target.value)}
+          >
+            {POLICY_CHOICES.map((choice) => {
+              const { mode, method } = parsePolicyChoice(choice);
+              return (
+                <option key={choice} value={choice}>
+                  {mode === "single"
+                    ? t("coach.policySingle", { method: BMR_METHOD_LABELS[method] })
+                    : t(`bmrPolicy.${mode}`)}
+                </option>
+              );
+            })}
+          </select>
+        </label>
+        <button
+          type="button"
+          className={iconButton}
+          disabled={targetIds.length === 0}
+          onClick={() => recompute(true)}
+        >
+          {t("coach.applyPolicy")}
+        </button>
+        <button
+          type="button"
+          className={`${iconButton} ml-auto`}
+          disabled={shown.length === 0}
+          onClick={exportCsv}
+        >
+          <Download className="h-4 w-4" /> {t("coach.exportCsv")}
+        </button>
+      </div>
+
+      {status && <p className="text-sm text-gray-700">{status}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-gray-600">
+              <th className="py-2 pr-2">
+                <input
+                  type="checkbox"
+                  aria-label={t("coach.selectAll")}
+                  checked={allShownSelected}
+                  onChange={toggleAllShown}
+                />
+              </th>
+              <th className="py-2 pr-3">{t("coach.col.client")}</th>
+              <th className="py-2 pr-3">{t("coach.col.tags")}</th>
+              <th className="py-2 pr-3">{t("coach.col.goal")}</th>
+              <th className="py-2 pr-3 text-right">{t("coach.col.calories")}</th>
+              <th className="py-2 pr-3 text-right">{t("coach.col.macros")}</th>
+              <th className="py-2 pr-3">{t("coach.col.updated")}</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((row) => (
+              <RosterRow
+                key={row.id}
+                row={row}
+                selected={selected.has(row.id)}
+                failed={failed.has(row.id)}
+                onToggle={() => toggle(row.id)}
+                onTags={(text) => setClientTags(row.id, parseTags(text))}
+                onGoal={(goal) => setClientGoal(row.id, goal)}
+                onOpen={() => open(row.id)}
+              />
+            ))}
+          </tbody>
+        </table>
+        {shown.length === 0 && <p className="mt-3 text-sm text-gray-600">{t("coach.empty")}</p>}
+      </div>
+
+      <Link href="/" className="inline-block text-sm text-gray-600 hover:underline">
+        {t("coach.back")}
+      </Link>
+    </section>
+  );
+}
+
+/* =========================
+   Row
+========================= */
+
+type RowProps = {
+  row: ClientRow;
+  selected: boolean;
+  failed: boolean;
+  onToggle: () => void;
+  onTags: (text: string) => void;
+  onGoal: (goal: Goal) => void;
+  onOpen: () => void;
+};
+
+function RosterRow({ row, selected, failed, onToggle, onTags, onGoal, onOpen }: RowProps) {
+  const { t, fmt } = useI18n();
+  const { snapshot } = row;
+  const target = snapshot?.targets[row.goal];
+  const tagText = row.tags.join(", ");
+
+  const note = failed
+    ? t("coach.incomplete")
+    : !snapshot
+      ? t("coach.notComputed")
+      : row.stale
+        ? t("coach.outdated")
+        : null;
+
+  return (
+    <tr className="border-b align-top">
+      <td className="py-2 pr-2">
+        <input type="checkbox" aria-label={row.name} checked={selected} onChange={onToggle} />
+      </td>
+      <td className="py-2 pr-3 font-medium">{row.name}</td>
+      <td className="py-2 pr-3">
+        <input
+          // Remount when the saved tags change so the field shows them normalized
+          key={tagText}
+          className="w-40 rounded-lg border px-2 py-1"
+          defaultValue={tagText}
+          placeholder={t("coach.tagsPlaceholder")}
+          onBlur={(e) => {
+            if (e.target.value !== tagText) onTags(e.target.value);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+        />
+      </td>
+      <td className="py-2 pr-3">
+        <select
+          className="rounded-lg border px-2 py-1"
+          value={row.goal}
+          onChange={(e) => onGoal(e.target.value as Goal)}
+        >
+          {GOALS.map((g) => (
+            <option key={g} value={g}>
+              {t(`goal.${g}`)}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="py-2 pr-3 text-right tabular-nums">
+        {target && snapshot ? fmt.energy(target.calories, snapshot.input.units.energy) : "-"}
+      </td>
+      <td className="py-2 pr-3 text-right tabular-nums">
+        {target
+          ? [target.proteinG, target.fatG, target.carbsG].map(fmt.grams).join(" / ")
+          : "-"}
+        {note && <div className="text-xs text-amber-700">{note}</div>}
+      </td>
+      <td className="py-2 pr-3 whitespace-nowrap">{fmt.date(row.updatedAt)}</td>
+      <td className="py-2 text-right">
+        <button type="button" className="text-sm hover:underline" onClick={onOpen}>
+          {t("coach.open")}
+        </button>
+      </td>
+    </tr>
+  );
+}
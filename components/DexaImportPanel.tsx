@@ -0,0 +1,262 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2, Upload } from "lucide-react";
+import type { DexaRegion, DexaRegionMasses, DexaScan } from "@/types/nutrition";
+import {
+  checkDexaAgainstWeight,
+  parseDexaExport,
+  type DexaImportResult,
+  type ParsedDexaScan,
+} from "@/lib/dexaImport";
+import { selectDexaHistory, useDexaHistoryStore } from "@/lib/dexaHistoryStore";
+import type { Formatters } from "@/lib/format";
+import { translateEngineMessage } from "@/lib/i18n";
+import { useI18n } from "@/lib/useI18n";
+
+// Labelled as `dexa.region.<region>`
+const REGION_ORDER: DexaRegion[] = ["total", "arms", "legs", "trunk", "android", "gynoid"];
+
+// kg and BF% both show one decimal
+const oneDecimal = (fmt: Formatters, n?: number) => (n != null ? fmt.decimal(n, 1) : "-");
+
+const bodyFatPct = (r?: DexaRegionMasses) => {
+  if (!r || r.fatMassKg == null || r.leanMassKg == null) return undefined;
+  return (r.fatMassKg / (r.fatMassKg + r.leanMassKg + (r.bmcKg ?? 0))) * 100;
+};
+
+const signed = (fmt: Formatters, n?: number) =>
+  n == null ? "" : `${n >= 0 ? "+" : ""}${fmt.decimal(n, 1)}`;
+
+type Props = {
+  profileId: string;
+  weightKg?: number;
+  onApply: (scan: ParsedDexaScan) => void;
+};
+
+function RegionTable({ scan }: { scan: ParsedDexaScan }) {
+  const { t, fmt } = useI18n();
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-600">
+          <th className="py-1 font-medium">{t("dexa.region")}</th>
+          <th className="py-1 font-medium">{t("dexa.fatKg")}</th>
+          <th className="py-1 font-medium">{t("dexa.leanKg")}</th>
+          <th className="py-1 font-medium">{t("dexa.bmcKg")}</th>
+          <th className="py-1 font-medium">{t("dexa.bodyFat")}</th>
+        </tr>
+      </thead>
+      <tbody className="tabular-nums">
+        {REGION_ORDER.filter((r) => scan.regions[r]).map((r) => {
+          const m = scan.regions[r];
+          return (
+            <tr key={r} className="border-t">
+              <td className="py-1">{t(`dexa.region.${r}`)}</td>
+              <td className="py-1">{oneDecimal(fmt, m?.fatMassKg)}</td>
+              <td className="py-1">{oneDecimal(fmt, m?.leanMassKg)}</td>
+              <td className="py-1">{oneDecimal(fmt, m?.bmcKg)}</td>
+              <td className="py-1">{oneDecimal(fmt, bodyFatPct(m))}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+export function DexaImportPanel({ profileId, weightKg, onApply }: Props) {
+  const { t, fmt } = useI18n();
+  const history = useDexaHistoryStore(selectDexaHistory(profileId));
+  const addScans = useDexaHistoryStore((s) => s.addScans);
+  const removeScan = useDexaHistoryStore((s) => s.removeScan);
+
+  const [pending, setPending] = useState<DexaImportResult | null>(null);
+
+  const readFile = async (file: File) => {
+    setPending(parseDexaExport(await file.text(), file.name));
+  };
+
+  // Latest dated scan is the one that fills the form
+  const latest = pending?.ok
+    ? [...pending.scans].sort((a, b) => (a.date ?? "").localeCompare(b.date ?? "")).at(-1)
+    : undefined;
+  const check =
+    latest && weightKg != null ? checkDexaAgainstWeight(latest.regions.total, weightKg) : undefined;
+
+  const save = (apply: boolean) => {
+    if (!pending?.ok) return;
+    addScans(profileId, pending.scans);
+    if (apply && latest) onApply(latest);
+    setPending(null);
+  };
+
+  return (
+    <section className="rounded-2xl border p-4">
+      <h2 className="text-lg font-semibold">{t("dexa.title")}</h2>
+      <p className="mt-1 text-xs text-gray-600">{t("dexa.intro")}</p>
+
+      <label className="mt-4 inline-flex cursor-pointer items-center gap-1 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50">
+        <Upload size={16} /> {t("dexa.import")}
+        <input
+          type="file"
+          accept=".csv,.json,.txt,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void readFile(file);
+            e.target.value = "";
+          }}
+        />
+      </label>
+
+      {pending && !pending.ok && (
+        <div className="mt-3 rounded-xl border border-red-200 bg-red-50 p-3 text-sm">
+          {t(`dexa.error.${pending.error}`)}
+        </div>
+      )}
+
+      {pending?.ok && latest && (
+        <div className="mt-4 space-y-3 rounded-xl bg-gray-50 p-3">
+          <div className="text-sm font-medium">
+            {t("dexa.found", {
+              count: pending.scans.length,
+              layout: t(`dexa.layout.${pending.layout}`),
+            })}
+            {latest.date ? ` ${t("dexa.latest", { date: latest.date })}` : ""}
+          </div>
+
+          <RegionTable scan={latest} />
+
+          {check && (
+            <div className={`text-xs ${check.ok ? "text-gray-600" : "text-yellow-700"}`}>
+              {t("dexa.weightCheck", {
+                scan: fmt.decimal(check.scanTotalKg, 1),
+                weight: oneDecimal(fmt, weightKg),
+                diff: signed(fmt, check.diffFraction * 100),
+              })}
+              {!check.ok && ` ${t("dexa.weightMismatch")}`}
+            </div>
+          )}
+          {pending.notes.map((note, i) => (
+            <div key={i} className="text-xs text-gray-600">
+              {translateEngineMessage(t, note, (kcal) => fmt.energy(kcal))}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              className="rounded-xl border bg-white px-3 py-2 text-sm hover:bg-gray-50"
+              onClick={() => save(true)}
+            >
+              {t("dexa.saveAndApply")}
+            </button>
+            <button
+              type="button"
+              className="rounded-xl border bg-white px-3 py-2 text-sm hover:bg-gray-50"
+              onClick={() => save(false)}
+            >
+              {t("dexa.saveOnly")}
+            </button>
+            <button
+              type="button"
+              className="rounded-xl px-3 py-2 text-sm text-gray-600 hover:underline"
+              onClick={() => setPending(null)}
+            >
+              {t("dexa.cancel")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <ScanHistory
+          history={history}
+          onApply={onApply}
+          onRemove={(id) => removeScan(profileId, id)}
+        />
+      )}
+    </section>
+  );
+}
+
+function ScanHistory({
+  history,
+  onApply,
+  onRemove,
+}: {
+  history: DexaScan[];
+  onApply: (scan: DexaScan) => void;
+  onRemove: (id: string) => void;
+}) {
+  const { t, fmt } = useI18n();
+  return (
+    <div className="mt-4 overflow-auto">
+      <div className="text-sm font-medium">{t("dexa.history")}</div>
+      <table className="mt-2 w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-600">
+            <th className="py-1 font-medium">{t("dexa.date")}</th>
+            <th className="py-1 font-medium">{t("dexa.fatKg")}</th>
+            <th className="py-1 font-medium">{t("dexa.leanKg")}</th>
+            <th className="py-1 font-medium">{t("dexa.bodyFat")}</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody className="tabular-nums">
+          {history.map((scan, i) => {
+            const total = scan.regions.total;
+            const prev = i > 0 ? history[i - 1].regions.total : undefined;
+            const dFat =
+              prev?.fatMassKg != null && total?.fatMassKg != null
+                ? total.fatMassKg - prev.fatMassKg
+                : undefined;
+            const dLean =
+              prev?.leanMassKg != null && total?.leanMassKg != null
+                ? total.leanMassKg - prev.leanMassKg
+                : undefined;
+            const bf = bodyFatPct(total);
+            const prevBf = bodyFatPct(prev);
+            return (
+              <tr key={scan.id} className="border-t">
+                <td className="py-1">{scan.date ?? t("dexa.undated")}</td>
+                <td className="py-1">
+                  {oneDecimal(fmt, total?.fatMassKg)}{" "}
+                  <span className="text-xs text-gray-500">{signed(fmt, dFat)}</span>
+                </td>
+                <td className="py-1">
+                  {oneDecimal(fmt, total?.leanMassKg)}{" "}
+                  <span className="text-xs text-gray-500">{signed(fmt, dLean)}</span>
+                </td>
+                <td className="py-1">
+                  {oneDecimal(fmt, bf)}{" "}
+                  <span className="text-xs text-gray-500">
+                    {bf != null && prevBf != null ? signed(fmt, bf - prevBf) : ""}
+                  </span>
+                </td>
+                <td className="py-1 text-right whitespace-nowrap">
+                  <button
+                    type="button"
+                    className="mr-2 text-xs text-gray-600 hover:underline"
+                    onClick={() => onApply(scan)}
+                  >
+                    {t("dexa.use")}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-gray-500 hover:text-red-600"
+                    aria-label={t("dexa.remove", { date: scan.date ?? t("dexa.undated") })}
+                    onClick={() => onRemove(scan.id)}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
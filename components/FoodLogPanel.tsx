@@ -0,0 +1,495 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import type { Food, FoodTag, Goal, Nutrients } from "@/types/nutrition";
+import type { Results } from "@/lib/calcs";
+import { todayIsoDate } from "@/lib/adaptiveTdee";
+import {
+  entryNutrients,
+  per100gFromServing,
+  scaleNutrients,
+  searchFoods,
+  STARTER_FOODS,
+  sumNutrients,
+} from "@/lib/foodDb";
+import { selectFoodLogDay, useFoodStore } from "@/lib/foodStore";
+import { useWeightLogStore } from "@/lib/weightLogStore";
+import { GOALS } from "@/lib/macroStrategy";
+import type { MessageKey } from "@/lib/i18n";
+import { useI18n } from "@/lib/useI18n";
+
+const NUTRIENT_ROWS: { key: keyof Nutrients; label: MessageKey; unit: string }[] = [
+  { key: "calories", label: "foodLog.calories", unit: "kcal" },
+  { key: "proteinG", label: "macro.protein", unit: "g" },
+  { key: "fatG", label: "macro.fat", unit: "g" },
+  { key: "carbsG", label: "macro.carbs", unit: "g" },
+];
+
+const FOOD_TAGS: FoodTag[] = ["meat", "fish", "dairy", "egg"];
+
+type Props = {
+  profileId: string;
+  results: Results | null;
+};
+
+function ProgressRow({
+  label,
+  unit,
+  consumed,
+  target,
+}: {
+  label: string;
+  unit: string;
+  consumed: number;
+  target?: number;
+}) {
+  const { t, fmt } = useI18n();
+  const pct = target ? Math.min(100, (consumed / target) * 100) : 0;
+  const over = target != null && consumed > target;
+  return (
+    <div>
+      <div className="flex items-baseline justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="tabular-nums text-gray-600">
+          {fmt.int(consumed)}
+          {target != null ? ` / ${fmt.int(target)} ${unit}` : ` ${unit}`}
+          {target != null && (
+            <span className={over ? "ml-2 text-red-600" : "ml-2"}>
+              {over
+                ? t("foodLog.over", { amount: fmt.int(consumed - target) })
+                : t("foodLog.left", { amount: fmt.int(target - consumed) })}
+            </span>
+          )}
+        </span>
+      </div>
+      <div className="mt-1 h-2 rounded-full bg-gray-100">
+        <div
+          className={`h-2 rounded-full ${over ? "bg-red-400" : "bg-emerald-500"}`}
+          style={{ width: `${pct}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function CustomFoodForm({ onCreated }: { onCreated: (food: Food) => void }) {
+  const { t } = useI18n();
+  const addCustomFood = useFoodStore((s) => s.addCustomFood);
+  const [name, setName] = useState("");
+  const [basis, setBasis] = useState<"per100g" | "perServing">("perServing");
+  const [servingLabel, setServingLabel] = useState(() => t("foodLog.form.defaultServing"));
+  const [servingGrams, setServingGrams] = useState("");
+  const [macros, setMacros] = useState<Record<keyof Nutrients, string>>({
+    calories: "",
+    proteinG: "",
+    fatG: "",
+    carbsG: "",
+  });
+  const [tags, setTags] = useState<FoodTag[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    const values = Object.fromEntries(
+      Object.entries(macros).map(([k, v]) => [k, v === "" ? 0 : Number(v)]),
+    ) as Nutrients;
+    const grams = Number(servingGrams);
+    const hasServing = servingGrams !== "" && Number.isFinite(grams) && grams > 0;
+
+    if (!name.trim()) return setError(t("foodLog.form.error.name"));
+    if (Object.values(values).some((n) => !Number.isFinite(n) || n < 0)) {
+      return setError(t("foodLog.form.error.negative"));
+    }
+    if (basis === "perServing" && !hasServing) {
+      return setError(t("foodLog.form.error.servingWeight"));
+    }
+
+    const food = addCustomFood({
+      name: name.trim(),
+      per100g: basis === "perServing" ? per100gFromServing(values, grams) : values,
+      serving: hasServing
+        ? { label: servingLabel.trim() || t("foodLog.form.defaultServing"), grams }
+        : undefined,
+      tags,
+    });
+    onCreated(food);
+    setName("");
+    setServingGrams("");
+    setMacros({ calories: "", proteinG: "", fatG: "", carbsG: "" });
+    setTags([]);
+    setError(null);
+  };
+
+  return (
+    <div className="mt-3 space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("foodLog.form.name")}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </label>
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("foodLog.form.basis")}</div>
+          <select
+            className="w-full rounded-xl border px-3 py-2"
+            value={basis}
+            onChange={(e) => setBasis(e.target.value as typeof basis)}
+          >
+            <option value="perServing">{t("foodLog.form.perServing")}</option>
+            <option value="per100g">{t("foodLog.form.per100g")}</option>
+          </select>
+        </label>
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("foodLog.form.servingName")}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            value={servingLabel}
+            onChange={(e) => setServingLabel(e.target.value)}
+          />
+        </label>
+        <label className="space-y-1">
+          <div className="text-sm font-medium">
+            {basis === "per100g"
+              ? t("foodLog.form.servingWeightOptional")
+              : t("foodLog.form.servingWeight")}
+          </div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="number"
+            step="1"
+            value={servingGrams}
+            onChange={(e) => setServingGrams(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-4 gap-3">
+        {NUTRIENT_ROWS.map((n) => (
+          <label key={n.key} className="space-y-1">
+            <div className="text-xs font-medium">
+              {t(n.label)} ({n.unit})
+            </div>
+            <input
+              className="w-full rounded-xl border px-3 py-2"
+              type="number"
+              step="0.1"
+              value={macros[n.key]}
+              onChange={(e) => setMacros((m) => ({ ...m, [n.key]: e.target.value }))}
+            />
+          </label>
+        ))}
+      </div>
+
+      {/* Used by the meal planner's vegetarian / dairy-free filters */}
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-medium">{t("foodLog.form.contains")}</span>
+        {FOOD_TAGS.map((tag) => (
+          <label key={tag} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={tags.includes(tag)}
+              onChange={(e) =>
+                setTags((prev) =>
+                  e.target.checked ? [...prev, tag] : prev.filter((x) => x !== tag),
+                )
+              }
+            />
+            {t(`foodLog.tag.${tag}`)}
+          </label>
+        ))}
+      </div>
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <button
+        type="button"
+        className="rounded-xl border px-3 py-2 text-sm hover:bg-gray-50"
+        onClick={save}
+      >
+        {t("foodLog.form.save")}
+      </button>
+    </div>
+  );
+}
+
+export function FoodLogPanel({ profileId, results }: Props) {
+  const { t, fmt } = useI18n();
+  const customFoods = useFoodStore((s) => s.customFoods);
+  const removeCustomFood = useFoodStore((s) => s.removeCustomFood);
+  const addLogEntry = useFoodStore((s) => s.addLogEntry);
+  const updateLogEntry = useFoodStore((s) => s.updateLogEntry);
+  const removeLogEntry = useFoodStore((s) => s.removeLogEntry);
+  const upsertWeightEntry = useWeightLogStore((s) => s.upsertEntry);
+
+  const [date, setDate] = useState(todayIsoDate);
+  const [goal, setGoal] = useState<Goal>("maintenance");
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<Food | null>(null);
+  const [amount, setAmount] = useState("");
+  const [amountUnit, setAmountUnit] = useState<"g" | "serving">("g");
+
+  const day = useFoodStore(selectFoodLogDay(profileId, date));
+
+  const allFoods = useMemo(() => [...customFoods, ...STARTER_FOODS], [customFoods]);
+  const matches = selected ? [] : searchFoods(allFoods, query);
+
+  const consumed = sumNutrients(day.map(entryNutrients));
+  const target = results?.[goal];
+
+  const pick = (food: Food) => {
+    setSelected(food);
+    setQuery(food.name);
+    setAmountUnit(food.serving ? "serving" : "g");
+    setAmount(food.serving ? "1" : "100");
+  };
+
+  const grams =
+    selected && amountUnit === "serving" && selected.serving
+      ? Number(amount) * selected.serving.grams
+      : Number(amount);
+  const canAdd = !!selected && amount !== "" && Number.isFinite(grams) && grams > 0;
+
+  const add = () => {
+    if (!selected || !canAdd) return;
+    addLogEntry(profileId, date, {
+      foodId: selected.id,
+      name: selected.name,
+      grams,
+      per100g: selected.per100g,
+    });
+    setSelected(null);
+    setQuery("");
+    setAmount("");
+  };
+
+  const preview = selected && canAdd ? scaleNutrients(selected.per100g, grams) : undefined;
+
+  return (
+    <section className="rounded-2xl border p-4">
+      <h2 className="text-lg font-semibold">{t("foodLog.title")}</h2>
+      <p className="mt-1 text-xs text-gray-600">{t("foodLog.intro")}</p>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-2">
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("foodLog.date")}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </label>
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("foodLog.compareAgainst")}</div>
+          <select
+            className="w-full rounded-xl border px-3 py-2"
+            value={goal}
+            onChange={(e) => setGoal(e.target.value as Goal)}
+          >
+            {GOALS.map((g) => (
+              <option key={g} value={g}>
+                {t(`goal.${g}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-4 space-y-3">
+        {NUTRIENT_ROWS.map((n) => (
+          <ProgressRow
+            key={n.key}
+            label={t(n.label)}
+            unit={n.unit}
+            consumed={consumed[n.key]}
+            target={target?.[n.key]}
+          />
+        ))}
+        {!target && (
+          <div className="text-xs text-gray-600">{t("foodLog.noTargets")}</div>
+        )}
+      </div>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-[1fr_auto_auto]">
+        <label className="relative space-y-1">
+          <div className="text-sm font-medium">{t("foodLog.food")}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            placeholder={t("foodLog.search")}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(null);
+            }}
+          />
+          {matches.length > 0 && (
+            <ul className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-xl border bg-white text-sm shadow">
+              {matches.map((f) => (
+                <li key={f.id}>
+                  <button
+                    type="button"
+                    className="w-full px-3 py-2 text-left hover:bg-gray-50"
+                    onClick={() => pick(f)}
+                  >
+                    {f.name}
+                    {f.custom && (
+                      <span className="ml-2 text-xs text-gray-500">{t("foodLog.custom")}</span>
+                    )}
+                    <span className="ml-2 text-xs text-gray-500 tabular-nums">
+                      {t("foodLog.per100g", { energy: fmt.energy(f.per100g.calories) })}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("foodLog.amount")}</div>
+          <input
+            className="w-24 rounded-xl border px-3 py-2"
+            type="number"
+            step="any"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("foodLog.unit")}</div>
+          <select
+            className="rounded-xl border px-3 py-2"
+            value={amountUnit}
+            onChange={(e) => setAmountUnit(e.target.value as typeof amountUnit)}
+          >
+            <option value="g">{t("foodLog.grams")}</option>
+            {selected?.serving && (
+              <option value="serving">
+                {selected.serving.label} ({fmt.grams(selected.serving.grams)})
+              </option>
+            )}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-3 flex items-center gap-3">
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50 disabled:opacity-50"
+          disabled={!canAdd}
+          onClick={add}
+        >
+          <Plus size={16} /> {t("foodLog.add")}
+        </button>
+        {preview && (
+          <span className="text-xs text-gray-600 tabular-nums">
+            {t("foodLog.preview", {
+              energy: fmt.energy(preview.calories),
+              protein: fmt.grams(preview.proteinG),
+              fat: fmt.grams(preview.fatG),
+              carbs: fmt.grams(preview.carbsG),
+            })}
+          </span>
+        )}
+      </div>
+
+      {day.length > 0 && (
+        <>
+          <table className="mt-4 w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-600">
+                <th className="py-1 font-medium">{t("foodLog.food")}</th>
+                <th className="py-1 font-medium">{t("foodLog.col.grams")}</th>
+                <th className="py-1 font-medium">{t("unit.kcal")}</th>
+                <th className="py-1 font-medium">{t("foodLog.col.macros")}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              {day.map((e) => {
+                const n = entryNutrients(e);
+                return (
+                  <tr key={e.id} className="border-t">
+                    <td className="py-1">{e.name}</td>
+                    <td className="py-1">
+                      <input
+                        className="w-20 rounded-lg border px-2 py-1"
+                        type="number"
+                        step="any"
+                        defaultValue={Number(e.grams.toFixed(1))}
+                        onBlur={(ev) => {
+                          const g = Number(ev.target.value);
+                          if (Number.isFinite(g) && g > 0 && g !== e.grams) {
+                            updateLogEntry(profileId, date, e.id, g);
+                          }
+                        }}
+                      />
+                    </td>
+                    <td className="py-1">{fmt.int(n.calories)}</td>
+                    <td className="py-1">
+                      {fmt.int(n.proteinG)} / {fmt.int(n.fatG)} / {fmt.int(n.carbsG)}
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        type="button"
+                        className="text-gray-500 hover:text-red-600"
+                        aria-label={t("foodLog.remove", { name: e.name })}
+                        onClick={() => removeLogEntry(profileId, date, e.id)}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {/* Feeds the adaptive TDEE back-calculation */}
+          <button
+            type="button"
+            className="mt-3 text-xs text-gray-600 hover:underline"
+            onClick={() =>
+              upsertWeightEntry(profileId, { date, intakeKcal: Math.round(consumed.calories) })
+            }
+          >
+            {t("foodLog.saveIntake", { energy: fmt.energy(consumed.calories) })}
+          </button>
+        </>
+      )}
+
+      <details className="mt-4">
+        <summary className="cursor-pointer text-sm font-medium">
+          {t("foodLog.myFoods", { count: customFoods.length })}
+        </summary>
+        <CustomFoodForm onCreated={pick} />
+        {customFoods.length > 0 && (
+          <ul className="mt-3 space-y-1 text-sm">
+            {customFoods.map((f) => (
+              <li key={f.id} className="flex items-center justify-between border-t pt-1">
+                <span>
+                  {f.name}{" "}
+                  <span className="text-xs text-gray-500 tabular-nums">
+                    {t("foodLog.per100g", { energy: fmt.energy(f.per100g.calories) })}
+                    {f.serving ? `, ${f.serving.label} = ${fmt.grams(f.serving.grams)}` : ""}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className="text-gray-500 hover:text-red-600"
+                  aria-label={t("foodLog.delete", { name: f.name })}
+                  onClick={() => removeCustomFood(f.id)}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </details>
+    </section>
+  );
+}
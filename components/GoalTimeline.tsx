@@ -0,0 +1,246 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { ProfileInput } from "@/types/nutrition";
+import type { Results } from "@/lib/calcs";
+import {
+  phaseDeltas,
+  projectTimeline,
+  solveDailyDelta,
+  type ProjectionTarget,
+} from "@/lib/projection";
+import { todayIsoDate } from "@/lib/adaptiveTdee";
+import { fromKcal, fromKg, SIMPLE_MASS_UNIT, toKg } from "@/lib/units";
+import { useI18n } from "@/lib/useI18n";
+import { LineChart } from "@/components/LineChart";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+type Props = {
+  phase: "cut" | "bulk";
+  results: Results;
+  input: ProfileInput;
+};
+
+export function GoalTimeline({ phase, results, input }: Props) {
+  const { t, fmt } = useI18n();
+  const [targetKind, setTargetKind] = useState<ProjectionTarget["kind"]>("weight");
+  const [targetValue, setTargetValue] = useState("");
+  const [targetDate, setTargetDate] = useState("");
+  const [useSolvedDelta, setUseSolvedDelta] = useState(false);
+
+  const massUnit = SIMPLE_MASS_UNIT[input.units.mass];
+  const unit = t(`unit.${massUnit}`);
+  const toDisplay = (kg: number) => fromKg(kg, massUnit);
+  const mass = (kg?: number) => (kg != null ? fmt.decimal(toDisplay(kg), 1) : t("results.notAvailable"));
+  const perDay = (kcal: number) =>
+    t("unit.perDay", {
+      value: fmt.int(fromKcal(kcal, input.units.energy)),
+      unit: t(`unit.${input.units.energy}`),
+    });
+
+  const { weightKg, fatMassKg } = results.bodyComposition;
+  const canTargetBf = fatMassKg != null;
+
+  const target = useMemo<ProjectionTarget | undefined>(() => {
+    const n = Number(targetValue);
+    if (targetValue === "" || !Number.isFinite(n) || n <= 0) return undefined;
+    if (targetKind === "bodyFat") return { kind: "bodyFat", percent: n };
+    return { kind: "weight", weightKg: toKg(n, massUnit) };
+  }, [targetKind, targetValue, massUnit]);
+
+  const weeksToDate = useMemo(() => {
+    if (!targetDate) return undefined;
+    const ms = new Date(targetDate).getTime() - new Date(todayIsoDate()).getTime();
+    return ms > 0 ? Math.ceil(ms / WEEK_MS) : undefined;
+  }, [targetDate]);
+
+  const solvedDelta = useMemo(() => {
+    if (!target || weeksToDate == null) return undefined;
+    return solveDailyDelta({ weightKg, fatMassKg, target }, weeksToDate);
+  }, [target, weeksToDate, weightKg, fatMassKg]);
+
+  // Pregnancy, lactation and under-18s block or cap deficits, here as in the targets
+  const deltas = useMemo(
+    () => phaseDeltas(results, phase, input.ageYears, solvedDelta),
+    [results, phase, input.ageYears, solvedDelta],
+  );
+  const canUseNeeded = deltas.needed != null && !deltas.neededLimited;
+  const dailyDelta = useSolvedDelta && canUseNeeded ? (deltas.needed ?? 0) : deltas.applied;
+
+  const projection = useMemo(() => {
+    if (!target) return undefined;
+    return projectTimeline({ weightKg, fatMassKg, dailyDeltaKcal: dailyDelta, target });
+  }, [target, weightKg, fatMassKg, dailyDelta]);
+
+  const weekDate = (week: number) =>
+    new Date(new Date(todayIsoDate()).getTime() + week * WEEK_MS).toISOString().slice(0, 10);
+
+  const wrongDirection =
+    target?.kind === "weight" &&
+    (phase === "cut" ? target.weightKg > weightKg : target.weightKg < weightKg);
+
+  return (
+    <details className="rounded-2xl border p-4">
+      <summary className="cursor-pointer text-sm font-medium">
+        {t(`timeline.title.${phase}`)}
+      </summary>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-3">
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("timeline.target")}</div>
+          <select
+            className="w-full rounded-xl border px-3 py-2"
+            value={targetKind}
+            onChange={(e) => setTargetKind(e.target.value as ProjectionTarget["kind"])}
+          >
+            <option value="weight">{t("timeline.kind.weight", { unit })}</option>
+            <option value="bodyFat" disabled={!canTargetBf}>
+              {canTargetBf ? t("timeline.kind.bodyFat") : t("timeline.kind.bodyFatUnavailable")}
+            </option>
+          </select>
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-sm font-medium">
+            {targetKind === "weight"
+              ? t("timeline.targetWeight", { unit })
+              : t("timeline.targetBodyFat")}
+          </div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="number"
+            step="0.1"
+            value={targetValue}
+            onChange={(e) => setTargetValue(e.target.value)}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("timeline.targetDate")}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="date"
+            value={targetDate}
+            onChange={(e) => setTargetDate(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {weeksToDate != null && target && (
+        <div className="mt-3 space-y-2 text-sm">
+          <div className="text-gray-700">
+            {solvedDelta != null
+              ? t("timeline.needed", {
+                  delta: perDay(solvedDelta),
+                  weeks: weeksToDate,
+                  calories: perDay(results.tdee + solvedDelta),
+                })
+              : t("timeline.unreachableByDate")}
+          </div>
+          {deltas.neededLimited && deltas.needed != null && (
+            <div className="text-xs text-yellow-700">
+              {t("timeline.neededLimited", { delta: perDay(deltas.needed) })}
+            </div>
+          )}
+          {canUseNeeded && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={useSolvedDelta}
+                onChange={(e) => setUseSolvedDelta(e.target.checked)}
+              />
+              {t("timeline.useNeeded", { delta: perDay(deltas.applied) })}
+            </label>
+          )}
+        </div>
+      )}
+
+      {wrongDirection && (
+        <div className="mt-3 text-xs text-yellow-700">
+          {t(`timeline.wrongDirection.${phase}`)}
+        </div>
+      )}
+
+      {projection && (
+        <div className="mt-4 space-y-3">
+          <div className="text-sm text-gray-700">
+            {projection.reachedWeek != null
+              ? t("timeline.reached", {
+                  delta: perDay(dailyDelta),
+                  weeks: projection.reachedWeek,
+                  date: weekDate(projection.reachedWeek),
+                })
+              : t("timeline.notReached", {
+                  delta: perDay(dailyDelta),
+                  weeks: projection.weeks.length - 1,
+                })}
+          </div>
+
+          <LineChart
+            xLabel={t("timeline.week")}
+            yLabel={unit}
+            series={[
+              {
+                label: t("timeline.weight"),
+                color: "#111827",
+                points: projection.weeks.map((w) => ({ x: w.week, y: toDisplay(w.weightKg) })),
+              },
+              ...(canTargetBf
+                ? [
+                    {
+                      label: t("timeline.leanMass"),
+                      color: "#2563eb",
+                      points: projection.weeks.map((w) => ({
+                        x: w.week,
+                        y: toDisplay(w.leanMassKg ?? NaN),
+                      })),
+                    },
+                    {
+                      label: t("timeline.fatMass"),
+                      color: "#d97706",
+                      points: projection.weeks.map((w) => ({
+                        x: w.week,
+                        y: toDisplay(w.fatMassKg ?? NaN),
+                      })),
+                    },
+                  ]
+                : []),
+            ]}
+          />
+
+          <div className="max-h-64 overflow-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-600">
+                  <th className="py-1 font-medium">{t("timeline.week")}</th>
+                  <th className="py-1 font-medium">{t("timeline.date")}</th>
+                  <th className="py-1 font-medium">{t("timeline.kind.weight", { unit })}</th>
+                  <th className="py-1 font-medium">{t("timeline.col.bodyFat")}</th>
+                  <th className="py-1 font-medium">{t("timeline.col.fat", { unit })}</th>
+                  <th className="py-1 font-medium">{t("timeline.col.lean", { unit })}</th>
+                </tr>
+              </thead>
+              <tbody className="tabular-nums">
+                {projection.weeks.map((w) => (
+                  <tr key={w.week} className="border-t">
+                    <td className="py-1">{w.week}</td>
+                    <td className="py-1">{weekDate(w.week)}</td>
+                    <td className="py-1">{mass(w.weightKg)}</td>
+                    <td className="py-1">
+                      {w.bodyFatPercent != null
+                        ? fmt.decimal(w.bodyFatPercent, 1)
+                        : t("results.notAvailable")}
+                    </td>
+                    <td className="py-1">{mass(w.fatMassKg)}</td>
+                    <td className="py-1">{mass(w.leanMassKg)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
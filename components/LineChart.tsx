@@ -0,0 +1,129 @@
+"use client";
+
+import { useI18n } from "@/lib/useI18n";
+
+export type ChartSeries = {
+  label: string;
+  color: string;
+  points: { x: number; y: number }[];
+};
+
+type Props = {
+  series: ChartSeries[];
+  xLabel?: string;
+  yLabel?: string;
+  // Vertical guide lines, e.g. where a warning starts firing
+  markers?: { x: number; label: string; color?: string }[];
+  height?: number;
+};
+
+const W = 600;
+const PAD = { top: 12, right: 12, bottom: 28, left: 48 };
+
+/** Minimal dependency-free SVG line chart. */
+export function LineChart({ series, xLabel, yLabel, markers = [], height = 220 }: Props) {
+  const { t, fmt } = useI18n();
+  const all = series.flatMap((s) => s.points).filter((p) => Number.isFinite(p.y));
+  if (all.length === 0) {
+    return <div className="text-xs text-gray-600">{t("chart.empty")}</div>;
+  }
+
+  const xMin = Math.min(...all.map((p) => p.x));
+  const xMax = Math.max(...all.map((p) => p.x));
+  let yMin = Math.min(...all.map((p) => p.y));
+  let yMax = Math.max(...all.map((p) => p.y));
+  if (yMin === yMax) {
+    yMin -= 1;
+    yMax += 1;
+  }
+
+  const plotW = W - PAD.left - PAD.right;
+  const plotH = height - PAD.top - PAD.bottom;
+  const sx = (x: number) => PAD.left + (xMax === xMin ? 0 : ((x - xMin) / (xMax - xMin)) * plotW);
+  const sy = (y: number) => PAD.top + plotH - ((y - yMin) / (yMax - yMin)) * plotH;
+
+  const tick = (n: number) => (Math.abs(n) >= 100 ? fmt.int(n) : fmt.decimal(n, 1));
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${height}`} className="w-full" role="img">
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + plotH} stroke="#d1d5db" />
+        <line
+          x1={PAD.left}
+          y1={PAD.top + plotH}
+          x2={PAD.left + plotW}
+          y2={PAD.top + plotH}
+          stroke="#d1d5db"
+        />
+
+        <text x={PAD.left - 4} y={PAD.top + 8} textAnchor="end" fontSize="10" fill="#4b5563">
+          {tick(yMax)}
+        </text>
+        <text x={PAD.left - 4} y={PAD.top + plotH} textAnchor="end" fontSize="10" fill="#4b5563">
+          {tick(yMin)}
+        </text>
+        <text x={PAD.left} y={height - 8} fontSize="10" fill="#4b5563">
+          {tick(xMin)}
+        </text>
+        <text x={PAD.left + plotW} y={height - 8} textAnchor="end" fontSize="10" fill="#4b5563">
+          {tick(xMax)}
+        </text>
+        {xLabel && (
+          <text x={PAD.left + plotW / 2} y={height - 8} textAnchor="middle" fontSize="10" fill="#4b5563">
+            {xLabel}
+          </text>
+        )}
+        {yLabel && (
+          <text
+            x={10}
+            y={PAD.top + plotH / 2}
+            textAnchor="middle"
+            fontSize="10"
+            fill="#4b5563"
+            transform={`rotate(-90 10 ${PAD.top + plotH / 2})`}
+          >
+            {yLabel}
+          </text>
+        )}
+
+        {markers.map((m, i) => (
+          <g key={i}>
+            <line
+              x1={sx(m.x)}
+              y1={PAD.top}
+              x2={sx(m.x)}
+              y2={PAD.top + plotH}
+              stroke={m.color ?? "#dc2626"}
+              strokeDasharray="4 3"
+            />
+            <text x={sx(m.x) + 3} y={PAD.top + 10 + i * 12} fontSize="10" fill={m.color ?? "#dc2626"}>
+              {m.label}
+            </text>
+          </g>
+        ))}
+
+        {series.map((s) => (
+          <polyline
+            key={s.label}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            points={s.points
+              .filter((p) => Number.isFinite(p.y))
+              .map((p) => `${sx(p.x)},${sy(p.y)}`)
+              .join(" ")}
+          />
+        ))}
+      </svg>
+
+      <div className="mt-1 flex flex-wrap gap-3 text-xs text-gray-600">
+        {series.map((s) => (
+          <span key={s.label} className="inline-flex items-center gap-1">
+            <span className="inline-block h-2 w-3 rounded" style={{ background: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
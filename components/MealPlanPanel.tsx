@@ -0,0 +1,421 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Ban, Lock, RefreshCw, Trash2 } from "lucide-react";
+import type { Food, Goal, Nutrients } from "@/types/nutrition";
+import type { Results } from "@/lib/calcs";
+import { todayIsoDate } from "@/lib/adaptiveTdee";
+import { searchFoods, STARTER_FOODS } from "@/lib/foodDb";
+import {
+  selectMealPlanSettings,
+  useFoodStore,
+  type MealPlanSettings,
+} from "@/lib/foodStore";
+import { generateMealPlan, MAX_MEALS, MIN_MEALS, randomSeed } from "@/lib/mealPlan";
+import { GOALS } from "@/lib/macroStrategy";
+import type { MessageKey } from "@/lib/i18n";
+import { useI18n } from "@/lib/useI18n";
+
+const NUTRIENT_COLUMNS: { key: keyof Nutrients; label: MessageKey }[] = [
+  { key: "calories", label: "mealPlan.col.calories" },
+  { key: "proteinG", label: "mealPlan.col.protein" },
+  { key: "fatG", label: "mealPlan.col.fat" },
+  { key: "carbsG", label: "mealPlan.col.carbs" },
+];
+
+type Props = {
+  profileId: string;
+  results: Results | null;
+};
+
+export function MealPlanPanel({ profileId, results }: Props) {
+  const { t, fmt } = useI18n();
+  const customFoods = useFoodStore((s) => s.customFoods);
+  const settings = useFoodStore(selectMealPlanSettings(profileId));
+  const updatePlanSettings = useFoodStore((s) => s.updatePlanSettings);
+  const addLogEntry = useFoodStore((s) => s.addLogEntry);
+
+  const [goal, setGoal] = useState<Goal>("maintenance");
+  const [lockQuery, setLockQuery] = useState("");
+  const [added, setAdded] = useState(false);
+
+  const update = (patch: Partial<MealPlanSettings>) => {
+    updatePlanSettings(profileId, patch);
+    setAdded(false);
+  };
+
+  const foods = useMemo(() => [...customFoods, ...STARTER_FOODS], [customFoods]);
+  const foodName = (id: string) => foods.find((f) => f.id === id)?.name ?? t("mealPlan.deletedFood");
+  const targets = results?.[goal];
+
+  const result = useMemo(
+    () =>
+      targets
+        ? generateMealPlan({
+            targets,
+            foods,
+            mealsPerDay: settings.mealsPerDay,
+            exclusions: settings.exclusions,
+            bannedFoodIds: settings.bannedFoodIds,
+            locked: settings.locked,
+            tolerance: settings.tolerance,
+            seed: settings.seed,
+          })
+        : undefined,
+    [targets, foods, settings],
+  );
+
+  const lock = (food: Food) => {
+    if (!settings.locked.some((l) => l.foodId === food.id)) {
+      update({ locked: [...settings.locked, { foodId: food.id }] });
+    }
+    setLockQuery("");
+  };
+
+  const addToLog = () => {
+    if (!result?.ok) return;
+    const date = todayIsoDate();
+    for (const meal of result.plan.meals) {
+      for (const item of meal.items) {
+        addLogEntry(profileId, date, {
+          foodId: item.food.id,
+          name: item.food.name,
+          grams: item.grams,
+          per100g: item.food.per100g,
+        });
+      }
+    }
+    setAdded(true);
+  };
+
+  return (
+    <section className="rounded-2xl border p-4">
+      <h2 className="text-lg font-semibold">{t("mealPlan.title")}</h2>
+      <p className="mt-1 text-xs text-gray-600">{t("mealPlan.intro")}</p>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-3">
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("mealPlan.goal")}</div>
+          <select
+            className="w-full rounded-xl border px-3 py-2"
+            value={goal}
+            onChange={(e) => setGoal(e.target.value as Goal)}
+          >
+            {GOALS.map((g) => (
+              <option key={g} value={g}>
+                {t(`goal.${g}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("mealPlan.mealsPerDay")}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="number"
+            min={MIN_MEALS}
+            max={MAX_MEALS}
+            step={1}
+            value={settings.mealsPerDay}
+            onChange={(e) => {
+              const n = Number(e.target.value);
+              if (n >= MIN_MEALS && n <= MAX_MEALS) update({ mealsPerDay: n });
+            }}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("mealPlan.tolerance")}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="number"
+            min={1}
+            max={25}
+            step={1}
+            value={Math.round(settings.tolerance * 100)}
+            onChange={(e) => {
+              const n = Number(e.target.value);
+              if (n >= 1 && n <= 25) update({ tolerance: n / 100 });
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.exclusions.vegetarian}
+            onChange={(e) =>
+              update({ exclusions: { ...settings.exclusions, vegetarian: e.target.checked } })
+            }
+          />
+          {t("mealPlan.vegetarian")}
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.exclusions.dairyFree}
+            onChange={(e) =>
+              update({ exclusions: { ...settings.exclusions, dairyFree: e.target.checked } })
+            }
+          />
+          {t("mealPlan.dairyFree")}
+        </label>
+
+        <label className="ml-auto flex items-center gap-2">
+          <span className="text-xs text-gray-600">{t("mealPlan.seed")}</span>
+          <input
+            className="w-28 rounded-xl border px-2 py-1 tabular-nums"
+            type="number"
+            value={settings.seed}
+            onChange={(e) => {
+              const n = Number(e.target.value);
+              if (Number.isInteger(n) && n >= 0) update({ seed: n });
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50"
+          onClick={() => update({ seed: randomSeed() })}
+        >
+          <RefreshCw size={16} /> {t("mealPlan.regenerate")}
+        </button>
+      </div>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-2">
+        <div>
+          <div className="text-sm font-medium">{t("mealPlan.alwaysInclude")}</div>
+          <div className="relative mt-1">
+            <input
+              className="w-full rounded-xl border px-3 py-2"
+              placeholder={t("mealPlan.lockSearch")}
+              value={lockQuery}
+              onChange={(e) => setLockQuery(e.target.value)}
+            />
+            {lockQuery && (
+              <ul className="absolute z-10 mt-1 max-h-48 w-full overflow-auto rounded-xl border bg-white text-sm shadow">
+                {searchFoods(foods, lockQuery).map((f) => (
+                  <li key={f.id}>
+                    <button
+                      type="button"
+                      className="w-full px-3 py-2 text-left hover:bg-gray-50"
+                      onClick={() => lock(f)}
+                    >
+                      {f.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <ul className="mt-2 space-y-1 text-sm">
+            {settings.locked.map((l) => (
+              <li key={l.foodId} className="flex items-center gap-2">
+                <Lock size={14} className="text-gray-500" />
+                <span className="flex-1">{foodName(l.foodId)}</span>
+                <input
+                  className="w-20 rounded-lg border px-2 py-1"
+                  type="number"
+                  placeholder={t("mealPlan.autoGrams")}
+                  value={l.grams ?? ""}
+                  onChange={(e) => {
+                    const g = Number(e.target.value);
+                    update({
+                      locked: settings.locked.map((x) =>
+                        x.foodId === l.foodId
+                          ? { ...x, grams: e.target.value !== "" && g > 0 ? g : undefined }
+                          : x,
+                      ),
+                    });
+                  }}
+                />
+                <button
+                  type="button"
+                  className="text-gray-500 hover:text-red-600"
+                  aria-label={t("mealPlan.unlock", { food: foodName(l.foodId) })}
+                  onClick={() =>
+                    update({ locked: settings.locked.filter((x) => x.foodId !== l.foodId) })
+                  }
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium">{t("mealPlan.neverInclude")}</div>
+          {settings.bannedFoodIds.length === 0 ? (
+            <div className="mt-1 text-xs text-gray-600">{t("mealPlan.noBans")}</div>
+          ) : (
+            <ul className="mt-2 space-y-1 text-sm">
+              {settings.bannedFoodIds.map((id) => (
+                <li key={id} className="flex items-center gap-2">
+                  <Ban size={14} className="text-gray-500" />
+                  <span className="flex-1">{foodName(id)}</span>
+                  <button
+                    type="button"
+                    className="text-xs text-gray-600 hover:underline"
+                    onClick={() =>
+                      update({ bannedFoodIds: settings.bannedFoodIds.filter((x) => x !== id) })
+                    }
+                  >
+                    {t("mealPlan.allow")}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {!targets && (
+        <p className="mt-4 text-sm text-gray-600">{t("mealPlan.needsProfile")}</p>
+      )}
+      {result && !result.ok && (
+        <div className="mt-4 rounded-xl border border-red-200 bg-red-50 p-3 text-sm">
+          {t(`mealPlan.failure.${result.reason}`)}
+        </div>
+      )}
+
+      {result?.ok && targets && (
+        <div className="mt-4 space-y-4">
+          {result.plan.meals.map((meal, m) => (
+            <div key={m}>
+              <div className="text-sm font-medium">{t("mealPlan.meal", { n: m + 1 })}</div>
+              <table className="mt-1 w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-600">
+                    <th className="py-1 font-medium">{t("mealPlan.food")}</th>
+                    <th className="py-1 font-medium">{t("mealPlan.grams")}</th>
+                    {NUTRIENT_COLUMNS.map((c) => (
+                      <th key={c.key} className="py-1 font-medium">
+                        {t(c.label)}
+                      </th>
+                    ))}
+                    <th />
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  {meal.items.map((item) => (
+                    <tr key={item.food.id} className="border-t">
+                      <td className="py-1">
+                        {item.food.name}
+                        {item.locked && <Lock size={12} className="ml-1 inline text-gray-500" />}
+                      </td>
+                      <td className="py-1">{fmt.int(item.grams)}</td>
+                      {NUTRIENT_COLUMNS.map((c) => (
+                        <td key={c.key} className="py-1">
+                          {fmt.int(item.nutrients[c.key])}
+                        </td>
+                      ))}
+                      <td className="py-1 text-right whitespace-nowrap">
+                        {!item.locked && (
+                          <>
+                            <button
+                              type="button"
+                              className="mr-2 text-gray-500 hover:text-gray-900"
+                              aria-label={t("mealPlan.lockFood", { food: item.food.name })}
+                              onClick={() => lock(item.food)}
+                            >
+                              <Lock size={14} />
+                            </button>
+                            <button
+                              type="button"
+                              className="text-gray-500 hover:text-red-600"
+                              aria-label={t("mealPlan.banFood", { food: item.food.name })}
+                              onClick={() =>
+                                update({ bannedFoodIds: [...settings.bannedFoodIds, item.food.id] })
+                              }
+                            >
+                              <Ban size={14} />
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t text-xs text-gray-600">
+                    <td className="py-1">{t("mealPlan.mealTotal")}</td>
+                    <td />
+                    {NUTRIENT_COLUMNS.map((c) => (
+                      <td key={c.key} className="py-1">
+                        {fmt.int(meal.totals[c.key])}
+                      </td>
+                    ))}
+                    <td />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          ))}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-600">
+                <th className="py-1 font-medium">{t("mealPlan.day")}</th>
+                {NUTRIENT_COLUMNS.map((c) => (
+                  <th key={c.key} className="py-1 font-medium">
+                    {t(c.label)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              <tr className="border-t">
+                <td className="py-1">{t("mealPlan.planned")}</td>
+                {NUTRIENT_COLUMNS.map((c) => (
+                  <td key={c.key} className="py-1">
+                    {fmt.int(result.plan.totals[c.key])}
+                  </td>
+                ))}
+              </tr>
+              <tr className="border-t">
+                <td className="py-1">{t("mealPlan.target")}</td>
+                {NUTRIENT_COLUMNS.map((c) => (
+                  <td key={c.key} className="py-1">
+                    {fmt.int(targets[c.key])}
+                  </td>
+                ))}
+              </tr>
+              <tr className="border-t">
+                <td className="py-1">{t("mealPlan.error")}</td>
+                {NUTRIENT_COLUMNS.map((c) => {
+                  const err = result.plan.errors[c.key];
+                  return (
+                    <td key={c.key} className="py-1">
+                      {err.diff >= 0 ? "+" : ""}
+                      {fmt.int(err.diff)} ({fmt.percent(err.pct * 100, 1)})
+                    </td>
+                  );
+                })}
+              </tr>
+            </tbody>
+          </table>
+
+          <div
+            className={`text-xs ${result.plan.withinTolerance ? "text-gray-600" : "text-yellow-700"}`}
+          >
+            {t(result.plan.withinTolerance ? "mealPlan.withinTolerance" : "mealPlan.outsideTolerance", {
+              tolerance: fmt.percent(settings.tolerance * 100),
+              attempts: result.plan.attempts,
+            })}
+          </div>
+
+          <button
+            type="button"
+            className="rounded-xl border px-3 py-2 text-sm hover:bg-gray-50 disabled:opacity-50"
+            disabled={added}
+            onClick={addToLog}
+          >
+            {t(added ? "mealPlan.added" : "mealPlan.addToLog")}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
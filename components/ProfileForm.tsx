@@ -1,36 +1,100 @@
 "use client";
 
-import { useEffect } from "react";
-import { useForm, type FieldPath } from "react-hook-form";
+import { useEffect, useImperativeHandle, useMemo, useRef, type Ref } from "react";
+import { useFieldArray, useForm, type FieldPath } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
 import { zodResolver } from "@hookform/resolvers/zod";
 
 import {
-  profileFormSchema,
+  createProfileFormSchema,
   type ProfileFormValues,
   toProfileInput,
   normalizeBodyFatPercent,
+  bodyFatSubjectFromForm,
+  bodySizeFromForm,
+  DEFAULT_BODY_FAT_ESTIMATE,
+  ACTIVITY_PRESETS,
+  ACTIVITY_MULTIPLIER_BOUNDS,
 } from "@/lib/schema";
-import type { ProfileInput } from "@/types/nutrition";
+import {
+  buildActivity,
+  defaultActivityBuilder,
+  DEFAULT_WORKOUT,
+  JOB_TYPE_IDS,
+  WORKOUT_PRESETS,
+} from "@/lib/activityBuilder";
+import {
+  BMR_METHOD_LABELS,
+  BMR_METHODS,
+  BMR_POLICY_MODES,
+  DEFAULT_BMR_POLICY,
+} from "@/lib/bmrEquations";
+import { LIFE_STAGES } from "@/lib/lifeStage";
+import {
+  convertEnergy,
+  convertLength,
+  convertMass,
+  convertSimpleLength,
+  DEFAULT_UNITS,
+  ENERGY_UNITS,
+  fromKcal,
+  LENGTH_UNITS,
+  MASS_UNITS,
+  SIMPLE_LENGTH_UNIT,
+} from "@/lib/units";
+import { zodLocaleError } from "@/lib/i18n";
+import { useI18n } from "@/lib/useI18n";
+import { estimateAllBodyFat, JP3_SITES, JP7_SITES } from "@/lib/bodyFatEstimate";
+import { DAY_TYPES, defaultCarbCycling, RATIO_BOUNDS, WEEKDAYS } from "@/lib/carbCycling";
+import {
+  CARB_BOUNDS,
+  FAT_BOUNDS,
+  GOALS,
+  MACRO_PRESETS,
+  PROTEIN_BOUNDS,
+  strategyFromPreset,
+} from "@/lib/macroStrategy";
+import type {
+  ActivityBuilderInput,
+  CarbBasis,
+  FatBasis,
+  LengthValue,
+  MacroPresetId,
+  MassValue,
+  ProfileInput,
+  ProteinBasis,
+} from "@/types/nutrition";
+
+export type ProfileFormHandle = {
+  focusField: (name: FieldPath<ProfileFormValues>) => void;
+  // Fill fields from outside the form (e.g. an imported DEXA scan)
+  patchValues: (patch: Partial<ProfileFormValues>) => void;
+};
 
 type Props = {
+  ref?: Ref<ProfileFormHandle>;
   initialValues?: Partial<ProfileFormValues>;
   onChange: (input: ProfileInput) => void;
+  // Raw validated form values, e.g. for persisting the active profile
+  onValuesChange?: (values: ProfileFormValues) => void;
+  // Current recommended BMR, for the activity builder's breakdown
+  bmr?: number;
 };
 
-const ACTIVITY_PRESETS = [
-  { label: "Sedentary (1.2)", value: 1.2 },
-  { label: "Light (1.375)", value: 1.375 },
-  { label: "Moderate (1.55)", value: 1.55 },
-  { label: "Very (1.725)", value: 1.725 },
-  { label: "Extreme (1.9)", value: 1.9 },
-];
+// Blank number inputs count as zero instead of failing validation
+const zeroIfBlank = (value: string) => (value === "" ? 0 : Number(value));
+// ...or as not entered, for optional fields
+const undefinedIfBlank = (value: string) => (value === "" ? undefined : Number(value));
+
+export function ProfileForm({ ref, initialValues, onChange, onValuesChange, bmr }: Props) {
+  const { locale, t, fmt } = useI18n();
+  const schema = useMemo(() => createProfileFormSchema(t), [t]);
 
-export function ProfileForm({ initialValues, onChange }: Props) {
   const form = useForm({
-    resolver: zodResolver(profileFormSchema),
+    resolver: zodResolver(schema, { error: zodLocaleError(locale) }),
     mode: "onChange",
     defaultValues: {
-      unitSystem: "us",
+      units: { ...DEFAULT_UNITS },
       sex: "male",
       ageYears: 30,
 
@@ -39,57 +103,157 @@ export function ProfileForm({ initialValues, onChange }: Props) {
 
       bodyFatMode: "unknown",
       bodyFatPercent: undefined,
+      bodyFatEstimate: { ...DEFAULT_BODY_FAT_ESTIMATE, skinfoldsMm: {} },
+
+      bmrPolicy: { ...DEFAULT_BMR_POLICY, weights: {} },
+      lifeStage: "standard",
 
       activityPreset: 1.55,
       activityUseCustom: false,
       activityCustom: undefined,
+      activityBuilder: defaultActivityBuilder(),
 
       cutDelta: -500,
       bulkDelta: 500,
       recompDelta: -200,
 
-      bulkProteinGPerLb: 1.0,
+      macroStrategy: strategyFromPreset("balanced"),
+      carbCycling: defaultCarbCycling(),
 
       dexaEnabled: false,
       dexaFatMassKg: undefined,
       dexaLeanMassKg: undefined,
+      dexaBoneMineralKg: undefined,
 
       ...initialValues,
     } satisfies ProfileFormValues,
   });
 
-  const { register, watch, formState, setValue, getValues } = form;
+  const { register, watch, formState, setValue, getValues, setFocus, control, trigger } = form;
+  const workouts = useFieldArray({ control, name: "activityBuilder.workouts" });
+
+  // Lets the page jump to the input a diagnostic refers to, or fill imported values
+  useImperativeHandle(
+    ref,
+    () => ({
+      focusField: (name) => setFocus(name),
+      patchValues: (patch) => {
+        for (const [name, value] of Object.entries(patch)) {
+          setValue(name as keyof ProfileFormValues, value as never, {
+            shouldValidate: true,
+            shouldDirty: true,
+          });
+        }
+      },
+    }),
+    [setFocus, setValue],
+  );
   const { errors, isValid } = formState;
 
-  const unitSystem = watch("unitSystem");
+  const energyUnit = watch("units.energy");
+  const massUnit = watch("units.mass");
+  const lengthUnit = watch("units.length");
+  const girthUnit = SIMPLE_LENGTH_UNIT[lengthUnit];
   const bodyFatMode = watch("bodyFatMode");
   const activityUseCustom = !!watch("activityUseCustom");
+  const bmrPolicyMode = watch("bmrPolicy.mode");
   const dexaEnabled = !!watch("dexaEnabled");
+  const macroStrategy = watch("macroStrategy");
+  const carbCyclingEnabled = !!watch("carbCycling.enabled");
+
+  // Every method side by side, so the user can see how far apart they land
+  const sex = watch("sex");
+  const estimateSubject =
+    bodyFatMode === "estimated"
+      ? // Inputs use valueAsNumber, so the watched values are numbers (or NaN) already
+        bodyFatSubjectFromForm({
+          units: watch("units"),
+          sex,
+          ageYears: watch("ageYears"),
+          height: watch("height"),
+          weight: watch("weight"),
+          bodyFatEstimate: watch("bodyFatEstimate"),
+        } as Parameters<typeof bodyFatSubjectFromForm>[0])
+      : undefined;
+  const estimates = estimateSubject ? estimateAllBodyFat(estimateSubject) : [];
+  // 3-site inputs first; the rest only matter for 7-site
+  const skinfoldSites = [
+    ...JP3_SITES[sex],
+    ...JP7_SITES.filter((k) => !JP3_SITES[sex].includes(k)),
+  ];
+
+  // Activity builder preview; needs a BMR from the last valid calculation
+  const bodySize = bodySizeFromForm({
+    units: watch("units"),
+    height: watch("height"),
+    weight: watch("weight"),
+  } as Parameters<typeof bodySizeFromForm>[0]);
+  const activityBreakdown =
+    bmr && bodySize
+      ? buildActivity(watch("activityBuilder") as ActivityBuilderInput, { bmr, ...bodySize })
+      : undefined;
 
   // Live-calculate: when the form becomes valid, push ProfileInput upward
   useEffect(() => {
-    const sub = watch(() => {
+    const emit = () => {
       const vals = getValues();
-      const parsed = profileFormSchema.safeParse(vals);
+      const parsed = schema.safeParse(vals);
       if (parsed.success) {
         onChange(toProfileInput(parsed.data));
+        onValuesChange?.(parsed.data);
       }
-    });
+    };
+    // Initial values (e.g. a restored profile) should produce results without an edit
+    emit();
+    const sub = watch(emit);
     return () => sub.unsubscribe();
-  }, [watch, getValues, onChange]);
+  }, [watch, getValues, onChange, onValuesChange, schema]);
 
-  // If unit system changes, don't keep stale fields "required but hidden"
+  // Messages already on screen were built with the previous locale's translator,
+  // so re-validate when the schema changes (not when errors merely appear)
+  const hasErrors = Object.keys(errors).length > 0;
+  const validatedWith = useRef(schema);
   useEffect(() => {
-    if (unitSystem === "us") {
-      // Clear metric fields
-      setValue("height.cm", undefined);
-      setValue("weight.kg", undefined);
-    } else {
-      // Clear us fields
-      setValue("height.inches", undefined);
-      setValue("weight.lb", undefined);
+    if (validatedWith.current === schema) return;
+    validatedWith.current = schema;
+    if (hasErrors) void trigger();
+  }, [schema, trigger, hasErrors]);
+
+  // When a unit changes, re-express what's already entered instead of clearing it
+  const prevUnits = useRef({ energy: energyUnit, mass: massUnit, length: lengthUnit });
+  useEffect(() => {
+    const prev = prevUnits.current;
+    prevUnits.current = { energy: energyUnit, mass: massUnit, length: lengthUnit };
+    const opts = { shouldValidate: true, shouldDirty: true };
+    // Inputs parse to numbers, so the watched values are numbers (or NaN / undefined) already
+
+    if (prev.mass !== massUnit) {
+      setValue("weight", convertMass(getValues("weight") as MassValue, prev.mass, massUnit), opts);
     }
-  }, [unitSystem, setValue]);
+    if (prev.length !== lengthUnit) {
+      setValue("height", convertLength(getValues("height") as LengthValue, prev.length, lengthUnit), opts);
+      const from = SIMPLE_LENGTH_UNIT[prev.length];
+      for (const site of ["neck", "waist", "hip"] as const) {
+        const n = getValues(`bodyFatEstimate.${site}`) as number | undefined;
+        if (n != null && Number.isFinite(n)) {
+          setValue(`bodyFatEstimate.${site}`, convertSimpleLength(n, from, girthUnit), opts);
+        }
+      }
+    }
+    if (prev.energy !== energyUnit) {
+      for (const name of ["cutDelta", "bulkDelta", "recompDelta"] as const) {
+        setValue(name, convertEnergy(Number(getValues(name)), prev.energy, energyUnit), opts);
+      }
+    }
+  }, [energyUnit, massUnit, lengthUnit, girthUnit, getValues, setValue]);
+
+  // Slider bounds are kcal; kJ moves in 1 kJ steps so converted values stay on the track
+  const deltaRange = (minKcal: number, maxKcal: number) => ({
+    min: Math.round(fromKcal(minKcal, energyUnit)),
+    max: Math.round(fromKcal(maxKcal, energyUnit)),
+    step: energyUnit === "kJ" ? 1 : 25,
+  });
+  const energyLabel = t(`unit.${energyUnit}`);
 
   const FieldError = ({ name }: { name: FieldPath<ProfileFormValues> }) => {
     const leaf = name
@@ -107,32 +271,56 @@ export function ProfileForm({ initialValues, onChange }: Props) {
     <form className="space-y-6">
       {/* Units */}
       <section className="rounded-2xl border p-4">
-        <h2 className="text-lg font-semibold">Profile</h2>
+        <h2 className="text-lg font-semibold">{t("form.profile")}</h2>
 
         <div className="mt-4 grid gap-4 sm:grid-cols-2">
-          <label className="space-y-1">
-            <div className="text-sm font-medium">Units</div>
-            <select
-              className="w-full rounded-xl border px-3 py-2"
-              {...register("unitSystem")}
-            >
-              <option value="us">US (lb / in)</option>
-              <option value="metric">Metric (kg / cm)</option>
-            </select>
-            <FieldError name="unitSystem" />
-          </label>
+          <div className="space-y-1 sm:col-span-2">
+            <div className="text-sm font-medium">{t("form.units")}</div>
+            <div className="grid grid-cols-3 gap-2">
+              <label className="space-y-1">
+                <div className="text-xs text-gray-600">{t("form.units.energy")}</div>
+                <select className="w-full rounded-xl border px-3 py-2" {...register("units.energy")}>
+                  {ENERGY_UNITS.map((u) => (
+                    <option key={u} value={u}>
+                      {t(`unit.${u}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <div className="text-xs text-gray-600">{t("form.units.mass")}</div>
+                <select className="w-full rounded-xl border px-3 py-2" {...register("units.mass")}>
+                  {MASS_UNITS.map((u) => (
+                    <option key={u} value={u}>
+                      {t(`unit.${u}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <div className="text-xs text-gray-600">{t("form.units.length")}</div>
+                <select className="w-full rounded-xl border px-3 py-2" {...register("units.length")}>
+                  {LENGTH_UNITS.map((u) => (
+                    <option key={u} value={u}>
+                      {t(`unit.${u}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
 
           <label className="space-y-1">
-            <div className="text-sm font-medium">Sex</div>
+            <div className="text-sm font-medium">{t("form.sex")}</div>
             <select className="w-full rounded-xl border px-3 py-2" {...register("sex")}>
-              <option value="male">Male</option>
-              <option value="female">Female</option>
+              <option value="male">{t("sex.male")}</option>
+              <option value="female">{t("sex.female")}</option>
             </select>
             <FieldError name="sex" />
           </label>
 
           <label className="space-y-1">
-            <div className="text-sm font-medium">Age (years)</div>
+            <div className="text-sm font-medium">{t("form.age")}</div>
             <input
               className="w-full rounded-xl border px-3 py-2"
               type="number"
@@ -142,78 +330,130 @@ export function ProfileForm({ initialValues, onChange }: Props) {
             <FieldError name="ageYears" />
           </label>
 
-          {unitSystem === "us" ? (
-            <>
-              <label className="space-y-1">
-                <div className="text-sm font-medium">Height (inches)</div>
-                <input
-              className="w-full rounded-xl border px-3 py-2"
-              type="number"
-              step="0.1"
-              {...register("height.inches", { valueAsNumber: true })}
-            />
-            <FieldError name="height.inches" />
-          </label>
+          {lengthUnit === "ftIn" ? (
+            <div className="space-y-1">
+              <div className="text-sm font-medium">{t("form.heightFtIn")}</div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="flex items-center gap-1">
+                  <input
+                    className="w-full rounded-xl border px-3 py-2"
+                    type="number"
+                    step="1"
+                    aria-label={t("unit.ft")}
+                    {...register("height.ft", { setValueAs: undefinedIfBlank })}
+                  />
+                  <span className="text-sm text-gray-600">{t("unit.ft")}</span>
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    className="w-full rounded-xl border px-3 py-2"
+                    type="number"
+                    step="0.1"
+                    aria-label={t("unit.in")}
+                    {...register("height.inches", { setValueAs: undefinedIfBlank })}
+                  />
+                  <span className="text-sm text-gray-600">{t("unit.in")}</span>
+                </label>
+              </div>
+              <FieldError name="height.ft" />
+              <FieldError name="height.inches" />
+            </div>
+          ) : (
+            <label className="space-y-1">
+              <div className="text-sm font-medium">
+                {t(lengthUnit === "in" ? "form.heightIn" : "form.heightCm")}
+              </div>
+              <input
+                className="w-full rounded-xl border px-3 py-2"
+                type="number"
+                step="0.1"
+                {...register(lengthUnit === "in" ? "height.inches" : "height.cm", {
+                  valueAsNumber: true,
+                })}
+              />
+              <FieldError name={lengthUnit === "in" ? "height.inches" : "height.cm"} />
+            </label>
+          )}
 
-              <label className="space-y-1">
-                <div className="text-sm font-medium">Weight (lb)</div>
-                <input
-              className="w-full rounded-xl border px-3 py-2"
-              type="number"
-              step="0.1"
-              {...register("weight.lb", { valueAsNumber: true })}
-            />
-            <FieldError name="weight.lb" />
-          </label>
-            </>
+          {massUnit === "stLb" ? (
+            <div className="space-y-1">
+              <div className="text-sm font-medium">{t("form.weightStLb")}</div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="flex items-center gap-1">
+                  <input
+                    className="w-full rounded-xl border px-3 py-2"
+                    type="number"
+                    step="1"
+                    aria-label={t("unit.st")}
+                    {...register("weight.st", { setValueAs: undefinedIfBlank })}
+                  />
+                  <span className="text-sm text-gray-600">{t("unit.st")}</span>
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    className="w-full rounded-xl border px-3 py-2"
+                    type="number"
+                    step="0.1"
+                    aria-label={t("unit.lb")}
+                    {...register("weight.lb", { setValueAs: undefinedIfBlank })}
+                  />
+                  <span className="text-sm text-gray-600">{t("unit.lb")}</span>
+                </label>
+              </div>
+              <FieldError name="weight.st" />
+              <FieldError name="weight.lb" />
+            </div>
           ) : (
-            <>
-              <label className="space-y-1">
-                <div className="text-sm font-medium">Height (cm)</div>
-                <input
-              className="w-full rounded-xl border px-3 py-2"
-              type="number"
-              step="0.1"
-              {...register("height.cm", { valueAsNumber: true })}
-            />
-            <FieldError name="height.cm" />
-          </label>
+            <label className="space-y-1">
+              <div className="text-sm font-medium">
+                {t(massUnit === "lb" ? "form.weightLb" : "form.weightKg")}
+              </div>
+              <input
+                className="w-full rounded-xl border px-3 py-2"
+                type="number"
+                step="0.1"
+                {...register(massUnit === "lb" ? "weight.lb" : "weight.kg", { valueAsNumber: true })}
+              />
+              <FieldError name={massUnit === "lb" ? "weight.lb" : "weight.kg"} />
+            </label>
+          )}
 
-              <label className="space-y-1">
-                <div className="text-sm font-medium">Weight (kg)</div>
-                <input
-              className="w-full rounded-xl border px-3 py-2"
-              type="number"
-              step="0.1"
-              {...register("weight.kg", { valueAsNumber: true })}
-            />
-            <FieldError name="weight.kg" />
+          <label className="space-y-1 sm:col-span-2">
+            <div className="text-sm font-medium">{t("form.lifeStage")}</div>
+            <select className="w-full rounded-xl border px-3 py-2" {...register("lifeStage")}>
+              {LIFE_STAGES.map((stage) => (
+                <option key={stage} value={stage}>
+                  {t(`lifeStage.${stage}`)}
+                </option>
+              ))}
+            </select>
+            <FieldError name="lifeStage" />
+            <p className="text-xs text-gray-600">{t("form.lifeStageHelp")}</p>
           </label>
-            </>
-          )}
         </div>
       </section>
 
       {/* Body Fat */}
       <section className="rounded-2xl border p-4">
-        <h2 className="text-lg font-semibold">Body Composition</h2>
+        <h2 className="text-lg font-semibold">{t("form.bodyComposition")}</h2>
 
         <div className="mt-4 grid gap-4 sm:grid-cols-2">
           <label className="space-y-1">
-            <div className="text-sm font-medium">Body fat input</div>
+            <div className="text-sm font-medium">{t("form.bodyFatInput")}</div>
             <select
               className="w-full rounded-xl border px-3 py-2"
               {...register("bodyFatMode")}
             >
-              <option value="unknown">I don't know my BF%</option>
-              <option value="known">I know my BF%</option>
+              <option value="unknown">{t("form.bodyFatMode.unknown")}</option>
+              <option value="known">{t("form.bodyFatMode.known")}</option>
+              <option value="estimated">{t("form.bodyFatMode.estimated")}</option>
             </select>
             <FieldError name="bodyFatMode" />
           </label>
 
           {bodyFatMode === "known" ? (
             <label className="space-y-1">
-              <div className="text-sm font-medium">Body fat % (enter 20, not 0.2)</div>
+              <div className="text-sm font-medium">{t("form.bodyFatPercent")}</div>
               <input
                 className="w-full rounded-xl border px-3 py-2"
                 type="number"
@@ -234,66 +474,215 @@ export function ProfileForm({ initialValues, onChange }: Props) {
               />
               <FieldError name="bodyFatPercent" />
             </label>
+          ) : bodyFatMode === "estimated" ? (
+            <label className="space-y-1">
+              <div className="text-sm font-medium">{t("form.densityConversion")}</div>
+              <select
+                className="w-full rounded-xl border px-3 py-2"
+                {...register("bodyFatEstimate.conversion")}
+              >
+                <option value="siri">Siri</option>
+                <option value="brozek">Brozek</option>
+              </select>
+              <div className="text-xs text-gray-600">{t("form.densityConversionHelp")}</div>
+            </label>
           ) : (
-            <div className="text-sm text-gray-600">
-              We'll use the average of Revised Harris-Benedict and Mifflin-St Jeor for BMR.
-            </div>
+            <div className="text-sm text-gray-600">{t("form.bodyFatUnknownHelp")}</div>
           )}
         </div>
 
+        {bodyFatMode === "estimated" && (
+          <div className="mt-4 space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              {(["neck", "waist", "hip"] as const).map((site) => (
+                <label key={site} className="space-y-1">
+                  <div className="text-sm font-medium">
+                    {t(`form.girth.${site}`)} ({t(`unit.${girthUnit}`)})
+                    {site === "hip" && sex === "male" ? ` ${t("form.womenOnly")}` : ""}
+                  </div>
+                  <input
+                    className="w-full rounded-xl border px-3 py-2"
+                    type="number"
+                    step="0.1"
+                    {...register(`bodyFatEstimate.${site}`, { valueAsNumber: true })}
+                  />
+                  <FieldError name={`bodyFatEstimate.${site}`} />
+                </label>
+              ))}
+            </div>
+
+            <div>
+              <div className="text-sm font-medium">{t("form.skinfolds")}</div>
+              <div className="text-xs text-gray-600">
+                {t("form.skinfoldsHelp", {
+                  sites: JP3_SITES[sex].map((k) => t(`skinfold.${k}`)).join(", "),
+                })}
+              </div>
+              <div className="mt-2 grid gap-3 sm:grid-cols-4">
+                {skinfoldSites.map((k) => (
+                  <label key={k} className="space-y-1">
+                    <div className="text-xs font-medium">{t(`skinfold.${k}`)}</div>
+                    <input
+                      className="w-full rounded-xl border px-3 py-2"
+                      type="number"
+                      step="0.5"
+                      {...register(`bodyFatEstimate.skinfoldsMm.${k}`, { valueAsNumber: true })}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-600">
+                  <th className="py-1 font-medium">{t("form.estimate.use")}</th>
+                  <th className="py-1 font-medium">{t("form.estimate.method")}</th>
+                  <th className="py-1 font-medium">{t("form.estimate.bodyFat")}</th>
+                </tr>
+              </thead>
+              <tbody className="tabular-nums">
+                {estimates.map((est) => (
+                  <tr key={est.method} className="border-t">
+                    <td className="py-1">
+                      <input
+                        type="radio"
+                        value={est.method}
+                        {...register("bodyFatEstimate.method")}
+                      />
+                    </td>
+                    <td className="py-1">{t(`estimate.${est.method}`)}</td>
+                    <td className="py-1">
+                      {est.percent != null ? (
+                        fmt.decimal(est.percent, 1)
+                      ) : (
+                        <span className="text-xs text-gray-500">
+                          {t("form.estimate.needs", { missing: est.missing.map((key) => t(key)).join(", ") })}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <FieldError name="bodyFatEstimate.method" />
+          </div>
+        )}
+
         <div className="mt-4 flex items-center gap-2">
           <input type="checkbox" {...register("dexaEnabled")} />
-          <span className="text-sm font-medium">I have DEXA results (Advanced)</span>
+          <span className="text-sm font-medium">{t("form.dexaEnabled")}</span>
         </div>
 
         {dexaEnabled && (
           <div className="mt-4 grid gap-4 sm:grid-cols-2">
             <label className="space-y-1">
-              <div className="text-sm font-medium">DEXA Fat Mass (kg)</div>
+              <div className="text-sm font-medium">{t("form.dexaFatMass")}</div>
               <input
                 className="w-full rounded-xl border px-3 py-2"
                 type="number"
                 step="0.1"
-                {...register("dexaFatMassKg", { valueAsNumber: true })}
+                {...register("dexaFatMassKg", { setValueAs: undefinedIfBlank })}
               />
               <FieldError name="dexaFatMassKg" />
             </label>
 
             <label className="space-y-1">
-              <div className="text-sm font-medium">DEXA Lean Mass (kg)</div>
+              <div className="text-sm font-medium">{t("form.dexaLeanMass")}</div>
               <input
                 className="w-full rounded-xl border px-3 py-2"
                 type="number"
                 step="0.1"
-                {...register("dexaLeanMassKg", { valueAsNumber: true })}
+                {...register("dexaLeanMassKg", { setValueAs: undefinedIfBlank })}
               />
               <FieldError name="dexaLeanMassKg" />
             </label>
 
-            <p className="sm:col-span-2 text-xs text-gray-600">
-              If enabled, we'll use these to compute FM/FFM and show Nelson/Muller (Advanced).
-            </p>
+            <label className="space-y-1">
+              <div className="text-sm font-medium">{t("form.dexaBoneMineral")}</div>
+              <input
+                className="w-full rounded-xl border px-3 py-2"
+                type="number"
+                step="0.01"
+                {...register("dexaBoneMineralKg", { setValueAs: undefinedIfBlank })}
+              />
+              <FieldError name="dexaBoneMineralKg" />
+            </label>
+
+            <p className="sm:col-span-2 text-xs text-gray-600">{t("form.dexaHelp")}</p>
+          </div>
+        )}
+      </section>
+
+      {/* BMR */}
+      <section className="rounded-2xl border p-4">
+        <h2 className="text-lg font-semibold">{t("form.bmr")}</h2>
+
+        <div className="mt-4 grid gap-4 sm:grid-cols-2">
+          <label className="space-y-1">
+            <div className="text-sm font-medium">{t("form.bmr.recommended")}</div>
+            <select className="w-full rounded-xl border px-3 py-2" {...register("bmrPolicy.mode")}>
+              {BMR_POLICY_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {t(`bmrPolicy.${mode}`)}
+                </option>
+              ))}
+            </select>
+            <FieldError name="bmrPolicy.mode" />
+          </label>
+
+          {bmrPolicyMode === "single" && (
+            <label className="space-y-1">
+              <div className="text-sm font-medium">{t("form.bmr.formula")}</div>
+              <select className="w-full rounded-xl border px-3 py-2" {...register("bmrPolicy.method")}>
+                {BMR_METHODS.map((m) => (
+                  <option key={m} value={m}>
+                    {BMR_METHOD_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+              <FieldError name="bmrPolicy.method" />
+            </label>
+          )}
+        </div>
+
+        {bmrPolicyMode === "weighted" && (
+          <div className="mt-4 grid gap-3 sm:grid-cols-2">
+            {BMR_METHODS.map((m) => (
+              <label key={m} className="flex items-center justify-between gap-2 text-sm">
+                <span>{BMR_METHOD_LABELS[m]}</span>
+                <input
+                  className="w-20 rounded-lg border px-2 py-1"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  {...register(`bmrPolicy.weights.${m}`, { setValueAs: zeroIfBlank })}
+                />
+              </label>
+            ))}
           </div>
         )}
+
+        <p className="mt-3 text-xs text-gray-600">{t("form.bmr.help")}</p>
       </section>
 
       {/* Activity */}
       <section className="rounded-2xl border p-4">
-        <h2 className="text-lg font-semibold">Activity</h2>
+        <h2 className="text-lg font-semibold">{t("form.activity")}</h2>
 
         <div className="mt-4 grid gap-4 sm:grid-cols-2">
           <label className="space-y-1">
-            <div className="text-sm font-medium">Preset</div>
+            <div className="text-sm font-medium">{t("form.preset")}</div>
             <select
               className="w-full rounded-xl border px-3 py-2"
               disabled={activityUseCustom}
               {...register("activityPreset", {
-                setValueAs: (value) => (value === "" ? undefined : Number(value)),
+                setValueAs: undefinedIfBlank,
               })}
             >
               {ACTIVITY_PRESETS.map((p) => (
                 <option key={p.value} value={p.value}>
-                  {p.label}
+                  {t(`activityPreset.${p.key}`, { value: p.value })}
                 </option>
               ))}
             </select>
@@ -303,15 +692,17 @@ export function ProfileForm({ initialValues, onChange }: Props) {
           <div className="space-y-2">
             <label className="flex items-center gap-2 text-sm font-medium">
               <input type="checkbox" {...register("activityUseCustom")} />
-              Use custom multiplier
+              {t("form.activity.useCustom")}
             </label>
 
             {activityUseCustom && (
               <label className="space-y-1">
-                <div className="text-sm font-medium">Custom multiplier</div>
+                <div className="text-sm font-medium">{t("form.activity.custom")}</div>
                 <input
                   className="w-full rounded-xl border px-3 py-2"
                   type="number"
+                  min={ACTIVITY_MULTIPLIER_BOUNDS.min}
+                  max={ACTIVITY_MULTIPLIER_BOUNDS.max}
                   step="0.01"
                   {...register("activityCustom", { valueAsNumber: true })}
                 />
@@ -320,75 +711,403 @@ export function ProfileForm({ initialValues, onChange }: Props) {
             )}
           </div>
         </div>
+
+        <details className="mt-4 rounded-xl bg-gray-50 p-3">
+          <summary className="cursor-pointer text-sm font-medium">{t("form.builder.title")}</summary>
+
+          <div className="mt-3 grid gap-4 sm:grid-cols-2">
+            <label className="space-y-1">
+              <div className="text-sm font-medium">{t("form.builder.steps")}</div>
+              <input
+                className="w-full rounded-xl border bg-white px-3 py-2"
+                type="number"
+                min={0}
+                step={500}
+                {...register("activityBuilder.avgSteps", { setValueAs: zeroIfBlank })}
+              />
+            </label>
+
+            <label className="space-y-1">
+              <div className="text-sm font-medium">{t("form.builder.job")}</div>
+              <select
+                className="w-full rounded-xl border bg-white px-3 py-2"
+                {...register("activityBuilder.jobType")}
+              >
+                {JOB_TYPE_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {t(`jobType.${id}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="mt-4 space-y-2">
+            <div className="text-sm font-medium">{t("form.builder.workouts")}</div>
+            {workouts.fields.length === 0 && (
+              <p className="text-xs text-gray-600">{t("form.builder.noWorkouts")}</p>
+            )}
+            {workouts.fields.map((field, i) => (
+              <div key={field.id} className="grid grid-cols-[1fr_4rem_4rem_4rem_auto] items-end gap-2">
+                <label className="space-y-1">
+                  <div className="text-xs text-gray-700">{t("form.builder.type")}</div>
+                  <select
+                    className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                    {...register(`activityBuilder.workouts.${i}.type`, {
+                      // Picking a known activity fills in its typical METs
+                      onChange: (e) => {
+                        const preset = WORKOUT_PRESETS.find((p) => p.id === e.target.value);
+                        if (preset) setValue(`activityBuilder.workouts.${i}.mets`, preset.mets);
+                      },
+                    })}
+                  >
+                    {WORKOUT_PRESETS.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {t(`workout.${p.id}`)}
+                      </option>
+                    ))}
+                    <option value="other">{t("workout.other")}</option>
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <div className="text-xs text-gray-700">{t("form.builder.minutes")}</div>
+                  <input
+                    className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                    type="number"
+                    min={0}
+                    {...register(`activityBuilder.workouts.${i}.minutes`, { setValueAs: zeroIfBlank })}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <div className="text-xs text-gray-700">{t("form.builder.perWeek")}</div>
+                  <input
+                    className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                    type="number"
+                    min={0}
+                    {...register(`activityBuilder.workouts.${i}.perWeek`, { setValueAs: zeroIfBlank })}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <div className="text-xs text-gray-700">{t("form.builder.mets")}</div>
+                  <input
+                    className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                    type="number"
+                    min={1}
+                    step={0.1}
+                    {...register(`activityBuilder.workouts.${i}.mets`, { setValueAs: zeroIfBlank })}
+                  />
+                </label>
+                <button
+                  type="button"
+                  className="rounded-xl border bg-white p-2 hover:bg-gray-50"
+                  aria-label={t("form.builder.removeWorkout")}
+                  onClick={() => workouts.remove(i)}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="inline-flex items-center gap-1 rounded-xl border bg-white px-3 py-2 text-sm hover:bg-gray-50"
+              onClick={() => workouts.append({ ...DEFAULT_WORKOUT })}
+            >
+              <Plus size={14} /> {t("form.builder.addWorkout")}
+            </button>
+          </div>
+
+          {activityBreakdown ? (
+            <div className="mt-4 space-y-3">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-600">
+                    <th className="py-1 font-medium">{t("form.builder.component")}</th>
+                    <th className="py-1 font-medium">{t("form.builder.kcalPerDay")}</th>
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  <tr className="border-t">
+                    <td className="py-1">{t("form.builder.bmr")}</td>
+                    <td className="py-1">{fmt.int(activityBreakdown.bmr)}</td>
+                  </tr>
+                  <tr className="border-t">
+                    <td className="py-1">{t("form.builder.neatSteps")}</td>
+                    <td className="py-1">{fmt.int(activityBreakdown.neatSteps)}</td>
+                  </tr>
+                  <tr className="border-t">
+                    <td className="py-1">{t("form.builder.neatJob")}</td>
+                    <td className="py-1">{fmt.int(activityBreakdown.neatJob)}</td>
+                  </tr>
+                  <tr className="border-t">
+                    <td className="py-1">{t("form.builder.exercise")}</td>
+                    <td className="py-1">{fmt.int(activityBreakdown.exercise)}</td>
+                  </tr>
+                  <tr className="border-t">
+                    <td className="py-1">{t("form.builder.tef")}</td>
+                    <td className="py-1">{fmt.int(activityBreakdown.tef)}</td>
+                  </tr>
+                  <tr className="border-t font-medium">
+                    <td className="py-1">{t("form.builder.total")}</td>
+                    <td className="py-1">{fmt.int(activityBreakdown.tdee)}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <button
+                type="button"
+                className="rounded-xl border bg-white px-3 py-2 text-sm hover:bg-gray-50"
+                onClick={() => {
+                  const opts = { shouldValidate: true, shouldDirty: true };
+    // Inputs parse to numbers, so the watched values are numbers (or NaN / undefined) already
+                  setValue("activityUseCustom", true, opts);
+                  setValue("activityCustom", activityBreakdown.multiplier, opts);
+                }}
+              >
+                {t("form.builder.use", { multiplier: fmt.decimal(activityBreakdown.multiplier, 2) })}
+              </button>
+            </div>
+          ) : (
+            <p className="mt-4 text-xs text-gray-600">{t("form.builder.fillIn")}</p>
+          )}
+
+          <p className="mt-3 text-xs text-gray-600">{t("form.builder.help")}</p>
+        </details>
       </section>
 
-      {/* Deltas + Bulk protein */}
+      {/* Deltas */}
       <section className="rounded-2xl border p-4">
-        <h2 className="text-lg font-semibold">Goal Adjustments</h2>
+        <h2 className="text-lg font-semibold">{t("form.deltas")}</h2>
 
         <div className="mt-4 grid gap-4 sm:grid-cols-2">
           <label className="space-y-1">
-            <div className="text-sm font-medium">Cut delta (kcal/day)</div>
+            <div className="text-sm font-medium">{t("form.delta.cut", { unit: energyLabel })}</div>
             <input
               className="w-full"
               type="range"
-              min={-1000}
-              max={0}
-              step={25}
+              {...deltaRange(-1000, 0)}
               {...register("cutDelta", { valueAsNumber: true })}
             />
-            <div className="text-xs text-gray-600">{Number(watch("cutDelta") ?? 0)} kcal/day</div>
+            <div className="text-xs text-gray-600">
+              {t("unit.perDay", { value: Number(watch("cutDelta") ?? 0), unit: energyLabel })}
+            </div>
             <FieldError name="cutDelta" />
           </label>
 
           <label className="space-y-1">
-            <div className="text-sm font-medium">Bulk delta (kcal/day)</div>
+            <div className="text-sm font-medium">{t("form.delta.bulk", { unit: energyLabel })}</div>
             <input
               className="w-full"
               type="range"
-              min={0}
-              max={1000}
-              step={25}
+              {...deltaRange(0, 1000)}
               {...register("bulkDelta", { valueAsNumber: true })}
             />
-            <div className="text-xs text-gray-600">{Number(watch("bulkDelta") ?? 0)} kcal/day</div>
+            <div className="text-xs text-gray-600">
+              {t("unit.perDay", { value: Number(watch("bulkDelta") ?? 0), unit: energyLabel })}
+            </div>
             <FieldError name="bulkDelta" />
           </label>
 
           <label className="space-y-1">
-            <div className="text-sm font-medium">Recomp delta (kcal/day)</div>
+            <div className="text-sm font-medium">{t("form.delta.recomp", { unit: energyLabel })}</div>
             <input
               className="w-full"
               type="range"
-              min={-500}
-              max={250}
-              step={25}
+              {...deltaRange(-500, 250)}
               {...register("recompDelta", { valueAsNumber: true })}
             />
-            <div className="text-xs text-gray-600">{Number(watch("recompDelta") ?? 0)} kcal/day</div>
+            <div className="text-xs text-gray-600">
+              {t("unit.perDay", { value: Number(watch("recompDelta") ?? 0), unit: energyLabel })}
+            </div>
             <FieldError name="recompDelta" />
           </label>
+        </div>
+      </section>
 
+      {/* Macro strategy */}
+      <section className="rounded-2xl border p-4">
+        <h2 className="text-lg font-semibold">{t("form.macros")}</h2>
+
+        <div className="mt-4 grid gap-4 sm:grid-cols-2">
           <label className="space-y-1">
-            <div className="text-sm font-medium">Bulk protein target (g/lb)</div>
-            <input
-              className="w-full"
-              type="range"
-              min={0.7}
-              max={1.0}
-              step={0.05}
-              {...register("bulkProteinGPerLb", { valueAsNumber: true })}
-            />
-            <div className="text-xs text-gray-600">{Number(watch("bulkProteinGPerLb") ?? 0).toFixed(2)} g/lb</div>
-            <FieldError name="bulkProteinGPerLb" />
+            <div className="text-sm font-medium">{t("form.preset")}</div>
+            <select
+              className="w-full rounded-xl border px-3 py-2"
+              {...register("macroStrategy.preset", {
+                onChange: (e) => {
+                  const preset = e.target.value as MacroPresetId | "custom";
+                  if (preset !== "custom") {
+                    setValue("macroStrategy", strategyFromPreset(preset), {
+                      shouldValidate: true,
+                      shouldDirty: true,
+                    });
+                  }
+                },
+              })}
+            >
+              {(Object.keys(MACRO_PRESETS) as MacroPresetId[]).map((id) => (
+                <option key={id} value={id}>
+                  {t(`macroPreset.${id}`)}
+                </option>
+              ))}
+              <option value="custom">{t("macroPreset.custom")}</option>
+            </select>
           </label>
+
+          <p className="text-xs text-gray-600">{t("form.macros.help")}</p>
+        </div>
+
+        <div className="mt-4 space-y-4">
+          {GOALS.map((goal) => {
+            const rules = macroStrategy?.goals?.[goal];
+            // Any manual edit means we're no longer on a named preset
+            const markCustom = { onChange: () => setValue("macroStrategy.preset", "custom") };
+            return (
+              <div key={goal} className="rounded-xl bg-gray-50 p-3">
+                <div className="text-sm font-medium">{t(`goal.${goal}`)}</div>
+                <div className="mt-2 grid gap-3 sm:grid-cols-3">
+                  <div className="space-y-1">
+                    <div className="text-xs text-gray-700">{t("macro.protein")}</div>
+                    <select
+                      className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                      {...register(`macroStrategy.goals.${goal}.protein.basis`, markCustom)}
+                    >
+                      {(Object.keys(PROTEIN_BOUNDS) as ProteinBasis[]).map((basis) => (
+                        <option key={basis} value={basis}>
+                          {t(`proteinBasis.${basis}`)}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                      type="number"
+                      step={rules ? PROTEIN_BOUNDS[rules.protein.basis].step : 0.05}
+                      {...register(`macroStrategy.goals.${goal}.protein.amount`, {
+                        valueAsNumber: true,
+                        ...markCustom,
+                      })}
+                    />
+                    <FieldError name={`macroStrategy.goals.${goal}.protein.amount`} />
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="text-xs text-gray-700">{t("macro.fat")}</div>
+                    <select
+                      className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                      {...register(`macroStrategy.goals.${goal}.fat.basis`, markCustom)}
+                    >
+                      {(Object.keys(FAT_BOUNDS) as FatBasis[]).map((basis) => (
+                        <option key={basis} value={basis}>
+                          {t(`fatBasis.${basis}`)}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                      type="number"
+                      step={rules ? FAT_BOUNDS[rules.fat.basis].step : 1}
+                      {...register(`macroStrategy.goals.${goal}.fat.amount`, {
+                        valueAsNumber: true,
+                        ...markCustom,
+                      })}
+                    />
+                    <FieldError name={`macroStrategy.goals.${goal}.fat.amount`} />
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="text-xs text-gray-700">{t("macro.carbs")}</div>
+                    <select
+                      className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                      {...register(`macroStrategy.goals.${goal}.carbs.basis`, markCustom)}
+                    >
+                      {(Object.keys(CARB_BOUNDS) as CarbBasis[]).map((basis) => (
+                        <option key={basis} value={basis}>
+                          {t(`carbBasis.${basis}`)}
+                        </option>
+                      ))}
+                    </select>
+                    {rules?.carbs.basis !== "remainder" && (
+                      <input
+                        className="w-full rounded-xl border bg-white px-2 py-1 text-sm"
+                        type="number"
+                        step={rules ? CARB_BOUNDS[rules.carbs.basis].step : 5}
+                        {...register(`macroStrategy.goals.${goal}.carbs.amount`, {
+                          valueAsNumber: true,
+                          ...markCustom,
+                        })}
+                      />
+                    )}
+                    <FieldError name={`macroStrategy.goals.${goal}.carbs.amount`} />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
         </div>
       </section>
 
+      {/* Carb cycling */}
+      <section className="rounded-2xl border p-4">
+        <h2 className="text-lg font-semibold">{t("form.carbCycling")}</h2>
+
+        <div className="mt-4 flex items-center gap-2">
+          <input type="checkbox" {...register("carbCycling.enabled")} />
+          <span className="text-sm font-medium">{t("form.carbCycling.enable")}</span>
+        </div>
+
+        {carbCyclingEnabled && (
+          <>
+            <div className="mt-4 grid grid-cols-7 gap-2">
+              {WEEKDAYS.map((day, i) => (
+                <label key={day} className="space-y-1">
+                  <div className="text-xs font-medium">{t(`weekday.${day}`)}</div>
+                  <select
+                    className="w-full rounded-xl border px-1 py-1 text-xs"
+                    {...register(`carbCycling.days.${i}`)}
+                  >
+                    {DAY_TYPES.map((dayType) => (
+                      <option key={dayType} value={dayType}>
+                        {t(`dayType.${dayType}`)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="mt-4 grid gap-3 sm:grid-cols-4">
+              {DAY_TYPES.map((dayType) => (
+                <div key={dayType} className="space-y-1 rounded-xl bg-gray-50 p-3">
+                  <div className="text-xs font-medium">{t(`dayType.${dayType}`)}</div>
+                  {(["carbs", "fat"] as const).map((key) => (
+                    <label key={key} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-gray-700">
+                        {t("form.carbCycling.multiplier", { macro: t(`macro.${key}`) })}
+                      </span>
+                      <input
+                        className="w-16 rounded-lg border bg-white px-2 py-1"
+                        type="number"
+                        min={RATIO_BOUNDS.min}
+                        max={RATIO_BOUNDS.max}
+                        step={RATIO_BOUNDS.step}
+                        {...register(`carbCycling.ratios.${dayType}.${key}`, { valueAsNumber: true })}
+                      />
+                    </label>
+                  ))}
+                  <FieldError name={`carbCycling.ratios.${dayType}.carbs`} />
+                  <FieldError name={`carbCycling.ratios.${dayType}.fat`} />
+                </div>
+              ))}
+            </div>
+
+            <p className="mt-3 text-xs text-gray-600">{t("form.carbCycling.help")}</p>
+          </>
+        )}
+      </section>
+
       <div className="rounded-2xl border p-4 text-sm">
-        <div className="font-medium">Form status</div>
+        <div className="font-medium">{t("form.status")}</div>
         <div className="mt-1 text-gray-600">
-          {isValid ? "Valid inputs (calculations will run)" : "Fix errors above to run calculations"}
+          {isValid ? t("form.status.valid") : t("form.status.invalid")}
         </div>
       </div>
     </form>
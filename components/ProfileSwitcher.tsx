@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Link, Pencil, Plus, Trash2 } from "lucide-react";
+import { useProfileStore } from "@/lib/profileStore";
+import { useWeightLogStore } from "@/lib/weightLogStore";
+import { useFoodStore } from "@/lib/foodStore";
+import { useDexaHistoryStore } from "@/lib/dexaHistoryStore";
+import { profileFormSchema } from "@/lib/schema";
+import { buildPermalinkUrl } from "@/lib/permalink";
+import { useI18n } from "@/lib/useI18n";
+
+const iconButton =
+  "inline-flex items-center gap-1 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50 disabled:opacity-50";
+
+export function ProfileSwitcher() {
+  const { t } = useI18n();
+  const profiles = useProfileStore((s) => s.profiles);
+  const activeProfileId = useProfileStore((s) => s.activeProfileId);
+  const createProfile = useProfileStore((s) => s.createProfile);
+  const renameProfile = useProfileStore((s) => s.renameProfile);
+  const duplicateProfile = useProfileStore((s) => s.duplicateProfile);
+  const deleteProfile = useProfileStore((s) => s.deleteProfile);
+  const setActiveProfile = useProfileStore((s) => s.setActiveProfile);
+  const removeWeightLog = useWeightLogStore((s) => s.removeProfile);
+  const removeFoodLogs = useFoodStore((s) => s.removeProfile);
+  const removeDexaHistory = useDexaHistoryStore((s) => s.removeProfile);
+
+  const active = profiles.find((p) => p.id === activeProfileId);
+
+  // null = not renaming
+  const [draftName, setDraftName] = useState<string | null>(null);
+
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Only fully valid values can be shared; a fresh profile has nothing to encode yet
+  const shareable = active ? profileFormSchema.safeParse(active.values) : undefined;
+
+  const copyPermalink = async () => {
+    if (!shareable?.success) return;
+    const url = buildPermalinkUrl(shareable.data, window.location.href);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+    } catch {
+      window.prompt(t("profiles.copyPrompt"), url);
+      setLinkCopied(false);
+    }
+  };
+
+  // Logs live in their own stores, keyed by profile id; they go with the profile
+  const deleteWithLogs = (id: string) => {
+    deleteProfile(id);
+    removeWeightLog(id);
+    removeFoodLogs(id);
+    removeDexaHistory(id);
+  };
+
+  const commitRename = () => {
+    if (active && draftName != null) renameProfile(active.id, draftName);
+    setDraftName(null);
+  };
+
+  return (
+    <section className="rounded-2xl border p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{t("profiles.title")}</h2>
+        <div className="text-xs text-gray-600">{t("profiles.storedLocally")}</div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        {draftName != null ? (
+          <input
+            className="min-w-0 flex-1 rounded-xl border px-3 py-2"
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename();
+              if (e.key === "Escape") setDraftName(null);
+            }}
+          />
+        ) : (
+          <select
+            className="min-w-0 flex-1 rounded-xl border px-3 py-2"
+            value={activeProfileId}
+            onChange={(e) => setActiveProfile(e.target.value)}
+          >
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <button type="button" className={iconButton} onClick={() => createProfile()}>
+          <Plus size={16} /> {t("profiles.new")}
+        </button>
+        <button
+          type="button"
+          className={iconButton}
+          disabled={!active}
+          onClick={() => setDraftName(active?.name ?? "")}
+        >
+          <Pencil size={16} /> {t("profiles.rename")}
+        </button>
+        <button
+          type="button"
+          className={iconButton}
+          disabled={!active}
+          onClick={() => active && duplicateProfile(active.id)}
+        >
+          <Copy size={16} /> {t("profiles.duplicate")}
+        </button>
+        <button
+          type="button"
+          className={iconButton}
+          disabled={!active}
+          onClick={() => {
+            if (active && window.confirm(t("profiles.confirmDelete", { name: active.name }))) deleteWithLogs(active.id);
+          }}
+        >
+          <Trash2 size={16} /> {t("profiles.delete")}
+        </button>
+        <button
+          type="button"
+          className={iconButton}
+          disabled={!shareable?.success}
+          onClick={copyPermalink}
+        >
+          <Link size={16} /> {t("profiles.share")}
+        </button>
+      </div>
+
+      {linkCopied && <div className="mt-2 text-xs text-gray-600">{t("profiles.linkCopied")}</div>}
+    </section>
+  );
+}
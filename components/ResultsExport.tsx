@@ -0,0 +1,326 @@
+"use client";
+
+import { useRef, useState, type Ref } from "react";
+import { createPortal } from "react-dom";
+import { toPng } from "html-to-image";
+import { Download, Printer } from "lucide-react";
+import type { EnergyUnit, Goal } from "@/types/nutrition";
+import type { MacroTargets, Results } from "@/lib/calcs";
+import { BMR_METHOD_LABELS, BMR_METHODS } from "@/lib/bmrEquations";
+import { fromKcal } from "@/lib/units";
+import { GOALS } from "@/lib/macroStrategy";
+import { SEVERITY_ORDER } from "@/lib/diagnostics";
+import { translateEngineMessage } from "@/lib/i18n";
+import { useI18n } from "@/lib/useI18n";
+
+/**
+ * Client hand-outs: a PNG summary card for one goal, and a print layout
+ * (browser "Save as PDF") with every goal, the BMR table and the warnings.
+ * Both render in the browser; nothing is sent anywhere.
+ */
+
+function macroRows(t: MacroTargets) {
+  const pct = (kcal: number) => (t.calories > 0 ? Math.round((kcal / t.calories) * 100) : 0);
+  return [
+    { key: "macro.protein", grams: t.proteinG, pct: pct(t.proteinG * 4) },
+    { key: "macro.fat", grams: t.fatG, pct: pct(t.fatG * 9) },
+    { key: "macro.carbs", grams: t.carbsG, pct: pct(t.carbsG * 4) },
+  ] as const;
+}
+
+const fileSlug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+/* =========================
+   PNG summary card
+========================= */
+
+function SummaryCard({
+  ref,
+  results,
+  goal,
+  energyUnit,
+  clientName,
+  date,
+}: {
+  ref: Ref<HTMLDivElement>;
+  results: Results;
+  goal: Goal;
+  energyUnit: EnergyUnit;
+  clientName?: string;
+  date: string;
+}) {
+  const { t, fmt } = useI18n();
+  const targets = results[goal];
+  return (
+    <div ref={ref} className="w-[560px] bg-white p-8 text-gray-900">
+      <div className="flex items-baseline justify-between border-b pb-3">
+        <div className="text-sm font-semibold tracking-wide text-emerald-700 uppercase">
+          {t("app.title")}
+        </div>
+        <div className="text-xs text-gray-500">{date}</div>
+      </div>
+
+      <div className="mt-5">
+        {clientName && <div className="text-sm text-gray-600">{clientName}</div>}
+        <div className="text-2xl font-semibold">
+          {t("export.planTitle", { goal: t(`goal.${goal}`) })}
+        </div>
+        <div className="mt-1 text-4xl font-bold tabular-nums">
+          {t("unit.perDay", {
+            value: fmt.int(fromKcal(targets.calories, energyUnit)),
+            unit: t(`unit.${energyUnit}`),
+          })}
+        </div>
+      </div>
+
+      <div className="mt-6 grid grid-cols-3 gap-3">
+        {macroRows(targets).map((m) => (
+          <div key={m.key} className="rounded-xl bg-gray-50 p-4">
+            <div className="text-xs text-gray-600">{t(m.key)}</div>
+            <div className="mt-1 text-2xl font-semibold tabular-nums">{fmt.grams(m.grams)}</div>
+            <div className="text-xs text-gray-600 tabular-nums">
+              {t("export.percentOfCalories", { percent: fmt.percent(m.pct) })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 text-xs text-gray-600">
+        {t(`export.cardFooter.${results.tdeeSource}`, {
+          bmr: fmt.energy(results.bmr.recommendedBmr, energyUnit),
+          method: BMR_METHOD_LABELS[results.bmr.recommendedMethod],
+          tdee: fmt.energy(results.tdee, energyUnit),
+        })}
+      </div>
+    </div>
+  );
+}
+
+/* =========================
+   Print handout
+========================= */
+
+function PrintHandout({
+  results,
+  energyUnit,
+  clientName,
+  date,
+}: {
+  results: Results;
+  energyUnit: EnergyUnit;
+  clientName?: string;
+  date: string;
+}) {
+  const { t, fmt } = useI18n();
+  const energy = (kcal?: number) => fmt.maybeInt(kcal != null ? fromKcal(kcal, energyUnit) : kcal);
+  return (
+    <div className="hidden bg-white text-black print:block">
+      <header className="border-b pb-3">
+        <div className="text-sm font-semibold tracking-wide uppercase">{t("app.title")}</div>
+        <h1 className="mt-1 text-2xl font-semibold">
+          {clientName ? t("export.handoutTitleFor", { name: clientName }) : t("export.handoutTitle")}
+        </h1>
+        <div className="text-sm text-gray-600">{date}</div>
+      </header>
+
+      <section className="mt-6">
+        <h2 className="text-lg font-semibold">{t("export.dailyTargets")}</h2>
+        <div className="mt-3 grid grid-cols-2 gap-4">
+          {GOALS.map((goal) => (
+            <div key={goal} className="break-inside-avoid rounded-xl border p-4">
+              <div className="flex items-baseline justify-between">
+                <div className="font-semibold">{t(`goal.${goal}`)}</div>
+                <div className="text-sm tabular-nums">
+                  {fmt.energy(results[goal].calories, energyUnit)}
+                </div>
+              </div>
+              <table className="mt-2 w-full text-sm">
+                <tbody className="tabular-nums">
+                  {macroRows(results[goal]).map((m) => (
+                    <tr key={m.key} className="border-t">
+                      <td className="py-1">{t(m.key)}</td>
+                      <td className="py-1 text-right">{fmt.grams(m.grams)}</td>
+                      <td className="py-1 text-right">{fmt.percent(m.pct)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="mt-6 break-before-page">
+        <h2 className="text-lg font-semibold">{t("export.energyExpenditure")}</h2>
+        <table className="mt-3 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-600">
+              <th className="py-1 font-medium">{t("export.bmrFormula")}</th>
+              <th className="py-1 text-right font-medium">
+                {t("export.unitPerDay", { unit: t(`unit.${energyUnit}`) })}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {BMR_METHODS.map((m) => (
+              <tr key={m} className="border-t">
+                <td className="py-1">
+                  {BMR_METHOD_LABELS[m]}
+                  {results.bmr.recommendedMethod === m ? ` ${t("results.recommended")}` : ""}
+                </td>
+                <td className="py-1 text-right">{energy(results.bmr.methods[m])}</td>
+              </tr>
+            ))}
+            <tr className="border-t font-medium">
+              <td className="py-1">
+                {t("results.recommendedBmr")} ({BMR_METHOD_LABELS[results.bmr.recommendedMethod]})
+              </td>
+              <td className="py-1 text-right">{energy(results.bmr.recommendedBmr)}</td>
+            </tr>
+            {results.bmr.spread && (
+              <tr className="border-t">
+                <td className="py-1">{t("export.spread")}</td>
+                <td className="py-1 text-right">
+                  {energy(results.bmr.spread.min)}-{energy(results.bmr.spread.max)}
+                </td>
+              </tr>
+            )}
+            <tr className="border-t">
+              <td className="py-1">{t("results.formulaTdee")}</td>
+              <td className="py-1 text-right">{energy(results.formulaTdee)}</td>
+            </tr>
+            <tr className="border-t font-medium">
+              <td className="py-1">{t(`export.tdeeUsed.${results.tdeeSource}`)}</td>
+              <td className="py-1 text-right">{energy(results.tdee)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      {results.warnings.length > 0 && (
+        <section className="mt-6 break-before-page">
+          <h2 className="text-lg font-semibold">{t("export.warnings")}</h2>
+          {SEVERITY_ORDER.map((severity) => {
+            const group = results.warnings.filter((d) => d.severity === severity);
+            if (group.length === 0) return null;
+            return (
+              <div key={severity} className="mt-3 break-inside-avoid">
+                <div className="text-sm font-semibold">{t(`results.severity.${severity}`)}</div>
+                <ul className="mt-1 list-disc space-y-1 pl-5 text-sm">
+                  {group.map((d, i) => (
+                    <li key={`${d.code}-${i}`}>
+                      {d.goal ? `${t(`goal.${d.goal}`)}: ` : ""}
+                      {translateEngineMessage(t, d.message, (kcal) => fmt.energy(kcal, energyUnit))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </section>
+      )}
+    </div>
+  );
+}
+
+/* =========================
+   Export bar
+========================= */
+
+export function ResultsExport({
+  results,
+  energyUnit,
+  clientName,
+}: {
+  results: Results;
+  energyUnit: EnergyUnit;
+  clientName?: string;
+}) {
+  const { t, locale } = useI18n();
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [goal, setGoal] = useState<Goal>("cut");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const date = new Date().toLocaleDateString(locale);
+
+  const downloadPng = async () => {
+    if (!cardRef.current) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const dataUrl = await toPng(cardRef.current, {
+        pixelRatio: 2,
+        backgroundColor: "#ffffff",
+      });
+      const a = document.createElement("a");
+      a.href = dataUrl;
+      a.download = `${fileSlug(clientName || "macro-plan")}-${goal}.png`;
+      a.click();
+    } catch {
+      setError(t("export.renderFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border p-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("export.goalOnCard")}</div>
+          <select
+            className="rounded-xl border px-3 py-2 text-sm"
+            value={goal}
+            onChange={(e) => setGoal(e.target.value as Goal)}
+          >
+            {GOALS.map((g) => (
+              <option key={g} value={g}>
+                {t(`goal.${g}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50 disabled:opacity-50"
+          disabled={busy}
+          onClick={() => void downloadPng()}
+        >
+          <Download size={16} /> {busy ? t("export.rendering") : t("export.pngCard")}
+        </button>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50"
+          onClick={() => window.print()}
+        >
+          <Printer size={16} /> {t("export.print")}
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-600">{t("export.hint")}</p>
+      {error && <div className="mt-2 text-xs text-red-600">{error}</div>}
+
+      {/* Off-screen rather than display:none, so the card has layout to capture */}
+      <div aria-hidden className="pointer-events-none fixed top-0 -left-[10000px]">
+        <SummaryCard
+          ref={cardRef}
+          results={results}
+          goal={goal}
+          energyUnit={energyUnit}
+          clientName={clientName}
+          date={date}
+        />
+      </div>
+
+      {createPortal(
+        <PrintHandout
+          results={results}
+          energyUnit={energyUnit}
+          clientName={clientName}
+          date={date}
+        />,
+        document.body,
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,22 @@
 "use client";
 
 import type { Results, MacroTargets } from "@/lib/calcs";
-import { fmtInt, fmtMaybeInt } from "@/lib/format";
+import type { AdaptiveTdeeResult } from "@/lib/adaptiveTdee";
+import type { EnergyUnit, ProfileInput } from "@/types/nutrition";
+import { GoalTimeline } from "@/components/GoalTimeline";
+import { ResultsExport } from "@/components/ResultsExport";
+import { TraceList, TraceRow, TraceSymbols } from "@/components/CalcTrace";
+import { WeeklyTargets } from "@/components/WeeklyTargets";
+import { useI18n } from "@/lib/useI18n";
+import { translateEngineMessage } from "@/lib/i18n";
+import { BMR_METHOD_LABELS, BMR_METHODS } from "@/lib/bmrEquations";
+import type { BodyCompositionMetrics, CompositionMetric } from "@/lib/bodyComposition";
+import type { GoalTrace } from "@/lib/calcTrace";
+import {
+  SEVERITY_ORDER,
+  type Diagnostic,
+  type DiagnosticSeverity,
+} from "@/lib/diagnostics";
 
 function StatRow({ label, value }: { label: string; value: string }) {
   return (
@@ -15,95 +30,276 @@ function StatRow({ label, value }: { label: string; value: string }) {
 function MacroCard({
   title,
   data,
+  trace,
+  energyUnit,
 }: {
   title: string;
   data: MacroTargets;
+  trace?: GoalTrace;
+  energyUnit: EnergyUnit;
 }) {
+  const { t, fmt } = useI18n();
   const proteinCals = data.proteinG * 4;
   const fatCals = data.fatG * 9;
   const carbsCals = data.carbsG * 4;
 
   // avoid weird % if calories are 0
-  const pct = (cals: number) =>
-    data.calories > 0 ? Math.round((cals / data.calories) * 100) : 0;
+  const pct = (cals: number) => (data.calories > 0 ? (cals / data.calories) * 100 : 0);
+  const energy = (cals: number) =>
+    t("results.macroEnergy", {
+      energy: fmt.energy(cals, energyUnit),
+      percent: fmt.percent(pct(cals)),
+    });
 
   return (
     <div className="rounded-2xl border p-4">
       <div className="flex items-center justify-between">
         <h3 className="text-base font-semibold">{title}</h3>
         <div className="text-sm text-gray-600 tabular-nums">
-          {fmtInt(data.calories)} kcal
+          {fmt.energy(data.calories, energyUnit)}
         </div>
       </div>
 
       <div className="mt-4 space-y-3">
         <div className="grid grid-cols-3 gap-3">
           <div className="rounded-xl bg-gray-50 p-3">
-            <div className="text-xs text-gray-700">Protein</div>
+            <div className="text-xs text-gray-700">{t("macro.protein")}</div>
             <div className="mt-1 text-xl font-semibold text-gray-900 tabular-nums">
-              {fmtInt(data.proteinG)}g
-            </div>
-            <div className="text-xs text-gray-600 tabular-nums">
-              {fmtInt(proteinCals)} kcal - {pct(proteinCals)}%
+              {fmt.grams(data.proteinG)}
             </div>
+            <div className="text-xs text-gray-600 tabular-nums">{energy(proteinCals)}</div>
           </div>
 
           <div className="rounded-xl bg-gray-50 p-3">
-            <div className="text-xs text-gray-700">Fat</div>
+            <div className="text-xs text-gray-700">{t("macro.fat")}</div>
             <div className="mt-1 text-xl font-semibold text-gray-900 tabular-nums">
-              {fmtInt(data.fatG)}g
-            </div>
-            <div className="text-xs text-gray-600 tabular-nums">
-              {fmtInt(fatCals)} kcal - {pct(fatCals)}%
+              {fmt.grams(data.fatG)}
             </div>
+            <div className="text-xs text-gray-600 tabular-nums">{energy(fatCals)}</div>
           </div>
 
           <div className="rounded-xl bg-gray-50 p-3">
-            <div className="text-xs text-gray-700">Carbs</div>
+            <div className="text-xs text-gray-700">{t("macro.carbs")}</div>
             <div className="mt-1 text-xl font-semibold text-gray-900 tabular-nums">
-              {fmtInt(data.carbsG)}g
-            </div>
-            <div className="text-xs text-gray-600 tabular-nums">
-              {fmtInt(carbsCals)} kcal - {pct(carbsCals)}%
+              {fmt.grams(data.carbsG)}
             </div>
+            <div className="text-xs text-gray-600 tabular-nums">{energy(carbsCals)}</div>
           </div>
         </div>
+
+        {trace && (
+          <details>
+            <summary className="cursor-pointer text-xs text-gray-600">{t("results.showMath")}</summary>
+            <div className="mt-2 space-y-2">
+              <TraceList steps={[trace.calories, trace.protein, trace.fat, trace.carbs]} />
+              <TraceSymbols symbols={["TDEE", "kcal", "W", "LBM", "P", "F", "C"]} />
+            </div>
+          </details>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const COMPOSITION_ROWS: {
+  key: Exclude<keyof BodyCompositionMetrics, "estimateMethod">;
+  unit: "percent" | "kg" | "index";
+}[] = [
+  { key: "bodyFatPercent", unit: "percent" },
+  { key: "fatMassKg", unit: "kg" },
+  { key: "leanMassKg", unit: "kg" },
+  { key: "ffmi", unit: "index" },
+  { key: "normalizedFfmi", unit: "index" },
+  { key: "fmi", unit: "index" },
+  { key: "bmi", unit: "index" },
+];
+
+function BodyCompositionCard({ composition }: { composition: Results["bodyComposition"] }) {
+  const { t, fmt } = useI18n();
+  const { metrics, derived } = composition;
+
+  const value = (m: CompositionMetric, unit: (typeof COMPOSITION_ROWS)[number]["unit"]) =>
+    unit === "percent"
+      ? fmt.percent(m.value, 1)
+      : `${fmt.decimal(m.value, 1)} ${unit === "kg" ? "kg" : "kg/m²"}`;
+  const source = (m: CompositionMetric) =>
+    m.source === "estimatedBf" && metrics.estimateMethod
+      ? `${t("composition.source.estimatedBf")} (${t(`estimate.${metrics.estimateMethod}`)})`
+      : t(`composition.source.${m.source}`);
+
+  return (
+    <div className="rounded-2xl border p-4">
+      <div className="text-base font-semibold">{t("results.bodyComposition")}</div>
+      <table className="mt-2 w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-600">
+            <th className="py-1 font-medium">{t("results.metric")}</th>
+            <th className="py-1 font-medium">{t("results.value")}</th>
+            <th className="py-1 font-medium">{t("results.source")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {COMPOSITION_ROWS.map(({ key, unit }) => {
+            const m = metrics[key];
+            if (!m) return null;
+            return (
+              <tr key={key} className="border-t">
+                <td className="py-1">{t(`results.metric.${key}`)}</td>
+                <td className="py-1 font-medium tabular-nums">{value(m, unit)}</td>
+                <td className="py-1 text-xs text-gray-600">{source(m)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="mt-2 space-y-1 text-xs text-gray-600">
+        {derived && <p>{t(`results.compositionDerived.${derived}`)}</p>}
+        {metrics.leanMassKg?.source === "heightWeight" && <p>{t("results.compositionBoer")}</p>}
+        {metrics.normalizedFfmi && <p>{t("results.normalizedFfmiNote")}</p>}
       </div>
     </div>
   );
 }
 
+const SEVERITY_STYLES: Record<DiagnosticSeverity, { box: string; badge: string }> = {
+  danger: {
+    box: "border-red-200 bg-red-50",
+    badge: "bg-red-100 text-red-800",
+  },
+  warn: {
+    box: "border-yellow-200 bg-yellow-50",
+    badge: "bg-yellow-100 text-yellow-800",
+  },
+  info: {
+    box: "border-blue-200 bg-blue-50",
+    badge: "bg-blue-100 text-blue-800",
+  },
+};
+
+function DiagnosticsList({
+  diagnostics,
+  energyUnit,
+  onFocusField,
+}: {
+  diagnostics: Diagnostic[];
+  energyUnit: EnergyUnit;
+  onFocusField?: (field: NonNullable<Diagnostic["field"]>) => void;
+}) {
+  const { t, fmt } = useI18n();
+  return (
+    <div className="space-y-3">
+      {SEVERITY_ORDER.map((severity) => {
+        const group = diagnostics.filter((d) => d.severity === severity);
+        if (group.length === 0) return null;
+        const style = SEVERITY_STYLES[severity];
+        return (
+          <div key={severity} className={`rounded-2xl border p-4 ${style.box}`}>
+            <div className="text-sm font-semibold">{t(`results.severity.${severity}`)}</div>
+            <ul className="mt-2 space-y-1 text-sm text-gray-700">
+              {group.map((d, i) => {
+                const field = d.field;
+                const message = translateEngineMessage(t, d.message, (kcal) =>
+                  fmt.energy(kcal, energyUnit),
+                );
+                return (
+                  <li key={`${d.code}-${d.goal ?? "profile"}-${i}`} className="flex items-start gap-2">
+                    <span
+                      className={`mt-0.5 shrink-0 rounded px-1.5 text-xs ${style.badge}`}
+                    >
+                      {d.goal ? t(`goal.${d.goal}`) : t("results.profileBadge")}
+                    </span>
+                    {field && onFocusField ? (
+                      <button
+                        type="button"
+                        className="text-left hover:underline"
+                        title={d.code}
+                        onClick={() => onFocusField(field)}
+                      >
+                        {message}
+                      </button>
+                    ) : (
+                      <span title={d.code}>{message}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export function ResultsPanel({
   results,
+  input,
+  adaptive,
+  clientName,
+  onFocusField,
 }: {
   results: Results;
+  input?: ProfileInput;
+  adaptive?: AdaptiveTdeeResult;
+  // Shown on exported cards/handouts
+  clientName?: string;
+  onFocusField?: (field: NonNullable<Diagnostic["field"]>) => void;
 }) {
   // local UI state inside component is fine for this
   // but we'll keep it simple: controlled by HTML <details> pattern
+  const { bmr } = results;
+  const { t, fmt } = useI18n();
+  // The engine works in kcal; only what's shown follows the profile's energy unit
+  const energyUnit = input?.units.energy ?? "kcal";
+  const energy = (kcal: number) => fmt.energy(kcal, energyUnit);
   return (
     <div className="space-y-6">
+      <ResultsExport results={results} energyUnit={energyUnit} clientName={clientName} />
+
       {results.warnings.length > 0 && (
-        <div className="rounded-2xl border border-yellow-200 bg-yellow-50 p-4">
-          <div className="text-sm font-semibold">Warnings</div>
-          <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-gray-700">
-            {results.warnings.map((w, i) => (
-              <li key={i}>{w}</li>
-            ))}
-          </ul>
+        <DiagnosticsList
+          diagnostics={results.warnings}
+          energyUnit={energyUnit}
+          onFocusField={onFocusField}
+        />
+      )}
+
+      {results.lifeStage.stage !== "standard" && (
+        <div className="rounded-2xl border p-4">
+          <div className="text-base font-semibold">
+            {t(`lifeStage.${results.lifeStage.stage}`)}
+            {results.lifeStage.fromAge ? ` ${t("results.lifeStageFromAge")}` : ""}
+          </div>
+          {results.lifeStage.adjustments.length > 0 ? (
+            <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-gray-700">
+              {results.lifeStage.adjustments.map((a) => (
+                <li key={`${a.kind}-${a.goal ?? ""}`}>
+                  {translateEngineMessage(t, a.message, energy)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-sm text-gray-600">{t("results.lifeStageNone")}</p>
+          )}
+          <p className="mt-2 text-xs text-gray-600">
+            {t(`lifeStage.source.${results.lifeStage.stage}`)}
+          </p>
         </div>
       )}
 
+      <BodyCompositionCard composition={results.bodyComposition} />
+
       <details className="group" open>
         <summary className="cursor-pointer list-none">
           <div className="flex items-center justify-between rounded-2xl border p-4 hover:bg-gray-50">
             <div>
-              <div className="text-base font-semibold">BMR & TDEE</div>
-              <div className="text-xs text-gray-600">
-                Click to expand/collapse formulas
-              </div>
+              <div className="text-base font-semibold">{t("results.bmrTdee")}</div>
+              <div className="text-xs text-gray-600">{t("results.expandHint")}</div>
+            </div>
+            <div className="text-sm text-gray-600 group-open:hidden">{t("results.expand")}</div>
+            <div className="text-sm text-gray-600 hidden group-open:block">
+              {t("results.collapse")}
             </div>
-            <div className="text-sm text-gray-600 group-open:hidden">Expand</div>
-            <div className="text-sm text-gray-600 hidden group-open:block">Collapse</div>
           </div>
         </summary>
 
@@ -111,60 +307,128 @@ export function ResultsPanel({
           {/* We can't store state in <details> easily; this shows formulas always in expanded mode.
               If you want a separate "show formulas" toggle, we can do that next. */}
           <div className="rounded-2xl border p-4">
-            <div className="grid gap-3 sm:grid-cols-2">
+            <div className="grid gap-3 sm:grid-cols-3">
               <div className="rounded-xl bg-gray-50 p-3">
-                <div className="text-xs text-gray-700">Recommended BMR</div>
+                <div className="text-xs text-gray-700">{t("results.recommendedBmr")}</div>
                 <div className="mt-1 text-2xl font-semibold text-gray-900 tabular-nums">
-                  {fmtInt(results.bmr.recommendedBmr)} kcal
+                  {energy(results.bmr.recommendedBmr)}
                 </div>
               </div>
 
               <div className="rounded-xl bg-gray-50 p-3">
-                <div className="text-xs text-gray-700">TDEE</div>
+                <div className="text-xs text-gray-700">
+                  {t("results.formulaTdee")}
+                  {results.tdeeSource === "formula" ? ` ${t("results.used")}` : ""}
+                </div>
                 <div className="mt-1 text-2xl font-semibold text-gray-900 tabular-nums">
-                  {fmtInt(results.tdee)} kcal
+                  {energy(results.formulaTdee)}
                 </div>
               </div>
+
+              <div className="rounded-xl bg-gray-50 p-3">
+                <div className="text-xs text-gray-700">
+                  {t("results.adaptiveTdee")}
+                  {results.tdeeSource === "adaptive" ? ` ${t("results.used")}` : ""}
+                </div>
+                <div className="mt-1 text-2xl font-semibold text-gray-900 tabular-nums">
+                  {adaptive?.ok ? energy(adaptive.value.tdee) : t("results.notAvailable")}
+                </div>
+                {adaptive?.ok && (
+                  <div className="text-xs text-gray-600 tabular-nums">
+                    {t("results.adaptiveWindow", {
+                      days: adaptive.value.windowDays,
+                      delta: energy(adaptive.value.tdee - results.formulaTdee),
+                    })}
+                  </div>
+                )}
+              </div>
             </div>
 
             <div className="mt-4 space-y-2">
-              <div className="text-sm font-medium">All BMR formulas</div>
+              <div className="text-sm font-medium">{t("results.derivation")}</div>
+              <TraceList steps={results.trace.inputs} />
+              <TraceRow step={results.trace.recommendedBmr} />
+              <TraceList steps={results.trace.tdee} />
+              <TraceSymbols symbols={["W", "H", "A", "LBM", "FM", "BMR", "PAL"]} />
+            </div>
+
+            <div className="mt-4 space-y-2">
+              <div className="text-sm font-medium">{t("results.allFormulas")}</div>
               <div className="space-y-2">
-                <StatRow
-                  label="Mifflin-St Jeor"
-                  value={`${fmtMaybeInt(results.bmr.methods.mifflin)} kcal`}
-                />
-                <StatRow
-                  label="Revised Harris-Benedict"
-                  value={`${fmtMaybeInt(results.bmr.methods.revisedHarrisBenedict)} kcal`}
-                />
-                <StatRow
-                  label="Katch-McArdle"
-                  value={`${fmtMaybeInt(results.bmr.methods.katchMcArdle)} kcal`}
-                />
-                <StatRow
-                  label="Nelson"
-                  value={`${fmtMaybeInt(results.bmr.methods.nelson)} kcal`}
-                />
-                <StatRow
-                  label="Muller"
-                  value={`${fmtMaybeInt(results.bmr.methods.muller)} kcal`}
-                />
+                {BMR_METHODS.map((m) => {
+                  const recommended =
+                    bmr.recommendedMethod === m ? ` ${t("results.recommended")}` : "";
+                  const label = `${BMR_METHOD_LABELS[m]}${recommended}`;
+                  const traced = results.trace.bmr[m];
+                  return traced ? (
+                    <TraceRow
+                      key={m}
+                      step={{ ...traced, label }}
+                      value={energy(bmr.methods[m] as number)}
+                    />
+                  ) : (
+                    <StatRow
+                      key={m}
+                      label={label}
+                      value={bmr.methods[m] != null ? energy(bmr.methods[m]) : t("results.notAvailable")}
+                    />
+                  );
+                })}
               </div>
 
-              <p className="mt-2 text-xs text-gray-600">
-                Nelson/Muller require FM & FFM (from BF% or DEXA).
-              </p>
+              {bmr.spread && (
+                <div className="mt-3 rounded-xl bg-gray-50 p-3 text-sm">
+                  <div className="flex items-baseline justify-between gap-4">
+                    <div className="text-gray-600">{t("results.spread")}</div>
+                    <div className="font-medium tabular-nums">
+                      {energy(bmr.spread.min)} - {energy(bmr.spread.max)} (
+                      {energy(bmr.spread.max - bmr.spread.min)})
+                    </div>
+                  </div>
+                  <div className="mt-1 text-xs text-gray-600">
+                    {t("results.spreadDetail", {
+                      min: BMR_METHOD_LABELS[bmr.spread.minMethod],
+                      max: BMR_METHOD_LABELS[bmr.spread.maxMethod],
+                      recommended: BMR_METHOD_LABELS[bmr.recommendedMethod],
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <p className="mt-2 text-xs text-gray-600">{t("results.compositionNote")}</p>
             </div>
           </div>
         </div>
       </details>
 
       <div className="grid gap-4">
-        <MacroCard title="Maintenance" data={results.maintenance} />
-        <MacroCard title="Cut" data={results.cut} />
-        <MacroCard title="Bulk" data={results.bulk} />
-        <MacroCard title="Recomp" data={results.recomp} />
+        <MacroCard
+          title={t("goal.maintenance")}
+          data={results.maintenance}
+          trace={results.trace.goals.maintenance}
+          energyUnit={energyUnit}
+        />
+        <MacroCard
+          title={t("goal.cut")}
+          data={results.cut}
+          trace={results.trace.goals.cut}
+          energyUnit={energyUnit}
+        />
+        {input && <GoalTimeline phase="cut" results={results} input={input} />}
+        <MacroCard
+          title={t("goal.bulk")}
+          data={results.bulk}
+          trace={results.trace.goals.bulk}
+          energyUnit={energyUnit}
+        />
+        {input && <GoalTimeline phase="bulk" results={results} input={input} />}
+        <MacroCard
+          title={t("goal.recomp")}
+          data={results.recomp}
+          trace={results.trace.goals.recomp}
+          energyUnit={energyUnit}
+        />
+        {results.weekly && <WeeklyTargets weekly={results.weekly} energyUnit={energyUnit} />}
       </div>
     </div>
   );
@@ -0,0 +1,306 @@
+"use client";
+
+import { useMemo } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import type { MacroPresetId, ProfileInput } from "@/types/nutrition";
+import { useProfileStore } from "@/lib/profileStore";
+import {
+  COMPARE_ROWS,
+  compareScenarios,
+  fieldInUnits,
+  makeScenario,
+  MAX_SCENARIOS,
+  MIN_SCENARIOS,
+  NUMERIC_OVERRIDES,
+  overrideFromUnits,
+  overrideToUnits,
+  type NumericOverride,
+  type Scenario,
+  type ScenarioOverrides,
+} from "@/lib/scenarios";
+import { MACRO_PRESETS } from "@/lib/macroStrategy";
+import { fromKcal, massInSimpleUnit, SIMPLE_MASS_UNIT } from "@/lib/units";
+import { useI18n } from "@/lib/useI18n";
+import { translateEngineMessage } from "@/lib/i18n";
+
+const NO_SCENARIOS: Scenario[] = [];
+
+// What each override falls back to, shown as the input placeholder in the profile's units
+function profileValue(input: ProfileInput, key: NumericOverride): number | undefined {
+  switch (key) {
+    case "ageYears":
+      return input.ageYears;
+    case "weightKg":
+      return massInSimpleUnit(input.weight, input.units.mass);
+    case "bodyFatPercent":
+      return input.bodyFatMode === "unknown" ? undefined : input.bodyFatPercent;
+    case "activityMultiplier":
+      return input.activity.useCustom ? input.activity.customMultiplier : input.activity.preset;
+    case "cutDelta":
+      return overrideToUnits(key, input.deltas.cut, input.units);
+    case "bulkDelta":
+      return overrideToUnits(key, input.deltas.bulk, input.units);
+    case "recompDelta":
+      return overrideToUnits(key, input.deltas.recomp, input.units);
+  }
+}
+
+export function ScenarioComparePanel({
+  profileId,
+  input,
+}: {
+  profileId: string;
+  input: ProfileInput;
+}) {
+  const { t, fmt } = useI18n();
+  const scenarios = useProfileStore(
+    (s) => s.profiles.find((p) => p.id === profileId)?.scenarios ?? NO_SCENARIOS,
+  );
+  const saveScenarios = useProfileStore((s) => s.saveScenarios);
+
+  const outcomes = useMemo(() => compareScenarios(input, scenarios), [input, scenarios]);
+  const baseline = outcomes[0]?.ok ? outcomes[0].results : undefined;
+
+  const update = (id: string, patch: Partial<Omit<Scenario, "id">>) =>
+    saveScenarios(
+      profileId,
+      scenarios.map((sc) => (sc.id === id ? { ...sc, ...patch } : sc)),
+    );
+
+  const setOverride = (sc: Scenario, patch: ScenarioOverrides) =>
+    update(sc.id, { overrides: { ...sc.overrides, ...patch } });
+
+  const energy = (kcal: number) => fmt.energy(kcal, input.units.energy);
+  const fmtDelta = (n: number) => (n > 0 ? `+${fmt.int(n)}` : fmt.int(n));
+  // A, B, C... by position when created; the user can rename them
+  const newScenario = (index: number) =>
+    makeScenario(t("scenario.defaultName", { letter: String.fromCharCode(65 + index) }));
+
+  const unitLabel = {
+    mass: t(`unit.${SIMPLE_MASS_UNIT[input.units.mass]}`),
+    energy: t(`unit.${input.units.energy}`),
+  };
+
+  return (
+    <section className="rounded-2xl border p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{t("scenario.title")}</h2>
+        {scenarios.length > 0 ? (
+          <button
+            type="button"
+            className="rounded-xl border px-3 py-2 text-sm hover:bg-gray-50"
+            onClick={() => saveScenarios(profileId, undefined)}
+          >
+            {t("scenario.close")}
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="rounded-xl border px-3 py-2 text-sm hover:bg-gray-50"
+            onClick={() => saveScenarios(profileId, [newScenario(0), newScenario(1)])}
+          >
+            {t("scenario.open")}
+          </button>
+        )}
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-600">
+          {t("scenario.intro", { min: MIN_SCENARIOS, max: MAX_SCENARIOS })}
+        </p>
+      ) : (
+        <div className="mt-4 space-y-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-600">
+                  <th className="py-1 pr-2 font-medium">{t("scenario.override")}</th>
+                  {scenarios.map((sc) => (
+                    <th key={sc.id} className="py-1 pr-2 font-medium">
+                      <div className="flex items-center gap-1">
+                        <input
+                          className="w-full min-w-24 rounded-lg border px-2 py-1 text-sm font-medium text-gray-900"
+                          value={sc.name}
+                          onChange={(e) => update(sc.id, { name: e.target.value })}
+                        />
+                        {scenarios.length > MIN_SCENARIOS && (
+                          <button
+                            type="button"
+                            className="rounded-lg border p-1.5 hover:bg-gray-50"
+                            aria-label={t("scenario.remove", { name: sc.name })}
+                            onClick={() =>
+                              saveScenarios(
+                                profileId,
+                                scenarios.filter((x) => x.id !== sc.id),
+                              )
+                            }
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {NUMERIC_OVERRIDES.map((key) => {
+                  const field = fieldInUnits(key, input.units);
+                  const fallback = profileValue(input, key);
+                  return (
+                    <tr key={key} className="border-t">
+                      <td className="py-1 pr-2 text-xs text-gray-700">
+                        {t(`scenario.field.${key}`)}
+                        {field.quantity ? ` (${unitLabel[field.quantity]})` : ""}
+                      </td>
+                      {scenarios.map((sc) => {
+                        const stored = sc.overrides[key];
+                        return (
+                          <td key={sc.id} className="py-1 pr-2">
+                            <input
+                              className="w-full rounded-lg border px-2 py-1 tabular-nums"
+                              type="number"
+                              min={field.min}
+                              max={field.max}
+                              step={field.step}
+                              placeholder={fallback != null ? String(fallback) : "-"}
+                              value={
+                                stored != null ? overrideToUnits(key, stored, input.units) : ""
+                              }
+                              onChange={(e) =>
+                                setOverride(sc, {
+                                  [key]:
+                                    e.target.value === ""
+                                      ? undefined
+                                      : overrideFromUnits(key, Number(e.target.value), input.units),
+                                })
+                              }
+                            />
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+                <tr className="border-t">
+                  <td className="py-1 pr-2 text-xs text-gray-700">
+                    {t("scenario.field.macroPreset")}
+                  </td>
+                  {scenarios.map((sc) => (
+                    <td key={sc.id} className="py-1 pr-2">
+                      <select
+                        className="w-full rounded-lg border px-2 py-1"
+                        value={sc.overrides.macroPreset ?? ""}
+                        onChange={(e) =>
+                          setOverride(sc, {
+                            macroPreset: (e.target.value || undefined) as MacroPresetId | undefined,
+                          })
+                        }
+                      >
+                        <option value="">{t("scenario.sameAsProfile")}</option>
+                        {(Object.keys(MACRO_PRESETS) as MacroPresetId[]).map((id) => (
+                          <option key={id} value={id}>
+                            {t(`macroPreset.${id}`)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {scenarios.length < MAX_SCENARIOS && (
+            <button
+              type="button"
+              className="inline-flex items-center gap-1 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50"
+              onClick={() =>
+                saveScenarios(profileId, [...scenarios, newScenario(scenarios.length)])
+              }
+            >
+              <Plus size={14} /> {t("scenario.add")}
+            </button>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-600">
+                  <th className="py-1 pr-2 font-medium">{t("scenario.result")}</th>
+                  {outcomes.map((o, i) => (
+                    <th key={o.scenario.id} className="py-1 pr-2 font-medium">
+                      {o.scenario.name}
+                      {i === 0 ? ` ${t("scenario.baseline")}` : ""}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="tabular-nums">
+                {COMPARE_ROWS.map((row) => (
+                  <tr
+                    key={`${row.group}-${row.label}`}
+                    className={`border-t ${row.group === "energy" ? "font-medium" : ""}`}
+                  >
+                    <td className="py-1 pr-2">
+                      {row.group === "energy"
+                        ? t(row.label)
+                        : t(row.label, { goal: t(`goal.${row.group}`) })}
+                    </td>
+                    {outcomes.map((o, i) => {
+                      if (!o.ok) {
+                        return (
+                          <td key={o.scenario.id} className="py-1 pr-2 text-gray-400">
+                            -
+                          </td>
+                        );
+                      }
+                      const value = row.get(o.results);
+                      const delta = i > 0 && baseline ? value - row.get(baseline) : 0;
+                      return (
+                        <td
+                          key={o.scenario.id}
+                          className={`py-1 pr-2 ${delta !== 0 ? "bg-amber-50" : ""}`}
+                        >
+                          {row.unit === "energy" ? energy(value) : fmt.grams(value)}
+                          {delta !== 0 && (
+                            <span
+                              className={`ml-1 text-xs ${delta > 0 ? "text-emerald-700" : "text-red-700"}`}
+                            >
+                              {fmtDelta(
+                                row.unit === "energy" ? fromKcal(delta, input.units.energy) : delta,
+                              )}
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {outcomes.some((o) => !o.ok) && (
+            <ul className="list-disc space-y-1 pl-5 text-sm text-red-700">
+              {outcomes.flatMap((o) =>
+                o.ok
+                  ? []
+                  : o.issues.map((issue) => {
+                      const msg = translateEngineMessage(t, issue, energy);
+                      return (
+                        <li key={`${o.scenario.id}-${msg}`}>
+                          {o.scenario.name}: {msg}
+                        </li>
+                      );
+                    }),
+              )}
+            </ul>
+          )}
+
+          <p className="text-xs text-gray-600">{t("scenario.footer")}</p>
+        </div>
+      )}
+    </section>
+  );
+}
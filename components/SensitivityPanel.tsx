@@ -0,0 +1,191 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Goal, ProfileInput } from "@/types/nutrition";
+import { LineChart } from "@/components/LineChart";
+import { GOALS } from "@/lib/macroStrategy";
+import { fieldInUnits } from "@/lib/scenarios";
+import { fromKcal, SIMPLE_MASS_UNIT } from "@/lib/units";
+import { useI18n } from "@/lib/useI18n";
+import {
+  defaultRange,
+  MAX_SWEEP_STEPS,
+  runSweep,
+  SWEEP_PARAMS,
+  type SweepParam,
+  type SweepRange,
+} from "@/lib/sensitivity";
+
+export function SensitivityPanel({ input }: { input: ProfileInput }) {
+  const { t, fmt } = useI18n();
+  const [param, setParam] = useState<SweepParam>("weightKg");
+  const [goal, setGoal] = useState<Goal>("cut");
+  // null = the default range for the current param
+  const [customRange, setCustomRange] = useState<SweepRange | null>(null);
+  const range = useMemo(
+    () => customRange ?? defaultRange(input, param),
+    [customRange, input, param],
+  );
+
+  const sweep = useMemo(() => runSweep(input, param, range, goal), [input, param, range, goal]);
+
+  const field = fieldInUnits(param, input.units);
+  const fieldLabel = t(`scenario.field.${param}`);
+  const energyUnit = t(`unit.${input.units.energy}`);
+  const xLabel =
+    field.quantity === "mass"
+      ? `${fieldLabel} (${t(`unit.${SIMPLE_MASS_UNIT[input.units.mass]}`)})`
+      : field.quantity === "energy"
+        ? `${fieldLabel} (${energyUnit})`
+        : fieldLabel;
+  const goalLabel = t(`goal.${goal}`);
+  const x = (n: number) => fmt.number(n, 2);
+  const line = (key: "proteinG" | "fatG" | "carbsG") =>
+    sweep.points.map((p) => ({ x: p.x, y: p[key] }));
+  const energyLine = (key: "bmr" | "tdee" | "calories") =>
+    sweep.points.map((p) => ({ x: p.x, y: fromKcal(p[key], input.units.energy) }));
+
+  const markers = sweep.changes.map((c) => ({
+    x: c.x,
+    label: c.starts
+      ? t(`diagnostic.short.${c.code}`)
+      : t("sensitivity.markerEnds", { warning: t(`diagnostic.short.${c.code}`) }),
+    color: c.starts ? "#dc2626" : "#059669",
+  }));
+
+  const setRange = (patch: Partial<SweepRange>) => setCustomRange({ ...range, ...patch });
+  const numberInput = (key: keyof SweepRange, step: number) => (
+    <input
+      className="w-full rounded-xl border px-3 py-2"
+      type="number"
+      step={step}
+      value={range[key]}
+      onChange={(e) => {
+        const n = Number(e.target.value);
+        if (e.target.value !== "" && Number.isFinite(n)) setRange({ [key]: n });
+      }}
+    />
+  );
+
+  return (
+    <section className="rounded-2xl border p-4">
+      <h2 className="text-lg font-semibold">{t("sensitivity.title")}</h2>
+      <p className="mt-1 text-xs text-gray-600">{t("sensitivity.intro")}</p>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-5">
+        <label className="space-y-1 sm:col-span-2">
+          <div className="text-sm font-medium">{t("sensitivity.input")}</div>
+          <select
+            className="w-full rounded-xl border px-3 py-2"
+            value={param}
+            onChange={(e) => {
+              setParam(e.target.value as SweepParam);
+              setCustomRange(null);
+            }}
+          >
+            {SWEEP_PARAMS.map((p) => (
+              <option key={p} value={p}>
+                {t(`scenario.field.${p}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("sensitivity.from")}</div>
+          {numberInput("from", field.step)}
+        </label>
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("sensitivity.to")}</div>
+          {numberInput("to", field.step)}
+        </label>
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("sensitivity.steps")}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="number"
+            min={2}
+            max={MAX_SWEEP_STEPS}
+            value={range.steps}
+            onChange={(e) => {
+              const n = Number(e.target.value);
+              if (e.target.value !== "" && Number.isFinite(n)) setRange({ steps: n });
+            }}
+          />
+        </label>
+      </div>
+
+      <label className="mt-4 flex items-center gap-2 text-sm">
+        <span className="font-medium">{t("sensitivity.goal")}</span>
+        <select
+          className="rounded-xl border px-2 py-1 text-sm"
+          value={goal}
+          onChange={(e) => setGoal(e.target.value as Goal)}
+        >
+          {GOALS.map((g) => (
+            <option key={g} value={g}>
+              {t(`goal.${g}`)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="mt-4 space-y-6">
+        <div>
+          <div className="text-sm font-medium">{t("sensitivity.energy")}</div>
+          <LineChart
+            xLabel={xLabel}
+            yLabel={energyUnit}
+            markers={markers}
+            series={[
+              { label: t("sensitivity.bmr"), color: "#6b7280", points: energyLine("bmr") },
+              { label: t("sensitivity.tdee"), color: "#111827", points: energyLine("tdee") },
+              {
+                label: t("scenario.row.calories", { goal: goalLabel }),
+                color: "#2563eb",
+                points: energyLine("calories"),
+              },
+            ]}
+          />
+        </div>
+
+        <div>
+          <div className="text-sm font-medium">
+            {t("sensitivity.macros", { goal: goalLabel })}
+          </div>
+          <LineChart
+            xLabel={xLabel}
+            yLabel="g"
+            markers={markers}
+            series={[
+              { label: t("macro.protein"), color: "#dc2626", points: line("proteinG") },
+              { label: t("macro.fat"), color: "#d97706", points: line("fatG") },
+              { label: t("macro.carbs"), color: "#059669", points: line("carbsG") },
+            ]}
+          />
+        </div>
+      </div>
+
+      {(sweep.activeAtStart.length > 0 || sweep.changes.length > 0) && (
+        <ul className="mt-4 list-disc space-y-1 pl-5 text-sm text-gray-700">
+          {sweep.activeAtStart.length > 0 && (
+            <li>
+              {t("sensitivity.activeAtStart", {
+                field: fieldLabel,
+                value: x(sweep.points[0].x),
+                warnings: sweep.activeAtStart.map((c) => t(`diagnostic.short.${c}`)).join(", "),
+              })}
+            </li>
+          )}
+          {sweep.changes.map((c, i) => (
+            <li key={i}>
+              {t(c.starts ? "sensitivity.starts" : "sensitivity.stops", {
+                warning: t(`diagnostic.short.${c.code}`),
+                value: x(c.x),
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import type { EnergyUnit, Goal } from "@/types/nutrition";
+import type { DayTarget } from "@/lib/carbCycling";
+import { GOALS } from "@/lib/macroStrategy";
+import { fromKcal } from "@/lib/units";
+import { useI18n } from "@/lib/useI18n";
+
+const DAY_TYPE_STYLES: Record<DayTarget["dayType"], string> = {
+  training: "bg-emerald-100 text-emerald-800",
+  rest: "bg-gray-100 text-gray-700",
+  highCarb: "bg-amber-100 text-amber-800",
+  lowCarb: "bg-sky-100 text-sky-800",
+};
+
+export function WeeklyTargets({
+  weekly,
+  energyUnit = "kcal",
+}: {
+  weekly: Record<Goal, DayTarget[]>;
+  energyUnit?: EnergyUnit;
+}) {
+  const { t, fmt } = useI18n();
+  const [goal, setGoal] = useState<Goal>("cut");
+  const days = weekly[goal];
+  const avg = (key: "calories" | "proteinG" | "fatG" | "carbsG") =>
+    days.reduce((acc, d) => acc + d[key], 0) / days.length;
+
+  return (
+    <div className="rounded-2xl border p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-semibold">{t("weekly.title")}</h3>
+        <select
+          className="rounded-xl border px-2 py-1 text-sm"
+          value={goal}
+          onChange={(e) => setGoal(e.target.value as Goal)}
+        >
+          {GOALS.map((g) => (
+            <option key={g} value={g}>
+              {t(`goal.${g}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <table className="mt-3 w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-600">
+            <th className="py-1 font-medium">{t("weekly.day")}</th>
+            <th className="py-1 font-medium">{t("weekly.dayType")}</th>
+            <th className="py-1 font-medium">{t(`unit.${energyUnit}`)}</th>
+            <th className="py-1 font-medium">{t("macro.protein")}</th>
+            <th className="py-1 font-medium">{t("macro.fat")}</th>
+            <th className="py-1 font-medium">{t("macro.carbs")}</th>
+          </tr>
+        </thead>
+        <tbody className="tabular-nums">
+          {days.map((d) => (
+            <tr key={d.weekday} className="border-t">
+              <td className="py-1">{t(`weekday.${d.weekday}`)}</td>
+              <td className="py-1">
+                <span className={`rounded px-1.5 text-xs ${DAY_TYPE_STYLES[d.dayType]}`}>
+                  {t(`dayType.${d.dayType}`)}
+                </span>
+              </td>
+              <td className="py-1">{fmt.int(fromKcal(d.calories, energyUnit))}</td>
+              <td className="py-1">{fmt.grams(d.proteinG)}</td>
+              <td className="py-1">{fmt.grams(d.fatG)}</td>
+              <td className="py-1">{fmt.grams(d.carbsG)}</td>
+            </tr>
+          ))}
+          <tr className="border-t font-medium">
+            <td className="py-1" colSpan={2}>
+              {t("weekly.average")}
+            </td>
+            <td className="py-1">{fmt.int(fromKcal(avg("calories"), energyUnit))}</td>
+            <td className="py-1">{fmt.grams(avg("proteinG"))}</td>
+            <td className="py-1">{fmt.grams(avg("fatG"))}</td>
+            <td className="py-1">{fmt.grams(avg("carbsG"))}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
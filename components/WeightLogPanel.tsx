@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import type { EnergyUnit } from "@/types/nutrition";
+import {
+  MAX_WINDOW_DAYS,
+  MIN_WINDOW_DAYS,
+  todayIsoDate,
+  type AdaptiveTdeeResult,
+} from "@/lib/adaptiveTdee";
+import {
+  selectWeightLog,
+  selectWeightLogSettings,
+  useWeightLogStore,
+} from "@/lib/weightLogStore";
+import { fromKcal, fromKg, toKcal, toKg, type SimpleMassUnit } from "@/lib/units";
+import { translateEngineMessage } from "@/lib/i18n";
+import { useI18n } from "@/lib/useI18n";
+
+type Props = {
+  profileId: string;
+  massUnit: SimpleMassUnit;
+  energyUnit: EnergyUnit;
+  adaptive: AdaptiveTdeeResult;
+};
+
+export function WeightLogPanel({ profileId, massUnit, energyUnit, adaptive }: Props) {
+  const { t, fmt } = useI18n();
+  const entries = useWeightLogStore(selectWeightLog(profileId));
+  const settings = useWeightLogStore(selectWeightLogSettings(profileId));
+  const upsertEntry = useWeightLogStore((s) => s.upsertEntry);
+  const removeEntry = useWeightLogStore((s) => s.removeEntry);
+  const updateSettings = useWeightLogStore((s) => s.updateSettings);
+
+  const [date, setDate] = useState(todayIsoDate);
+  const [weight, setWeight] = useState("");
+  const [intake, setIntake] = useState("");
+
+  const toDisplay = (kg: number) => fromKg(kg, massUnit);
+  const fromDisplay = (n: number) => toKg(n, massUnit);
+  const energy = (kcal: number) => fmt.energy(kcal, energyUnit);
+  const massLabel = t(`unit.${massUnit}`);
+  const energyLabel = t(`unit.${energyUnit}`);
+
+  const addEntry = () => {
+    const w = Number(weight);
+    const k = Number(intake);
+    const hasWeight = weight !== "" && Number.isFinite(w) && w > 0;
+    const hasIntake = intake !== "" && Number.isFinite(k) && k >= 0;
+    if (!date || (!hasWeight && !hasIntake)) return;
+
+    upsertEntry(profileId, {
+      date,
+      weightKg: hasWeight ? fromDisplay(w) : undefined,
+      intakeKcal: hasIntake ? toKcal(k, energyUnit) : undefined,
+    });
+    setWeight("");
+    setIntake("");
+  };
+
+  const recent = entries.slice(-14).reverse();
+
+  return (
+    <section className="rounded-2xl border p-4">
+      <h2 className="text-lg font-semibold">{t("weightLog.title")}</h2>
+      <p className="mt-1 text-xs text-gray-600">{t("weightLog.intro")}</p>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-3">
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("weightLog.date")}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("weightLog.weight", { unit: massLabel })}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="number"
+            step="0.1"
+            value={weight}
+            onChange={(e) => setWeight(e.target.value)}
+          />
+        </label>
+
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("weightLog.intake", { unit: energyLabel })}</div>
+          <input
+            className="w-full rounded-xl border px-3 py-2"
+            type="number"
+            step="1"
+            value={intake}
+            onChange={(e) => setIntake(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <button
+        type="button"
+        className="mt-3 rounded-xl border px-3 py-2 text-sm hover:bg-gray-50"
+        onClick={addEntry}
+      >
+        {t("weightLog.save")}
+      </button>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-2">
+        <label className="space-y-1">
+          <div className="text-sm font-medium">{t("weightLog.window")}</div>
+          <input
+            className="w-full"
+            type="range"
+            min={MIN_WINDOW_DAYS}
+            max={MAX_WINDOW_DAYS}
+            step={7}
+            value={settings.windowDays}
+            onChange={(e) => updateSettings(profileId, { windowDays: Number(e.target.value) })}
+          />
+          <div className="text-xs text-gray-600">
+            {t("weightLog.days", { days: settings.windowDays })}
+          </div>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={settings.useAdaptiveTdee}
+            disabled={!adaptive.ok}
+            onChange={(e) => updateSettings(profileId, { useAdaptiveTdee: e.target.checked })}
+          />
+          {t("weightLog.useAdaptive")}
+        </label>
+      </div>
+
+      <div className="mt-3 text-xs text-gray-600">
+        {adaptive.ok
+          ? t("weightLog.trend", {
+              trend: fmt.decimal(toDisplay(adaptive.value.trendKgPerWeek), 2),
+              unit: massLabel,
+              intake: energy(adaptive.value.avgIntakeKcal),
+              days: adaptive.value.windowDays,
+            })
+          : translateEngineMessage(t, adaptive.reason, energy)}
+      </div>
+
+      {recent.length > 0 && (
+        <table className="mt-4 w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-600">
+              <th className="py-1 font-medium">{t("weightLog.date")}</th>
+              <th className="py-1 font-medium">{t("weightLog.weight", { unit: massLabel })}</th>
+              <th className="py-1 font-medium">{t("weightLog.intake", { unit: energyLabel })}</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {recent.map((e) => (
+              <tr key={e.date} className="border-t">
+                <td className="py-1">{e.date}</td>
+                <td className="py-1">
+                  {e.weightKg != null ? fmt.decimal(toDisplay(e.weightKg), 1) : "-"}
+                </td>
+                <td className="py-1">
+                  {e.intakeKcal != null ? fmt.int(fromKcal(e.intakeKcal, energyUnit)) : "-"}
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    className="text-gray-500 hover:text-red-600"
+                    aria-label={t("weightLog.remove", { date: e.date })}
+                    onClick={() => removeEntry(profileId, e.date)}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
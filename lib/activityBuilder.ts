@@ -0,0 +1,124 @@
+import type { ActivityBuilderInput, JobType } from "@/types/nutrition";
+
+/**
+ * Activity multiplier builder: estimates daily energy expenditure from its parts
+ * (BMR + NEAT + exercise + TEF) instead of picking a preset, then expresses the
+ * total as a multiplier on BMR so it can be used as a custom activity level.
+ *
+ * Exercise and job costs use net METs (METs - 1), since the resting MET is
+ * already covered by BMR.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type ActivityBuilderSubject = {
+  bmr: number;
+  weightKg: number;
+  heightCm: number;
+};
+
+export type ActivityBreakdown = {
+  bmr: number;
+  tef: number;
+  neatSteps: number;
+  neatJob: number;
+  neat: number;
+  exercise: number;
+  tdee: number;
+  multiplier: number;
+};
+
+/* =========================
+   Constants
+========================= */
+
+// Thermic effect of food as a share of total intake (maintenance: intake = TDEE)
+export const TEF_FRACTION = 0.1;
+
+// Net cost of walking on level ground, kcal per kg per km
+const WALK_KCAL_PER_KG_KM = 0.5;
+
+// Stride length as a fraction of height
+const STRIDE_HEIGHT_RATIO = 0.415;
+
+const WORK_HOURS_PER_DAY = 8;
+const WORK_DAYS_PER_WEEK = 5;
+
+export const JOB_TYPES: Record<JobType, { label: string; netMets: number }> = {
+  desk: { label: "Desk / seated", netMets: 0.2 },
+  standing: { label: "Standing (retail, lab, teaching)", netMets: 0.6 },
+  active: { label: "On your feet, moving (nursing, hospitality)", netMets: 1.5 },
+  heavy: { label: "Heavy manual (construction, farming)", netMets: 3 },
+};
+
+export const JOB_TYPE_IDS = Object.keys(JOB_TYPES) as JobType[];
+
+// Compendium of Physical Activities values
+export const WORKOUT_PRESETS = [
+  { id: "weightsModerate", label: "Weight training (moderate)", mets: 3.5 },
+  { id: "weightsVigorous", label: "Weight training (vigorous)", mets: 6 },
+  { id: "running", label: "Running (~10 km/h)", mets: 9.8 },
+  { id: "cycling", label: "Cycling (moderate)", mets: 7.5 },
+  { id: "swimming", label: "Swimming laps", mets: 7 },
+  { id: "hiit", label: "HIIT / circuits", mets: 8 },
+  { id: "teamSports", label: "Team sports", mets: 7 },
+  { id: "walkingBrisk", label: "Brisk walking", mets: 4.3 },
+  { id: "yoga", label: "Yoga / mobility", mets: 2.5 },
+] as const;
+
+export const DEFAULT_WORKOUT = { type: "weightsModerate", minutes: 60, perWeek: 3, mets: 3.5 };
+
+export function defaultActivityBuilder(): ActivityBuilderInput {
+  return { avgSteps: 6000, jobType: "desk", workouts: [] };
+}
+
+/* =========================
+   Calculation
+========================= */
+
+const nonNegative = (n: number) => (Number.isFinite(n) && n > 0 ? n : 0);
+
+export function stepsKcal(steps: number, weightKg: number, heightCm: number): number {
+  const km = (nonNegative(steps) * heightCm * STRIDE_HEIGHT_RATIO) / 100_000;
+  return WALK_KCAL_PER_KG_KM * weightKg * km;
+}
+
+// Averaged over the whole week
+export function jobKcal(jobType: JobType, weightKg: number): number {
+  const perWorkday = JOB_TYPES[jobType].netMets * weightKg * WORK_HOURS_PER_DAY;
+  return (perWorkday * WORK_DAYS_PER_WEEK) / 7;
+}
+
+// Averaged over the whole week
+export function exerciseKcal(workouts: ActivityBuilderInput["workouts"], weightKg: number): number {
+  const weekly = workouts.reduce((acc, w) => {
+    const netMets = nonNegative(w.mets - 1);
+    return acc + netMets * weightKg * (nonNegative(w.minutes) / 60) * nonNegative(w.perWeek);
+  }, 0);
+  return weekly / 7;
+}
+
+export function buildActivity(
+  input: ActivityBuilderInput,
+  subject: ActivityBuilderSubject,
+): ActivityBreakdown {
+  const neatSteps = stepsKcal(input.avgSteps, subject.weightKg, subject.heightCm);
+  const neatJob = jobKcal(input.jobType, subject.weightKg);
+  const exercise = exerciseKcal(input.workouts, subject.weightKg);
+
+  // TEF scales with intake, which at maintenance equals the total itself
+  const tdee = (subject.bmr + neatSteps + neatJob + exercise) / (1 - TEF_FRACTION);
+
+  return {
+    bmr: subject.bmr,
+    tef: tdee * TEF_FRACTION,
+    neatSteps,
+    neatJob,
+    neat: neatSteps + neatJob,
+    exercise,
+    tdee,
+    multiplier: Math.round((tdee / subject.bmr) * 100) / 100,
+  };
+}
@@ -0,0 +1,159 @@
+import type { EngineMessage } from "@/lib/i18n";
+
+/**
+ * Adaptive TDEE: back-solve real-world expenditure from logged intake and
+ * the smoothed weight trend (energy balance), instead of predicting it from
+ * BMR formulas x an activity multiplier.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type WeightLogEntry = {
+  date: string; // YYYY-MM-DD (local calendar day)
+  weightKg?: number;
+  intakeKcal?: number;
+};
+
+export type AdaptiveTdeeOptions = {
+  windowDays?: number; // 14..28
+  alpha?: number; // EWMA smoothing factor
+};
+
+export type AdaptiveTdee = {
+  tdee: number;
+  windowDays: number;
+  intakeDays: number;
+  avgIntakeKcal: number;
+  trendStartKg: number;
+  trendEndKg: number;
+  trendKgPerWeek: number;
+};
+
+export type AdaptiveTdeeResult =
+  | { ok: true; value: AdaptiveTdee }
+  | { ok: false; reason: EngineMessage };
+
+/* =========================
+   Helpers
+========================= */
+
+export const MIN_WINDOW_DAYS = 14;
+export const MAX_WINDOW_DAYS = 28;
+
+// Approximate energy content of 1 kg of mixed body tissue change
+const KCAL_PER_KG = 7700;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayIndex = (date: string) => {
+  const [y, m, d] = date.split("-").map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+export function todayIsoDate(): string {
+  const now = new Date();
+  const mm = String(now.getMonth() + 1).padStart(2, "0");
+  const dd = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${mm}-${dd}`;
+}
+
+/**
+ * Exponentially weighted moving average over a daily series.
+ * Days without a weigh-in carry the previous trend forward.
+ * Returns one trend value per calendar day from the first weigh-in onward.
+ */
+export function ewmaTrend(entries: WeightLogEntry[], alpha = 0.1): { day: number; trendKg: number }[] {
+  const weighIns = entries
+    .filter((e) => e.weightKg != null && Number.isFinite(e.weightKg))
+    .map((e) => ({ day: dayIndex(e.date), kg: e.weightKg as number }))
+    .sort((a, b) => a.day - b.day);
+
+  if (weighIns.length === 0) return [];
+
+  const byDay = new Map(weighIns.map((w) => [w.day, w.kg]));
+  const first = weighIns[0].day;
+  const last = weighIns[weighIns.length - 1].day;
+
+  const out: { day: number; trendKg: number }[] = [];
+  let trend = weighIns[0].kg;
+  for (let day = first; day <= last; day++) {
+    const kg = byDay.get(day);
+    if (kg != null) trend = trend + alpha * (kg - trend);
+    out.push({ day, trendKg: trend });
+  }
+  return out;
+}
+
+/* =========================
+   Core calculation
+========================= */
+
+export function calculateAdaptiveTdee(
+  entries: WeightLogEntry[],
+  options: AdaptiveTdeeOptions = {},
+): AdaptiveTdeeResult {
+  const windowDays = clamp(Math.round(options.windowDays ?? 21), MIN_WINDOW_DAYS, MAX_WINDOW_DAYS);
+  const trend = ewmaTrend(entries, options.alpha);
+
+  if (trend.length < 2) {
+    return { ok: false, reason: { key: "adaptive.tooFewWeighIns" } };
+  }
+
+  const endDay = trend[trend.length - 1].day;
+  const span = Math.min(windowDays, endDay - trend[0].day);
+  if (span < MIN_WINDOW_DAYS) {
+    return {
+      ok: false,
+      reason: {
+        key: "adaptive.windowTooShort",
+        params: { min: MIN_WINDOW_DAYS, have: endDay - trend[0].day },
+      },
+    };
+  }
+
+  const startDay = endDay - span;
+  const trendAt = (day: number) => trend[day - trend[0].day].trendKg;
+
+  // Intake on the days the trend moved over: (startDay, endDay]
+  const intakes = entries
+    .filter((e) => e.intakeKcal != null && Number.isFinite(e.intakeKcal))
+    .filter((e) => {
+      const day = dayIndex(e.date);
+      return day > startDay && day <= endDay;
+    })
+    .map((e) => e.intakeKcal as number);
+
+  // Sparse intake logging biases the average; require most of the window
+  const minIntakeDays = Math.ceil(span * 0.7);
+  if (intakes.length < minIntakeDays) {
+    return {
+      ok: false,
+      reason: {
+        key: "adaptive.tooFewIntakeDays",
+        params: { min: minIntakeDays, span, have: intakes.length },
+      },
+    };
+  }
+
+  const avgIntakeKcal = intakes.reduce((sum, k) => sum + k, 0) / intakes.length;
+  const trendStartKg = trendAt(startDay);
+  const trendEndKg = trendAt(endDay);
+  const storedKcalPerDay = ((trendEndKg - trendStartKg) * KCAL_PER_KG) / span;
+
+  return {
+    ok: true,
+    value: {
+      tdee: avgIntakeKcal - storedKcalPerDay,
+      windowDays: span,
+      intakeDays: intakes.length,
+      avgIntakeKcal,
+      trendStartKg,
+      trendEndKg,
+      trendKgPerWeek: ((trendEndKg - trendStartKg) / span) * 7,
+    },
+  };
+}
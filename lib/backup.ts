@@ -0,0 +1,412 @@
+import type { DexaScan, Food, FoodLogEntry } from "@/types/nutrition";
+import type { WeightLogEntry } from "@/lib/adaptiveTdee";
+import type { SavedProfile } from "@/lib/profileStore";
+import type { WeightLogSettings } from "@/lib/weightLogStore";
+import { computeClientSnapshot, type ClientSnapshot } from "@/lib/clients";
+import { GOALS } from "@/lib/macroStrategy";
+import { scenarioFromLegacyWeight } from "@/lib/scenarios";
+import { DEFAULT_UNITS, lengthToCm, massToKg } from "@/lib/units";
+import { toCsv } from "@/lib/csv";
+import {
+  backupFileSchema,
+  backupProfileSchema,
+  foodSchema,
+  profileFormSchema,
+  type ProfileFormValues,
+} from "@/lib/schema";
+import { makeId } from "@/lib/id";
+
+/**
+ * Backups: every profile with its snapshot and logs in one versioned JSON
+ * file, plus flat CSV tables for spreadsheets (export only). Importing never
+ * writes on its own: parseBackup builds an ImportPlan for the user to review,
+ * and resolveImport turns the reviewed plan into the records to store.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export const BACKUP_FORMAT = "nutrition-calculator-backup";
+
+// Bump when the file shape changes; parseBackup refuses files from a newer version
+export const BACKUP_VERSION = 2;
+
+export type BackupProfile = SavedProfile & {
+  weightLog?: WeightLogEntry[];
+  weightLogSettings?: WeightLogSettings;
+  // Keyed by YYYY-MM-DD
+  foodLog?: Record<string, FoodLogEntry[]>;
+  dexaScans?: DexaScan[];
+};
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  profiles: BackupProfile[];
+  customFoods: Food[];
+};
+
+// Persisted store state, gathered by the caller; logs are keyed by SavedProfile.id
+export type BackupSource = {
+  profiles: SavedProfile[];
+  weightLogs: Record<string, WeightLogEntry[]>;
+  weightLogSettings: Record<string, WeightLogSettings>;
+  foodLogs: Record<string, Record<string, FoodLogEntry[]>>;
+  dexaScans: Record<string, DexaScan[]>;
+  customFoods: Food[];
+};
+
+// "keepBoth" imports the profile under a new id next to the local one
+export type ImportAction = "add" | "replace" | "keepBoth" | "skip";
+
+export type ProfileImportItem = {
+  profile: BackupProfile;
+  // Local profile with the same id
+  existing?: SavedProfile;
+  // Differs from the local profile in anything but timestamps and snapshot
+  changed: boolean;
+  action: ImportAction;
+};
+
+export type FoodImportItem = {
+  food: Food;
+  existing?: Food;
+  changed: boolean;
+  action: Exclude<ImportAction, "keepBoth">;
+};
+
+export type RejectedRecord = {
+  kind: "profile" | "food";
+  label: string;
+  // "path: message", as for permalinks
+  issues: string[];
+};
+
+export type ImportPlan = {
+  exportedAt: string;
+  profiles: ProfileImportItem[];
+  foods: FoodImportItem[];
+  rejected: RejectedRecord[];
+};
+
+export type BackupError = "invalidJson" | "notBackup" | "newerVersion";
+
+export type ParseBackupResult = { ok: true; plan: ImportPlan } | { ok: false; error: BackupError };
+
+/* =========================
+   Export
+========================= */
+
+/**
+ * Snapshots are recalculated from the saved values so the exported results
+ * always match them; a profile that doesn't calculate yet exports without one.
+ */
+export function buildBackup(source: BackupSource, now = new Date()): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    profiles: source.profiles.map((p) => {
+      const outcome = computeClientSnapshot(p.values, now.getTime());
+      return {
+        ...p,
+        snapshot: outcome.ok ? outcome.snapshot : undefined,
+        weightLog: source.weightLogs[p.id] ?? [],
+        weightLogSettings: source.weightLogSettings[p.id],
+        foodLog: source.foodLogs[p.id] ?? {},
+        dexaScans: source.dexaScans[p.id] ?? [],
+      };
+    }),
+    customFoods: source.customFoods,
+  };
+}
+
+export const backupJson = (backup: Backup) => JSON.stringify(backup, null, 2);
+
+export type BackupCsvTable = "profiles" | "weightLog" | "foodLog" | "dexaScans";
+
+export const BACKUP_CSV_TABLES: BackupCsvTable[] = [
+  "profiles",
+  "weightLog",
+  "foodLog",
+  "dexaScans",
+];
+
+const round1 = (n?: number) => (n != null ? Math.round(n * 10) / 10 : undefined);
+
+function profileRows(profiles: BackupProfile[]): unknown[][] {
+  const goalHeaders = GOALS.flatMap((g) => [
+    `${g} calories (kcal)`,
+    `${g} protein (g)`,
+    `${g} fat (g)`,
+    `${g} carbs (g)`,
+  ]);
+  return [
+    [
+      "Profile",
+      "Tags",
+      "Goal",
+      "Sex",
+      "Age",
+      "Height (cm)",
+      "Weight (kg)",
+      "Body fat (%)",
+      "BMR (kcal)",
+      "TDEE (kcal)",
+      ...goalHeaders,
+      "Updated",
+    ],
+    ...profiles.map((p) => {
+      const s: ClientSnapshot | undefined = p.snapshot;
+      const input = s?.input;
+      return [
+        p.name,
+        (p.tags ?? []).join("; "),
+        p.goal ?? "",
+        input?.sex,
+        input?.ageYears,
+        input && round1(lengthToCm(input.height, input.units.length)),
+        input && round1(massToKg(input.weight, input.units.mass)),
+        round1(input?.bodyFatPercent),
+        s?.bmr,
+        s?.tdee,
+        ...GOALS.flatMap((g) => {
+          const t = s?.targets[g];
+          return [t?.calories, t?.proteinG, t?.fatG, t?.carbsG];
+        }),
+        new Date(p.updatedAt).toISOString(),
+      ];
+    }),
+  ];
+}
+
+function weightLogRows(profiles: BackupProfile[]): unknown[][] {
+  return [
+    ["Profile", "Date", "Weight (kg)", "Intake (kcal)"],
+    ...profiles.flatMap((p) =>
+      (p.weightLog ?? []).map((e) => [p.name, e.date, e.weightKg, e.intakeKcal]),
+    ),
+  ];
+}
+
+function foodLogRows(profiles: BackupProfile[]): unknown[][] {
+  return [
+    ["Profile", "Date", "Food", "Grams", "Calories (kcal)", "Protein (g)", "Fat (g)", "Carbs (g)"],
+    ...profiles.flatMap((p) =>
+      Object.keys(p.foodLog ?? {})
+        .sort()
+        .flatMap((date) =>
+          (p.foodLog?.[date] ?? []).map((e) => {
+            const k = e.grams / 100;
+            const n = e.per100g;
+            return [
+              p.name,
+              date,
+              e.name,
+              e.grams,
+              round1(n.calories * k),
+              round1(n.proteinG * k),
+              round1(n.fatG * k),
+              round1(n.carbsG * k),
+            ];
+          }),
+        ),
+    ),
+  ];
+}
+
+function dexaRows(profiles: BackupProfile[]): unknown[][] {
+  return [
+    ["Profile", "Date", "Source", "Region", "Fat (kg)", "Lean (kg)", "BMC (kg)"],
+    ...profiles.flatMap((p) =>
+      (p.dexaScans ?? []).flatMap((scan) =>
+        Object.entries(scan.regions).map(([region, m]) => [
+          p.name,
+          scan.date,
+          scan.source,
+          region,
+          m?.fatMassKg,
+          m?.leanMassKg,
+          m?.bmcKg,
+        ]),
+      ),
+    ),
+  ];
+}
+
+/** One table of the backup, in kg / kcal whatever units each profile uses. */
+export function backupCsv(backup: Backup, table: BackupCsvTable): string {
+  const rows = {
+    profiles: profileRows,
+    weightLog: weightLogRows,
+    foodLog: foodLogRows,
+    dexaScans: dexaRows,
+  }[table](backup.profiles);
+  return toCsv(rows);
+}
+
+/* =========================
+   Import
+========================= */
+
+type Issue = { path: PropertyKey[]; message: string };
+
+const issueText = (issues: Issue[], prefix: string[] = []) =>
+  issues.map((i) => `${[...prefix, ...i.path.map(String)].join(".")}: ${i.message}`);
+
+// The first record with an id wins; the store would otherwise end up with two under one id
+const DUPLICATE_ID_ISSUE = "id: another record in this backup already uses this id";
+
+const recordLabel = (raw: unknown, fallback: string) =>
+  raw && typeof raw === "object" && "name" in raw && typeof raw.name === "string" && raw.name
+    ? raw.name
+    : fallback;
+
+// Timestamps and the snapshot follow from the rest, so they don't make a conflict
+const profileKey = (p: SavedProfile) =>
+  JSON.stringify([p.name, p.values, p.tags ?? [], p.goal ?? null, p.scenarios ?? []]);
+
+function parseProfile(
+  raw: unknown,
+  index: number,
+): { ok: true; profile: BackupProfile } | { ok: false; rejected: RejectedRecord } {
+  const label = recordLabel(raw, `Profile ${index + 1}`);
+  const parsed = backupProfileSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      rejected: { kind: "profile", label, issues: issueText(parsed.error.issues) },
+    };
+  }
+
+  // A profile nobody has filled in yet has no values, like a freshly created one
+  let values: Partial<ProfileFormValues> = {};
+  if (Object.keys(parsed.data.values).length > 0) {
+    const checked = profileFormSchema.safeParse(parsed.data.values);
+    if (!checked.success) {
+      return {
+        ok: false,
+        rejected: { kind: "profile", label, issues: issueText(checked.error.issues, ["values"]) },
+      };
+    }
+    values = checked.data;
+  }
+
+  const mass = values.units?.mass ?? DEFAULT_UNITS.mass;
+  return {
+    ok: true,
+    // profileInputSchema only checks structure, so the snapshot is taken as the engine wrote it
+    profile: {
+      ...parsed.data,
+      values,
+      scenarios: parsed.data.scenarios?.map((sc) => scenarioFromLegacyWeight(sc, mass)),
+      snapshot: parsed.data.snapshot as ClientSnapshot | undefined,
+    },
+  };
+}
+
+/**
+ * Reads a backup file against what's stored locally. New profiles default to
+ * "add"; a local profile with the same id is only replaced by default when the
+ * backup's copy differs and is newer. Changed custom foods default to keeping
+ * the local version, since foods carry no timestamps.
+ */
+export function parseBackup(
+  text: string,
+  local: { profiles: SavedProfile[]; customFoods: Food[] },
+): ParseBackupResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "invalidJson" };
+  }
+
+  const file = backupFileSchema.safeParse(json);
+  if (!file.success) return { ok: false, error: "notBackup" };
+  if (file.data.version > BACKUP_VERSION) return { ok: false, error: "newerVersion" };
+
+  const rejected: RejectedRecord[] = [];
+
+  const profiles: ProfileImportItem[] = [];
+  file.data.profiles.forEach((raw, i) => {
+    const result = parseProfile(raw, i);
+    if (!result.ok) {
+      rejected.push(result.rejected);
+      return;
+    }
+    const { profile } = result;
+    if (profiles.some((p) => p.profile.id === profile.id)) {
+      rejected.push({ kind: "profile", label: profile.name, issues: [DUPLICATE_ID_ISSUE] });
+      return;
+    }
+    const existing = local.profiles.find((p) => p.id === profile.id);
+    const changed = existing != null && profileKey(existing) !== profileKey(profile);
+    const action: ImportAction = !existing
+      ? "add"
+      : changed && profile.updatedAt > existing.updatedAt
+        ? "replace"
+        : "skip";
+    profiles.push({ profile, existing, changed, action });
+  });
+
+  const foods: FoodImportItem[] = [];
+  file.data.customFoods.forEach((raw, i) => {
+    const parsed = foodSchema.safeParse(raw);
+    if (!parsed.success) {
+      rejected.push({
+        kind: "food",
+        label: recordLabel(raw, `Food ${i + 1}`),
+        issues: issueText(parsed.error.issues),
+      });
+      return;
+    }
+    const food: Food = { ...parsed.data, custom: true };
+    if (foods.some((f) => f.food.id === food.id)) {
+      rejected.push({ kind: "food", label: food.name, issues: [DUPLICATE_ID_ISSUE] });
+      return;
+    }
+    const existing = local.customFoods.find((f) => f.id === food.id);
+    const changed = existing != null && JSON.stringify(existing) !== JSON.stringify(food);
+    foods.push({ food, existing, changed, action: existing ? "skip" : "add" });
+  });
+
+  return { ok: true, plan: { exportedAt: file.data.exportedAt, profiles, foods, rejected } };
+}
+
+// The profile as the profile store keeps it, without the logs riding along
+export function toSavedProfile(p: BackupProfile): SavedProfile {
+  return {
+    id: p.id,
+    name: p.name,
+    values: p.values,
+    scenarios: p.scenarios,
+    tags: p.tags,
+    goal: p.goal,
+    snapshot: p.snapshot,
+    createdAt: p.createdAt,
+    updatedAt: p.updatedAt,
+  };
+}
+
+/** The records to write once the user has reviewed the plan. */
+export function resolveImport(
+  plan: ImportPlan,
+  newId: () => string = () => makeId("p"),
+): { profiles: BackupProfile[]; customFoods: Food[] } {
+  const profiles = plan.profiles.flatMap(({ profile, action }): BackupProfile[] => {
+    switch (action) {
+      case "add":
+      case "replace":
+        return [profile];
+      case "keepBoth":
+        return [{ ...profile, id: newId(), name: `${profile.name} (imported)` }];
+      case "skip":
+        return [];
+    }
+  });
+  const customFoods = plan.foods.filter((f) => f.action !== "skip").map((f) => f.food);
+  return { profiles, customFoods };
+}
@@ -0,0 +1,438 @@
+import type { BmrMethod, BmrPolicy, BmrPolicyMode, Sex } from "@/types/nutrition";
+import { signed, step, traceNum, type TraceStep } from "@/lib/calcTrace";
+
+/**
+ * BMR equations and the policy that turns them into one recommended value.
+ * Everything here works in kg / cm / years and returns unrounded kcal/day.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type BmrSubject = {
+  sex: Sex;
+  ageYears: number;
+  weightKg: number;
+  heightCm: number;
+  fatMassKg?: number;
+  leanMassKg?: number;
+};
+
+// "mifflinHarrisAverage" is the auto policy's fallback when body fat isn't measured
+export type RecommendedBmrMethod = BmrMethod | "mifflinHarrisAverage" | "mean" | "median" | "weighted";
+
+export type BmrSpread = {
+  min: number;
+  max: number;
+  minMethod: BmrMethod;
+  maxMethod: BmrMethod;
+};
+
+export type RecommendedBmr = {
+  bmr: number;
+  method: RecommendedBmrMethod;
+  // The chosen policy couldn't be applied (e.g. a lean-mass formula without BF%), so auto was used
+  fellBack: boolean;
+  trace: TraceStep;
+};
+
+// Replaces the auto rule for ages the adult equations weren't derived on
+export type AgeAppropriateBmr = { method: BmrMethod; reason: string };
+
+/* =========================
+   Labels
+========================= */
+
+export const BMR_METHODS: BmrMethod[] = [
+  "mifflin",
+  "revisedHarrisBenedict",
+  "harrisBenedict",
+  "schofield",
+  "henry",
+  "owen",
+  "katchMcArdle",
+  "cunningham",
+  "nelson",
+  "muller",
+];
+
+// Need fat-free (and for Nelson/Muller, fat) mass rather than just height/weight
+export const COMPOSITION_METHODS: BmrMethod[] = ["katchMcArdle", "cunningham", "nelson", "muller"];
+
+export const BMR_METHOD_LABELS: Record<RecommendedBmrMethod, string> = {
+  mifflin: "Mifflin-St Jeor",
+  revisedHarrisBenedict: "Revised Harris-Benedict",
+  harrisBenedict: "Harris-Benedict (1919)",
+  schofield: "Schofield (WHO/FAO/UNU)",
+  henry: "Henry (Oxford)",
+  owen: "Owen",
+  katchMcArdle: "Katch-McArdle",
+  cunningham: "Cunningham",
+  nelson: "Nelson",
+  muller: "Muller",
+  mifflinHarrisAverage: "Mifflin-St Jeor / Harris-Benedict average",
+  mean: "Mean of all formulas",
+  median: "Median of all formulas",
+  weighted: "Weighted blend",
+};
+
+export const BMR_POLICY_LABELS: Record<BmrPolicyMode, string> = {
+  auto: "Auto (Katch-McArdle with measured BF%, else Mifflin/Harris-Benedict average)",
+  single: "A single formula",
+  mean: "Mean of available formulas",
+  median: "Median of available formulas",
+  weighted: "Weighted blend",
+};
+export const BMR_POLICY_MODES = Object.keys(BMR_POLICY_LABELS) as BmrPolicyMode[];
+
+export const DEFAULT_BMR_POLICY: BmrPolicy = { mode: "auto", method: "mifflin", weights: {} };
+
+/* =========================
+   Equations
+========================= */
+
+const KCAL_PER_MJ = 239.006;
+
+// Schofield and Henry publish separate coefficients per age band
+type AgeBand = "under3" | "3to10" | "10to18" | "18to30" | "30to60" | "over60";
+
+const AGE_BAND_LABELS: Record<AgeBand, string> = {
+  under3: "under 3",
+  "3to10": "3-10",
+  "10to18": "10-18",
+  "18to30": "18-30",
+  "30to60": "30-60",
+  over60: "60+",
+};
+
+function ageBand(ageYears: number): AgeBand {
+  if (ageYears < 3) return "under3";
+  if (ageYears < 10) return "3to10";
+  if (ageYears < 18) return "10to18";
+  if (ageYears < 30) return "18to30";
+  if (ageYears < 60) return "30to60";
+  return "over60";
+}
+
+// kcal/day = a * kg + b
+const SCHOFIELD: Record<Sex, Record<AgeBand, [number, number]>> = {
+  male: {
+    under3: [59.512, -30.4],
+    "3to10": [22.706, 504.3],
+    "10to18": [17.686, 658.2],
+    "18to30": [15.057, 692.2],
+    "30to60": [11.472, 873.1],
+    over60: [11.711, 587.7],
+  },
+  female: {
+    under3: [58.317, -31.1],
+    "3to10": [20.315, 485.9],
+    "10to18": [13.384, 692.6],
+    "18to30": [14.818, 486.6],
+    "30to60": [8.126, 845.6],
+    over60: [9.082, 658.5],
+  },
+};
+
+// MJ/day = a * kg + b * m + c
+const HENRY: Record<Sex, Record<AgeBand, [number, number, number]>> = {
+  male: {
+    under3: [0.118, 3.59, -1.55],
+    "3to10": [0.0632, 1.31, 1.28],
+    "10to18": [0.0651, 1.11, 1.25],
+    "18to30": [0.06, 1.31, 0.473],
+    "30to60": [0.0476, 2.26, -0.574],
+    over60: [0.0478, 2.26, -1.07],
+  },
+  female: {
+    under3: [0.127, 2.94, -1.2],
+    "3to10": [0.0666, 0.878, 1.46],
+    "10to18": [0.0393, 1.04, 1.93],
+    "18to30": [0.0433, 2.57, -1.18],
+    "30to60": [0.0342, 2.1, -0.0486],
+    over60: [0.0356, 1.76, 0.0448],
+  },
+};
+
+export function explainBmrMethods(s: BmrSubject): Partial<Record<BmrMethod, TraceStep>> {
+  const male = s.sex === "male";
+  const { weightKg: w, heightCm: h, ageYears: a, fatMassKg: fm, leanMassKg: ffm } = s;
+  const band = ageBand(a);
+  const W = traceNum(w);
+  const H = traceNum(h);
+  const A = traceNum(a);
+  const L = BMR_METHOD_LABELS;
+
+  const [sa, sb] = SCHOFIELD[s.sex][band];
+  const [ha, hb, hc] = HENRY[s.sex][band];
+  const sexConst = male ? 5 : -161;
+  const bandNote = `${s.sex}, ${AGE_BAND_LABELS[band]} coefficients`;
+
+  const mifflin = step(
+    L.mifflin,
+    `10 × W + 6.25 × H - 5 × A ${male ? "+ 5" : "- 161"}`,
+    `10 × ${W} + 6.25 × ${H} - 5 × ${A} ${signed(sexConst)}`,
+    10 * w + 6.25 * h - 5 * a + sexConst,
+  );
+
+  const revisedHarrisBenedict = male
+    ? step(
+        L.revisedHarrisBenedict,
+        "88.362 + 13.397 × W + 4.799 × H - 5.677 × A",
+        `88.362 + 13.397 × ${W} + 4.799 × ${H} - 5.677 × ${A}`,
+        88.362 + 13.397 * w + 4.799 * h - 5.677 * a,
+      )
+    : step(
+        L.revisedHarrisBenedict,
+        "447.593 + 9.247 × W + 3.098 × H - 4.33 × A",
+        `447.593 + 9.247 × ${W} + 3.098 × ${H} - 4.33 × ${A}`,
+        447.593 + 9.247 * w + 3.098 * h - 4.33 * a,
+      );
+
+  const harrisBenedict = male
+    ? step(
+        L.harrisBenedict,
+        "66.473 + 13.7516 × W + 5.0033 × H - 6.755 × A",
+        `66.473 + 13.7516 × ${W} + 5.0033 × ${H} - 6.755 × ${A}`,
+        66.473 + 13.7516 * w + 5.0033 * h - 6.755 * a,
+      )
+    : step(
+        L.harrisBenedict,
+        "655.0955 + 9.5634 × W + 1.8496 × H - 4.6756 × A",
+        `655.0955 + 9.5634 × ${W} + 1.8496 × ${H} - 4.6756 × ${A}`,
+        655.0955 + 9.5634 * w + 1.8496 * h - 4.6756 * a,
+      );
+
+  const schofield = step(
+    L.schofield,
+    `${sa} × W ${signed(sb)}`,
+    `${sa} × ${W} ${signed(sb)}`,
+    sa * w + sb,
+    "kcal",
+    bandNote,
+  );
+
+  const henry = step(
+    L.henry,
+    `(${ha} × W + ${hb} × H/100 ${signed(hc, 4)}) × ${KCAL_PER_MJ}`,
+    `(${ha} × ${W} + ${hb} × ${traceNum(h / 100, 3)} ${signed(hc, 4)}) × ${KCAL_PER_MJ}`,
+    (ha * w + hb * (h / 100) + hc) * KCAL_PER_MJ,
+    "kcal",
+    `${bandNote}; published in MJ/day`,
+  );
+
+  const owen = male
+    ? step(L.owen, "879 + 10.2 × W", `879 + 10.2 × ${W}`, 879 + 10.2 * w)
+    : step(L.owen, "795 + 7.18 × W", `795 + 7.18 × ${W}`, 795 + 7.18 * w);
+
+  const LBM = ffm != null ? traceNum(ffm) : "";
+  const FM = fm != null ? traceNum(fm) : "";
+
+  return {
+    mifflin,
+    revisedHarrisBenedict,
+    harrisBenedict,
+    schofield,
+    henry,
+    owen,
+    katchMcArdle:
+      ffm != null
+        ? step(L.katchMcArdle, "370 + 21.6 × LBM", `370 + 21.6 × ${LBM}`, 370 + 21.6 * ffm)
+        : undefined,
+    cunningham:
+      ffm != null
+        ? step(L.cunningham, "500 + 22 × LBM", `500 + 22 × ${LBM}`, 500 + 22 * ffm)
+        : undefined,
+    nelson:
+      fm != null && ffm != null
+        ? step(
+            L.nelson,
+            "25.8 × LBM + 4.04 × FM",
+            `25.8 × ${LBM} + 4.04 × ${FM}`,
+            25.8 * ffm + 4.04 * fm,
+          )
+        : undefined,
+    muller:
+      fm != null && ffm != null
+        ? step(
+            L.muller,
+            "13.587 × LBM + 9.613 × FM + 198",
+            `13.587 × ${LBM} + 9.613 × ${FM} + 198`,
+            13.587 * ffm + 9.613 * fm + 198,
+          )
+        : undefined,
+  };
+}
+
+export function computeBmrMethods(s: BmrSubject): Partial<Record<BmrMethod, number>> {
+  const steps = explainBmrMethods(s);
+  return Object.fromEntries(BMR_METHODS.map((m) => [m, steps[m]?.value]));
+}
+
+/* =========================
+   Policy
+========================= */
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+function median(xs: number[]): number {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * The equations a policy may draw from. Lean-mass formulas are left out when
+ * the composition is only BMI-derived: they'd just restate height and weight.
+ */
+export function availableBmrMethods(
+  methods: Partial<Record<BmrMethod, number>>,
+  compositionMeasured: boolean,
+): BmrMethod[] {
+  return BMR_METHODS.filter(
+    (m) =>
+      methods[m] != null &&
+      Number.isFinite(methods[m]) &&
+      (compositionMeasured || !COMPOSITION_METHODS.includes(m)),
+  );
+}
+
+export function bmrSpread(
+  methods: Partial<Record<BmrMethod, number>>,
+  pool: BmrMethod[],
+): BmrSpread | undefined {
+  if (pool.length === 0) return undefined;
+  let minMethod = pool[0];
+  let maxMethod = pool[0];
+  for (const m of pool) {
+    if (methods[m]! < methods[minMethod]!) minMethod = m;
+    if (methods[m]! > methods[maxMethod]!) maxMethod = m;
+  }
+  return { min: methods[minMethod]!, max: methods[maxMethod]!, minMethod, maxMethod };
+}
+
+const RECOMMENDED_LABEL = "Recommended BMR";
+
+function autoBmr(
+  methods: Partial<Record<BmrMethod, number>>,
+  compositionMeasured: boolean,
+  ageMethod?: AgeAppropriateBmr,
+): Omit<RecommendedBmr, "fellBack"> {
+  const aged = ageMethod && methods[ageMethod.method];
+  if (ageMethod && aged != null) {
+    return {
+      bmr: aged,
+      method: ageMethod.method,
+      trace: step(
+        RECOMMENDED_LABEL,
+        BMR_METHOD_LABELS[ageMethod.method],
+        traceNum(aged),
+        aged,
+        "kcal",
+        ageMethod.reason,
+      ),
+    };
+  }
+  if (compositionMeasured && methods.katchMcArdle != null) {
+    const bmr = methods.katchMcArdle;
+    return {
+      bmr,
+      method: "katchMcArdle",
+      trace: step(RECOMMENDED_LABEL, "Katch-McArdle", traceNum(bmr), bmr),
+    };
+  }
+  const mifflin = methods.mifflin!;
+  const harris = methods.revisedHarrisBenedict!;
+  const bmr = (mifflin + harris) / 2;
+  return {
+    bmr,
+    method: "mifflinHarrisAverage",
+    trace: step(
+      RECOMMENDED_LABEL,
+      "(Mifflin-St Jeor + Revised Harris-Benedict) / 2",
+      `(${traceNum(mifflin)} + ${traceNum(harris)}) / 2`,
+      bmr,
+    ),
+  };
+}
+
+export function resolveRecommendedBmr(
+  methods: Partial<Record<BmrMethod, number>>,
+  policy: BmrPolicy | undefined,
+  compositionMeasured: boolean,
+  ageMethod?: AgeAppropriateBmr,
+): RecommendedBmr {
+  const pool = availableBmrMethods(methods, compositionMeasured);
+  const values = pool.map((m) => methods[m]!);
+  const fallback = (fellBack: boolean): RecommendedBmr => ({
+    ...autoBmr(methods, compositionMeasured, ageMethod),
+    fellBack,
+  });
+
+  switch (policy?.mode ?? "auto") {
+    case "single": {
+      const m = policy!.method;
+      if (!pool.includes(m)) return fallback(true);
+      const bmr = methods[m]!;
+      return {
+        bmr,
+        method: m,
+        fellBack: false,
+        trace: step(RECOMMENDED_LABEL, BMR_METHOD_LABELS[m], traceNum(bmr), bmr),
+      };
+    }
+    case "mean": {
+      const bmr = mean(values);
+      return {
+        bmr,
+        method: "mean",
+        fellBack: false,
+        trace: step(
+          RECOMMENDED_LABEL,
+          `sum of ${values.length} formulas / ${values.length}`,
+          `(${values.map((v) => traceNum(v)).join(" + ")}) / ${values.length}`,
+          bmr,
+        ),
+      };
+    }
+    case "median": {
+      const bmr = median(values);
+      return {
+        bmr,
+        method: "median",
+        fellBack: false,
+        trace: step(
+          RECOMMENDED_LABEL,
+          `middle of ${values.length} formulas, sorted`,
+          [...values]
+            .sort((a, b) => a - b)
+            .map((v) => traceNum(v))
+            .join(", "),
+          bmr,
+        ),
+      };
+    }
+    case "weighted": {
+      const weighted = pool
+        .map((m) => ({ value: methods[m]!, weight: policy!.weights[m] ?? 0 }))
+        .filter((x) => Number.isFinite(x.weight) && x.weight > 0);
+      const total = weighted.reduce((acc, x) => acc + x.weight, 0);
+      if (total <= 0) return fallback(true);
+      const bmr = weighted.reduce((acc, x) => acc + x.value * x.weight, 0) / total;
+      return {
+        bmr,
+        method: "weighted",
+        fellBack: false,
+        trace: step(
+          RECOMMENDED_LABEL,
+          "sum(weight × formula) / sum(weight)",
+          `(${weighted.map((x) => `${traceNum(x.weight)} × ${traceNum(x.value)}`).join(" + ")}) / ${traceNum(total)}`,
+          bmr,
+        ),
+      };
+    }
+    default:
+      return fallback(false);
+  }
+}
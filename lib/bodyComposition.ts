@@ -0,0 +1,150 @@
+import type { BodyFatEstimateMethod, ProfileInput, Sex } from "@/types/nutrition";
+import { estimateLeanMassKg } from "@/lib/macroStrategy";
+
+/**
+ * Fat and fat-free mass from the best source the profile has, and the
+ * indices derived from them. Works in kg / cm. "Lean mass" throughout the
+ * engine is fat-free mass, so bone mineral is counted with it.
+ */
+
+/* =========================
+   Types
+========================= */
+
+// Best first: a full DEXA scan, one DEXA mass plus weight, an entered BF%, an estimate
+export type CompositionSource =
+  | "dexa"
+  | "dexaDerived"
+  | "enteredBf"
+  | "estimatedBf"
+  | "heightWeight";
+
+export type ResolvedComposition = {
+  fatMassKg?: number;
+  leanMassKg?: number;
+  // Undefined when the profile has no composition at all (BF% unknown, no DEXA)
+  source?: CompositionSource;
+  // Which DEXA mass was filled in from body weight
+  derived?: "fatMass" | "leanMass";
+};
+
+export type CompositionMetric = { value: number; source: CompositionSource };
+
+export type BodyCompositionMetrics = {
+  bodyFatPercent?: CompositionMetric;
+  fatMassKg?: CompositionMetric;
+  leanMassKg?: CompositionMetric;
+  // Fat-free mass index, kg/m²
+  ffmi?: CompositionMetric;
+  // FFMI adjusted to a 1.8 m height (Kouri et al. 1995)
+  normalizedFfmi?: CompositionMetric;
+  // Fat mass index, kg/m²
+  fmi?: CompositionMetric;
+  bmi: CompositionMetric;
+  estimateMethod?: BodyFatEstimateMethod;
+};
+
+/* =========================
+   Labels
+========================= */
+
+export const COMPOSITION_SOURCE_LABELS: Record<CompositionSource, string> = {
+  dexa: "DEXA",
+  dexaDerived: "DEXA, other mass derived from weight",
+  enteredBf: "Entered BF%",
+  estimatedBf: "Estimated BF%",
+  heightWeight: "Height and weight",
+};
+
+/* =========================
+   Resolve
+========================= */
+
+const NORMALIZED_FFMI_HEIGHT_M = 1.8;
+const NORMALIZED_FFMI_SLOPE = 6.1;
+
+// Blank or zero DEXA fields count as not entered
+const entered = (kg?: number) => (kg != null && Number.isFinite(kg) && kg > 0 ? kg : undefined);
+
+/**
+ * DEXA wins over BF%. With a single DEXA mass the other one is what's left
+ * of body weight; lean tissue from the scan excludes bone, so BMC is added
+ * back to get fat-free mass. A single mass that leaves nothing for the other
+ * is ignored (diagnostics flag it) and BF%, if any, is used instead.
+ */
+export function resolveComposition(input: ProfileInput, weightKg: number): ResolvedComposition {
+  if (input.dexa.enabled) {
+    const fat = entered(input.dexa.fatMassKg);
+    const lean = entered(input.dexa.leanMassKg);
+    const bone = entered(input.dexa.boneMineralKg) ?? 0;
+
+    if (fat != null && lean != null) {
+      return { fatMassKg: fat, leanMassKg: lean + bone, source: "dexa" };
+    }
+    if (fat != null && fat < weightKg) {
+      return {
+        fatMassKg: fat,
+        leanMassKg: weightKg - fat,
+        source: "dexaDerived",
+        derived: "leanMass",
+      };
+    }
+    if (lean != null && lean + bone < weightKg) {
+      return {
+        fatMassKg: weightKg - lean - bone,
+        leanMassKg: lean + bone,
+        source: "dexaDerived",
+        derived: "fatMass",
+      };
+    }
+  }
+
+  if (input.bodyFatMode !== "unknown" && input.bodyFatPercent != null) {
+    const fatMassKg = weightKg * (input.bodyFatPercent / 100);
+    return {
+      fatMassKg,
+      leanMassKg: weightKg - fatMassKg,
+      source: input.bodyFatMode === "known" ? "enteredBf" : "estimatedBf",
+    };
+  }
+
+  return {};
+}
+
+/* =========================
+   Metrics
+========================= */
+
+/**
+ * BF%, masses and height-normalized indices. Without a composition source the
+ * fat-free mass comes from the Boer formula, as for lean-mass protein targets.
+ */
+export function bodyCompositionMetrics(
+  composition: ResolvedComposition,
+  body: { weightKg: number; heightCm: number; sex: Sex; estimateMethod?: BodyFatEstimateMethod },
+): BodyCompositionMetrics {
+  const { weightKg } = body;
+  const m = body.heightCm / 100;
+  const m2 = m * m;
+  const bmi: CompositionMetric = { value: weightKg / m2, source: "heightWeight" };
+
+  const source = composition.source ?? "heightWeight";
+  const leanMassKg =
+    composition.leanMassKg ?? estimateLeanMassKg(weightKg, body.heightCm, body.sex);
+  const fatMassKg = composition.fatMassKg ?? weightKg - leanMassKg;
+  // The Boer formula can exceed body weight for very light, tall people
+  if (!(leanMassKg > 0 && fatMassKg >= 0)) return { bmi };
+
+  const ffmi = leanMassKg / m2;
+  const metric = (value: number): CompositionMetric => ({ value, source });
+  return {
+    bodyFatPercent: metric((fatMassKg / weightKg) * 100),
+    fatMassKg: metric(fatMassKg),
+    leanMassKg: metric(leanMassKg),
+    ffmi: metric(ffmi),
+    normalizedFfmi: metric(ffmi + NORMALIZED_FFMI_SLOPE * (NORMALIZED_FFMI_HEIGHT_M - m)),
+    fmi: metric(fatMassKg / m2),
+    bmi,
+    estimateMethod: source === "estimatedBf" ? body.estimateMethod : undefined,
+  };
+}
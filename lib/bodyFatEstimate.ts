@@ -0,0 +1,154 @@
+import type {
+  BodyFatEstimateMethod,
+  DensityConversion,
+  Sex,
+  Skinfolds,
+} from "@/types/nutrition";
+import type { MessageKey } from "@/lib/i18n";
+import { CM_PER_IN } from "@/lib/units";
+
+/* =========================
+   Types
+========================= */
+
+export type BodyFatEstimateSubject = {
+  sex: Sex;
+  ageYears: number;
+  heightCm: number;
+  weightKg: number;
+  neckCm?: number;
+  waistCm?: number;
+  hipCm?: number;
+  skinfoldsMm: Skinfolds;
+  conversion: DensityConversion;
+};
+
+export type BodyFatEstimate = {
+  method: BodyFatEstimateMethod;
+  percent?: number;
+  // Inputs this method still needs (empty when percent is set)
+  missing: MessageKey[];
+};
+
+/* =========================
+   Helpers
+========================= */
+
+// Labelled in the UI as `estimate.<method>`
+export const ESTIMATE_METHODS: BodyFatEstimateMethod[] = ["navy", "jp3", "jp7", "bmi"];
+
+export const JP3_SITES: Record<Sex, (keyof Skinfolds)[]> = {
+  male: ["chest", "abdomen", "thigh"],
+  female: ["triceps", "suprailiac", "thigh"],
+};
+
+export const JP7_SITES: (keyof Skinfolds)[] = [
+  "chest",
+  "midaxillary",
+  "triceps",
+  "subscapular",
+  "abdomen",
+  "suprailiac",
+  "thigh",
+];
+
+const positive = (n?: number): n is number => n != null && Number.isFinite(n) && n > 0;
+
+/** Body density (g/cc) -> BF%. */
+export function densityToBodyFat(density: number, conversion: DensityConversion): number {
+  return conversion === "siri" ? 495 / density - 450 : 457 / density - 414.2;
+}
+
+/* =========================
+   Methods
+========================= */
+
+/** Hodgdon & Beckett (US Navy), inch-based form. */
+export function navyBodyFat(s: BodyFatEstimateSubject): BodyFatEstimate {
+  const base = { method: "navy" as const };
+  const missing = [
+    !positive(s.neckCm) && "form.girth.neck",
+    !positive(s.waistCm) && "form.girth.waist",
+    s.sex === "female" && !positive(s.hipCm) && "form.girth.hip",
+  ].filter((m): m is MessageKey => !!m);
+  if (missing.length) return { ...base, missing };
+
+  const h = s.heightCm / CM_PER_IN;
+  const neck = s.neckCm! / CM_PER_IN;
+  const waist = s.waistCm! / CM_PER_IN;
+
+  const girth = s.sex === "male" ? waist - neck : waist + s.hipCm! / CM_PER_IN - neck;
+  if (girth <= 0) return { ...base, missing: ["estimate.waistAboveNeck"] };
+
+  const percent =
+    s.sex === "male"
+      ? 86.01 * Math.log10(girth) - 70.041 * Math.log10(h) + 36.76
+      : 163.205 * Math.log10(girth) - 97.684 * Math.log10(h) - 78.387;
+
+  return { ...base, percent, missing: [] };
+}
+
+/** Jackson & Pollock (1978, 1980) 3-site skinfold density. */
+export function jp3BodyFat(s: BodyFatEstimateSubject): BodyFatEstimate {
+  const base = { method: "jp3" as const };
+  const sites = JP3_SITES[s.sex];
+  const missing = sites
+    .filter((k) => !positive(s.skinfoldsMm[k]))
+    .map((k): MessageKey => `skinfold.${k}`);
+  if (missing.length) return { ...base, missing };
+
+  const sum = sites.reduce((acc, k) => acc + s.skinfoldsMm[k]!, 0);
+  const density =
+    s.sex === "male"
+      ? 1.10938 - 0.0008267 * sum + 0.0000016 * sum ** 2 - 0.0002574 * s.ageYears
+      : 1.0994921 - 0.0009929 * sum + 0.0000023 * sum ** 2 - 0.0001392 * s.ageYears;
+
+  return { ...base, percent: densityToBodyFat(density, s.conversion), missing: [] };
+}
+
+/** Jackson & Pollock 7-site skinfold density. */
+export function jp7BodyFat(s: BodyFatEstimateSubject): BodyFatEstimate {
+  const base = { method: "jp7" as const };
+  const missing = JP7_SITES.filter((k) => !positive(s.skinfoldsMm[k])).map(
+    (k): MessageKey => `skinfold.${k}`,
+  );
+  if (missing.length) return { ...base, missing };
+
+  const sum = JP7_SITES.reduce((acc, k) => acc + s.skinfoldsMm[k]!, 0);
+  const density =
+    s.sex === "male"
+      ? 1.112 - 0.00043499 * sum + 0.00000055 * sum ** 2 - 0.00028826 * s.ageYears
+      : 1.097 - 0.00046971 * sum + 0.00000056 * sum ** 2 - 0.00012828 * s.ageYears;
+
+  return { ...base, percent: densityToBodyFat(density, s.conversion), missing: [] };
+}
+
+/** Deurenberg (1991): last resort, it can't tell muscle from fat. */
+export function bmiBodyFat(s: BodyFatEstimateSubject): BodyFatEstimate {
+  const bmi = s.weightKg / (s.heightCm / 100) ** 2;
+  const percent = 1.2 * bmi + 0.23 * s.ageYears - 10.8 * (s.sex === "male" ? 1 : 0) - 5.4;
+  return { method: "bmi", percent, missing: [] };
+}
+
+const ESTIMATORS: Record<BodyFatEstimateMethod, (s: BodyFatEstimateSubject) => BodyFatEstimate> = {
+  navy: navyBodyFat,
+  jp3: jp3BodyFat,
+  jp7: jp7BodyFat,
+  bmi: bmiBodyFat,
+};
+
+export function estimateBodyFat(
+  method: BodyFatEstimateMethod,
+  subject: BodyFatEstimateSubject,
+): BodyFatEstimate {
+  const est = ESTIMATORS[method](subject);
+  // Garbage measurements can push the regressions outside anything physiological
+  if (est.percent != null && !(est.percent >= 2 && est.percent <= 70)) {
+    return { ...est, percent: undefined, missing: ["estimate.plausibleMeasurements"] };
+  }
+  return est;
+}
+
+export function estimateAllBodyFat(subject: BodyFatEstimateSubject): BodyFatEstimate[] {
+  return ESTIMATE_METHODS.map((method) => estimateBodyFat(method, subject));
+}
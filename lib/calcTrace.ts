@@ -0,0 +1,76 @@
+import type { BmrMethod, Goal } from "@/types/nutrition";
+
+/**
+ * Calculation trace: every number calculateAll produces, with the formula it
+ * came from and the same formula with the user's (normalized) values filled in.
+ * Values are unrounded; Results holds the rounded ones.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type TraceStep = {
+  label: string;
+  formula: string; // symbolic, using the TRACE_SYMBOLS names
+  substituted: string;
+  value: number;
+  unit: string;
+  note?: string;
+};
+
+export type GoalTrace = {
+  calories: TraceStep;
+  protein: TraceStep;
+  fat: TraceStep;
+  carbs: TraceStep;
+};
+
+export type CalcTrace = {
+  // Normalized inputs: weight, height, age and body composition
+  inputs: TraceStep[];
+  bmr: Partial<Record<BmrMethod, TraceStep>>;
+  recommendedBmr: TraceStep;
+  tdee: TraceStep[];
+  goals: Record<Goal, GoalTrace>;
+};
+
+/* =========================
+   Helpers
+========================= */
+
+export const TRACE_SYMBOLS: Record<string, string> = {
+  W: "weight (kg)",
+  H: "height (cm)",
+  A: "age (years)",
+  LBM: "lean (fat-free) mass (kg)",
+  FM: "fat mass (kg)",
+  BMR: "recommended BMR (kcal)",
+  PAL: "activity multiplier",
+  TDEE: "total daily energy expenditure (kcal)",
+  kcal: "goal calories",
+  P: "protein (g)",
+  F: "fat (g)",
+  C: "carbs (g)",
+};
+
+// Trailing zeros dropped, so 80 stays "80" but 80.123456 becomes "80.12"
+export function traceNum(n: number, digits = 2): string {
+  return String(Number(n.toFixed(digits)));
+}
+
+// Negative terms read as "- 5" rather than "+ -5"
+export function signed(n: number, digits = 2): string {
+  return n < 0 ? `- ${traceNum(-n, digits)}` : `+ ${traceNum(n, digits)}`;
+}
+
+export function step(
+  label: string,
+  formula: string,
+  substituted: string,
+  value: number,
+  unit = "kcal",
+  note?: string,
+): TraceStep {
+  return note ? { label, formula, substituted, value, unit, note } : { label, formula, substituted, value, unit };
+}
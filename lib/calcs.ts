@@ -1,4 +1,38 @@
-import type { ProfileInput } from "@/types/nutrition";
+import type { BmrMethod, BmrPolicyMode, Goal, ProfileInput } from "@/types/nutrition";
+import { resolveMacros } from "@/lib/macroStrategy";
+import { splitWeek, type DayTarget } from "@/lib/carbCycling";
+import { signed, step, traceNum, type CalcTrace, type GoalTrace, type TraceStep } from "@/lib/calcTrace";
+import {
+  availableBmrMethods,
+  BMR_METHOD_LABELS,
+  BMR_METHODS,
+  bmrSpread,
+  explainBmrMethods,
+  resolveRecommendedBmr,
+  type BmrSpread,
+  type RecommendedBmrMethod,
+} from "@/lib/bmrEquations";
+import {
+  ADOLESCENT_MAX_AGE,
+  effectiveDelta,
+  LIFE_STAGE_RULES,
+  resolveLifeStage,
+  type LifeStageAdjustment,
+  type LifeStageSummary,
+} from "@/lib/lifeStage";
+import {
+  bodyCompositionMetrics,
+  resolveComposition,
+  type BodyCompositionMetrics,
+  type CompositionSource,
+  type ResolvedComposition,
+} from "@/lib/bodyComposition";
+import {
+  collectDiagnostics,
+  type Diagnostic,
+  type GoalDiagnosticInput,
+} from "@/lib/diagnostics";
+import { CM_PER_IN, IN_PER_FT, KG_PER_LB, LB_PER_ST, lengthToCm, massToKg } from "@/lib/units";
 
 /* =========================
    Helpers
@@ -6,22 +40,19 @@ import type { ProfileInput } from "@/types/nutrition";
 
 const round = (n: number) => Math.round(n);
 
-const lbToKg = (lb: number) => lb * 0.45359237;
-const inToCm = (inches: number) => inches * 2.54;
-
 /* =========================
    Types
 ========================= */
 
 export type BmrBreakdown = {
   recommendedBmr: number;
-  methods: {
-    mifflin?: number;
-    revisedHarrisBenedict?: number;
-    katchMcArdle?: number;
-    nelson?: number;
-    muller?: number;
-  };
+  // How recommendedBmr was chosen
+  recommendedMethod: RecommendedBmrMethod;
+  policy: BmrPolicyMode;
+  policyFellBack: boolean;
+  methods: Partial<Record<BmrMethod, number>>;
+  // Lowest and highest of the equations the policy draws from
+  spread?: BmrSpread;
 };
 
 export type MacroTargets = {
@@ -31,175 +62,407 @@ export type MacroTargets = {
   carbsG: number;
 };
 
+export type TdeeSource = "formula" | "adaptive";
+
+export type CalculateOptions = {
+  // Measured TDEE (e.g. from the weight-trend log) to base goal targets on instead of the formula
+  adaptiveTdee?: number;
+};
+
+export type BodyComposition = {
+  weightKg: number;
+  // What the BMR equations and lean-mass protein targets used
+  fatMassKg?: number;
+  leanMassKg?: number;
+  source?: CompositionSource;
+  derived?: ResolvedComposition["derived"];
+  metrics: BodyCompositionMetrics;
+};
+
 export type Results = {
   bmr: BmrBreakdown;
-  tdee: number;
+  bodyComposition: BodyComposition;
+  tdee: number; // basis for the macro targets (see tdeeSource)
+  formulaTdee: number;
+  tdeeSource: TdeeSource;
   maintenance: MacroTargets;
   cut: MacroTargets;
   bulk: MacroTargets;
   recomp: MacroTargets;
-  warnings: string[];
+  // Per-day split of each goal when carb cycling is on
+  weekly?: Record<Goal, DayTarget[]>;
+  warnings: Diagnostic[];
+  // Pregnancy / lactation / age adjustments that changed the numbers above
+  lifeStage: LifeStageSummary;
+  // How each number above was derived, before rounding
+  trace: CalcTrace;
 };
 
 /* =========================
-   Core calculations
+   Trace
 ========================= */
 
-export function calculateAll(input: ProfileInput): Results {
-  const warnings: string[] = [];
-
-  /* ---- Normalize units ---- */
-  const weightKg =
-    input.unitSystem === "us"
-      ? lbToKg(input.weight.lb!)
-      : input.weight.kg!;
+function traceInputs(
+  input: ProfileInput,
+  body: { weightKg: number; heightCm: number; composition: ResolvedComposition },
+): TraceStep[] {
+  const { weight: w, height: h } = input;
+  const weightStep = {
+    kg: () => step("W", "kg", `${w.kg}`, body.weightKg, "kg"),
+    lb: () => step("W", `lb × ${KG_PER_LB}`, `${w.lb} × ${KG_PER_LB}`, body.weightKg, "kg"),
+    stLb: () =>
+      step(
+        "W",
+        `(st × ${LB_PER_ST} + lb) × ${KG_PER_LB}`,
+        `(${w.st ?? 0} × ${LB_PER_ST} + ${w.lb ?? 0}) × ${KG_PER_LB}`,
+        body.weightKg,
+        "kg",
+      ),
+  }[input.units.mass];
+  const heightStep = {
+    cm: () => step("H", "cm", `${h.cm}`, body.heightCm, "cm"),
+    in: () => step("H", `in × ${CM_PER_IN}`, `${h.inches} × ${CM_PER_IN}`, body.heightCm, "cm"),
+    ftIn: () =>
+      step(
+        "H",
+        `(ft × ${IN_PER_FT} + in) × ${CM_PER_IN}`,
+        `(${h.ft ?? 0} × ${IN_PER_FT} + ${h.inches ?? 0}) × ${CM_PER_IN}`,
+        body.heightCm,
+        "cm",
+      ),
+  }[input.units.length];
+  const steps = [
+    weightStep(),
+    heightStep(),
+    step("A", "years", `${input.ageYears}`, input.ageYears, "years"),
+  ];
+
+  const { fatMassKg, leanMassKg, source, derived } = body.composition;
+  if (fatMassKg == null || leanMassKg == null) return steps;
+  const W = traceNum(body.weightKg);
+
+  if (source === "enteredBf" || source === "estimatedBf") {
+    const bf = input.bodyFatPercent as number;
+    steps.push(
+      step("FM", "W × BF% / 100", `${W} × ${traceNum(bf, 1)} / 100`, fatMassKg, "kg"),
+      step("LBM", "W - FM", `${W} - ${traceNum(fatMassKg)}`, leanMassKg, "kg"),
+    );
+    return steps;
+  }
 
-  const weightLb = weightKg / 0.45359237;
+  const dexaFat = step("FM", "DEXA fat mass", traceNum(fatMassKg), fatMassKg, "kg");
+  const bone = input.dexa.boneMineralKg;
+  const dexaLean =
+    bone && derived !== "leanMass"
+      ? step(
+          "LBM",
+          "DEXA lean + BMC",
+          `${traceNum(leanMassKg - bone)} + ${traceNum(bone)}`,
+          leanMassKg,
+          "kg",
+        )
+      : step("LBM", "DEXA lean mass", traceNum(leanMassKg), leanMassKg, "kg");
+
+  if (derived === "leanMass") {
+    steps.push(
+      dexaFat,
+      step("LBM", "W - FM", `${W} - ${traceNum(fatMassKg)}`, leanMassKg, "kg", "Derived from weight"),
+    );
+  } else if (derived === "fatMass") {
+    steps.push(
+      dexaLean,
+      step("FM", "W - LBM", `${W} - ${traceNum(leanMassKg)}`, fatMassKg, "kg", "Derived from weight"),
+    );
+  } else {
+    steps.push(dexaFat, dexaLean);
+  }
+  return steps;
+}
 
-  const heightCm =
-    input.unitSystem === "us"
-      ? inToCm(input.height.inches!)
-      : input.height.cm!;
+/* =========================
+   Core calculations
+========================= */
 
-  const sexFactor = input.sex === "male" ? 5 : -161;
+export function calculateAll(
+  input: ProfileInput,
+  options: CalculateOptions = {}
+): Results {
+  /* ---- Normalize units ---- */
+  const weightKg = massToKg(input.weight, input.units.mass)!;
+  const heightCm = lengthToCm(input.height, input.units.length)!;
 
   /* ---- Body composition ---- */
-  let fatMassKg: number | undefined;
-  let leanMassKg: number | undefined;
+  const composition = resolveComposition(input, weightKg);
+  const { fatMassKg, leanMassKg } = composition;
 
-  if (input.dexa.enabled) {
-    fatMassKg = input.dexa.fatMassKg;
-    leanMassKg = input.dexa.leanMassKg;
-  }
-
-  if (
-    (!fatMassKg || !leanMassKg) &&
-    input.bodyFatMode === "known" &&
-    input.bodyFatPercent != null
-  ) {
-    fatMassKg = weightKg * (input.bodyFatPercent / 100);
-    leanMassKg = weightKg - fatMassKg;
-  }
+  const inputTrace = traceInputs(input, { weightKg, heightCm, composition });
 
   /* ---- BMR formulas ---- */
 
-  const mifflin =
-    10 * weightKg + 6.25 * heightCm - 5 * input.ageYears + sexFactor;
-
-  const revisedHarrisBenedict =
-    input.sex === "male"
-      ? 88.362 + 13.397 * weightKg + 4.799 * heightCm - 5.677 * input.ageYears
-      : 447.593 +
-        9.247 * weightKg +
-        3.098 * heightCm -
-        4.33 * input.ageYears;
-
-  const katchMcArdle =
-    leanMassKg != null ? 370 + 21.6 * leanMassKg : undefined;
-
-  const nelson =
-    fatMassKg != null && leanMassKg != null
-      ? 25.8 * leanMassKg + 4.04 * fatMassKg
-      : undefined;
+  // A BMI-derived BF% carries no information the height/weight equations don't already have
+  const compositionMeasured =
+    composition.source === "dexa" ||
+    composition.source === "dexaDerived" ||
+    composition.source === "enteredBf" ||
+    (composition.source === "estimatedBf" && input.bodyFatEstimate?.method !== "bmi");
+
+  const bmrTrace = explainBmrMethods({
+    sex: input.sex,
+    ageYears: input.ageYears,
+    weightKg,
+    heightCm,
+    fatMassKg,
+    leanMassKg,
+  });
+  const methods: Partial<Record<BmrMethod, number>> = Object.fromEntries(
+    BMR_METHODS.map((m) => [m, bmrTrace[m]?.value]),
+  );
 
-  const muller =
-    fatMassKg != null && leanMassKg != null
-      ? 13.587 * leanMassKg + 9.613 * fatMassKg + 198
-      : undefined;
+  /* ---- Life stage ---- */
+  const life = resolveLifeStage(input.lifeStage, input.ageYears);
+  const stageRules = LIFE_STAGE_RULES[life.stage];
+  const minor = input.ageYears < ADOLESCENT_MAX_AGE;
+  const adjustments: LifeStageAdjustment[] = [];
 
   /* ---- Recommended BMR ---- */
-  let recommendedBmr: number;
-
-  if (input.bodyFatMode === "known" && katchMcArdle != null) {
-    recommendedBmr = katchMcArdle;
-  } else {
-    recommendedBmr = (mifflin + revisedHarrisBenedict) / 2;
+  const recommended = resolveRecommendedBmr(
+    methods,
+    input.bmrPolicy,
+    compositionMeasured,
+    stageRules.ageMethod,
+  );
+  const autoRule = (input.bmrPolicy?.mode ?? "auto") === "auto" || recommended.fellBack;
+  if (autoRule && recommended.method === stageRules.ageMethod?.method) {
+    adjustments.push({
+      kind: "bmr",
+      message: {
+        key: "adjustment.ageBandedBmr",
+        params: { method: BMR_METHOD_LABELS[recommended.method] },
+      },
+    });
   }
+  const recommendedBmr = recommended.bmr;
+  const spread = bmrSpread(methods, availableBmrMethods(methods, compositionMeasured));
 
   /* ---- TDEE ---- */
   const activityMultiplier = input.activity.useCustom
     ? input.activity.customMultiplier!
     : input.activity.preset!;
 
-  const tdee = recommendedBmr * activityMultiplier;
+  const energyAdd = stageRules.energyAddKcal;
+  const formulaTdee = recommendedBmr * activityMultiplier + energyAdd;
+  if (energyAdd > 0) {
+    adjustments.push({
+      kind: "energy",
+      message: {
+        key: "adjustment.energyAdded",
+        params: { energy: { kcal: energyAdd }, stage: { keys: [`lifeStage.${life.stage}`] } },
+      },
+    });
+  }
+
+  const tdeeSource: TdeeSource =
+    options.adaptiveTdee != null && Number.isFinite(options.adaptiveTdee)
+      ? "adaptive"
+      : "formula";
+
+  const tdee =
+    tdeeSource === "adaptive" ? (options.adaptiveTdee as number) : formulaTdee;
+
+  const tdeeTrace = [
+    step(
+      tdeeSource === "formula" ? "Formula TDEE (used)" : "Formula TDEE",
+      energyAdd > 0 ? "BMR × PAL + life-stage add-on" : "BMR × PAL",
+      `${traceNum(recommendedBmr)} × ${activityMultiplier}${energyAdd > 0 ? ` + ${energyAdd}` : ""}`,
+      formulaTdee,
+      "kcal",
+      energyAdd > 0 ? stageRules.label : undefined,
+    ),
+  ];
+  if (tdeeSource === "adaptive") {
+    tdeeTrace.push(
+      step(
+        "Adaptive TDEE (used)",
+        "measured from weight log",
+        traceNum(tdee),
+        tdee,
+        "kcal",
+        "Replaces the formula TDEE for every goal",
+      ),
+    );
+  }
 
   /* =========================
      Macro calculations
   ========================= */
 
-  const makeMacros = (
-    calories: number,
-    proteinG: number,
-    fatPercent: number
-  ): MacroTargets => {
-    const fatCalories = calories * fatPercent;
-    const fatG = fatCalories / 9;
+  const goalDiagnostics = {} as Record<Goal, GoalDiagnosticInput>;
+  const goalTrace = {} as Record<Goal, GoalTrace>;
+
+  const proteinFloor =
+    stageRules.proteinMinGPerKg != null
+      ? {
+          grams: weightKg * stageRules.proteinMinGPerKg,
+          reason: `${stageRules.label.toLowerCase()} minimum of ${stageRules.proteinMinGPerKg} g/kg`,
+        }
+      : undefined;
+  const proteinRaisedFor: Goal[] = [];
+
+  const deltas = {
+    cut: effectiveDelta(stageRules, input.deltas.cut, minor),
+    bulk: effectiveDelta(stageRules, input.deltas.bulk, minor),
+    recomp: effectiveDelta(stageRules, input.deltas.recomp, minor),
+  };
 
-    if (fatG < 50) {
-      warnings.push("Fat intake is below 50 g/day.");
+  const makeMacros = (goal: Goal): MacroTargets => {
+    const delta = goal === "maintenance" ? 0 : deltas[goal];
+    const requested = goal === "maintenance" ? 0 : input.deltas[goal];
+    const calories = tdee + delta;
+    const rules = input.macroStrategy.goals[goal];
+    const macros = resolveMacros(calories, rules, {
+      weightKg,
+      heightCm,
+      sex: input.sex,
+      leanMassKg,
+      proteinFloor,
+    });
+    if (macros.proteinRaised) proteinRaisedFor.push(goal);
+
+    if (delta !== requested) {
+      adjustments.push({
+        kind: "deficit",
+        goal,
+        message: {
+          key:
+            delta !== 0
+              ? "adjustment.deficitCapped"
+              : minor
+                ? "adjustment.deficitHeld.minor"
+                : "adjustment.deficitHeld",
+          params: {
+            goal: { keys: [`goal.${goal}`] },
+            requested: { kcal: requested },
+            applied: { kcal: delta },
+            stage: { keys: [`lifeStage.${life.stage}`] },
+          },
+        },
+      });
     }
 
-    const remainingCalories =
-      calories - proteinG * 4 - fatG * 9;
+    goalTrace[goal] = {
+      calories: step(
+        "Calories",
+        goal === "maintenance" ? "TDEE" : `TDEE + ${goal} adjustment`,
+        goal === "maintenance" ? traceNum(tdee) : `${traceNum(tdee)} ${signed(delta)}`,
+        calories,
+        "kcal",
+        delta !== requested
+          ? `Requested ${signed(requested)}, limited for ${minor ? "under-18s" : stageRules.label.toLowerCase()}`
+          : undefined,
+      ),
+      ...macros.trace,
+    };
 
-    const carbsG = remainingCalories / 4;
+    goalDiagnostics[goal] = {
+      calories,
+      proteinG: macros.proteinG,
+      fatG: macros.fatG,
+      carbsG: macros.carbsG,
+      carbsClamped: macros.carbsClamped,
+      carbsReduced: macros.carbsReduced,
+      leanMassEstimated: macros.leanMassEstimated,
+    };
 
     return {
       calories: round(calories),
-      proteinG: round(proteinG),
-      fatG: round(fatG),
-      carbsG: round(carbsG),
+      proteinG: round(macros.proteinG),
+      fatG: round(macros.fatG),
+      carbsG: round(macros.carbsG),
     };
   };
 
-  /* ---- Maintenance ---- */
-  const maintenance = makeMacros(
-    tdee,
-    weightLb * 1.0,
-    0.25
-  );
-
-  /* ---- Cut ---- */
-  const cut = makeMacros(
-    tdee + input.deltas.cut,
-    weightLb * 1.0,
-    0.25
-  );
-
-  /* ---- Recomp ---- */
-  const recomp = makeMacros(
-    tdee + input.deltas.recomp,
-    weightLb * 1.0,
-    0.2
-  );
-
-  /* ---- Bulk ---- */
-  const bulkProtein = weightLb * input.bulkProteinGPerLb;
+  const maintenance = makeMacros("maintenance");
+  const cut = makeMacros("cut");
+  const recomp = makeMacros("recomp");
+  const bulk = makeMacros("bulk");
+
+  if (proteinFloor && proteinRaisedFor.length > 0) {
+    adjustments.push({
+      kind: "protein",
+      message: {
+        key: "adjustment.proteinRaised",
+        params: {
+          perKg: stageRules.proteinMinGPerKg!,
+          grams: round(proteinFloor.grams),
+          goals: { keys: proteinRaisedFor.map((g) => `goal.${g}` as const) },
+        },
+      },
+    });
+  }
 
-  const bulk = makeMacros(
-    tdee + input.deltas.bulk,
-    bulkProtein,
-    0.3
-  );
+  const cycling = input.carbCycling;
+  const weekly = cycling?.enabled
+    ? {
+        maintenance: splitWeek(maintenance, cycling),
+        cut: splitWeek(cut, cycling),
+        bulk: splitWeek(bulk, cycling),
+        recomp: splitWeek(recomp, cycling),
+      }
+    : undefined;
+
+  const warnings = collectDiagnostics({
+    input,
+    weightKg,
+    heightCm,
+    recommendedBmr,
+    bmrPolicyFellBack: recommended.fellBack,
+    lifeStage: life.stage,
+    deltas,
+    goals: goalDiagnostics,
+  });
 
   /* ========================= */
 
   return {
     bmr: {
       recommendedBmr: round(recommendedBmr),
-      methods: {
-        mifflin: round(mifflin),
-        revisedHarrisBenedict: round(revisedHarrisBenedict),
-        katchMcArdle: katchMcArdle ? round(katchMcArdle) : undefined,
-        nelson: nelson ? round(nelson) : undefined,
-        muller: muller ? round(muller) : undefined,
-      },
+      recommendedMethod: recommended.method,
+      policy: input.bmrPolicy?.mode ?? "auto",
+      policyFellBack: recommended.fellBack,
+      methods: Object.fromEntries(
+        Object.entries(methods).map(([m, v]) => [m, v != null ? round(v) : undefined]),
+      ),
+      spread: spread && { ...spread, min: round(spread.min), max: round(spread.max) },
+    },
+    bodyComposition: {
+      weightKg,
+      fatMassKg,
+      leanMassKg,
+      source: composition.source,
+      derived: composition.derived,
+      metrics: bodyCompositionMetrics(composition, {
+        weightKg,
+        heightCm,
+        sex: input.sex,
+        estimateMethod: input.bodyFatEstimate?.method,
+      }),
     },
     tdee: round(tdee),
+    formulaTdee: round(formulaTdee),
+    tdeeSource,
     maintenance,
     cut,
     bulk,
     recomp,
+    weekly,
     warnings,
+    lifeStage: { ...life, adjustments },
+    trace: {
+      inputs: inputTrace,
+      bmr: bmrTrace,
+      recommendedBmr: recommended.trace,
+      tdee: tdeeTrace,
+      goals: goalTrace,
+    },
   };
 }
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { calculateAll, type Results } from "@/lib/calcs";
+import type { Diagnostic } from "@/lib/diagnostics";
+import type { LifeStageAdjustment, LifeStageSummary } from "@/lib/lifeStage";
+import { createTranslator, translateEngineMessage, type EngineMessage } from "@/lib/i18n";
+import { fmtEnergy } from "@/lib/format";
+import {
+  fromProfileInput,
+  PROFILE_INPUT_PATHS,
+  profileFormSchema,
+  profileInputSchema,
+  toProfileInput,
+  withUnitPreferences,
+} from "@/lib/schema";
+import type { EnergyUnit, ProfileInput } from "@/types/nutrition";
+
+/**
+ * Transport-agnostic core of the headless API (see app/api/*).
+ * Accepts either ProfileFormValues (what the UI submits) or ProfileInput
+ * (the canonical shape), and always validates through profileFormSchema
+ * so both paths get exactly the UI's rules.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export const MAX_BATCH_SIZE = 100;
+
+export type InputFormat = "formValues" | "profileInput";
+
+export type ApiIssue = {
+  path: string; // dot-joined, in the caller's own shape
+  message: string;
+};
+
+// Results with the engine's messages as English text
+export type ApiResults = Omit<Results, "warnings" | "lifeStage"> & {
+  warnings: (Omit<Diagnostic, "message"> & { message: string })[];
+  lifeStage: Omit<LifeStageSummary, "adjustments"> & {
+    adjustments: (Omit<LifeStageAdjustment, "message"> & { message: string })[];
+  };
+};
+
+export type CalculateResponse =
+  | { ok: true; format: InputFormat; input: ProfileInput; results: ApiResults }
+  | { ok: false; format?: InputFormat; errors: ApiIssue[] };
+
+export type BatchResponse =
+  | { ok: true; items: CalculateResponse[] }
+  | { ok: false; errors: ApiIssue[] };
+
+/* =========================
+   Helpers
+========================= */
+
+const toIssues = (error: z.ZodError, rename: (path: string) => string = (p) => p): ApiIssue[] =>
+  error.issues.map((i) => ({ path: rename(i.path.join(".")), message: i.message }));
+
+// ProfileInput nests activity/deltas; form values flatten them
+export function detectInputFormat(body: unknown): InputFormat {
+  const o = body as Record<string, unknown>;
+  return "activity" in o || "deltas" in o ? "profileInput" : "formValues";
+}
+
+function renameFormPath(path: string): string {
+  const [head, ...rest] = path.split(".");
+  const mapped = PROFILE_INPUT_PATHS[head];
+  return mapped ? [mapped, ...rest].join(".") : path;
+}
+
+// The UI translates engine messages as it renders them; API callers get them in English
+const englishT = createTranslator("en");
+
+function withEnglishMessages(results: Results, energyUnit: EnergyUnit): ApiResults {
+  const text = (message: EngineMessage) =>
+    translateEngineMessage(englishT, message, (kcal) => fmtEnergy(kcal, energyUnit, "en"));
+  return {
+    ...results,
+    warnings: results.warnings.map((d) => ({ ...d, message: text(d.message) })),
+    lifeStage: {
+      ...results.lifeStage,
+      adjustments: results.lifeStage.adjustments.map((a) => ({ ...a, message: text(a.message) })),
+    },
+  };
+}
+
+/* =========================
+   Entry points
+========================= */
+
+export function calculateFromBody(body: unknown): CalculateResponse {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, errors: [{ path: "", message: "Expected a JSON object." }] };
+  }
+
+  const format = detectInputFormat(body);
+  // Callers written before the unit split still send unitSystem
+  let formValues: unknown = withUnitPreferences(body);
+  if (format === "profileInput") {
+    const shaped = profileInputSchema.safeParse(formValues);
+    if (!shaped.success) return { ok: false, format, errors: toIssues(shaped.error) };
+    formValues = fromProfileInput(shaped.data);
+  }
+
+  const parsed = profileFormSchema.safeParse(formValues);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      format,
+      errors: toIssues(parsed.error, format === "profileInput" ? renameFormPath : undefined),
+    };
+  }
+
+  const input = toProfileInput(parsed.data);
+  return {
+    ok: true,
+    format,
+    input,
+    results: withEnglishMessages(calculateAll(input), input.units.energy),
+  };
+}
+
+/** Accepts `{ profiles: [...] }` or a bare array; one failed item doesn't fail the batch. */
+export function calculateBatchFromBody(body: unknown): BatchResponse {
+  const profiles = Array.isArray(body)
+    ? body
+    : body && typeof body === "object" && Array.isArray((body as { profiles?: unknown }).profiles)
+      ? (body as { profiles: unknown[] }).profiles
+      : undefined;
+
+  if (!profiles) {
+    return { ok: false, errors: [{ path: "profiles", message: "Expected an array of profiles." }] };
+  }
+  if (profiles.length > MAX_BATCH_SIZE) {
+    return {
+      ok: false,
+      errors: [{ path: "profiles", message: `At most ${MAX_BATCH_SIZE} profiles per request.` }],
+    };
+  }
+  return { ok: true, items: profiles.map(calculateFromBody) };
+}
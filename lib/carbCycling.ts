@@ -0,0 +1,91 @@
+import type { CarbCycling, DayType, DayTypeRatios } from "@/types/nutrition";
+import type { MacroTargets } from "@/lib/calcs";
+
+/**
+ * Carb cycling: spreads a goal's flat daily target over a 7-day schedule.
+ * Protein stays fixed; carbs and fat follow each day type's multipliers,
+ * normalized so the weekly sums equal 7x the flat target exactly.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type DayTarget = MacroTargets & {
+  weekday: Weekday;
+  dayType: DayType;
+};
+
+/* =========================
+   Defaults
+========================= */
+
+// Monday first; labelled in the UI as `weekday.<id>`
+export const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const DAY_TYPES: DayType[] = ["training", "rest", "highCarb", "lowCarb"];
+
+export const DEFAULT_DAY_TYPE_RATIOS: Record<DayType, DayTypeRatios> = {
+  training: { carbs: 1.25, fat: 0.9 },
+  rest: { carbs: 0.75, fat: 1.1 },
+  highCarb: { carbs: 1.6, fat: 0.7 },
+  lowCarb: { carbs: 0.5, fat: 1.25 },
+};
+
+export const RATIO_BOUNDS = { min: 0.2, max: 3, step: 0.05 } as const;
+
+export function defaultCarbCycling(): CarbCycling {
+  return {
+    enabled: false,
+    days: ["training", "rest", "training", "rest", "training", "highCarb", "rest"],
+    ratios: JSON.parse(JSON.stringify(DEFAULT_DAY_TYPE_RATIOS)),
+  };
+}
+
+/* =========================
+   Split
+========================= */
+
+// Largest-remainder rounding: whole numbers that still add up to `total`
+function roundToTotal(values: number[], total: number): number[] {
+  const floors = values.map(Math.floor);
+  let remaining = Math.round(total) - floors.reduce((a, b) => a + b, 0);
+  const order = values
+    .map((v, i) => ({ i, frac: v - Math.floor(v) }))
+    .sort((a, b) => b.frac - a.frac);
+  for (const { i } of order) {
+    if (remaining <= 0) break;
+    floors[i] += 1;
+    remaining -= 1;
+  }
+  return floors;
+}
+
+function distribute(weekly: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  const shares = sum > 0 ? weights.map((w) => (weekly * w) / sum) : weights.map(() => weekly / 7);
+  return roundToTotal(shares, weekly);
+}
+
+export function splitWeek(target: MacroTargets, cycling: CarbCycling): DayTarget[] {
+  const days = cycling.days.slice(0, 7);
+  const carbs = distribute(target.carbsG * 7, days.map((d) => cycling.ratios[d].carbs));
+  const fat = distribute(target.fatG * 7, days.map((d) => cycling.ratios[d].fat));
+
+  // Shift calories by the macro change so the week's total matches the flat target
+  const calories = roundToTotal(
+    days.map((_, i) => target.calories + 4 * (carbs[i] - target.carbsG) + 9 * (fat[i] - target.fatG)),
+    target.calories * 7,
+  );
+
+  return days.map((dayType, i) => ({
+    weekday: WEEKDAYS[i],
+    dayType,
+    calories: calories[i],
+    proteinG: target.proteinG,
+    fatG: fat[i],
+    carbsG: carbs[i],
+  }));
+}
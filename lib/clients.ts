@@ -0,0 +1,198 @@
+import type { BmrPolicy, Goal, ProfileInput } from "@/types/nutrition";
+import { calculateAll, type MacroTargets } from "@/lib/calcs";
+import { GOALS } from "@/lib/macroStrategy";
+import { profileFormSchema, toProfileInput, type ProfileFormValues } from "@/lib/schema";
+import { toCsv } from "@/lib/csv";
+import type { SavedProfile } from "@/lib/profileStore";
+
+/**
+ * Coach roster: every saved profile is a client. A client carries the form
+ * values it was entered with plus a snapshot of the ProfileInput they parsed
+ * to and the targets calculateAll gave for it, so dozens of rows render
+ * without recalculating. Snapshots are formula-only, like scenarios.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type ClientSnapshot = {
+  input: ProfileInput;
+  bmr: number;
+  tdee: number;
+  targets: Record<Goal, MacroTargets>;
+  computedAt: number;
+};
+
+export type SnapshotOutcome =
+  | { ok: true; snapshot: ClientSnapshot }
+  // "invalid" lists the fields that failed the form schema, e.g. "weight.kg"
+  | { ok: false; reason: "invalid"; paths: string[] }
+  | { ok: false; reason: "failed" };
+
+export type ClientRow = {
+  id: string;
+  name: string;
+  tags: string[];
+  goal: Goal;
+  updatedAt: number;
+  snapshot?: ClientSnapshot;
+  // Values changed since the snapshot was taken
+  stale: boolean;
+};
+
+export type RosterFilter = {
+  query: string;
+  tag?: string;
+};
+
+export const DEFAULT_CLIENT_GOAL: Goal = "maintenance";
+
+/* =========================
+   Snapshots
+========================= */
+
+export function computeClientSnapshot(
+  values: Partial<ProfileFormValues>,
+  now = Date.now(),
+): SnapshotOutcome {
+  const parsed = profileFormSchema.safeParse(values);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      reason: "invalid",
+      paths: parsed.error.issues.map((i) => i.path.join(".")),
+    };
+  }
+  const input = toProfileInput(parsed.data);
+  try {
+    const results = calculateAll(input);
+    const targets = Object.fromEntries(GOALS.map((g) => [g, results[g]])) as Record<
+      Goal,
+      MacroTargets
+    >;
+    return {
+      ok: true,
+      snapshot: {
+        input,
+        bmr: results.bmr.recommendedBmr,
+        tdee: results.formulaTdee,
+        targets,
+        computedAt: now,
+      },
+    };
+  } catch {
+    return { ok: false, reason: "failed" };
+  }
+}
+
+/**
+ * Values with a new BMR policy. "weighted" needs per-client weights, so the
+ * bulk action only offers the modes that don't.
+ */
+export function withBmrPolicy(
+  values: Partial<ProfileFormValues>,
+  policy: Omit<BmrPolicy, "weights">,
+): Partial<ProfileFormValues> {
+  return { ...values, bmrPolicy: { ...policy, weights: values.bmrPolicy?.weights ?? {} } };
+}
+
+/* =========================
+   Tags
+========================= */
+
+// Trimmed, case-insensitively unique, in the order entered
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim();
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) continue;
+    seen.add(key);
+    out.push(tag);
+  }
+  return out;
+}
+
+export const parseTags = (text: string) => normalizeTags(text.split(","));
+
+export function allTags(rows: ClientRow[]): string[] {
+  return normalizeTags(rows.flatMap((r) => r.tags)).sort((a, b) => a.localeCompare(b));
+}
+
+/* =========================
+   Roster
+========================= */
+
+export function clientRow(profile: SavedProfile): ClientRow {
+  const { snapshot } = profile;
+  return {
+    id: profile.id,
+    name: profile.name,
+    tags: profile.tags ?? [],
+    goal: profile.goal ?? DEFAULT_CLIENT_GOAL,
+    updatedAt: profile.updatedAt,
+    snapshot,
+    stale: snapshot != null && profile.updatedAt > snapshot.computedAt,
+  };
+}
+
+/** Name or tag contains the query; with a tag picked, only clients carrying it. */
+export function filterClients(rows: ClientRow[], { query, tag }: RosterFilter): ClientRow[] {
+  const q = query.trim().toLowerCase();
+  const t = tag?.toLowerCase();
+  return rows.filter(
+    (r) =>
+      (!t || r.tags.some((x) => x.toLowerCase() === t)) &&
+      (!q || r.name.toLowerCase().includes(q) || r.tags.some((x) => x.toLowerCase().includes(q))),
+  );
+}
+
+// Most recently updated first
+export const sortClients = (rows: ClientRow[]) =>
+  [...rows].sort((a, b) => b.updatedAt - a.updatedAt);
+
+/* =========================
+   Export
+========================= */
+
+const ROSTER_HEADER = [
+  "Name",
+  "Tags",
+  "Goal",
+  "Calories (kcal)",
+  "Protein (g)",
+  "Fat (g)",
+  "Carbs (g)",
+  "BMR (kcal)",
+  "TDEE (kcal)",
+  "Updated",
+  "Computed",
+];
+
+const isoDate = (ms?: number) => (ms != null ? new Date(ms).toISOString() : "");
+
+/** One line per client in kcal / g, whatever units the client was entered in. */
+export function rosterCsv(rows: ClientRow[]): string {
+  return toCsv([
+    ROSTER_HEADER,
+    ...rows.map((r) => {
+      const s = r.snapshot;
+      const t = s?.targets[r.goal];
+      return [
+        r.name,
+        r.tags.join("; "),
+        r.goal,
+        t?.calories,
+        t?.proteinG,
+        t?.fatG,
+        t?.carbsG,
+        s?.bmr,
+        s?.tdee,
+        isoDate(r.updatedAt),
+        isoDate(s?.computedAt),
+      ];
+    }),
+  ]);
+}
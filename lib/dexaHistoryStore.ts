@@ -0,0 +1,91 @@
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import type { DexaScan } from "@/types/nutrition";
+import type { ParsedDexaScan } from "@/lib/dexaImport";
+import { makeId } from "@/lib/id";
+
+/* =========================
+   Types
+========================= */
+
+type PersistedDexaHistory = {
+  // Keyed by SavedProfile.id; oldest scan first
+  scans: Record<string, DexaScan[]>;
+};
+
+export type DexaHistoryStore = PersistedDexaHistory & {
+  addScans: (profileId: string, scans: ParsedDexaScan[]) => DexaScan[];
+  removeScan: (profileId: string, scanId: string) => void;
+  // Backup import: the profile's whole history
+  replaceScans: (profileId: string, scans: DexaScan[]) => void;
+  // Drops the history of a deleted profile
+  removeProfile: (profileId: string) => void;
+};
+
+/* =========================
+   Helpers
+========================= */
+
+const STORAGE_KEY = "nutrition-calculator:dexa-history";
+
+export const DEXA_HISTORY_STORE_VERSION = 1;
+
+const EMPTY_HISTORY: DexaScan[] = [];
+
+// Undated scans sort last, in import order
+const byDate = (a: DexaScan, b: DexaScan) =>
+  (a.date ?? "9999-12-31").localeCompare(b.date ?? "9999-12-31");
+
+/* =========================
+   Store
+========================= */
+
+export const useDexaHistoryStore = create<DexaHistoryStore>()(
+  persist(
+    (set) => ({
+      scans: {},
+
+      addScans: (profileId, parsed) => {
+        const added = parsed.map((s) => ({ ...s, id: makeId("d") }));
+        set((s) => ({
+          scans: {
+            ...s.scans,
+            [profileId]: [...(s.scans[profileId] ?? []), ...added].sort(byDate),
+          },
+        }));
+        return added;
+      },
+
+      removeScan: (profileId, scanId) => {
+        set((s) => ({
+          scans: {
+            ...s.scans,
+            [profileId]: (s.scans[profileId] ?? []).filter((scan) => scan.id !== scanId),
+          },
+        }));
+      },
+
+      replaceScans: (profileId, scans) => {
+        set((s) => ({ scans: { ...s.scans, [profileId]: [...scans].sort(byDate) } }));
+      },
+
+      removeProfile: (profileId) => {
+        set((s) => {
+          const scans = { ...s.scans };
+          delete scans[profileId];
+          return { scans };
+        });
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      version: DEXA_HISTORY_STORE_VERSION,
+      storage: createJSONStorage(() => localStorage),
+      skipHydration: true,
+      partialize: (s): PersistedDexaHistory => ({ scans: s.scans }),
+    },
+  ),
+);
+
+export const selectDexaHistory = (profileId?: string) => (s: DexaHistoryStore) =>
+  (profileId && s.scans[profileId]) || EMPTY_HISTORY;
@@ -0,0 +1,336 @@
+import type { DexaRegion, DexaRegionMasses, DexaScan } from "@/types/nutrition";
+import { parseCsv } from "@/lib/csv";
+import type { EngineMessage } from "@/lib/i18n";
+import { lbToKg } from "@/lib/units";
+
+/**
+ * DEXA export importer.
+ *
+ * Understands the two shapes vendors actually ship:
+ * - "long" tables with one row per region and one column per measure
+ *   (GE Lunar enCORE / Hologic APEX report exports: Region, Fat (g), Lean (g), BMC (g), ...)
+ * - "wide" records with one column/key per region+measure
+ *   (BodySpec / DexaFit style CSV rows or JSON, e.g. "Total Fat Mass (kg)", trunk_lean_g)
+ * JSON is flattened into "wide" keys, so nested { regions: { total: { fat: ... } } } works too.
+ * Left/right limbs are summed; units come from the header, or the magnitude if unlabeled.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type ParsedDexaScan = Omit<DexaScan, "id">;
+
+// Shown as `dexa.error.<code>`
+export type DexaImportError = "empty" | "invalidJson" | "noColumns" | "noTotals";
+
+export type DexaImportResult =
+  | { ok: true; layout: "long" | "wide" | "json"; scans: ParsedDexaScan[]; notes: EngineMessage[] }
+  | { ok: false; error: DexaImportError };
+
+type Measure = "fat" | "lean" | "bmc" | "leanBmc";
+type Unit = "g" | "kg" | "lb";
+
+type Reading = {
+  region: DexaRegion;
+  side?: "left" | "right";
+  measure: Measure;
+  value: number;
+  unit?: Unit;
+};
+
+/* =========================
+   Header matching
+========================= */
+
+const tokenize = (label: string) =>
+  label
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+
+function matchRegion(tokens: string[]): { region: DexaRegion; side?: "left" | "right" } | undefined {
+  const has = (...t: string[]) => t.some((x) => tokens.includes(x));
+  const side = has("l", "left") ? "left" : has("r", "right") ? "right" : undefined;
+
+  if (has("android")) return { region: "android" };
+  if (has("gynoid")) return { region: "gynoid" };
+  if (has("trunk")) return { region: "trunk" };
+  if (has("arm", "arms")) return { region: "arms", side };
+  if (has("leg", "legs")) return { region: "legs", side };
+  if (has("total", "wb") || (has("whole") && has("body"))) return { region: "total" };
+  return undefined;
+}
+
+function matchMeasure(label: string, tokens: string[]): Measure | undefined {
+  const has = (...t: string[]) => t.some((x) => tokens.includes(x));
+  if (label.includes("%") || has("percent", "pct", "ratio", "index")) return undefined;
+
+  const bone = has("bmc") || (has("bone") && has("mineral"));
+  if (has("ffm") || (has("fat") && has("free"))) return "leanBmc";
+  if (has("lean", "lst") && bone) return "leanBmc";
+  if (bone) return "bmc";
+  if (has("lean", "lst")) return "lean";
+  if (has("fat")) return "fat";
+  return undefined;
+}
+
+function matchUnit(tokens: string[]): Unit | undefined {
+  if (tokens.includes("kg")) return "kg";
+  if (tokens.includes("lb") || tokens.includes("lbs")) return "lb";
+  if (tokens.includes("g") || tokens.includes("grams") || tokens.includes("gram")) return "g";
+  return undefined;
+}
+
+const isDateHeader = (tokens: string[]) => tokens.includes("date");
+
+const toNumber = (raw: unknown): number | undefined => {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : undefined;
+  if (typeof raw !== "string") return undefined;
+  const n = Number(raw.replace(/,/g, "").trim());
+  return raw.trim() !== "" && Number.isFinite(n) ? n : undefined;
+};
+
+function toIsoDate(raw: unknown): string | undefined {
+  if (typeof raw !== "string" || !raw.trim()) return undefined;
+  const s = raw.trim();
+  const iso = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${iso[2].padStart(2, "0")}-${iso[3].padStart(2, "0")}`;
+  // US exports: MM/DD/YYYY
+  const us = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) return `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  return undefined;
+}
+
+/* =========================
+   Readings -> scan
+========================= */
+
+function toKg(value: number, unit: Unit | undefined): number {
+  if (unit === "kg") return value;
+  if (unit === "lb") return lbToKg(value);
+  if (unit === "g") return value / 1000;
+  return value;
+}
+
+function buildRegions(readings: Reading[], notes: EngineMessage[]): DexaScan["regions"] {
+  const regions: DexaScan["regions"] = {};
+  const key = (r: Reading) => `${r.region}:${r.measure}`;
+
+  // A combined value ("Arms") wins over summing sides ("L Arm" + "R Arm")
+  const combined = new Map<string, number>();
+  const sided = new Map<string, number>();
+
+  // Unlabeled columns: nobody has 250 kg of tissue in one region, so big numbers mean grams
+  const unlabeledUnit: Unit = readings.some((r) => !r.unit && r.value > 250) ? "g" : "kg";
+  if (readings.some((r) => !r.unit)) {
+    notes.push({ key: unlabeledUnit === "g" ? "dexa.note.unlabeledGrams" : "dexa.note.unlabeledKg" });
+  }
+
+  for (const r of readings) {
+    const kg = toKg(r.value, r.unit ?? unlabeledUnit);
+    const target = r.side ? sided : combined;
+    target.set(key(r), (target.get(key(r)) ?? 0) + kg);
+  }
+
+  const leanBmc: Partial<Record<DexaRegion, number>> = {};
+  for (const map of [sided, combined]) {
+    for (const [k, kg] of map) {
+      const [region, measure] = k.split(":") as [DexaRegion, Measure];
+      if (measure === "leanBmc") {
+        leanBmc[region] = kg;
+        continue;
+      }
+      const field: keyof DexaRegionMasses =
+        measure === "fat" ? "fatMassKg" : measure === "lean" ? "leanMassKg" : "bmcKg";
+      regions[region] = { ...regions[region], [field]: kg };
+    }
+  }
+
+  // Some exports only give "Lean + BMC" (fat-free mass)
+  for (const [region, kg] of Object.entries(leanBmc) as [DexaRegion, number][]) {
+    const r = regions[region] ?? {};
+    if (r.leanMassKg != null) continue;
+    if (r.bmcKg != null) {
+      regions[region] = { ...r, leanMassKg: kg - r.bmcKg };
+    } else {
+      regions[region] = { ...r, leanMassKg: kg };
+      notes.push({ key: "dexa.note.leanIncludesBmc", params: { region: { keys: [`dexa.region.${region}`] } } });
+    }
+  }
+
+  return regions;
+}
+
+const hasTotals = (scan: ParsedDexaScan) =>
+  scan.regions.total?.fatMassKg != null || scan.regions.total?.leanMassKg != null;
+
+/* =========================
+   Layouts
+========================= */
+
+function parseLong(rows: string[][], headerIdx: number, notes: EngineMessage[]): ParsedDexaScan | undefined {
+  const header = rows[headerIdx];
+  const columns = header.map((h) => {
+    const tokens = tokenize(h);
+    return { measure: matchMeasure(h, tokens), unit: matchUnit(tokens) };
+  });
+
+  const readings: Reading[] = [];
+  let date: string | undefined;
+
+  for (const row of rows.slice(headerIdx + 1)) {
+    const labelIdx = row.findIndex((cell) => matchRegion(tokenize(cell)) != null);
+    if (labelIdx < 0) {
+      date ??= row.map(toIsoDate).find(Boolean);
+      continue;
+    }
+    const region = matchRegion(tokenize(row[labelIdx]))!;
+    row.forEach((cell, i) => {
+      const col = columns[i];
+      const value = toNumber(cell);
+      if (i === labelIdx || !col?.measure || value == null) return;
+      readings.push({ ...region, measure: col.measure, value, unit: col.unit });
+    });
+  }
+
+  // Report metadata above the table often carries the scan date
+  date ??= rows
+    .slice(0, headerIdx)
+    .flat()
+    .map(toIsoDate)
+    .find(Boolean);
+
+  if (readings.length === 0) return undefined;
+  return { date, regions: buildRegions(readings, notes) };
+}
+
+function parseWideRecord(record: Record<string, unknown>, notes: EngineMessage[]): ParsedDexaScan | undefined {
+  const readings: Reading[] = [];
+  let date: string | undefined;
+
+  for (const [label, raw] of Object.entries(record)) {
+    const tokens = tokenize(label);
+    if (isDateHeader(tokens)) {
+      date ??= toIsoDate(raw);
+      continue;
+    }
+    const measure = matchMeasure(label, tokens);
+    const value = toNumber(raw);
+    if (!measure || value == null) continue;
+    // "Fat Mass (kg)" with no region means whole body
+    const region = matchRegion(tokens) ?? { region: "total" as const };
+    readings.push({ ...region, measure, value, unit: matchUnit(tokens) });
+  }
+
+  if (readings.length === 0) return undefined;
+  return { date, regions: buildRegions(readings, notes) };
+}
+
+function flatten(value: unknown, prefix = "", out: Record<string, unknown> = {}) {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [k, v] of Object.entries(value)) flatten(v, prefix ? `${prefix} ${k}` : k, out);
+  } else {
+    out[prefix] = value;
+  }
+  return out;
+}
+
+/* =========================
+   Entry point
+========================= */
+
+export function parseDexaExport(text: string, fileName = ""): DexaImportResult {
+  const notes: EngineMessage[] = [];
+  const trimmed = text.trim();
+  if (!trimmed) return { ok: false, error: "empty" };
+
+  let scans: ParsedDexaScan[] = [];
+  let layout: "long" | "wide" | "json";
+
+  if (fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      return { ok: false, error: "invalidJson" };
+    }
+    // Accept a bare scan, an array of scans, or { scans: [...] }
+    const list = Array.isArray(data)
+      ? data
+      : data && typeof data === "object" && Array.isArray((data as { scans?: unknown }).scans)
+        ? (data as { scans: unknown[] }).scans
+        : [data];
+    layout = "json";
+    scans = list
+      .map((item) => parseWideRecord(flatten(item), notes))
+      .filter((s): s is ParsedDexaScan => s != null);
+  } else {
+    const rows = parseCsv(trimmed);
+    const headerIdx = rows.findIndex(
+      (r) => r.filter((cell) => matchMeasure(cell, tokenize(cell)) != null).length >= 2,
+    );
+    if (headerIdx < 0) {
+      return { ok: false, error: "noColumns" };
+    }
+
+    // Long tables name a region in each row; wide headers name it in each column, or
+    // leave it out for whole-body values ("Fat Mass (kg)"), as in JSON
+    const headerHasRegions = rows[headerIdx].some((cell) => {
+      const tokens = tokenize(cell);
+      return matchRegion(tokens) != null && matchMeasure(cell, tokens) != null;
+    });
+    const rowsNameRegions = rows
+      .slice(headerIdx + 1)
+      .some((r) => r.some((cell) => matchRegion(tokenize(cell)) != null));
+    if (headerHasRegions || !rowsNameRegions) {
+      layout = "wide";
+      const header = rows[headerIdx];
+      scans = rows
+        .slice(headerIdx + 1)
+        .map((r) => parseWideRecord(Object.fromEntries(header.map((h, i) => [h, r[i]])), notes))
+        .filter((s): s is ParsedDexaScan => s != null);
+    } else {
+      layout = "long";
+      const scan = parseLong(rows, headerIdx, notes);
+      scans = scan ? [scan] : [];
+    }
+  }
+
+  scans = scans
+    .filter(hasTotals)
+    .map((s) => ({ ...s, source: fileName || undefined }));
+
+  if (scans.length === 0) {
+    return { ok: false, error: "noTotals" };
+  }
+  return { ok: true, layout, scans, notes };
+}
+
+/* =========================
+   Checks
+========================= */
+
+// fat + lean + BMC should account for body weight, within scale/hydration noise
+const WEIGHT_TOLERANCE = 0.03;
+
+export type DexaWeightCheck = {
+  scanTotalKg: number;
+  diffKg: number;
+  diffFraction: number;
+  ok: boolean;
+};
+
+export function checkDexaAgainstWeight(
+  total: DexaRegionMasses | undefined,
+  weightKg: number,
+): DexaWeightCheck | undefined {
+  if (!total || total.fatMassKg == null || total.leanMassKg == null) return undefined;
+  const scanTotalKg = total.fatMassKg + total.leanMassKg + (total.bmcKg ?? 0);
+  const diffKg = scanTotalKg - weightKg;
+  const diffFraction = diffKg / weightKg;
+  return { scanTotalKg, diffKg, diffFraction, ok: Math.abs(diffFraction) <= WEIGHT_TOLERANCE };
+}
@@ -0,0 +1,316 @@
+import type { FieldPath } from "react-hook-form";
+import type { Goal, LifeStage, ProfileInput } from "@/types/nutrition";
+import type { ProfileFormValues } from "@/lib/schema";
+import type { EngineMessage } from "@/lib/i18n";
+import { GOALS } from "@/lib/macroStrategy";
+import { BMR_METHOD_LABELS } from "@/lib/bmrEquations";
+import { LACTATION_STAGES, LIFE_STAGE_RULES, PREGNANCY_STAGES } from "@/lib/lifeStage";
+import { MASS_FIELD } from "@/lib/units";
+
+/* =========================
+   Types
+========================= */
+
+export type DiagnosticSeverity = "info" | "warn" | "danger";
+
+export type DiagnosticCode =
+  | "FAT_BELOW_50G"
+  | "CARBS_NEGATIVE"
+  | "CARBS_REDUCED"
+  | "LEAN_MASS_ESTIMATED"
+  | "CALORIES_BELOW_BMR"
+  | "CUT_RATE_TOO_FAST"
+  | "PROTEIN_ABOVE_SAFE_LIMIT"
+  | "PROTEIN_ABOVE_AMDR"
+  | "BMI_IMPLAUSIBLE"
+  | "DEXA_MASS_MISMATCH"
+  | "DEXA_MASS_EXCEEDS_WEIGHT"
+  | "BMR_POLICY_FALLBACK"
+  | "DEFICIT_BLOCKED"
+  | "LACTATION_DEFICIT";
+
+export type Diagnostic = {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  // Without the goal; the UI shows that next to it
+  message: EngineMessage;
+  goal?: Goal; // undefined = applies to the whole profile
+  field?: FieldPath<ProfileFormValues>; // form input to focus when the diagnostic is clicked
+};
+
+// Per-goal numbers before rounding, as computed by calculateAll
+export type GoalDiagnosticInput = {
+  calories: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  carbsClamped: boolean;
+  carbsReduced: boolean;
+  leanMassEstimated: boolean;
+};
+
+export type DiagnosticContext = {
+  input: ProfileInput;
+  weightKg: number;
+  heightCm: number;
+  recommendedBmr: number;
+  bmrPolicyFellBack: boolean;
+  lifeStage: LifeStage;
+  // Calorie deltas after life-stage limits
+  deltas: Record<Exclude<Goal, "maintenance">, number>;
+  goals: Record<Goal, GoalDiagnosticInput>;
+};
+
+/* =========================
+   Thresholds
+========================= */
+
+const MIN_FAT_G = 50;
+const MAX_WEEKLY_LOSS_FRACTION = 0.01; // of body weight
+const KCAL_PER_KG = 7700;
+const MAX_PROTEIN_G_PER_KG = 3.5;
+const MAX_PROTEIN_CAL_FRACTION = 0.35; // AMDR upper bound
+const BMI_RANGE = { min: 15, max: 60 };
+const DEXA_TOLERANCE = 0.05;
+
+export const SEVERITY_ORDER: DiagnosticSeverity[] = ["danger", "warn", "info"];
+
+/* =========================
+   Checks
+========================= */
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const deltaField = (goal: Goal): FieldPath<ProfileFormValues> | undefined =>
+  goal === "maintenance" ? undefined : (`${goal}Delta` as const);
+
+export function collectDiagnostics(ctx: DiagnosticContext): Diagnostic[] {
+  const { input, weightKg, heightCm } = ctx;
+  const out: Diagnostic[] = [];
+  const weightField: FieldPath<ProfileFormValues> = `weight.${MASS_FIELD[input.units.mass]}`;
+
+  /* ---- Profile-level ---- */
+
+  const bmi = weightKg / (heightCm / 100) ** 2;
+  if (bmi < BMI_RANGE.min || bmi > BMI_RANGE.max) {
+    out.push({
+      code: "BMI_IMPLAUSIBLE",
+      severity: "warn",
+      message: {
+        key: "diagnostic.bmiImplausible",
+        params: { bmi: round1(bmi), min: BMI_RANGE.min, max: BMI_RANGE.max },
+      },
+      field: weightField,
+    });
+  }
+
+  if (input.dexa.enabled) {
+    const { fatMassKg, leanMassKg } = input.dexa;
+    const bone = input.dexa.boneMineralKg ?? 0;
+    const parts = bone > 0 ? "diagnostic.dexaParts.withBone" : "diagnostic.dexaParts.noBone";
+    if (fatMassKg != null && leanMassKg != null) {
+      const total = fatMassKg + leanMassKg + bone;
+      if (Math.abs(total - weightKg) / weightKg > DEXA_TOLERANCE) {
+        out.push({
+          code: "DEXA_MASS_MISMATCH",
+          severity: "warn",
+          message: {
+            key: "diagnostic.dexaMassMismatch",
+            params: {
+              parts: { keys: [parts] },
+              total: round1(total),
+              weight: round1(weightKg),
+              percent: DEXA_TOLERANCE * 100,
+            },
+          },
+          field: "dexaFatMassKg",
+        });
+      }
+    } else {
+      // The missing mass is derived from weight, so the one given has to leave room for it
+      const single = fatMassKg ?? (leanMassKg != null ? leanMassKg + bone : undefined);
+      if (single != null && single >= weightKg) {
+        out.push({
+          code: "DEXA_MASS_EXCEEDS_WEIGHT",
+          severity: "danger",
+          message: {
+            key: "diagnostic.dexaMassExceedsWeight",
+            params: {
+              mass: {
+                keys: [
+                  fatMassKg != null
+                    ? "diagnostic.dexaMass.fat"
+                    : bone > 0
+                      ? "diagnostic.dexaMass.leanBone"
+                      : "diagnostic.dexaMass.lean",
+                ],
+              },
+              value: round1(single),
+              weight: round1(weightKg),
+            },
+          },
+          field: fatMassKg != null ? "dexaFatMassKg" : "dexaLeanMassKg",
+        });
+      }
+    }
+  }
+
+  if (ctx.bmrPolicyFellBack) {
+    const policy = input.bmrPolicy;
+    out.push({
+      code: "BMR_POLICY_FALLBACK",
+      severity: "info",
+      message:
+        policy?.mode === "single"
+          ? {
+              key: "diagnostic.bmrPolicyFallback.single",
+              params: { method: BMR_METHOD_LABELS[policy.method] },
+            }
+          : { key: "diagnostic.bmrPolicyFallback.blend" },
+      field: policy?.mode === "single" ? "bmrPolicy.method" : "bmrPolicy.mode",
+    });
+  }
+
+  /* ---- Per goal ---- */
+
+  for (const goal of GOALS) {
+    const g = ctx.goals[goal];
+    const rulesField = `macroStrategy.goals.${goal}` as const;
+
+    if (g.carbsClamped) {
+      out.push({
+        code: "CARBS_NEGATIVE",
+        severity: "danger",
+        message: { key: "diagnostic.carbsNegative" },
+        goal,
+        field: `${rulesField}.protein.amount`,
+      });
+    }
+
+    if (g.carbsReduced) {
+      out.push({
+        code: "CARBS_REDUCED",
+        severity: "warn",
+        message: { key: "diagnostic.carbsReduced", params: { carbs: Math.round(g.carbsG) } },
+        goal,
+        field: `${rulesField}.carbs.amount`,
+      });
+    }
+
+    if (g.fatG < MIN_FAT_G) {
+      out.push({
+        code: "FAT_BELOW_50G",
+        severity: "warn",
+        message: { key: "diagnostic.fatBelowMin", params: { min: MIN_FAT_G } },
+        goal,
+        field: `${rulesField}.fat.amount`,
+      });
+    }
+
+    if (g.calories < ctx.recommendedBmr) {
+      out.push({
+        code: "CALORIES_BELOW_BMR",
+        severity: "danger",
+        message: {
+          key: "diagnostic.caloriesBelowBmr",
+          params: { calories: { kcal: g.calories }, bmr: { kcal: ctx.recommendedBmr } },
+        },
+        goal,
+        field: deltaField(goal),
+      });
+    }
+
+    if (goal !== "maintenance" && input.deltas[goal] < 0) {
+      const requested = input.deltas[goal];
+      if (ctx.deltas[goal] === 0) {
+        out.push({
+          code: "DEFICIT_BLOCKED",
+          severity: "danger",
+          message: {
+            key: PREGNANCY_STAGES.includes(ctx.lifeStage)
+              ? "diagnostic.deficitBlocked.pregnancy"
+              : "diagnostic.deficitBlocked.minor",
+            params: { requested: { kcal: requested } },
+          },
+          goal,
+          field: deltaField(goal),
+        });
+      } else if (LACTATION_STAGES.includes(ctx.lifeStage)) {
+        const max = LIFE_STAGE_RULES[ctx.lifeStage].maxDeficitKcal!;
+        const capped = ctx.deltas[goal] !== requested;
+        out.push({
+          code: "LACTATION_DEFICIT",
+          severity: capped ? "danger" : "warn",
+          message: {
+            key: capped ? "diagnostic.lactationDeficit.capped" : "diagnostic.lactationDeficit",
+            params: {
+              max: { kcal: max },
+              requested: { kcal: requested },
+              applied: { kcal: ctx.deltas[goal] },
+            },
+          },
+          goal,
+          field: deltaField(goal),
+        });
+      }
+    }
+
+    const delta = goal === "maintenance" ? 0 : ctx.deltas[goal];
+    const weeklyLossKg = (-delta * 7) / KCAL_PER_KG;
+    if (weeklyLossKg > weightKg * MAX_WEEKLY_LOSS_FRACTION) {
+      out.push({
+        code: "CUT_RATE_TOO_FAST",
+        severity: "warn",
+        message: {
+          key: "diagnostic.cutRateTooFast",
+          params: {
+            deficit: { kcal: Math.abs(delta) },
+            percent: round1((weeklyLossKg / weightKg) * 100),
+            max: MAX_WEEKLY_LOSS_FRACTION * 100,
+          },
+        },
+        goal,
+        field: deltaField(goal),
+      });
+    }
+
+    const proteinPerKg = g.proteinG / weightKg;
+    if (proteinPerKg > MAX_PROTEIN_G_PER_KG) {
+      out.push({
+        code: "PROTEIN_ABOVE_SAFE_LIMIT",
+        severity: "danger",
+        message: {
+          key: "diagnostic.proteinAboveSafeLimit",
+          params: { perKg: round1(proteinPerKg), max: MAX_PROTEIN_G_PER_KG },
+        },
+        goal,
+        field: `${rulesField}.protein.amount`,
+      });
+    } else if (g.calories > 0 && (g.proteinG * 4) / g.calories > MAX_PROTEIN_CAL_FRACTION) {
+      out.push({
+        code: "PROTEIN_ABOVE_AMDR",
+        severity: "info",
+        message: {
+          key: "diagnostic.proteinAboveAmdr",
+          params: { percent: MAX_PROTEIN_CAL_FRACTION * 100 },
+        },
+        goal,
+        field: `${rulesField}.protein.amount`,
+      });
+    }
+
+    if (g.leanMassEstimated) {
+      out.push({
+        code: "LEAN_MASS_ESTIMATED",
+        severity: "info",
+        message: { key: "diagnostic.leanMassEstimated" },
+        goal,
+        field: "bodyFatMode",
+      });
+    }
+  }
+
+  return out.sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity),
+  );
+}
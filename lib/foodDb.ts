@@ -0,0 +1,114 @@
+import type { Food, FoodLogEntry, FoodTag, Nutrients } from "@/types/nutrition";
+
+/**
+ * Offline food database: a bundled starter set (USDA FoodData Central
+ * averages, rounded) plus the user's own foods from the food store.
+ */
+
+/* =========================
+   Starter set
+========================= */
+
+type StarterRow = [
+  name: string,
+  kcal: number,
+  protein: number,
+  fat: number,
+  carbs: number,
+  tags: FoodTag[],
+  serving?: [label: string, grams: number],
+];
+
+// Per 100 g, cooked weight unless noted
+const STARTER_ROWS: StarterRow[] = [
+  ["Chicken breast, cooked", 165, 31, 3.6, 0, ["meat"]],
+  ["Salmon, cooked", 206, 22, 12, 0, ["fish"]],
+  ["Ground beef 90/10, cooked", 217, 26, 12, 0, ["meat"]],
+  ["Tuna, canned in water", 116, 25.5, 0.8, 0, ["fish"], ["1 can (drained)", 142]],
+  ["Egg, whole", 143, 12.6, 9.5, 0.7, ["egg"], ["1 large", 50]],
+  ["Egg white", 52, 10.9, 0.2, 0.7, ["egg"], ["1 large", 33]],
+  ["Greek yogurt, nonfat plain", 59, 10.2, 0.4, 3.6, ["dairy"], ["1 container", 170]],
+  ["Cottage cheese, 2%", 81, 10.5, 2.3, 4.8, ["dairy"], ["1/2 cup", 113]],
+  ["Milk, 2%", 50, 3.3, 2, 4.8, ["dairy"], ["1 cup", 244]],
+  ["Cheddar cheese", 403, 24.9, 33.1, 1.3, ["dairy"], ["1 slice", 28]],
+  ["Whey protein powder", 400, 80, 6.7, 10, ["dairy"], ["1 scoop", 30]],
+  ["Tofu, firm", 144, 17.3, 8.7, 2.8, []],
+  ["White rice, cooked", 130, 2.7, 0.3, 28.2, [], ["1 cup", 158]],
+  ["Brown rice, cooked", 123, 2.7, 1, 25.6, [], ["1 cup", 195]],
+  ["Oats, dry", 379, 13.2, 6.5, 67.7, [], ["1/2 cup", 40]],
+  ["Whole wheat bread", 252, 12.4, 3.5, 42.7, [], ["1 slice", 32]],
+  ["Pasta, cooked", 158, 5.8, 0.9, 30.9, [], ["1 cup", 140]],
+  ["Potato, baked", 93, 2.5, 0.1, 21.2, [], ["1 medium", 173]],
+  ["Sweet potato, baked", 90, 2, 0.2, 20.7, [], ["1 medium", 114]],
+  ["Black beans, cooked", 132, 8.9, 0.5, 23.7, [], ["1/2 cup", 86]],
+  ["Lentils, cooked", 116, 9, 0.4, 20.1, [], ["1/2 cup", 99]],
+  ["Banana", 89, 1.1, 0.3, 22.8, [], ["1 medium", 118]],
+  ["Apple", 52, 0.3, 0.2, 13.8, [], ["1 medium", 182]],
+  ["Blueberries", 57, 0.7, 0.3, 14.5, [], ["1 cup", 148]],
+  ["Broccoli, cooked", 35, 2.4, 0.4, 7.2, [], ["1 cup", 156]],
+  ["Spinach, raw", 23, 2.9, 0.4, 3.6, [], ["1 cup", 30]],
+  ["Avocado", 160, 2, 14.7, 8.5, [], ["1/2 fruit", 100]],
+  ["Olive oil", 884, 0, 100, 0, [], ["1 tbsp", 13.5]],
+  ["Butter", 717, 0.9, 81.1, 0.1, ["dairy"], ["1 tbsp", 14]],
+  ["Peanut butter", 588, 25, 50, 20, [], ["2 tbsp", 32]],
+  ["Almonds", 579, 21.2, 49.9, 21.6, [], ["1 oz", 28]],
+];
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+export const STARTER_FOODS: Food[] = STARTER_ROWS.map(
+  ([name, calories, proteinG, fatG, carbsG, tags, serving]) => ({
+    id: `starter:${slug(name)}`,
+    name,
+    per100g: { calories, proteinG, fatG, carbsG },
+    serving: serving ? { label: serving[0], grams: serving[1] } : undefined,
+    tags,
+  }),
+);
+
+/* =========================
+   Helpers
+========================= */
+
+export const ZERO_NUTRIENTS: Nutrients = { calories: 0, proteinG: 0, fatG: 0, carbsG: 0 };
+
+export function scaleNutrients(per100g: Nutrients, grams: number): Nutrients {
+  const f = grams / 100;
+  return {
+    calories: per100g.calories * f,
+    proteinG: per100g.proteinG * f,
+    fatG: per100g.fatG * f,
+    carbsG: per100g.carbsG * f,
+  };
+}
+
+export function sumNutrients(list: Nutrients[]): Nutrients {
+  return list.reduce(
+    (acc, n) => ({
+      calories: acc.calories + n.calories,
+      proteinG: acc.proteinG + n.proteinG,
+      fatG: acc.fatG + n.fatG,
+      carbsG: acc.carbsG + n.carbsG,
+    }),
+    ZERO_NUTRIENTS,
+  );
+}
+
+export const entryNutrients = (e: FoodLogEntry) => scaleNutrients(e.per100g, e.grams);
+
+/** Label macros are often per serving; normalize them to the per-100 g basis we store. */
+export function per100gFromServing(perServing: Nutrients, servingGrams: number): Nutrients {
+  return scaleNutrients(perServing, (100 * 100) / servingGrams);
+}
+
+/** Case-insensitive match on every word, so "rice brown" finds "Brown rice, cooked". */
+export function searchFoods(foods: Food[], query: string, limit = 12): Food[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  return foods
+    .filter((f) => {
+      const hay = `${f.name} ${f.brand ?? ""}`.toLowerCase();
+      return words.every((w) => hay.includes(w));
+    })
+    .slice(0, limit);
+}
@@ -0,0 +1,171 @@
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import type { Food, FoodLogEntry } from "@/types/nutrition";
+import type { DietExclusions, LockedFood } from "@/lib/mealPlan";
+import { makeId } from "@/lib/id";
+
+/* =========================
+   Types
+========================= */
+
+export type MealPlanSettings = {
+  mealsPerDay: number;
+  tolerance: number;
+  exclusions: DietExclusions;
+  bannedFoodIds: string[];
+  locked: LockedFood[];
+  seed: number;
+};
+
+type PersistedFoods = {
+  // Shared by every profile
+  customFoods: Food[];
+  // Keyed by SavedProfile.id, then YYYY-MM-DD
+  logs: Record<string, Record<string, FoodLogEntry[]>>;
+  // Keyed by SavedProfile.id
+  planSettings: Record<string, MealPlanSettings>;
+};
+
+export type FoodStore = PersistedFoods & {
+  addCustomFood: (food: Omit<Food, "id" | "custom">) => Food;
+  removeCustomFood: (id: string) => void;
+  addLogEntry: (profileId: string, date: string, entry: Omit<FoodLogEntry, "id">) => void;
+  updateLogEntry: (profileId: string, date: string, id: string, grams: number) => void;
+  removeLogEntry: (profileId: string, date: string, id: string) => void;
+  updatePlanSettings: (profileId: string, patch: Partial<MealPlanSettings>) => void;
+  // Backup import
+  upsertCustomFoods: (foods: Food[]) => void;
+  replaceLogs: (profileId: string, logs: Record<string, FoodLogEntry[]>) => void;
+  // Drops the logs and plan settings of a deleted profile
+  removeProfile: (profileId: string) => void;
+};
+
+/* =========================
+   Helpers
+========================= */
+
+const STORAGE_KEY = "nutrition-calculator:foods";
+
+export const FOOD_STORE_VERSION = 1;
+
+const EMPTY_DAY: FoodLogEntry[] = [];
+
+export const DEFAULT_MEAL_PLAN_SETTINGS: MealPlanSettings = {
+  mealsPerDay: 3,
+  tolerance: 0.05,
+  exclusions: { vegetarian: false, dairyFree: false },
+  bannedFoodIds: [],
+  locked: [],
+  seed: 1,
+};
+
+function updateDay(
+  logs: PersistedFoods["logs"],
+  profileId: string,
+  date: string,
+  fn: (day: FoodLogEntry[]) => FoodLogEntry[],
+): PersistedFoods["logs"] {
+  const profileLogs = logs[profileId] ?? {};
+  return { ...logs, [profileId]: { ...profileLogs, [date]: fn(profileLogs[date] ?? []) } };
+}
+
+/* =========================
+   Store
+========================= */
+
+export const useFoodStore = create<FoodStore>()(
+  persist(
+    (set) => ({
+      customFoods: [],
+      logs: {},
+      planSettings: {},
+
+      addCustomFood: (food) => {
+        const created: Food = { ...food, id: `custom:${makeId("f")}`, custom: true };
+        set((s) => ({ customFoods: [...s.customFoods, created] }));
+        return created;
+      },
+
+      // Logged entries keep their own snapshot, so history is unaffected
+      removeCustomFood: (id) => {
+        set((s) => ({ customFoods: s.customFoods.filter((f) => f.id !== id) }));
+      },
+
+      addLogEntry: (profileId, date, entry) => {
+        set((s) => ({
+          logs: updateDay(s.logs, profileId, date, (day) => [
+            ...day,
+            { ...entry, id: makeId("f") },
+          ]),
+        }));
+      },
+
+      updateLogEntry: (profileId, date, id, grams) => {
+        set((s) => ({
+          logs: updateDay(s.logs, profileId, date, (day) =>
+            day.map((e) => (e.id === id ? { ...e, grams } : e)),
+          ),
+        }));
+      },
+
+      removeLogEntry: (profileId, date, id) => {
+        set((s) => ({
+          logs: updateDay(s.logs, profileId, date, (day) => day.filter((e) => e.id !== id)),
+        }));
+      },
+
+      upsertCustomFoods: (foods) => {
+        set((s) => {
+          const byId = new Map(foods.map((f) => [f.id, { ...f, custom: true }]));
+          const replaced = s.customFoods.map((f) => byId.get(f.id) ?? f);
+          const added = [...byId.values()].filter((f) => !s.customFoods.some((x) => x.id === f.id));
+          return { customFoods: [...replaced, ...added] };
+        });
+      },
+
+      replaceLogs: (profileId, logs) => {
+        set((s) => ({ logs: { ...s.logs, [profileId]: logs } }));
+      },
+
+      removeProfile: (profileId) => {
+        set((s) => {
+          const logs = { ...s.logs };
+          delete logs[profileId];
+          const planSettings = { ...s.planSettings };
+          delete planSettings[profileId];
+          return { logs, planSettings };
+        });
+      },
+
+      updatePlanSettings: (profileId, patch) => {
+        set((s) => ({
+          planSettings: {
+            ...s.planSettings,
+            [profileId]: {
+              ...DEFAULT_MEAL_PLAN_SETTINGS,
+              ...s.planSettings[profileId],
+              ...patch,
+            },
+          },
+        }));
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      version: FOOD_STORE_VERSION,
+      storage: createJSONStorage(() => localStorage),
+      skipHydration: true,
+      partialize: (s): PersistedFoods => ({
+        customFoods: s.customFoods,
+        logs: s.logs,
+        planSettings: s.planSettings,
+      }),
+    },
+  ),
+);
+
+export const selectFoodLogDay = (profileId?: string, date?: string) => (s: FoodStore) =>
+  (profileId && date && s.logs[profileId]?.[date]) || EMPTY_DAY;
+
+export const selectMealPlanSettings = (profileId?: string) => (s: FoodStore) =>
+  (profileId && s.planSettings[profileId]) || DEFAULT_MEAL_PLAN_SETTINGS;
@@ -1,9 +1,88 @@
-export function fmtInt(n: number): string {
+import type { EnergyUnit } from "@/types/nutrition";
+import { fromKcal } from "@/lib/units";
+
+/**
+ * Number formatting. Every helper takes an optional BCP 47 locale; without
+ * one the runtime default is used.
+ */
+
+const cache = new Map<string, Intl.NumberFormat>();
+
+function numberFormat(locale: string | undefined, options: Intl.NumberFormatOptions) {
+  const key = `${locale ?? ""}|${JSON.stringify(options)}`;
+  let nf = cache.get(key);
+  if (!nf) {
+    nf = new Intl.NumberFormat(locale, options);
+    cache.set(key, nf);
+  }
+  return nf;
+}
+
+export function fmtInt(n: number, locale?: string): string {
   if (!Number.isFinite(n)) return "n/a";
-  return Math.round(n).toLocaleString();
+  return numberFormat(locale, { maximumFractionDigits: 0 }).format(Math.round(n));
 }
 
-export function fmtMaybeInt(n?: number): string {
+export function fmtMaybeInt(n?: number, locale?: string): string {
   if (n == null || !Number.isFinite(n)) return "n/a";
-  return Math.round(n).toLocaleString();
+  return fmtInt(n, locale);
+}
+
+// Up to maxDigits decimals, no trailing zeros: 1.375 -> "1,375" in de, 1.5 -> "1.5" in en
+export function fmtNumber(n: number, maxDigits = 3, locale?: string): string {
+  if (!Number.isFinite(n)) return "n/a";
+  return numberFormat(locale, { maximumFractionDigits: maxDigits }).format(n);
+}
+
+// Fixed number of decimals, e.g. 1.55 -> "1,55" in de
+export function fmtDecimal(n: number, digits = 1, locale?: string): string {
+  if (!Number.isFinite(n)) return "n/a";
+  return numberFormat(locale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(n);
 }
+
+// Takes a percentage (25, not 0.25)
+export function fmtPercent(percent: number, digits = 0, locale?: string): string {
+  if (!Number.isFinite(percent)) return "n/a";
+  return numberFormat(locale, {
+    style: "percent",
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(percent / 100);
+}
+
+export function fmtGrams(g: number, locale?: string): string {
+  if (!Number.isFinite(g)) return "n/a";
+  return numberFormat(locale, { style: "unit", unit: "gram", maximumFractionDigits: 0 }).format(
+    Math.round(g),
+  );
+}
+
+// Intl has no kcal/kJ units, so the symbol is appended
+export function fmtEnergy(kcal: number, unit: EnergyUnit = "kcal", locale?: string): string {
+  return `${fmtInt(fromKcal(kcal, unit), locale)} ${unit}`;
+}
+
+// Calendar date of a timestamp, e.g. "Oct 19, 2026" in en
+export function fmtDate(ms: number, locale?: string): string {
+  if (!Number.isFinite(ms)) return "n/a";
+  return new Date(ms).toLocaleDateString(locale, { dateStyle: "medium" });
+}
+
+/** All of the above bound to one locale, for components. */
+export function formatters(locale?: string) {
+  return {
+    int: (n: number) => fmtInt(n, locale),
+    maybeInt: (n?: number) => fmtMaybeInt(n, locale),
+    number: (n: number, maxDigits?: number) => fmtNumber(n, maxDigits, locale),
+    decimal: (n: number, digits?: number) => fmtDecimal(n, digits, locale),
+    percent: (percent: number, digits?: number) => fmtPercent(percent, digits, locale),
+    grams: (g: number) => fmtGrams(g, locale),
+    energy: (kcal: number, unit?: EnergyUnit) => fmtEnergy(kcal, unit, locale),
+    date: (ms: number) => fmtDate(ms, locale),
+  };
+}
+
+export type Formatters = ReturnType<typeof formatters>;
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { en } from "@/lib/messages/en";
+import { es } from "@/lib/messages/es";
+import { de } from "@/lib/messages/de";
+import { fmtNumber } from "@/lib/format";
+
+/**
+ * UI translations. English is the source catalog: its keys define MessageKey,
+ * and the other catalogs must cover every one of them.
+ * Locale is independent of the unit preferences (a German user may still want lb).
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type Locale = "en" | "es" | "de";
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/* =========================
+   Catalogs
+========================= */
+
+export const LOCALES: Locale[] = ["en", "es", "de"];
+export const DEFAULT_LOCALE: Locale = "en";
+
+// In their own language, for the picker
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  de: "Deutsch",
+};
+
+const CATALOGS: Record<Locale, Messages> = { en, es, de };
+
+/* =========================
+   Translate
+========================= */
+
+const isLocale = (value: string): value is Locale => (LOCALES as string[]).includes(value);
+
+/** First supported language in a navigator.languages-style list ("de-AT" -> "de"). */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const tag of languages) {
+    const base = tag.toLowerCase().split("-")[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Numbers get the locale's decimal separator; "{name}" with no param is left as is
+function interpolate(template: string, params: MessageParams | undefined, locale: Locale) {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value == null) return match;
+    return typeof value === "number" ? fmtNumber(value, 3, locale) : value;
+  });
+}
+
+export function createTranslator(locale: Locale): Translate {
+  const catalog = CATALOGS[locale];
+  return (key, params) => interpolate(catalog[key] ?? en[key], params, locale);
+}
+
+// Built-in zod messages (type errors etc.) for the same locale; ours come from the catalogs
+export function zodLocaleError(locale: Locale) {
+  return z.locales[locale]().localeError;
+}
+
+/* =========================
+   Engine messages
+========================= */
+
+// Energy stays in kcal until shown so it follows the profile's unit; keys are translated and joined
+export type EngineMessageParam = string | number | { kcal: number } | { keys: MessageKey[] };
+
+/** Text the engine produces (diagnostics, life-stage notes), translated when it's rendered. */
+export type EngineMessage = { key: MessageKey; params?: Record<string, EngineMessageParam> };
+
+export function translateEngineMessage(
+  t: Translate,
+  message: EngineMessage,
+  energy: (kcal: number) => string,
+): string {
+  const params: MessageParams = {};
+  for (const [name, value] of Object.entries(message.params ?? {})) {
+    if (typeof value !== "object") params[name] = value;
+    else if ("kcal" in value) params[name] = energy(value.kcal);
+    else params[name] = value.keys.map((key) => t(key)).join(", ");
+  }
+  return t(message.key, params);
+}
@@ -0,0 +1,8 @@
+/**
+ * Random id for stored records. The prefix only shows up in the fallback for
+ * browsers without crypto.randomUUID, to tell record kinds apart when debugging.
+ */
+export const makeId = (prefix = "id") =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,160 @@
+import type { Goal, LifeStage, Sex } from "@/types/nutrition";
+import type { AgeAppropriateBmr } from "@/lib/bmrEquations";
+import type { EngineMessage } from "@/lib/i18n";
+
+/**
+ * Special-population adjustments: pregnancy, lactation, older adults and
+ * adolescents. Each stage can add energy on top of TDEE, raise the protein
+ * floor, restrict deficits and swap in an age-banded BMR equation.
+ */
+
+/* =========================
+   Types
+========================= */
+
+// "block" holds calories at maintenance; "limit" caps the deficit at maxDeficitKcal
+export type DeficitRule = "allow" | "limit" | "block";
+
+export type LifeStageRules = {
+  label: string;
+  energyAddKcal: number;
+  proteinMinGPerKg?: number;
+  deficit: DeficitRule;
+  maxDeficitKcal?: number;
+  ageMethod?: AgeAppropriateBmr;
+};
+
+export type LifeStageAdjustmentKind = "energy" | "protein" | "deficit" | "bmr";
+
+export type LifeStageAdjustment = {
+  kind: LifeStageAdjustmentKind;
+  message: EngineMessage;
+  goal?: Goal;
+};
+
+export type LifeStageSummary = {
+  stage: LifeStage;
+  // Chosen automatically from age rather than picked in the form
+  fromAge: boolean;
+  adjustments: LifeStageAdjustment[];
+};
+
+/* =========================
+   Rules
+========================= */
+
+export const ADOLESCENT_MAX_AGE = 18; // exclusive
+export const OLDER_ADULT_MIN_AGE = 65;
+
+const HENRY_FOR_AGE = (who: string): AgeAppropriateBmr => ({
+  method: "henry",
+  reason: `Henry (Oxford) has age-banded coefficients for ${who}; the adult equations weren't derived on this age group`,
+});
+
+export const LIFE_STAGES: LifeStage[] = [
+  "standard",
+  "pregnancyT1",
+  "pregnancyT2",
+  "pregnancyT3",
+  "lactationExclusive",
+  "lactationPartial",
+  "olderAdult",
+  "adolescent",
+];
+
+export const PREGNANCY_STAGES: LifeStage[] = ["pregnancyT1", "pregnancyT2", "pregnancyT3"];
+export const LACTATION_STAGES: LifeStage[] = ["lactationExclusive", "lactationPartial"];
+
+export const LIFE_STAGE_RULES: Record<LifeStage, LifeStageRules> = {
+  standard: {
+    label: "Standard adult (18-64)",
+    energyAddKcal: 0,
+    deficit: "allow",
+  },
+  pregnancyT1: {
+    label: "Pregnancy, 1st trimester",
+    energyAddKcal: 0,
+    deficit: "block",
+  },
+  pregnancyT2: {
+    label: "Pregnancy, 2nd trimester",
+    energyAddKcal: 340,
+    proteinMinGPerKg: 1.1,
+    deficit: "block",
+  },
+  pregnancyT3: {
+    label: "Pregnancy, 3rd trimester",
+    energyAddKcal: 452,
+    proteinMinGPerKg: 1.1,
+    deficit: "block",
+  },
+  lactationExclusive: {
+    label: "Breastfeeding, exclusive",
+    energyAddKcal: 330,
+    proteinMinGPerKg: 1.3,
+    deficit: "limit",
+    maxDeficitKcal: 500,
+  },
+  lactationPartial: {
+    label: "Breastfeeding, partial",
+    energyAddKcal: 165,
+    proteinMinGPerKg: 1.3,
+    deficit: "limit",
+    maxDeficitKcal: 500,
+  },
+  olderAdult: {
+    label: "Older adult (65+)",
+    energyAddKcal: 0,
+    proteinMinGPerKg: 1.0,
+    deficit: "allow",
+    ageMethod: HENRY_FOR_AGE("60+"),
+  },
+  adolescent: {
+    label: "Adolescent (under 18)",
+    energyAddKcal: 25,
+    proteinMinGPerKg: 0.85,
+    deficit: "block",
+    ageMethod: HENRY_FOR_AGE("under-18s"),
+  },
+};
+
+/* =========================
+   Resolve
+========================= */
+
+/** "standard" (or unset) becomes adolescent / olderAdult when the age calls for it. */
+export function resolveLifeStage(
+  stage: LifeStage | undefined,
+  ageYears: number,
+): { stage: LifeStage; fromAge: boolean } {
+  if (stage && stage !== "standard") return { stage, fromAge: false };
+  if (ageYears < ADOLESCENT_MAX_AGE) return { stage: "adolescent", fromAge: true };
+  if (ageYears >= OLDER_ADULT_MIN_AGE) return { stage: "olderAdult", fromAge: true };
+  return { stage: "standard", fromAge: false };
+}
+
+export type LifeStageIssue = "femaleOnly" | "olderAdultAge" | "adolescentAge";
+
+/** Form-level problems with a chosen stage; empty when it fits the profile. */
+export function lifeStageIssues(stage: LifeStage, sex: Sex, ageYears: number): LifeStageIssue[] {
+  const issues: LifeStageIssue[] = [];
+  if ((PREGNANCY_STAGES.includes(stage) || LACTATION_STAGES.includes(stage)) && sex !== "female") {
+    issues.push("femaleOnly");
+  }
+  if (stage === "olderAdult" && ageYears < OLDER_ADULT_MIN_AGE) issues.push("olderAdultAge");
+  if (stage === "adolescent" && ageYears >= ADOLESCENT_MAX_AGE) issues.push("adolescentAge");
+  return issues;
+}
+
+/**
+ * The calorie delta actually applied for a goal. Minors keep their deficit
+ * blocked even if another stage (e.g. a pregnant 17-year-old) is selected.
+ */
+export function effectiveDelta(rules: LifeStageRules, requested: number, minor: boolean): number {
+  if (requested >= 0) return requested;
+  if (rules.deficit === "block" || minor) return 0;
+  if (rules.deficit === "limit" && rules.maxDeficitKcal != null) {
+    return Math.max(requested, -rules.maxDeficitKcal);
+  }
+  return requested;
+}
@@ -0,0 +1,286 @@
+import type {
+  CarbBasis,
+  FatBasis,
+  Goal,
+  GoalMacroRules,
+  MacroPresetId,
+  MacroStrategy,
+  ProteinBasis,
+  Sex,
+} from "@/types/nutrition";
+import { step, traceNum, type GoalTrace, type TraceStep } from "@/lib/calcTrace";
+import { KG_PER_LB, kgToLb } from "@/lib/units";
+
+/* =========================
+   Presets
+========================= */
+
+export const GOALS: Goal[] = ["maintenance", "cut", "bulk", "recomp"];
+
+const sameForAllGoals = (rules: GoalMacroRules): Record<Goal, GoalMacroRules> => ({
+  maintenance: rules,
+  cut: rules,
+  bulk: rules,
+  recomp: rules,
+});
+
+export const MACRO_PRESETS: Record<MacroPresetId, { label: string; goals: Record<Goal, GoalMacroRules> }> = {
+  // Matches the original hard-coded split: 1 g/lb protein, 25/25/30/20% fat
+  balanced: {
+    label: "Balanced",
+    goals: {
+      maintenance: {
+        protein: { basis: "gPerLb", amount: 1.0 },
+        fat: { basis: "percent", amount: 25 },
+        carbs: { basis: "remainder", amount: 0 },
+      },
+      cut: {
+        protein: { basis: "gPerLb", amount: 1.0 },
+        fat: { basis: "percent", amount: 25 },
+        carbs: { basis: "remainder", amount: 0 },
+      },
+      bulk: {
+        protein: { basis: "gPerLb", amount: 1.0 },
+        fat: { basis: "percent", amount: 30 },
+        carbs: { basis: "remainder", amount: 0 },
+      },
+      recomp: {
+        protein: { basis: "gPerLb", amount: 1.0 },
+        fat: { basis: "percent", amount: 20 },
+        carbs: { basis: "remainder", amount: 0 },
+      },
+    },
+  },
+  highCarbAthlete: {
+    label: "High-carb athlete",
+    goals: {
+      ...sameForAllGoals({
+        protein: { basis: "gPerKg", amount: 1.8 },
+        fat: { basis: "percent", amount: 20 },
+        carbs: { basis: "remainder", amount: 0 },
+      }),
+      cut: {
+        protein: { basis: "gPerKg", amount: 2.2 },
+        fat: { basis: "percent", amount: 20 },
+        carbs: { basis: "remainder", amount: 0 },
+      },
+    },
+  },
+  keto: {
+    label: "Keto",
+    goals: sameForAllGoals({
+      protein: { basis: "gPerKgLean", amount: 2.0 },
+      fat: { basis: "percent", amount: 60 },
+      carbs: { basis: "ketoCap", amount: 30 },
+    }),
+  },
+  lowFat: {
+    label: "Low-fat",
+    goals: sameForAllGoals({
+      protein: { basis: "gPerLb", amount: 1.0 },
+      fat: { basis: "percent", amount: 15 },
+      carbs: { basis: "remainder", amount: 0 },
+    }),
+  },
+};
+
+export function strategyFromPreset(preset: MacroPresetId): MacroStrategy {
+  // Deep copy so form edits never mutate the shared preset objects
+  return { preset, goals: JSON.parse(JSON.stringify(MACRO_PRESETS[preset].goals)) };
+}
+
+/**
+ * Profiles and links saved before macro strategies only had a bulk protein
+ * g/lb setting on top of the balanced split.
+ */
+export function strategyFromLegacyBulkProtein(bulkProteinGPerLb?: number): MacroStrategy {
+  const strategy = strategyFromPreset("balanced");
+  if (bulkProteinGPerLb != null && bulkProteinGPerLb !== strategy.goals.bulk.protein.amount) {
+    strategy.preset = "custom";
+    strategy.goals.bulk.protein.amount = bulkProteinGPerLb;
+  }
+  return strategy;
+}
+
+/* =========================
+   Bounds (shared with profileFormSchema)
+========================= */
+
+type Bounds = { min: number; max: number; step: number; unit: string; label: string };
+
+export const PROTEIN_BOUNDS: Record<ProteinBasis, Bounds> = {
+  gPerLb: { min: 0.5, max: 1.5, step: 0.05, unit: "g/lb", label: "g per lb body weight" },
+  gPerKg: { min: 1.0, max: 3.3, step: 0.1, unit: "g/kg", label: "g per kg body weight" },
+  gPerKgLean: { min: 1.2, max: 3.5, step: 0.1, unit: "g/kg LBM", label: "g per kg lean mass" },
+};
+
+export const FAT_BOUNDS: Record<FatBasis, Bounds> = {
+  percent: { min: 10, max: 80, step: 1, unit: "%", label: "% of calories" },
+  gPerKg: { min: 0.3, max: 2.5, step: 0.1, unit: "g/kg", label: "g per kg body weight" },
+  minGrams: { min: 20, max: 300, step: 5, unit: "g", label: "floor (grams)" },
+};
+
+export const CARB_BOUNDS: Record<CarbBasis, Bounds> = {
+  remainder: { min: 0, max: 0, step: 1, unit: "", label: "remainder" },
+  fixed: { min: 0, max: 1000, step: 5, unit: "g", label: "fixed (grams)" },
+  ketoCap: { min: 0, max: 50, step: 5, unit: "g", label: "keto cap (grams)" },
+};
+
+/* =========================
+   Resolution
+========================= */
+
+export type MacroContext = {
+  weightKg: number;
+  heightCm: number;
+  sex: Sex;
+  leanMassKg?: number;
+  // Minimum protein regardless of the rule (e.g. pregnancy RDA)
+  proteinFloor?: { grams: number; reason: string };
+};
+
+export type ResolvedMacros = {
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  leanMassEstimated: boolean;
+  carbsClamped: boolean;
+  carbsReduced: boolean; // fixed carbs lowered to fit the calorie target
+  proteinRaised: boolean; // lifted to ctx.proteinFloor
+  trace: Pick<GoalTrace, "protein" | "fat" | "carbs">;
+};
+
+/** Boer (1984) lean body mass, used when g/kg LBM is chosen but LBM is unknown. */
+export function estimateLeanMassKg(weightKg: number, heightCm: number, sex: Sex): number {
+  return sex === "male"
+    ? 0.407 * weightKg + 0.267 * heightCm - 19.2
+    : 0.252 * weightKg + 0.473 * heightCm - 48.3;
+}
+
+/**
+ * Turn one goal's rules into grams.
+ * Protein is fixed first. With "remainder" carbs, fat follows its rule and carbs
+ * take what is left. With fixed/keto carbs, fat absorbs what is left but never
+ * drops below its own rule, so calories still add up; carbs that don't fit
+ * next to that floor are lowered to what does.
+ */
+export function resolveMacros(
+  calories: number,
+  rules: GoalMacroRules,
+  ctx: MacroContext,
+): ResolvedMacros {
+  const weightLb = kgToLb(ctx.weightKg);
+  const kcal = traceNum(calories);
+
+  let leanMassEstimated = false;
+  let leanMassKg = ctx.leanMassKg;
+  if (rules.protein.basis === "gPerKgLean" && leanMassKg == null) {
+    leanMassKg = estimateLeanMassKg(ctx.weightKg, ctx.heightCm, ctx.sex);
+    leanMassEstimated = true;
+  }
+
+  const p = rules.protein.amount;
+  const ruleProtein =
+    rules.protein.basis === "gPerLb"
+      ? step("Protein", `W / ${KG_PER_LB} × g/lb`, `${traceNum(weightLb)} lb × ${p}`, weightLb * p, "g")
+      : rules.protein.basis === "gPerKg"
+        ? step("Protein", "W × g/kg", `${traceNum(ctx.weightKg)} × ${p}`, ctx.weightKg * p, "g")
+        : step(
+            "Protein",
+            "LBM × g/kg",
+            `${traceNum(leanMassKg as number)} × ${p}`,
+            (leanMassKg as number) * p,
+            "g",
+            leanMassEstimated ? "LBM estimated with the Boer formula" : undefined,
+          );
+  const floor = ctx.proteinFloor;
+  const proteinRaised = floor != null && floor.grams > ruleProtein.value;
+  const protein =
+    floor && proteinRaised
+      ? step(
+          "Protein",
+          `max(${ruleProtein.formula}, floor)`,
+          `max(${traceNum(ruleProtein.value)}, ${traceNum(floor.grams)})`,
+          floor.grams,
+          "g",
+          `Raised to the ${floor.reason}`,
+        )
+      : ruleProtein;
+  const proteinG = protein.value;
+
+  const f = rules.fat.amount;
+  const fatRuleG =
+    rules.fat.basis === "percent"
+      ? (calories * (f / 100)) / 9
+      : rules.fat.basis === "gPerKg"
+        ? ctx.weightKg * f
+        : f;
+  const fatRule =
+    rules.fat.basis === "percent"
+      ? { formula: "kcal × fat% / 9", substituted: `${kcal} × ${f}% / 9` }
+      : rules.fat.basis === "gPerKg"
+        ? { formula: "W × g/kg", substituted: `${traceNum(ctx.weightKg)} × ${f}` }
+        : { formula: "fixed floor", substituted: `${f}` };
+
+  const afterProtein = calories - proteinG * 4;
+  // Carbs left once fat is at its rule; negative when protein and fat overshoot the target
+  const roomG = (afterProtein - fatRuleG * 9) / 4;
+  const carbsClamped = roomG < 0;
+
+  let fatG: number;
+  let carbsG: number;
+  let fat: TraceStep;
+  let carbs: TraceStep;
+
+  if (rules.carbs.basis === "remainder") {
+    fatG = fatRuleG;
+    carbsG = roomG;
+    fat = step("Fat", fatRule.formula, fatRule.substituted, fatG, "g");
+    carbs = step(
+      "Carbs",
+      "(kcal - P × 4 - F × 9) / 4",
+      `(${kcal} - ${traceNum(proteinG)} × 4 - ${traceNum(fatG)} × 9) / 4`,
+      carbsG,
+      "g",
+    );
+  } else {
+    const room = Math.max(0, roomG);
+    carbsG = Math.min(rules.carbs.amount, room);
+    fatG = Math.max(fatRuleG, (afterProtein - carbsG * 4) / 9);
+    carbs =
+      rules.carbs.basis === "fixed" && rules.carbs.amount <= room
+        ? step("Carbs", "fixed", `${rules.carbs.amount}`, carbsG, "g")
+        : step(
+            "Carbs",
+            `min(${rules.carbs.basis === "fixed" ? "fixed" : "cap"}, (kcal - P × 4 - fat rule × 9) / 4)`,
+            `min(${rules.carbs.amount}, ${traceNum(room)})`,
+            carbsG,
+            "g",
+          );
+    fat = step(
+      "Fat",
+      `max(${fatRule.formula}, (kcal - P × 4 - C × 4) / 9)`,
+      `max(${traceNum(fatRuleG)}, (${kcal} - ${traceNum(proteinG)} × 4 - ${traceNum(carbsG)} × 4) / 9)`,
+      fatG,
+      "g",
+    );
+  }
+
+  const carbsReduced = rules.carbs.basis === "fixed" && !carbsClamped && carbsG < rules.carbs.amount;
+  if (carbsClamped) {
+    carbs = { ...carbs, value: 0, note: `Negative (${traceNum(roomG)} g), clamped to 0` };
+  } else if (carbsReduced) {
+    carbs = { ...carbs, note: `Lowered from the fixed ${rules.carbs.amount} g to fit the calorie target` };
+  }
+
+  return {
+    proteinG,
+    fatG,
+    carbsG: Math.max(0, carbsG),
+    leanMassEstimated,
+    carbsClamped,
+    carbsReduced,
+    proteinRaised,
+    trace: { protein, fat, carbs },
+  };
+}
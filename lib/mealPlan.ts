@@ -0,0 +1,302 @@
+import type { Food, FoodTag, Nutrients } from "@/types/nutrition";
+import type { MacroTargets } from "@/lib/calcs";
+import { scaleNutrients, sumNutrients } from "@/lib/foodDb";
+
+/**
+ * Day-of-meals generator.
+ *
+ * Each attempt draws a meal skeleton (a protein, a carb, sometimes a fat or
+ * produce item per meal) from the eligible foods, then solves the gram amounts
+ * with box-constrained coordinate descent on the relative macro error. The
+ * first skeleton that lands inside the tolerance wins; otherwise the closest.
+ * All randomness comes from a seeded PRNG, so a seed reproduces its plan.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type DietExclusions = {
+  vegetarian: boolean;
+  dairyFree: boolean;
+};
+
+export type LockedFood = {
+  foodId: string;
+  grams?: number; // fixed amount; omit to let the solver size it
+};
+
+export type MealPlanOptions = {
+  targets: MacroTargets;
+  mealsPerDay: number;
+  foods: Food[];
+  exclusions: DietExclusions;
+  bannedFoodIds: string[];
+  locked: LockedFood[];
+  tolerance: number; // fraction, e.g. 0.05 = within 5% of every target
+  seed: number;
+  maxAttempts?: number;
+};
+
+export type PlannedItem = {
+  food: Food;
+  grams: number;
+  nutrients: Nutrients;
+  locked: boolean;
+};
+
+export type PlannedMeal = {
+  items: PlannedItem[];
+  totals: Nutrients;
+};
+
+export type MacroError = { diff: number; pct: number };
+
+export type MealPlan = {
+  seed: number;
+  meals: PlannedMeal[];
+  totals: Nutrients;
+  errors: Record<keyof Nutrients, MacroError>;
+  withinTolerance: boolean;
+  attempts: number;
+};
+
+// Shown as `mealPlan.failure.<reason>`
+export type MealPlanFailure = "noCalories" | "noProtein";
+
+export type MealPlanResult = { ok: true; plan: MealPlan } | { ok: false; reason: MealPlanFailure };
+
+type FoodRole = "protein" | "carb" | "fat" | "produce";
+
+/* =========================
+   Helpers
+========================= */
+
+export const MIN_MEALS = 2;
+export const MAX_MEALS = 6;
+
+const NUTRIENT_KEYS: (keyof Nutrients)[] = ["calories", "proteinG", "fatG", "carbsG"];
+
+// Mulberry32: tiny, fast, good enough for picking foods
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+const EXCLUDED_TAGS: Record<keyof DietExclusions, FoodTag[]> = {
+  vegetarian: ["meat", "fish"],
+  dairyFree: ["dairy"],
+};
+
+export function isFoodAllowed(food: Food, exclusions: DietExclusions, banned: string[]): boolean {
+  if (banned.includes(food.id)) return false;
+  return (Object.keys(EXCLUDED_TAGS) as (keyof DietExclusions)[]).every(
+    (k) => !exclusions[k] || !EXCLUDED_TAGS[k].some((t) => food.tags?.includes(t)),
+  );
+}
+
+/** Classify by where a food's calories come from. */
+export function foodRole(food: Food): FoodRole {
+  const n = food.per100g;
+  const kcal = n.proteinG * 4 + n.fatG * 9 + n.carbsG * 4 || 1;
+  if ((n.proteinG * 4) / kcal >= 0.4) return "protein";
+  if ((n.fatG * 9) / kcal >= 0.55) return "fat";
+  return n.calories < 60 ? "produce" : "carb";
+}
+
+// Keep any one item to a plausible portion
+function maxGrams(food: Food, role: FoodRole): number {
+  const kcalCap = role === "fat" ? 400 : 900;
+  return Math.min(600, (100 * kcalCap) / Math.max(food.per100g.calories, 1));
+}
+
+const pickOne = <T>(list: T[], rand: () => number): T | undefined =>
+  list.length ? list[Math.floor(rand() * list.length)] : undefined;
+
+/* =========================
+   Gram solver
+========================= */
+
+// fixed: the user gave an amount; locked: the user wants this food in every plan
+type Slot = {
+  meal: number;
+  food: Food;
+  grams: number;
+  lo: number;
+  hi: number;
+  fixed: boolean;
+  locked: boolean;
+};
+
+/**
+ * Minimizes the squared relative error of the day's calories and macros,
+ * plus a softer term keeping meals near an even calorie split.
+ */
+function solveGrams(slots: Slot[], targets: MacroTargets, meals: number) {
+  const mealKcal = targets.calories / meals;
+  type Row = { weight: number; target: number; coef: (s: Slot) => number };
+  const rows: Row[] = [
+    ...NUTRIENT_KEYS.map((k) => ({
+      weight: 1 / Math.max(targets[k], 1) ** 2,
+      target: targets[k],
+      coef: (s: Slot) => s.food.per100g[k] / 100,
+    })),
+    ...Array.from({ length: meals }, (_, m) => ({
+      weight: 0.25 / mealKcal ** 2,
+      target: mealKcal,
+      coef: (s: Slot) => (s.meal === m ? s.food.per100g.calories / 100 : 0),
+    })),
+  ];
+
+  const coefs = rows.map((r) => slots.map(r.coef));
+  const residual = rows.map((r, i) => slots.reduce((acc, s, j) => acc + coefs[i][j] * s.grams, 0) - r.target);
+
+  for (let sweep = 0; sweep < 200; sweep++) {
+    let moved = 0;
+    slots.forEach((s, j) => {
+      if (s.fixed) return;
+      let num = 0;
+      let den = 0;
+      rows.forEach((r, i) => {
+        num += r.weight * coefs[i][j] * residual[i];
+        den += r.weight * coefs[i][j] ** 2;
+      });
+      if (den === 0) return;
+      const next = Math.min(s.hi, Math.max(s.lo, s.grams - num / den));
+      const delta = next - s.grams;
+      if (delta === 0) return;
+      rows.forEach((_, i) => (residual[i] += coefs[i][j] * delta));
+      s.grams = next;
+      moved += Math.abs(delta);
+    });
+    if (moved < 0.5) break;
+  }
+}
+
+/* =========================
+   Generator
+========================= */
+
+function buildPlan(
+  slots: Slot[],
+  meals: number,
+  targets: MacroTargets,
+  tolerance: number,
+  seed: number,
+  attempts: number,
+): MealPlan {
+  const plannedMeals: PlannedMeal[] = Array.from({ length: meals }, (_, m) => {
+    const items = slots
+      .filter((s) => s.meal === m)
+      .map((s) => ({
+        food: s.food,
+        grams: s.grams,
+        nutrients: scaleNutrients(s.food.per100g, s.grams),
+        locked: s.locked,
+      }));
+    return { items, totals: sumNutrients(items.map((i) => i.nutrients)) };
+  });
+  const totals = sumNutrients(plannedMeals.map((m) => m.totals));
+  const errors = Object.fromEntries(
+    NUTRIENT_KEYS.map((k) => {
+      const diff = totals[k] - targets[k];
+      return [k, { diff, pct: targets[k] > 0 ? diff / targets[k] : 0 }];
+    }),
+  ) as Record<keyof Nutrients, MacroError>;
+
+  // Tiny targets (e.g. keto carbs) get a few grams of slack instead of a hair-thin percentage
+  const withinTolerance = NUTRIENT_KEYS.every(
+    (k) => Math.abs(errors[k].diff) <= Math.max(tolerance * targets[k], k === "calories" ? 25 : 5),
+  );
+  return { seed, meals: plannedMeals, totals, errors, withinTolerance, attempts };
+}
+
+const score = (plan: MealPlan) =>
+  NUTRIENT_KEYS.reduce((acc, k) => acc + plan.errors[k].pct ** 2, 0);
+
+export function generateMealPlan(options: MealPlanOptions): MealPlanResult {
+  const { targets, foods, exclusions, bannedFoodIds, tolerance, seed } = options;
+  const meals = Math.round(Math.min(MAX_MEALS, Math.max(MIN_MEALS, options.mealsPerDay)));
+  const maxAttempts = options.maxAttempts ?? 40;
+  if (!(targets.calories > 0)) return { ok: false, reason: "noCalories" };
+
+  const lockedIds = new Set(options.locked.map((l) => l.foodId));
+  const pool = foods.filter(
+    (f) => !lockedIds.has(f.id) && isFoodAllowed(f, exclusions, bannedFoodIds),
+  );
+  const byRole = (role: FoodRole) => pool.filter((f) => foodRole(f) === role);
+  const proteins = byRole("protein");
+  const carbs = byRole("carb");
+  const fats = byRole("fat");
+  const produce = byRole("produce");
+
+  const lockedFoods = options.locked
+    .map((l) => ({ ...l, food: foods.find((f) => f.id === l.foodId) }))
+    .filter((l): l is LockedFood & { food: Food } => l.food != null);
+
+  if (proteins.length === 0 && !lockedFoods.some((l) => foodRole(l.food) === "protein")) {
+    return { ok: false, reason: "noProtein" };
+  }
+
+  const rand = seededRandom(seed);
+  let best: MealPlan | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const slots: Slot[] = [];
+    const add = (meal: number, food: Food | undefined, locked = false, grams?: number) => {
+      if (!food || slots.some((s) => s.meal === meal && s.food.id === food.id)) return;
+      const hi = maxGrams(food, foodRole(food));
+      slots.push({
+        meal,
+        food,
+        fixed: grams != null,
+        locked,
+        grams: grams ?? hi / 4,
+        lo: grams ?? (locked ? 10 : 0),
+        hi: grams ?? hi,
+      });
+    };
+
+    lockedFoods.forEach((l) => add(Math.floor(rand() * meals), l.food, true, l.grams));
+    for (let m = 0; m < meals; m++) {
+      add(m, pickOne(proteins, rand));
+      add(m, pickOne(carbs, rand));
+      if (rand() < 0.5) add(m, pickOne(fats, rand));
+      if (rand() < 0.5) add(m, pickOne(produce, rand));
+    }
+    // The day needs at least one fat source to have a chance at the fat target
+    if (!slots.some((s) => foodRole(s.food) === "fat")) add(Math.floor(rand() * meals), pickOne(fats, rand));
+
+    solveGrams(slots, targets, meals);
+    // Round to kitchen-scale amounts and drop crumbs, then let the rest absorb the change
+    const kept = slots.filter((s) => s.locked || s.grams >= 10);
+    kept.forEach((s) => {
+      if (!s.fixed) s.lo = Math.max(s.lo, 5);
+    });
+    solveGrams(kept, targets, meals);
+    kept.forEach((s) => {
+      if (!s.fixed) s.grams = Math.max(5, Math.round(s.grams / 5) * 5);
+    });
+
+    const plan = buildPlan(
+      kept,
+      meals,
+      targets,
+      tolerance,
+      seed,
+      attempt,
+    );
+    if (plan.withinTolerance) return { ok: true, plan };
+    if (!best || score(plan) < score(best)) best = plan;
+  }
+
+  return { ok: true, plan: { ...best!, attempts: maxAttempts } };
+}
@@ -0,0 +1,713 @@
+import type { Messages } from "@/lib/i18n";
+
+export const de: Messages = {
+  /* ---- App ---- */
+  "app.title": "Ernährungsrechner",
+  "app.tagline": "Offline-fähiger Makrorechner mit voller Transparenz bei Grundumsatz und Gesamtumsatz.",
+  "app.language": "Sprache",
+  "app.languageAuto": "Browsersprache",
+  "app.loadingProfiles": "Gespeicherte Profile werden geladen...",
+  "app.results": "Ergebnisse",
+  "app.enterValidInputs": "Gib gültige Werte ein, um Ergebnisse zu sehen.",
+  "app.coachDashboard": "Coach-Übersicht",
+  "app.dismiss": "Schließen",
+  "app.sharedLinkFailed": "Dieser geteilte Link konnte nicht geladen werden",
+  "app.sharedLinkProfile": "Geteilter Link",
+  "app.engineMissing": "Die Berechnung ist noch nicht umgesetzt - das ist der nächste Schritt.",
+  "app.inputSnapshot": "Eingaben:",
+
+  /* ---- Shared vocabulary ---- */
+  "goal.maintenance": "Erhaltung",
+  "goal.cut": "Diät",
+  "goal.bulk": "Aufbau",
+  "goal.recomp": "Rekomposition",
+  "macro.protein": "Eiweiß",
+  "macro.fat": "Fett",
+  "macro.carbs": "Kohlenhydrate",
+  "sex.male": "Männlich",
+  "sex.female": "Weiblich",
+  "unit.perDay": "{value} {unit}/Tag",
+  "unit.kcal": "kcal",
+  "unit.kJ": "kJ",
+  "unit.lb": "lb",
+  "unit.kg": "kg",
+  "unit.st": "st",
+  "unit.stLb": "st / lb",
+  "unit.in": "in",
+  "unit.ft": "ft",
+  "unit.ftIn": "ft / in",
+  "unit.cm": "cm",
+
+  /* ---- Profile ---- */
+  "form.profile": "Profil",
+  "form.units": "Einheiten",
+  "form.units.energy": "Energie",
+  "form.units.mass": "Körpermasse",
+  "form.units.length": "Länge",
+  "form.sex": "Geschlecht",
+  "form.age": "Alter (Jahre)",
+  "form.heightIn": "Größe (Zoll)",
+  "form.weightLb": "Gewicht (lb)",
+  "form.heightCm": "Größe (cm)",
+  "form.weightKg": "Gewicht (kg)",
+  "form.heightFtIn": "Größe (ft / in)",
+  "form.weightStLb": "Gewicht (st / lb)",
+  "form.lifeStage": "Lebensphase",
+  "form.lifeStageHelp":
+    "Ergänzt den Energiebedarf für Schwangerschaft und Stillzeit, hebt die Eiweiß-Untergrenze an und begrenzt Defizite. Standard wechselt je nach Alter automatisch zu den Regeln für unter 18 oder 65+.",
+
+  "lifeStage.standard": "Erwachsen, Standard (18-64)",
+  "lifeStage.pregnancyT1": "Schwangerschaft, 1. Trimester",
+  "lifeStage.pregnancyT2": "Schwangerschaft, 2. Trimester",
+  "lifeStage.pregnancyT3": "Schwangerschaft, 3. Trimester",
+  "lifeStage.lactationExclusive": "Stillen, ausschließlich",
+  "lifeStage.lactationPartial": "Stillen, teilweise",
+  "lifeStage.olderAdult": "Ältere Erwachsene (65+)",
+  "lifeStage.adolescent": "Jugendliche (unter 18)",
+
+  /* ---- Body composition ---- */
+  "form.bodyComposition": "Körperzusammensetzung",
+  "form.bodyFatInput": "Körperfett",
+  "form.bodyFatMode.unknown": "Ich kenne meinen KFA nicht",
+  "form.bodyFatMode.known": "Ich kenne meinen KFA",
+  "form.bodyFatMode.estimated": "Aus Messungen schätzen",
+  "form.bodyFatPercent": "Körperfett % (20 eingeben, nicht 0,2)",
+  "form.densityConversion": "Dichte zu KFA",
+  "form.densityConversionHelp": "Betrifft nur die Hautfaltenmethoden.",
+  "form.bodyFatUnknownHelp":
+    "Für den Grundumsatz verwenden wir den Mittelwert aus revidiertem Harris-Benedict und Mifflin-St Jeor.",
+  "form.girth.neck": "Hals",
+  "form.girth.waist": "Taille",
+  "form.girth.hip": "Hüfte",
+  "form.womenOnly": "(nur Frauen)",
+  "form.skinfolds": "Hautfalten (mm)",
+  "form.skinfoldsHelp": "Die 3-Falten-Methode nutzt {sites}; die 7-Falten-Methode alle.",
+  "skinfold.chest": "Brust",
+  "skinfold.abdomen": "Bauch",
+  "skinfold.thigh": "Oberschenkel",
+  "skinfold.triceps": "Trizeps",
+  "skinfold.suprailiac": "Hüftkamm",
+  "skinfold.subscapular": "Schulterblatt",
+  "skinfold.midaxillary": "Mittlere Achsellinie",
+  "form.estimate.use": "Nutzen",
+  "form.estimate.method": "Methode",
+  "form.estimate.bodyFat": "KFA",
+  "form.estimate.needs": "benötigt {missing}",
+  "estimate.navy": "US Navy (Umfänge)",
+  "estimate.jp3": "Jackson-Pollock, 3 Falten",
+  "estimate.jp7": "Jackson-Pollock, 7 Falten",
+  "estimate.bmi": "BMI-basiert (Deurenberg)",
+  "estimate.waistAboveNeck": "Taille größer als Hals",
+  "estimate.plausibleMeasurements": "plausible Messwerte",
+  "form.dexaEnabled": "Ich habe DEXA-Werte (Fortgeschritten)",
+  "form.dexaFatMass": "DEXA-Fettmasse (kg)",
+  "form.dexaLeanMass": "DEXA-Magermasse (kg)",
+  "form.dexaBoneMineral": "Knochenmineralgehalt (kg, optional)",
+  "form.dexaHelp":
+    "Gib eine oder beide Massen ein; eine fehlende wird aus deinem Gewicht abgeleitet. Magermasse ist der Weichgewebewert aus dem Bericht; der BMC (falls angegeben) wird für die fettfreie Masse addiert.",
+
+  /* ---- BMR ---- */
+  "form.bmr": "Grundumsatz-Formel",
+  "form.bmr.recommended": "Empfohlener Grundumsatz",
+  "form.bmr.formula": "Formel",
+  "form.bmr.help":
+    "Katch-McArdle, Cunningham, Nelson und Muller brauchen die Körperzusammensetzung aus gemessenem KFA oder DEXA; ohne sie fließen sie nicht in Mittelwert, Median und Mischung ein. Die Gewichte sind relativ.",
+  "bmrPolicy.auto": "Automatisch (Katch-McArdle mit gemessenem KFA, sonst Mittel aus Mifflin/Harris-Benedict)",
+  "bmrPolicy.single": "Eine einzelne Formel",
+  "bmrPolicy.mean": "Mittelwert der verfügbaren Formeln",
+  "bmrPolicy.median": "Median der verfügbaren Formeln",
+  "bmrPolicy.weighted": "Gewichtete Mischung",
+
+  /* ---- Activity ---- */
+  "form.activity": "Aktivität",
+  "form.preset": "Vorgabe",
+  "activityPreset.sedentary": "Sitzend ({value})",
+  "activityPreset.light": "Leicht ({value})",
+  "activityPreset.moderate": "Mäßig ({value})",
+  "activityPreset.very": "Sehr aktiv ({value})",
+  "activityPreset.extreme": "Extrem ({value})",
+  "form.activity.useCustom": "Eigenen Faktor verwenden",
+  "form.activity.custom": "Eigener Faktor",
+  "form.builder.title": "Faktor aus Schritten und Training berechnen",
+  "form.builder.steps": "Schritte pro Tag (Durchschnitt)",
+  "form.builder.job": "Beruf",
+  "jobType.desk": "Schreibtisch / sitzend",
+  "jobType.standing": "Stehend (Einzelhandel, Labor, Lehre)",
+  "jobType.active": "Viel in Bewegung (Pflege, Gastronomie)",
+  "jobType.heavy": "Schwere körperliche Arbeit (Bau, Landwirtschaft)",
+  "form.builder.workouts": "Trainingseinheiten",
+  "form.builder.noWorkouts": "Keine Trainingseinheiten.",
+  "form.builder.type": "Art",
+  "form.builder.minutes": "Minuten",
+  "form.builder.perWeek": "Pro Woche",
+  "form.builder.mets": "MET",
+  "workout.weightsModerate": "Krafttraining (mäßig)",
+  "workout.weightsVigorous": "Krafttraining (intensiv)",
+  "workout.running": "Laufen (~10 km/h)",
+  "workout.cycling": "Radfahren (mäßig)",
+  "workout.swimming": "Bahnenschwimmen",
+  "workout.hiit": "HIIT / Zirkeltraining",
+  "workout.teamSports": "Mannschaftssport",
+  "workout.walkingBrisk": "Zügiges Gehen",
+  "workout.yoga": "Yoga / Mobility",
+  "workout.other": "Sonstiges",
+  "form.builder.removeWorkout": "Einheit entfernen",
+  "form.builder.addWorkout": "Einheit hinzufügen",
+  "form.builder.component": "Bestandteil",
+  "form.builder.kcalPerDay": "kcal/Tag",
+  "form.builder.bmr": "Grundumsatz",
+  "form.builder.neatSteps": "NEAT (Schritte)",
+  "form.builder.neatJob": "NEAT (Beruf)",
+  "form.builder.exercise": "Training",
+  "form.builder.tef": "TEF",
+  "form.builder.total": "Gesamt",
+  "form.builder.use": "{multiplier} als eigenen Faktor übernehmen",
+  "form.builder.fillIn": "Fülle den Rest des Profils aus, um die Aufschlüsselung zu sehen.",
+  "form.builder.help":
+    "Training und Beruf nutzen Netto-MET (der Ruheumsatz steckt schon im Grundumsatz), gemittelt über die Woche; TEF sind 10 % der Summe. Schritte bei der Arbeit zählen als Schritte, nicht als Beruf.",
+
+  /* ---- Goal adjustments ---- */
+  "form.deltas": "Anpassung je Ziel",
+  "form.delta.cut": "Diät-Anpassung ({unit}/Tag)",
+  "form.delta.bulk": "Aufbau-Anpassung ({unit}/Tag)",
+  "form.delta.recomp": "Rekompositions-Anpassung ({unit}/Tag)",
+
+  /* ---- Macro strategy ---- */
+  "form.macros": "Makro-Strategie",
+  "form.macros.help":
+    "Eiweiß wird zuerst festgelegt. Kohlenhydrate füllen den Rest auf; bei fester oder Keto-Kohlenhydratmenge füllt Fett den Rest auf (nie unter seinem eigenen Ziel); Kohlenhydrate, die nicht passen, werden gesenkt.",
+  "macroPreset.balanced": "Ausgewogen",
+  "macroPreset.highCarbAthlete": "Sportler, kohlenhydratreich",
+  "macroPreset.keto": "Keto",
+  "macroPreset.lowFat": "Fettarm",
+  "macroPreset.custom": "Benutzerdefiniert",
+  "proteinBasis.gPerLb": "g pro lb Körpergewicht",
+  "proteinBasis.gPerKg": "g pro kg Körpergewicht",
+  "proteinBasis.gPerKgLean": "g pro kg Magermasse",
+  "fatBasis.percent": "% der Kalorien",
+  "fatBasis.gPerKg": "g pro kg Körpergewicht",
+  "fatBasis.minGrams": "Untergrenze (Gramm)",
+  "carbBasis.remainder": "Rest",
+  "carbBasis.fixed": "fest (Gramm)",
+  "carbBasis.ketoCap": "Keto-Obergrenze (Gramm)",
+
+  /* ---- Carb cycling ---- */
+  "form.carbCycling": "Carb Cycling",
+  "form.carbCycling.enable": "Ziele auf einen Wochenplan verteilen",
+  "form.carbCycling.multiplier": "{macro} ×",
+  "form.carbCycling.help":
+    "Eiweiß bleibt jeden Tag gleich. Die Faktoren für Kohlenhydrate und Fett sind relativ: Sie werden so skaliert, dass der Wochenschnitt genau dem Ziel entspricht.",
+  "dayType.training": "Training",
+  "dayType.rest": "Ruhetag",
+  "dayType.highCarb": "Viele Kohlenhydrate",
+  "dayType.lowCarb": "Wenig Kohlenhydrate",
+  "weekday.mon": "Mo",
+  "weekday.tue": "Di",
+  "weekday.wed": "Mi",
+  "weekday.thu": "Do",
+  "weekday.fri": "Fr",
+  "weekday.sat": "Sa",
+  "weekday.sun": "So",
+
+  /* ---- Form status ---- */
+  "form.status": "Formularstatus",
+  "form.status.valid": "Gültige Eingaben (Berechnung läuft)",
+  "form.status.invalid": "Behebe die Fehler oben, um zu rechnen",
+
+  /* ---- Validation ---- */
+  "validation.ageWhole": "Das Alter muss eine positive ganze Zahl sein",
+  "validation.heightInRequired": "Größe (Zoll) ist erforderlich",
+  "validation.weightLbRequired": "Gewicht (lb) ist erforderlich",
+  "validation.heightCmRequired": "Größe (cm) ist erforderlich",
+  "validation.weightKgRequired": "Gewicht (kg) ist erforderlich",
+  "validation.heightFtInRequired": "Größe (ft / in) ist erforderlich",
+  "validation.weightStLbRequired": "Gewicht (st / lb) ist erforderlich",
+  "validation.heightInPositive": "Größe (Zoll) muss größer als null sein",
+  "validation.heightCmPositive": "Größe (cm) muss größer als null sein",
+  "validation.heightFtInPositive": "Größe (ft / in) muss größer als null sein",
+  "validation.weightLbPositive": "Gewicht (lb) muss größer als null sein",
+  "validation.weightKgPositive": "Gewicht (kg) muss größer als null sein",
+  "validation.weightStLbPositive": "Gewicht (st / lb) muss größer als null sein",
+  "validation.bodyFatRequired": "Körperfett % ist erforderlich, wenn „Ich kenne meinen KFA“ gewählt ist",
+  "validation.estimateNeeds": "{method} benötigt: {missing}",
+  "validation.lifeStageFemaleOnly": "{stage} gilt nur für weibliche Profile",
+  "validation.lifeStageOlderAdultAge": "Anpassungen für Ältere setzen ein Alter ab {age} voraus",
+  "validation.lifeStageAdolescentAge": "Anpassungen für Jugendliche setzen ein Alter unter {age} voraus",
+  "validation.blendWeightNonNegative": "Das Gewicht muss null oder größer sein",
+  "validation.blendWeightPositive": "Gib mindestens einer Formel ein Gewicht über null",
+  "validation.activityCustomRequired": "Ein eigener Aktivitätsfaktor ist erforderlich",
+  "validation.activityCustomRange":
+    "Der eigene Aktivitätsfaktor sollte zwischen {min} und {max} liegen",
+  "validation.activityPresetRequired": "Wähle eine Aktivitätsstufe (oder einen eigenen Faktor)",
+  "validation.activityPresetInvalid": "Die Aktivitätsstufe muss einer dieser Werte sein: {values}",
+  "validation.dexaMassRequired": "Bei aktiviertem DEXA Fettmasse, Magermasse oder beides eingeben.",
+  "validation.ratioRange": "Der Faktor muss zwischen {min} und {max} liegen",
+  "validation.macroNumber": "Das Ziel für {macro} muss eine Zahl sein",
+  "validation.macroRange": "Das Ziel für {macro} muss zwischen {min} und {max} {unit} liegen",
+
+  /* ---- Results ---- */
+  "results.macroEnergy": "{energy} - {percent}",
+  "results.showMath": "Rechenweg anzeigen",
+  "results.severity.danger": "Gefahr",
+  "results.severity.warn": "Warnungen",
+  "results.severity.info": "Hinweise",
+  "results.profileBadge": "Profil",
+  "results.lifeStageFromAge": "(nach Alter)",
+  "results.lifeStageNone": "Für dieses Profil waren keine Anpassungen nötig.",
+  "results.bmrTdee": "Grundumsatz & Gesamtumsatz",
+  "results.expandHint": "Klicken, um die Formeln ein- oder auszublenden",
+  "results.expand": "Einblenden",
+  "results.collapse": "Ausblenden",
+  "results.recommendedBmr": "Empfohlener Grundumsatz",
+  "results.formulaTdee": "Gesamtumsatz (Formel)",
+  "results.adaptiveTdee": "Gesamtumsatz (adaptiv)",
+  "results.used": "(verwendet)",
+  "results.notAvailable": "k. A.",
+  "results.adaptiveWindow": "{days}-Tage-Fenster, {delta} ggü. Formel",
+  "results.derivation": "So wurden Grund- und Gesamtumsatz ermittelt",
+  "results.allFormulas": "Alle Grundumsatz-Formeln",
+  "results.recommended": "(empfohlen)",
+  "results.spread": "Spannweite",
+  "results.spreadDetail": "Niedrigste {min}, höchste {max}. Empfohlen: {recommended}.",
+  "results.compositionNote":
+    "Katch-McArdle, Cunningham, Nelson und Muller benötigen FM und FFM (aus KFA oder DEXA).",
+
+  "results.bodyComposition": "Körperzusammensetzung",
+  "results.metric": "Kennzahl",
+  "results.value": "Wert",
+  "results.source": "Quelle",
+  "results.metric.bodyFatPercent": "Körperfett",
+  "results.metric.fatMassKg": "Fettmasse",
+  "results.metric.leanMassKg": "Magermasse (fettfrei)",
+  "results.metric.ffmi": "FFMI",
+  "results.metric.normalizedFfmi": "Normalisierter FFMI",
+  "results.metric.fmi": "Fettmasseindex",
+  "results.metric.bmi": "BMI",
+  "composition.source.dexa": "DEXA",
+  "composition.source.dexaDerived": "DEXA + Gewicht",
+  "composition.source.enteredBf": "Eingegebener KFA",
+  "composition.source.estimatedBf": "Geschätzter KFA",
+  "composition.source.heightWeight": "Größe und Gewicht",
+  "results.compositionDerived.fatMass":
+    "Fettmasse = Gewicht - DEXA-Magermasse (plus BMC, falls eingegeben).",
+  "results.compositionDerived.leanMass": "Magermasse = Gewicht - DEXA-Fettmasse.",
+  "results.compositionBoer":
+    "Kein KFA und kein DEXA, daher wird die Magermasse aus Größe und Gewicht geschätzt (Boer-Formel).",
+  "results.normalizedFfmiNote":
+    "Der normalisierte FFMI rechnet den FFMI auf eine Größe von 1,8 m um.",
+
+  /* ---- Diagnostics ---- */
+  "diagnostic.bmiImplausible":
+    "Ein BMI von {bmi} liegt außerhalb des plausiblen Bereichs von {min}-{max}. Prüfe die Einheiten von Gewicht und Größe.",
+  "diagnostic.dexaParts.withBone": "Fett + Mager + KMG",
+  "diagnostic.dexaParts.noBone": "Fett- + Magermasse",
+  "diagnostic.dexaMassMismatch":
+    "DEXA {parts} ({total} kg) weicht um mehr als {percent} % vom eingegebenen Gewicht ({weight} kg) ab.",
+  "diagnostic.dexaMass.fat": "Fettmasse",
+  "diagnostic.dexaMass.leanBone": "Mager + KMG",
+  "diagnostic.dexaMass.lean": "Magermasse",
+  "diagnostic.dexaMassExceedsWeight":
+    "DEXA-{mass} ({value} kg) ist nicht kleiner als das eingegebene Gewicht ({weight} kg), daher lässt sich die andere Masse nicht ableiten.",
+  "diagnostic.bmrPolicyFallback.single":
+    "{method} braucht eine gemessene Körperzusammensetzung (KFA oder DEXA), daher wurde die Standardregel für den Grundumsatz verwendet.",
+  "diagnostic.bmrPolicyFallback.blend":
+    "Keine Formel in der gewichteten Mischung hat ein positives Gewicht und einen Wert, daher wurde die Standardregel für den Grundumsatz verwendet.",
+  "diagnostic.carbsNegative":
+    "Eiweiß und Fett überschreiten das Kalorienziel, daher wurden die Kohlenhydrate auf 0 g gesetzt.",
+  "diagnostic.carbsReduced":
+    "Die festen Kohlenhydrate passen neben Eiweiß und Fett nicht ins Kalorienziel, daher wurden sie auf {carbs} g gesenkt.",
+  "diagnostic.fatBelowMin": "Die Fettzufuhr liegt unter {min} g/Tag.",
+  "diagnostic.caloriesBelowBmr": "{calories} liegen unter deinem Grundumsatz von {bmr}.",
+  "diagnostic.deficitBlocked.pregnancy":
+    "Kaloriendefizite werden in der Schwangerschaft nicht empfohlen, daher wurde die Anpassung von {requested} ignoriert und die Kalorien auf Erhaltung gehalten. Sprich mit einer Ärztin oder einem Arzt, bevor du die Zufuhr einschränkst.",
+  "diagnostic.deficitBlocked.minor":
+    "Kaloriendefizite werden unter 18 nicht empfohlen, daher wurde die Anpassung von {requested} ignoriert und die Kalorien auf Erhaltung gehalten. Sprich mit einer Ärztin oder einem Arzt, bevor du die Zufuhr einschränkst.",
+  "diagnostic.lactationDeficit":
+    "Halte beim Stillen ein Defizit bei höchstens {max}/Tag und den Gewichtsverlust bei etwa 0,5 kg/Woche, und achte auf die Milchmenge.",
+  "diagnostic.lactationDeficit.capped":
+    "Halte beim Stillen ein Defizit bei höchstens {max}/Tag und den Gewichtsverlust bei etwa 0,5 kg/Woche, und achte auf die Milchmenge. Die Anpassung von {requested} wurde auf {applied} begrenzt.",
+  "diagnostic.cutRateTooFast":
+    "Ein Defizit von {deficit}/Tag kostet etwa {percent} % des Körpergewichts pro Woche (mehr als {max} %).",
+  "diagnostic.proteinAboveSafeLimit":
+    "Eiweiß von {perKg} g/kg liegt über der tolerierbaren Obergrenze von {max} g/kg.",
+  "diagnostic.proteinAboveAmdr": "Eiweiß liegt über {percent} % der Kalorien.",
+  "diagnostic.leanMassEstimated":
+    "Eiweiß pro kg Magermasse hat eine geschätzte Magermasse verwendet (kein KFA oder DEXA).",
+  "diagnostic.short.FAT_BELOW_50G": "Fett < 50 g",
+  "diagnostic.short.CARBS_NEGATIVE": "Kohlenhydrate < 0",
+  "diagnostic.short.CARBS_REDUCED": "Kohlenhydrate gesenkt",
+  "diagnostic.short.LEAN_MASS_ESTIMATED": "Magermasse geschätzt",
+  "diagnostic.short.CALORIES_BELOW_BMR": "Unter Grundumsatz",
+  "diagnostic.short.CUT_RATE_TOO_FAST": "Diät zu schnell",
+  "diagnostic.short.PROTEIN_ABOVE_SAFE_LIMIT": "Eiweiß > Grenze",
+  "diagnostic.short.PROTEIN_ABOVE_AMDR": "Eiweiß > AMDR",
+  "diagnostic.short.BMI_IMPLAUSIBLE": "BMI unplausibel",
+  "diagnostic.short.DEXA_MASS_MISMATCH": "DEXA passt nicht",
+  "diagnostic.short.DEXA_MASS_EXCEEDS_WEIGHT": "DEXA > Gewicht",
+  "diagnostic.short.BMR_POLICY_FALLBACK": "Grundumsatz-Ersatzregel",
+  "diagnostic.short.DEFICIT_BLOCKED": "Defizit blockiert",
+  "diagnostic.short.LACTATION_DEFICIT": "Defizit beim Stillen",
+
+  /* ---- Life-stage adjustments ---- */
+  "adjustment.ageBandedBmr":
+    "Grundumsatz aus der altersgestuften {method}-Formel statt dem Standard für Erwachsene.",
+  "adjustment.energyAdded": "{stage}: +{energy}/Tag zum Gesamtumsatz (Formel) addiert.",
+  "adjustment.deficitHeld":
+    "{goal}: Das Defizit von {requested} wird nicht angewendet ({stage}); auf Erhaltung gehalten.",
+  "adjustment.deficitHeld.minor":
+    "{goal}: Das Defizit von {requested} wird unter 18 nicht angewendet; auf Erhaltung gehalten.",
+  "adjustment.deficitCapped": "{goal}: Defizit auf {applied} begrenzt (angefragt {requested}).",
+  "adjustment.proteinRaised":
+    "Eiweiß auf mindestens {perKg} g/kg ({grams} g) angehoben für {goals}.",
+
+  "lifeStage.source.pregnancyT1": "IOM DRI (2005): keine zusätzliche Energie im 1. Trimester",
+  "lifeStage.source.pregnancyT2": "IOM DRI (2005): +340 kcal/Tag; Eiweiß (RDA) 1,1 g/kg",
+  "lifeStage.source.pregnancyT3": "IOM DRI (2005): +452 kcal/Tag; Eiweiß (RDA) 1,1 g/kg",
+  "lifeStage.source.lactationExclusive":
+    "IOM DRI (2005): +330 kcal/Tag (0-6 Monate); Eiweiß (RDA) 1,3 g/kg",
+  "lifeStage.source.lactationPartial":
+    "Die Hälfte des Zuschlags beim ausschließlichen Stillen, für etwa die halbe Milchmenge; Eiweiß (RDA) 1,3 g/kg",
+  "lifeStage.source.olderAdult": "PROT-AGE (2013): mindestens 1,0-1,2 g/kg Eiweiß",
+  "lifeStage.source.adolescent":
+    "IOM DRI (2005): ~25 kcal/Tag Energieeinlagerung für das Wachstum; Eiweiß (RDA) 0,85 g/kg (14-18)",
+
+  /* ---- Shared links ---- */
+  "permalink.notPermalink": "Der Link ist kein Permalink dieses Rechners.",
+  "permalink.unsupportedVersion":
+    "Links der Version {version} werden von dieser App-Version nicht unterstützt.",
+  "permalink.corrupted": "Der Link ist unvollständig oder beschädigt.",
+
+  /* ---- Scenarios ---- */
+  "scenario.title": "Szenarien vergleichen",
+  "scenario.open": "Was-wäre-wenn vergleichen",
+  "scenario.close": "Vergleich schließen",
+  "scenario.intro":
+    "Kopiere dieses Profil in {min}-{max} Szenarien, ändere in jedem ein paar Eingaben und vergleiche Grundumsatz, Gesamtumsatz und die Makros jedes Ziels nebeneinander.",
+  "scenario.defaultName": "Szenario {letter}",
+  "scenario.override": "Abweichung",
+  "scenario.remove": "{name} entfernen",
+  "scenario.field.ageYears": "Alter",
+  "scenario.field.weightKg": "Gewicht",
+  "scenario.field.bodyFatPercent": "KFA %",
+  "scenario.field.activityMultiplier": "Aktivitätsfaktor",
+  "scenario.field.cutDelta": "Diät-Anpassung",
+  "scenario.field.bulkDelta": "Aufbau-Anpassung",
+  "scenario.field.recompDelta": "Rekompositions-Anpassung",
+  "scenario.field.macroPreset": "Makro-Vorlage",
+  "scenario.sameAsProfile": "Wie im Profil",
+  "scenario.add": "Szenario hinzufügen",
+  "scenario.result": "Ergebnis",
+  "scenario.baseline": "(Basis)",
+  "scenario.row.calories": "Kalorien ({goal})",
+  "scenario.row.protein": "Eiweiß ({goal})",
+  "scenario.row.fat": "Fett ({goal})",
+  "scenario.row.carbs": "Kohlenhydrate ({goal})",
+  "scenario.outOfRange": "{field} sollte zwischen {min} und {max} liegen",
+  "scenario.unknownPreset": "Unbekannte Makro-Vorlage \"{preset}\"",
+  "scenario.calculationFailed": "Mit diesen Abweichungen ist keine Berechnung möglich",
+  "scenario.footer":
+    "Leere Felder übernehmen den Wert aus dem Profil. Szenarien nutzen den Gesamtumsatz per Formel (nicht das Gewichtsprotokoll) und werden mit diesem Profil gespeichert. Differenzen beziehen sich auf das erste Szenario.",
+
+  /* ---- Sensitivity ---- */
+  "sensitivity.title": "Sensitivität",
+  "sensitivity.intro":
+    "Variiert eine Eingabe über einen Bereich (alles andere wie im Profil) und rechnet bei jedem Schritt neu, im Browser. Nur Gesamtumsatz per Formel.",
+  "sensitivity.input": "Eingabe",
+  "sensitivity.from": "Von",
+  "sensitivity.to": "Bis",
+  "sensitivity.steps": "Schritte",
+  "sensitivity.goal": "Ziel",
+  "sensitivity.energy": "Energie",
+  "sensitivity.bmr": "Grundumsatz",
+  "sensitivity.tdee": "Gesamtumsatz",
+  "sensitivity.macros": "Makros ({goal})",
+  "sensitivity.markerEnds": "Ende: {warning}",
+  "sensitivity.activeAtStart": "Bereits aktiv bei {field} {value}: {warnings}",
+  "sensitivity.starts": "{warning} beginnt bei {value}",
+  "sensitivity.stops": "{warning} endet bei {value}",
+
+  /* ---- Timeline ---- */
+  "timeline.title.cut": "Zeitplan der Diät",
+  "timeline.title.bulk": "Zeitplan des Aufbaus",
+  "timeline.target": "Ziel",
+  "timeline.kind.weight": "Gewicht ({unit})",
+  "timeline.kind.bodyFat": "KFA %",
+  "timeline.kind.bodyFatUnavailable": "KFA % (braucht KFA oder DEXA)",
+  "timeline.targetWeight": "Zielgewicht ({unit})",
+  "timeline.targetBodyFat": "Ziel-KFA %",
+  "timeline.targetDate": "Zieldatum (optional)",
+  "timeline.needed": "Nötig: {delta} für {weeks} Wochen ({calories}).",
+  "timeline.unreachableByDate":
+    "Dieses Ziel ist bis zum Datum mit einer realistischen täglichen Anpassung nicht erreichbar.",
+  "timeline.neededLimited":
+    "Das ist mehr Defizit, als die Anpassungen für die Lebensphase erlauben; höchstens {delta} sind möglich.",
+  "timeline.useNeeded": "Mit der nötigen Anpassung statt {delta} rechnen",
+  "timeline.wrongDirection.cut": "Dieses Ziel liegt in der Gegenrichtung einer Diät.",
+  "timeline.wrongDirection.bulk": "Dieses Ziel liegt in der Gegenrichtung eines Aufbaus.",
+  "timeline.reached": "Mit {delta} erreichst du das Ziel in {weeks} Wochen ({date}).",
+  "timeline.notReached": "Mit {delta} erreichst du das Ziel nicht innerhalb von {weeks} Wochen.",
+  "timeline.week": "Woche",
+  "timeline.date": "Datum",
+  "timeline.weight": "Gewicht",
+  "timeline.leanMass": "Magermasse",
+  "timeline.fatMass": "Fettmasse",
+  "timeline.col.bodyFat": "KFA %",
+  "timeline.col.fat": "Fett ({unit})",
+  "timeline.col.lean": "Mager ({unit})",
+
+  /* ---- Weight log ---- */
+  "weightLog.title": "Gewichts- und Kalorienprotokoll",
+  "weightLog.intro":
+    "Trage täglich Gewicht und Kalorien ein. Wir glätten den Gewichtsverlauf und berechnen daraus über die Energiebilanz deinen tatsächlichen Gesamtumsatz.",
+  "weightLog.date": "Datum",
+  "weightLog.weight": "Gewicht ({unit})",
+  "weightLog.intake": "Aufnahme ({unit})",
+  "weightLog.save": "Eintrag speichern",
+  "weightLog.window": "Gleitendes Fenster (Tage)",
+  "weightLog.days": "{days} Tage",
+  "weightLog.useAdaptive": "Adaptiven Gesamtumsatz für die Ziele verwenden",
+  "weightLog.trend":
+    "Trend {trend} {unit}/Woche, durchschnittliche Aufnahme {intake} über {days} Tage.",
+  "weightLog.remove": "{date} entfernen",
+  "adaptive.tooFewWeighIns":
+    "Trage mindestens zwei Wiegungen ein, um einen Gewichtstrend zu bilden.",
+  "adaptive.windowTooShort": "Es braucht Wiegungen über mindestens {min} Tage (vorhanden: {have}).",
+  "adaptive.tooFewIntakeDays":
+    "Trage die Kalorienaufnahme an mindestens {min} der letzten {span} Tage ein (vorhanden: {have}).",
+
+  /* ---- Food log ---- */
+  "foodLog.title": "Ernährungsprotokoll",
+  "foodLog.intro":
+    "Trage ein, was du gegessen hast, und vergleiche es mit den Zielwerten des gewählten Ziels. Alles bleibt auf diesem Gerät.",
+  "foodLog.date": "Datum",
+  "foodLog.compareAgainst": "Vergleichen mit",
+  "foodLog.calories": "Kalorien",
+  "foodLog.over": "{amount} darüber",
+  "foodLog.left": "{amount} übrig",
+  "foodLog.noTargets": "Gib gültige Profilwerte ein, um die Zielwerte zu sehen.",
+  "foodLog.food": "Lebensmittel",
+  "foodLog.search": "Lebensmittel suchen...",
+  "foodLog.custom": "eigenes",
+  "foodLog.per100g": "{energy}/100 g",
+  "foodLog.amount": "Menge",
+  "foodLog.unit": "Einheit",
+  "foodLog.grams": "Gramm",
+  "foodLog.add": "Hinzufügen",
+  "foodLog.preview": "{energy} - E {protein} / F {fat} / K {carbs}",
+  "foodLog.col.grams": "Gramm",
+  "foodLog.col.macros": "E / F / K",
+  "foodLog.remove": "{name} entfernen",
+  "foodLog.saveIntake": "{energy} als Aufnahme dieses Tages ins Gewichtsprotokoll übernehmen",
+  "foodLog.myFoods": "Meine Lebensmittel ({count})",
+  "foodLog.delete": "{name} löschen",
+  "foodLog.form.name": "Name",
+  "foodLog.form.basis": "Makros gelten",
+  "foodLog.form.perServing": "Pro Portion (laut Etikett)",
+  "foodLog.form.per100g": "Pro 100 g",
+  "foodLog.form.servingName": "Name der Portion",
+  "foodLog.form.defaultServing": "1 Portion",
+  "foodLog.form.servingWeight": "Portionsgewicht (g)",
+  "foodLog.form.servingWeightOptional": "Portionsgewicht (g), optional",
+  "foodLog.form.contains": "Enthält",
+  "foodLog.form.save": "Lebensmittel speichern",
+  "foodLog.form.error.name": "Gib dem Lebensmittel einen Namen.",
+  "foodLog.form.error.negative": "Makros müssen null oder größer sein.",
+  "foodLog.form.error.servingWeight": "Makros pro Portion brauchen das Portionsgewicht in Gramm.",
+  "foodLog.tag.meat": "Fleisch",
+  "foodLog.tag.fish": "Fisch",
+  "foodLog.tag.dairy": "Milchprodukte",
+  "foodLog.tag.egg": "Ei",
+
+  /* ---- Export ---- */
+  "export.goalOnCard": "Ziel auf der Karte",
+  "export.rendering": "Wird erstellt...",
+  "export.pngCard": "PNG-Karte",
+  "export.print": "Drucken / PDF",
+  "export.hint":
+    "Wird in deinem Browser erstellt. Wähle im Druckdialog \"Als PDF speichern\" für ein Handout.",
+  "export.renderFailed": "Das Bild konnte in diesem Browser nicht erstellt werden.",
+  "export.planTitle": "Plan: {goal}",
+  "export.percentOfCalories": "{percent} der Kalorien",
+  "export.cardFooter.formula": "Grundumsatz {bmr} nach {method}; Gesamtumsatz {tdee} (Formel).",
+  "export.cardFooter.adaptive":
+    "Grundumsatz {bmr} nach {method}; Gesamtumsatz {tdee} (aus dem Gewichtsprotokoll gemessen).",
+  "export.handoutTitle": "Makroplan",
+  "export.handoutTitleFor": "Makroplan für {name}",
+  "export.dailyTargets": "Tagesziele",
+  "export.energyExpenditure": "Energieverbrauch",
+  "export.bmrFormula": "Grundumsatz-Formel",
+  "export.unitPerDay": "{unit}/Tag",
+  "export.spread": "Spannweite der Formeln",
+  "export.tdeeUsed.formula": "Gesamtumsatz für die Ziele (Formel)",
+  "export.tdeeUsed.adaptive": "Gesamtumsatz für die Ziele (adaptiv)",
+  "export.warnings": "Warnungen und Hinweise",
+
+  /* ---- Weekly schedule ---- */
+  "weekly.title": "Wochenplan",
+  "weekly.day": "Tag",
+  "weekly.dayType": "Typ",
+  "weekly.average": "Wochenschnitt",
+
+  /* ---- Meal plan ---- */
+  "mealPlan.title": "Mahlzeitenplan",
+  "mealPlan.intro":
+    "Stellt aus der Lebensmittelliste einen Tag mit Mahlzeiten zusammen, der nahe an den Makros des gewählten Ziels liegt. Der Seed reproduziert einen Plan; eigene Lebensmittel zählen nur als Fleisch/Milchprodukt, wenn sie so markiert sind.",
+  "mealPlan.goal": "Ziel",
+  "mealPlan.mealsPerDay": "Mahlzeiten pro Tag",
+  "mealPlan.tolerance": "Toleranz (%)",
+  "mealPlan.vegetarian": "Vegetarisch",
+  "mealPlan.dairyFree": "Ohne Milchprodukte",
+  "mealPlan.seed": "Seed",
+  "mealPlan.regenerate": "Neu erzeugen",
+  "mealPlan.alwaysInclude": "Immer einplanen",
+  "mealPlan.lockSearch": "Lebensmittel zum Fixieren suchen...",
+  "mealPlan.autoGrams": "auto g",
+  "mealPlan.unlock": "{food} lösen",
+  "mealPlan.neverInclude": "Nie einplanen",
+  "mealPlan.noBans": "Mit dem Sperr-Button an einem geplanten Lebensmittel schließt du es aus.",
+  "mealPlan.allow": "Erlauben",
+  "mealPlan.needsProfile": "Gib gültige Profildaten ein, um Mahlzeiten zu planen.",
+  "mealPlan.failure.noCalories": "Die Ziele haben keine Kalorien zum Planen.",
+  "mealPlan.failure.noProtein":
+    "Nach Ausschlüssen und Sperren sind keine Eiweißlebensmittel übrig.",
+  "mealPlan.meal": "Mahlzeit {n}",
+  "mealPlan.food": "Lebensmittel",
+  "mealPlan.grams": "Gramm",
+  "mealPlan.col.calories": "kcal",
+  "mealPlan.col.protein": "E (g)",
+  "mealPlan.col.fat": "F (g)",
+  "mealPlan.col.carbs": "KH (g)",
+  "mealPlan.lockFood": "{food} immer einplanen",
+  "mealPlan.banFood": "{food} nie einplanen",
+  "mealPlan.mealTotal": "Summe der Mahlzeit",
+  "mealPlan.day": "Tag",
+  "mealPlan.planned": "Geplant",
+  "mealPlan.target": "Ziel",
+  "mealPlan.error": "Abweichung",
+  "mealPlan.withinTolerance": "Innerhalb von {tolerance} bei jedem Ziel (Versuch {attempts}).",
+  "mealPlan.outsideTolerance":
+    "Der beste Plan nach {attempts} Versuchen liegt außerhalb der Toleranz von {tolerance}. Versuch mehr Mahlzeiten, weniger Ausschlüsse oder einen anderen Seed.",
+  "mealPlan.deletedFood": "Gelöschtes Lebensmittel",
+  "mealPlan.addToLog": "Plan ins heutige Ernährungstagebuch übernehmen",
+  "mealPlan.added": "Ins heutige Ernährungstagebuch übernommen",
+
+  /* ---- DEXA scans ---- */
+  "dexa.title": "DEXA-Scans",
+  "dexa.intro":
+    "Importiere einen CSV- oder JSON-Export (Hologic, GE Lunar, BodySpec-Format). Die Datei wird lokal gelesen und nie hochgeladen.",
+  "dexa.import": "Exportdatei importieren",
+  "dexa.error.empty": "Die Datei ist leer.",
+  "dexa.error.invalidJson": "Die Datei ist kein gültiges JSON.",
+  "dexa.error.noColumns": "In dieser CSV wurden keine Spalten für Fett / Mager / BMC gefunden.",
+  "dexa.error.noTotals":
+    "In dieser Datei wurden keine Ganzkörperwerte für Fett oder Magermasse gefunden.",
+  "dexa.note.unlabeledGrams": "Einige Spalten hatten keine Einheit; sie wurden als Gramm gelesen.",
+  "dexa.note.unlabeledKg": "Einige Spalten hatten keine Einheit; sie wurden als Kilogramm gelesen.",
+  "dexa.note.leanIncludesBmc":
+    "{region}: Nur Mager + BMC wurde angegeben, daher enthält die Magermasse Knochen.",
+  "dexa.found": "Gefundene Scans: {count} (Format {layout})",
+  "dexa.layout.long": "lang",
+  "dexa.layout.wide": "breit",
+  "dexa.layout.json": "JSON",
+  "dexa.latest": "neuester {date}",
+  "dexa.weightCheck":
+    "Fett + Mager + BMC = {scan} kg gegenüber eingegebenem Gewicht {weight} kg ({diff} %).",
+  "dexa.weightMismatch":
+    "Das ist mehr als Waagenrauschen; prüf den Scan und die Gewichtseinheiten.",
+  "dexa.saveAndApply": "Speichern & Formular füllen",
+  "dexa.saveOnly": "Nur im Verlauf speichern",
+  "dexa.cancel": "Abbrechen",
+  "dexa.region": "Region",
+  "dexa.region.total": "Gesamt",
+  "dexa.region.arms": "Arme",
+  "dexa.region.legs": "Beine",
+  "dexa.region.trunk": "Rumpf",
+  "dexa.region.android": "Android",
+  "dexa.region.gynoid": "Gynoid",
+  "dexa.fatKg": "Fett (kg)",
+  "dexa.leanKg": "Mager (kg)",
+  "dexa.bmcKg": "BMC (kg)",
+  "dexa.bodyFat": "KFA",
+  "dexa.history": "Verlauf",
+  "dexa.date": "Datum",
+  "dexa.undated": "ohne Datum",
+  "dexa.use": "Übernehmen",
+  "dexa.remove": "Scan {date} entfernen",
+
+  /* ---- Profiles ---- */
+  "profiles.title": "Gespeicherte Profile",
+  "profiles.storedLocally": "In diesem Browser gespeichert",
+  "profiles.new": "Neu",
+  "profiles.rename": "Umbenennen",
+  "profiles.duplicate": "Duplizieren",
+  "profiles.delete": "Löschen",
+  "profiles.confirmDelete": "\"{name}\" löschen?",
+  "profiles.share": "Link teilen",
+  "profiles.linkCopied": "Link in die Zwischenablage kopiert.",
+  "profiles.copyPrompt": "Kopiere diesen Link:",
+
+  /* ---- Charts ---- */
+  "chart.empty": "Nichts darzustellen.",
+
+  /* ---- Coach ---- */
+  "coach.title": "Klienten",
+  "coach.subtitle": "Jedes gespeicherte Profil ist ein Klient. Alles bleibt in diesem Browser.",
+  "coach.back": "Zurück zum Rechner",
+  "coach.search": "Name oder Tag suchen",
+  "coach.allTags": "Alle Tags",
+  "coach.newClient": "Neuer Klient",
+  "coach.selectAll": "Alle angezeigten auswählen",
+  "coach.selected": "{count} ausgewählt",
+  "coach.recompute": "Neu berechnen",
+  "coach.policy": "Grundumsatz-Regel",
+  "coach.policySingle": "Einzeln: {method}",
+  "coach.applyPolicy": "Anwenden und neu berechnen",
+  "coach.exportCsv": "CSV exportieren",
+  "coach.col.client": "Klient",
+  "coach.col.tags": "Tags",
+  "coach.col.goal": "Ziel",
+  "coach.col.calories": "Kalorien",
+  "coach.col.macros": "Protein / Fett / Kohlenhydrate",
+  "coach.col.updated": "Aktualisiert",
+  "coach.tagsPlaceholder": "Tags, durch Kommas getrennt",
+  "coach.open": "Öffnen",
+  "coach.notComputed": "Noch nicht berechnet",
+  "coach.outdated": "Seit der Berechnung geändert",
+  "coach.incomplete": "Profil unvollständig",
+  "coach.empty": "Keine passenden Klienten.",
+  "coach.recomputed": "{count} Klienten neu berechnet.",
+  "coach.failed":
+    "{count} konnten nicht berechnet werden. Öffne sie, um ihre Profile zu vervollständigen.",
+
+  /* ---- Backup ---- */
+  "backup.title": "Sicherung",
+  "backup.subtitle": "Alle Profile mit Ergebnissen und Protokollen, als Dateien zum Aufbewahren.",
+  "backup.exportJson": "JSON exportieren",
+  "backup.exportCsv": "CSV exportieren",
+  "backup.csv.profiles": "Profile und Ziele",
+  "backup.csv.weightLog": "Gewichtsprotokoll",
+  "backup.csv.foodLog": "Ernährungsprotokoll",
+  "backup.csv.dexaScans": "DEXA-Scans",
+  "backup.import": "JSON importieren",
+  "backup.error.invalidJson": "Diese Datei ist kein gültiges JSON.",
+  "backup.error.notBackup": "Das ist keine Sicherung dieses Rechners.",
+  "backup.error.newerVersion": "Diese Sicherung stammt von einer neueren Version des Rechners.",
+  "backup.preview": "Sicherung vom {date}. Nichts ändert sich, bevor du bestätigst.",
+  "backup.replaceNote":
+    "Wird ein Profil ersetzt, werden auch sein Gewichts- und Ernährungsprotokoll und seine DEXA-Scans ersetzt.",
+  "backup.profiles": "Profile",
+  "backup.foods": "Eigene Lebensmittel",
+  "backup.status.new": "Neu",
+  "backup.status.same": "Wie hier",
+  "backup.status.newer": "Geändert, Sicherung ist neuer",
+  "backup.status.older": "Geändert, die Version in diesem Browser ist neuer",
+  "backup.status.changed": "Geändert",
+  "backup.action.add": "Importieren",
+  "backup.action.replace": "Ersetzen",
+  "backup.action.keepBoth": "Beide behalten",
+  "backup.action.skip": "Überspringen",
+  "backup.rejected": "Ungültig, wird nicht importiert ({count})",
+  "backup.confirm": "Importieren",
+  "backup.cancel": "Abbrechen",
+  "backup.done": "{profiles} Profile und {foods} eigene Lebensmittel importiert.",
+};
@@ -0,0 +1,701 @@
+// Source catalog: keys here define MessageKey. "{name}" is filled in by the translator.
+export const en = {
+  /* ---- App ---- */
+  "app.title": "Nutrition Calculator",
+  "app.tagline": "Offline-first macro calculator with nerdy BMR/TDEE transparency.",
+  "app.language": "Language",
+  "app.languageAuto": "Browser default",
+  "app.loadingProfiles": "Loading saved profiles...",
+  "app.results": "Results",
+  "app.enterValidInputs": "Enter valid inputs to see results.",
+  "app.coachDashboard": "Coach dashboard",
+  "app.dismiss": "Dismiss",
+  "app.sharedLinkFailed": "This shared link could not be loaded",
+  "app.sharedLinkProfile": "Shared link",
+  "app.engineMissing": "Calculation engine not implemented yet - next step.",
+  "app.inputSnapshot": "Input snapshot:",
+
+  /* ---- Shared vocabulary ---- */
+  "goal.maintenance": "Maintenance",
+  "goal.cut": "Cut",
+  "goal.bulk": "Bulk",
+  "goal.recomp": "Recomp",
+  "macro.protein": "Protein",
+  "macro.fat": "Fat",
+  "macro.carbs": "Carbs",
+  "sex.male": "Male",
+  "sex.female": "Female",
+  "unit.perDay": "{value} {unit}/day",
+  "unit.kcal": "kcal",
+  "unit.kJ": "kJ",
+  "unit.lb": "lb",
+  "unit.kg": "kg",
+  "unit.st": "st",
+  "unit.stLb": "st / lb",
+  "unit.in": "in",
+  "unit.ft": "ft",
+  "unit.ftIn": "ft / in",
+  "unit.cm": "cm",
+
+  /* ---- Profile ---- */
+  "form.profile": "Profile",
+  "form.units": "Units",
+  "form.units.energy": "Energy",
+  "form.units.mass": "Body mass",
+  "form.units.length": "Length",
+  "form.sex": "Sex",
+  "form.age": "Age (years)",
+  "form.heightIn": "Height (inches)",
+  "form.weightLb": "Weight (lb)",
+  "form.heightCm": "Height (cm)",
+  "form.weightKg": "Weight (kg)",
+  "form.heightFtIn": "Height (ft / in)",
+  "form.weightStLb": "Weight (st / lb)",
+  "form.lifeStage": "Life stage",
+  "form.lifeStageHelp":
+    "Adds pregnancy / breastfeeding energy, raises the protein floor and limits deficits. Standard switches to the under-18 or 65+ rules from age automatically.",
+
+  "lifeStage.standard": "Standard adult (18-64)",
+  "lifeStage.pregnancyT1": "Pregnancy, 1st trimester",
+  "lifeStage.pregnancyT2": "Pregnancy, 2nd trimester",
+  "lifeStage.pregnancyT3": "Pregnancy, 3rd trimester",
+  "lifeStage.lactationExclusive": "Breastfeeding, exclusive",
+  "lifeStage.lactationPartial": "Breastfeeding, partial",
+  "lifeStage.olderAdult": "Older adult (65+)",
+  "lifeStage.adolescent": "Adolescent (under 18)",
+
+  /* ---- Body composition ---- */
+  "form.bodyComposition": "Body Composition",
+  "form.bodyFatInput": "Body fat input",
+  "form.bodyFatMode.unknown": "I don't know my BF%",
+  "form.bodyFatMode.known": "I know my BF%",
+  "form.bodyFatMode.estimated": "Estimate from measurements",
+  "form.bodyFatPercent": "Body fat % (enter 20, not 0.2)",
+  "form.densityConversion": "Density to BF%",
+  "form.densityConversionHelp": "Only affects the skinfold methods.",
+  "form.bodyFatUnknownHelp":
+    "We'll use the average of Revised Harris-Benedict and Mifflin-St Jeor for BMR.",
+  "form.girth.neck": "Neck",
+  "form.girth.waist": "Waist",
+  "form.girth.hip": "Hip",
+  "form.womenOnly": "(women only)",
+  "form.skinfolds": "Skinfolds (mm)",
+  "form.skinfoldsHelp": "3-site uses {sites}; 7-site uses all of them.",
+  "skinfold.chest": "Chest",
+  "skinfold.abdomen": "Abdomen",
+  "skinfold.thigh": "Thigh",
+  "skinfold.triceps": "Triceps",
+  "skinfold.suprailiac": "Suprailiac",
+  "skinfold.subscapular": "Subscapular",
+  "skinfold.midaxillary": "Midaxillary",
+  "form.estimate.use": "Use",
+  "form.estimate.method": "Method",
+  "form.estimate.bodyFat": "BF%",
+  "form.estimate.needs": "needs {missing}",
+  "estimate.navy": "US Navy (circumference)",
+  "estimate.jp3": "Jackson-Pollock 3-site",
+  "estimate.jp7": "Jackson-Pollock 7-site",
+  "estimate.bmi": "BMI-based (Deurenberg)",
+  "estimate.waistAboveNeck": "waist larger than neck",
+  "estimate.plausibleMeasurements": "plausible measurements",
+  "form.dexaEnabled": "I have DEXA results (Advanced)",
+  "form.dexaFatMass": "DEXA Fat Mass (kg)",
+  "form.dexaLeanMass": "DEXA Lean Mass (kg)",
+  "form.dexaBoneMineral": "Bone mineral content (kg, optional)",
+  "form.dexaHelp":
+    "Enter one or both masses; a missing one is derived from your weight. Lean mass is the soft-tissue figure from the report, and BMC (if listed) is added to it for fat-free mass.",
+
+  /* ---- BMR ---- */
+  "form.bmr": "BMR Equation",
+  "form.bmr.recommended": "Recommended BMR",
+  "form.bmr.formula": "Formula",
+  "form.bmr.help":
+    "Katch-McArdle, Cunningham, Nelson and Muller need body composition from a measured BF% or DEXA; without it they're left out of the mean, median and blend. Weights are relative.",
+  "bmrPolicy.auto": "Auto (Katch-McArdle with measured BF%, else Mifflin/Harris-Benedict average)",
+  "bmrPolicy.single": "A single formula",
+  "bmrPolicy.mean": "Mean of available formulas",
+  "bmrPolicy.median": "Median of available formulas",
+  "bmrPolicy.weighted": "Weighted blend",
+
+  /* ---- Activity ---- */
+  "form.activity": "Activity",
+  "form.preset": "Preset",
+  "activityPreset.sedentary": "Sedentary ({value})",
+  "activityPreset.light": "Light ({value})",
+  "activityPreset.moderate": "Moderate ({value})",
+  "activityPreset.very": "Very ({value})",
+  "activityPreset.extreme": "Extreme ({value})",
+  "form.activity.useCustom": "Use custom multiplier",
+  "form.activity.custom": "Custom multiplier",
+  "form.builder.title": "Build a multiplier from steps and workouts",
+  "form.builder.steps": "Average daily steps",
+  "form.builder.job": "Job",
+  "jobType.desk": "Desk / seated",
+  "jobType.standing": "Standing (retail, lab, teaching)",
+  "jobType.active": "On your feet, moving (nursing, hospitality)",
+  "jobType.heavy": "Heavy manual (construction, farming)",
+  "form.builder.workouts": "Workouts",
+  "form.builder.noWorkouts": "No workouts added.",
+  "form.builder.type": "Type",
+  "form.builder.minutes": "Minutes",
+  "form.builder.perWeek": "Per week",
+  "form.builder.mets": "METs",
+  "workout.weightsModerate": "Weight training (moderate)",
+  "workout.weightsVigorous": "Weight training (vigorous)",
+  "workout.running": "Running (~10 km/h)",
+  "workout.cycling": "Cycling (moderate)",
+  "workout.swimming": "Swimming laps",
+  "workout.hiit": "HIIT / circuits",
+  "workout.teamSports": "Team sports",
+  "workout.walkingBrisk": "Brisk walking",
+  "workout.yoga": "Yoga / mobility",
+  "workout.other": "Other",
+  "form.builder.removeWorkout": "Remove workout",
+  "form.builder.addWorkout": "Add workout",
+  "form.builder.component": "Component",
+  "form.builder.kcalPerDay": "kcal/day",
+  "form.builder.bmr": "BMR",
+  "form.builder.neatSteps": "NEAT (steps)",
+  "form.builder.neatJob": "NEAT (job)",
+  "form.builder.exercise": "Exercise",
+  "form.builder.tef": "TEF",
+  "form.builder.total": "Total",
+  "form.builder.use": "Use {multiplier} as custom multiplier",
+  "form.builder.fillIn": "Fill in the rest of the profile to see the breakdown.",
+  "form.builder.help":
+    "Workouts and job use net METs (resting is already in BMR) averaged over the week; TEF is 10% of the total. Steps walked at work count under steps, not job.",
+
+  /* ---- Goal adjustments ---- */
+  "form.deltas": "Goal Adjustments",
+  "form.delta.cut": "Cut delta ({unit}/day)",
+  "form.delta.bulk": "Bulk delta ({unit}/day)",
+  "form.delta.recomp": "Recomp delta ({unit}/day)",
+
+  /* ---- Macro strategy ---- */
+  "form.macros": "Macro Strategy",
+  "form.macros.help":
+    "Protein is fixed first. Carbs take the remainder, or with a fixed/keto carb amount fat absorbs the remainder (never below its own target); carbs that don't fit are lowered.",
+  "macroPreset.balanced": "Balanced",
+  "macroPreset.highCarbAthlete": "High-carb athlete",
+  "macroPreset.keto": "Keto",
+  "macroPreset.lowFat": "Low-fat",
+  "macroPreset.custom": "Custom",
+  "proteinBasis.gPerLb": "g per lb body weight",
+  "proteinBasis.gPerKg": "g per kg body weight",
+  "proteinBasis.gPerKgLean": "g per kg lean mass",
+  "fatBasis.percent": "% of calories",
+  "fatBasis.gPerKg": "g per kg body weight",
+  "fatBasis.minGrams": "floor (grams)",
+  "carbBasis.remainder": "remainder",
+  "carbBasis.fixed": "fixed (grams)",
+  "carbBasis.ketoCap": "keto cap (grams)",
+
+  /* ---- Carb cycling ---- */
+  "form.carbCycling": "Carb Cycling",
+  "form.carbCycling.enable": "Split targets across a weekly schedule",
+  "form.carbCycling.multiplier": "{macro} x",
+  "form.carbCycling.help":
+    "Protein stays the same every day. Carb and fat multipliers are relative: they're rescaled so the week averages exactly to each goal's target.",
+  "dayType.training": "Training",
+  "dayType.rest": "Rest",
+  "dayType.highCarb": "High carb",
+  "dayType.lowCarb": "Low carb",
+  "weekday.mon": "Mon",
+  "weekday.tue": "Tue",
+  "weekday.wed": "Wed",
+  "weekday.thu": "Thu",
+  "weekday.fri": "Fri",
+  "weekday.sat": "Sat",
+  "weekday.sun": "Sun",
+
+  /* ---- Form status ---- */
+  "form.status": "Form status",
+  "form.status.valid": "Valid inputs (calculations will run)",
+  "form.status.invalid": "Fix errors above to run calculations",
+
+  /* ---- Validation ---- */
+  "validation.ageWhole": "Age must be a positive whole number",
+  "validation.heightInRequired": "Height (inches) is required",
+  "validation.weightLbRequired": "Weight (lb) is required",
+  "validation.heightCmRequired": "Height (cm) is required",
+  "validation.weightKgRequired": "Weight (kg) is required",
+  "validation.heightFtInRequired": "Height (ft / in) is required",
+  "validation.weightStLbRequired": "Weight (st / lb) is required",
+  "validation.heightInPositive": "Height (inches) must be greater than zero",
+  "validation.heightCmPositive": "Height (cm) must be greater than zero",
+  "validation.heightFtInPositive": "Height (ft / in) must be greater than zero",
+  "validation.weightLbPositive": "Weight (lb) must be greater than zero",
+  "validation.weightKgPositive": "Weight (kg) must be greater than zero",
+  "validation.weightStLbPositive": "Weight (st / lb) must be greater than zero",
+  "validation.bodyFatRequired": 'Body fat % is required when you choose "I know my BF%"',
+  "validation.estimateNeeds": "{method} needs: {missing}",
+  "validation.lifeStageFemaleOnly": "{stage} applies to female profiles only",
+  "validation.lifeStageOlderAdultAge": "Older-adult adjustments need an age of {age} or over",
+  "validation.lifeStageAdolescentAge": "Adolescent adjustments need an age under {age}",
+  "validation.blendWeightNonNegative": "Weight must be zero or more",
+  "validation.blendWeightPositive": "Give at least one formula a weight above zero",
+  "validation.activityCustomRequired": "Custom activity multiplier is required",
+  "validation.activityCustomRange": "Custom activity multiplier should be between {min} and {max}",
+  "validation.activityPresetRequired": "Choose an activity preset (or enable custom)",
+  "validation.activityPresetInvalid": "Activity preset must be one of {values}",
+  "validation.dexaMassRequired": "If DEXA is enabled, enter fat mass, lean mass, or both.",
+  "validation.ratioRange": "Multiplier should be between {min} and {max}",
+  "validation.macroNumber": "{macro} target must be a number",
+  "validation.macroRange": "{macro} target should be between {min} and {max} {unit}",
+
+  /* ---- Results ---- */
+  "results.macroEnergy": "{energy} - {percent}",
+  "results.showMath": "Show the math",
+  "results.severity.danger": "Danger",
+  "results.severity.warn": "Warnings",
+  "results.severity.info": "Notes",
+  "results.profileBadge": "Profile",
+  "results.lifeStageFromAge": "(from age)",
+  "results.lifeStageNone": "No adjustments were needed for this profile.",
+  "results.bmrTdee": "BMR & TDEE",
+  "results.expandHint": "Click to expand/collapse formulas",
+  "results.expand": "Expand",
+  "results.collapse": "Collapse",
+  "results.recommendedBmr": "Recommended BMR",
+  "results.formulaTdee": "Formula TDEE",
+  "results.adaptiveTdee": "Adaptive TDEE",
+  "results.used": "(used)",
+  "results.notAvailable": "n/a",
+  "results.adaptiveWindow": "{days}-day window, {delta} vs formula",
+  "results.derivation": "How BMR and TDEE were derived",
+  "results.allFormulas": "All BMR formulas",
+  "results.recommended": "(recommended)",
+  "results.spread": "Spread",
+  "results.spreadDetail": "Lowest {min}, highest {max}. Recommended: {recommended}.",
+  "results.compositionNote":
+    "Katch-McArdle, Cunningham, Nelson and Muller require FM & FFM (from BF% or DEXA).",
+
+  "results.bodyComposition": "Body Composition",
+  "results.metric": "Metric",
+  "results.value": "Value",
+  "results.source": "Source",
+  "results.metric.bodyFatPercent": "Body fat",
+  "results.metric.fatMassKg": "Fat mass",
+  "results.metric.leanMassKg": "Lean mass (fat-free)",
+  "results.metric.ffmi": "FFMI",
+  "results.metric.normalizedFfmi": "Normalized FFMI",
+  "results.metric.fmi": "Fat mass index",
+  "results.metric.bmi": "BMI",
+  "composition.source.dexa": "DEXA",
+  "composition.source.dexaDerived": "DEXA + weight",
+  "composition.source.enteredBf": "Entered BF%",
+  "composition.source.estimatedBf": "Estimated BF%",
+  "composition.source.heightWeight": "Height and weight",
+  "results.compositionDerived.fatMass":
+    "Fat mass = weight - DEXA lean mass (plus BMC, if entered).",
+  "results.compositionDerived.leanMass": "Lean mass = weight - DEXA fat mass.",
+  "results.compositionBoer":
+    "No BF% or DEXA, so lean mass is estimated from height and weight (Boer formula).",
+  "results.normalizedFfmiNote": "Normalized FFMI adjusts FFMI to a height of 1.8 m.",
+
+  /* ---- Diagnostics ---- */
+  "diagnostic.bmiImplausible":
+    "BMI of {bmi} is outside the plausible {min}-{max} range. Check weight and height units.",
+  "diagnostic.dexaParts.withBone": "fat + lean + BMC",
+  "diagnostic.dexaParts.noBone": "fat + lean mass",
+  "diagnostic.dexaMassMismatch":
+    "DEXA {parts} ({total} kg) differs from the entered weight ({weight} kg) by more than {percent}%.",
+  "diagnostic.dexaMass.fat": "fat mass",
+  "diagnostic.dexaMass.leanBone": "lean + BMC",
+  "diagnostic.dexaMass.lean": "lean mass",
+  "diagnostic.dexaMassExceedsWeight":
+    "DEXA {mass} ({value} kg) is not less than the entered weight ({weight} kg), so the other mass can't be derived.",
+  "diagnostic.bmrPolicyFallback.single":
+    "{method} needs measured body composition (BF% or DEXA), so the default BMR rule was used.",
+  "diagnostic.bmrPolicyFallback.blend":
+    "No formula in the weighted blend has a positive weight and a value, so the default BMR rule was used.",
+  "diagnostic.carbsNegative":
+    "Protein and fat exceed the calorie target, so carbs were set to 0 g.",
+  "diagnostic.carbsReduced":
+    "The fixed carbs don't fit the calorie target next to protein and fat, so they were lowered to {carbs} g.",
+  "diagnostic.fatBelowMin": "Fat intake is below {min} g/day.",
+  "diagnostic.caloriesBelowBmr": "{calories} is below your BMR of {bmr}.",
+  "diagnostic.deficitBlocked.pregnancy":
+    "Calorie deficits aren't recommended during pregnancy, so the {requested} adjustment was ignored and calories held at maintenance. Talk to a clinician before restricting intake.",
+  "diagnostic.deficitBlocked.minor":
+    "Calorie deficits aren't recommended under 18, so the {requested} adjustment was ignored and calories held at maintenance. Talk to a clinician before restricting intake.",
+  "diagnostic.lactationDeficit":
+    "While breastfeeding, keep any deficit to {max}/day or less and weight loss to about 0.5 kg/week, and watch milk supply.",
+  "diagnostic.lactationDeficit.capped":
+    "While breastfeeding, keep any deficit to {max}/day or less and weight loss to about 0.5 kg/week, and watch milk supply. The {requested} adjustment was capped at {applied}.",
+  "diagnostic.cutRateTooFast":
+    "A {deficit}/day deficit loses about {percent}% of body weight per week (over {max}%).",
+  "diagnostic.proteinAboveSafeLimit":
+    "Protein of {perKg} g/kg is above the {max} g/kg tolerable upper limit.",
+  "diagnostic.proteinAboveAmdr": "Protein is over {percent}% of calories.",
+  "diagnostic.leanMassEstimated":
+    "Protein per kg lean mass used an estimated lean mass (no BF% or DEXA).",
+  "diagnostic.short.FAT_BELOW_50G": "Fat < 50 g",
+  "diagnostic.short.CARBS_NEGATIVE": "Carbs < 0",
+  "diagnostic.short.CARBS_REDUCED": "Carbs lowered",
+  "diagnostic.short.LEAN_MASS_ESTIMATED": "LBM estimated",
+  "diagnostic.short.CALORIES_BELOW_BMR": "Below BMR",
+  "diagnostic.short.CUT_RATE_TOO_FAST": "Cut too fast",
+  "diagnostic.short.PROTEIN_ABOVE_SAFE_LIMIT": "Protein > limit",
+  "diagnostic.short.PROTEIN_ABOVE_AMDR": "Protein > AMDR",
+  "diagnostic.short.BMI_IMPLAUSIBLE": "BMI implausible",
+  "diagnostic.short.DEXA_MASS_MISMATCH": "DEXA mismatch",
+  "diagnostic.short.DEXA_MASS_EXCEEDS_WEIGHT": "DEXA > weight",
+  "diagnostic.short.BMR_POLICY_FALLBACK": "BMR fallback",
+  "diagnostic.short.DEFICIT_BLOCKED": "Deficit blocked",
+  "diagnostic.short.LACTATION_DEFICIT": "Lactation deficit",
+
+  /* ---- Life-stage adjustments ---- */
+  "adjustment.ageBandedBmr":
+    "BMR from the age-banded {method} equation instead of the adult default.",
+  "adjustment.energyAdded": "{stage}: +{energy}/day added to formula TDEE.",
+  "adjustment.deficitHeld":
+    "{goal}: the {requested} deficit isn't applied ({stage}); held at maintenance.",
+  "adjustment.deficitHeld.minor":
+    "{goal}: the {requested} deficit isn't applied under 18; held at maintenance.",
+  "adjustment.deficitCapped": "{goal}: deficit capped at {applied} (requested {requested}).",
+  "adjustment.proteinRaised": "Protein raised to at least {perKg} g/kg ({grams} g) for {goals}.",
+
+  "lifeStage.source.pregnancyT1": "IOM DRI (2005): no added energy in the 1st trimester",
+  "lifeStage.source.pregnancyT2": "IOM DRI (2005): +340 kcal/day; protein RDA 1.1 g/kg",
+  "lifeStage.source.pregnancyT3": "IOM DRI (2005): +452 kcal/day; protein RDA 1.1 g/kg",
+  "lifeStage.source.lactationExclusive":
+    "IOM DRI (2005): +330 kcal/day (0-6 months); protein RDA 1.3 g/kg",
+  "lifeStage.source.lactationPartial":
+    "Half the exclusive add-on, scaled to roughly half the milk volume; protein RDA 1.3 g/kg",
+  "lifeStage.source.olderAdult": "PROT-AGE (2013): at least 1.0-1.2 g/kg protein",
+  "lifeStage.source.adolescent":
+    "IOM DRI (2005): ~25 kcal/day energy deposition for growth; protein RDA 0.85 g/kg (14-18)",
+
+  /* ---- Shared links ---- */
+  "permalink.notPermalink": "Link is not a calculator permalink.",
+  "permalink.unsupportedVersion":
+    "Link version {version} is not supported by this version of the app.",
+  "permalink.corrupted": "Link is truncated or corrupted.",
+
+  /* ---- Scenarios ---- */
+  "scenario.title": "Compare Scenarios",
+  "scenario.open": "Compare what-ifs",
+  "scenario.close": "Close comparison",
+  "scenario.intro":
+    "Clone this profile into {min}-{max} scenarios, change a few inputs in each, and see BMR, TDEE and every goal's macros side by side.",
+  "scenario.defaultName": "Scenario {letter}",
+  "scenario.override": "Override",
+  "scenario.remove": "Remove {name}",
+  "scenario.field.ageYears": "Age",
+  "scenario.field.weightKg": "Weight",
+  "scenario.field.bodyFatPercent": "Body fat %",
+  "scenario.field.activityMultiplier": "Activity multiplier",
+  "scenario.field.cutDelta": "Cut adjustment",
+  "scenario.field.bulkDelta": "Bulk adjustment",
+  "scenario.field.recompDelta": "Recomp adjustment",
+  "scenario.field.macroPreset": "Macro preset",
+  "scenario.sameAsProfile": "Same as profile",
+  "scenario.add": "Add scenario",
+  "scenario.result": "Result",
+  "scenario.baseline": "(baseline)",
+  "scenario.row.calories": "{goal} calories",
+  "scenario.row.protein": "{goal} protein",
+  "scenario.row.fat": "{goal} fat",
+  "scenario.row.carbs": "{goal} carbs",
+  "scenario.outOfRange": "{field} should be between {min} and {max}",
+  "scenario.unknownPreset": "Unknown macro preset \"{preset}\"",
+  "scenario.calculationFailed": "Calculation failed for these overrides",
+  "scenario.footer":
+    "Blank overrides use the profile's value. Scenarios use formula TDEE (not the weight log) and are saved with this profile. Deltas are relative to the first scenario.",
+
+  /* ---- Sensitivity ---- */
+  "sensitivity.title": "Sensitivity",
+  "sensitivity.intro":
+    "Sweeps one input across a range (everything else as in the profile) and re-runs the calculation at each step, in the browser. Formula TDEE only.",
+  "sensitivity.input": "Input",
+  "sensitivity.from": "From",
+  "sensitivity.to": "To",
+  "sensitivity.steps": "Steps",
+  "sensitivity.goal": "Goal",
+  "sensitivity.energy": "Energy",
+  "sensitivity.bmr": "BMR",
+  "sensitivity.tdee": "TDEE",
+  "sensitivity.macros": "{goal} macros",
+  "sensitivity.markerEnds": "{warning} ends",
+  "sensitivity.activeAtStart": "Already firing at {field} {value}: {warnings}",
+  "sensitivity.starts": "{warning} starts at {value}",
+  "sensitivity.stops": "{warning} stops at {value}",
+
+  /* ---- Timeline ---- */
+  "timeline.title.cut": "Cut timeline projection",
+  "timeline.title.bulk": "Bulk timeline projection",
+  "timeline.target": "Target",
+  "timeline.kind.weight": "Weight ({unit})",
+  "timeline.kind.bodyFat": "Body fat %",
+  "timeline.kind.bodyFatUnavailable": "Body fat % (needs BF% or DEXA)",
+  "timeline.targetWeight": "Target weight ({unit})",
+  "timeline.targetBodyFat": "Target BF%",
+  "timeline.targetDate": "Target date (optional)",
+  "timeline.needed": "Needed: {delta} for {weeks} weeks ({calories}).",
+  "timeline.unreachableByDate":
+    "That target can't be reached by the date with a realistic daily delta.",
+  "timeline.neededLimited":
+    "That's more deficit than the life-stage adjustments allow; the most they allow is {delta}.",
+  "timeline.useNeeded": "Project with the needed delta instead of {delta}",
+  "timeline.wrongDirection.cut": "This target is in the opposite direction of a cut.",
+  "timeline.wrongDirection.bulk": "This target is in the opposite direction of a bulk.",
+  "timeline.reached": "At {delta} the target is reached in {weeks} weeks ({date}).",
+  "timeline.notReached": "At {delta} the target is not reached within {weeks} weeks.",
+  "timeline.week": "Week",
+  "timeline.date": "Date",
+  "timeline.weight": "Weight",
+  "timeline.leanMass": "Lean mass",
+  "timeline.fatMass": "Fat mass",
+  "timeline.col.bodyFat": "BF%",
+  "timeline.col.fat": "Fat ({unit})",
+  "timeline.col.lean": "Lean ({unit})",
+
+  /* ---- Weight log ---- */
+  "weightLog.title": "Weight & Intake Log",
+  "weightLog.intro":
+    "Log daily weigh-ins and calories. We smooth the weight trend and back-solve your real TDEE from energy balance.",
+  "weightLog.date": "Date",
+  "weightLog.weight": "Weight ({unit})",
+  "weightLog.intake": "Intake ({unit})",
+  "weightLog.save": "Save entry",
+  "weightLog.window": "Rolling window (days)",
+  "weightLog.days": "{days} days",
+  "weightLog.useAdaptive": "Use adaptive TDEE for goal targets",
+  "weightLog.trend": "Trend {trend} {unit}/week, average intake {intake} over {days} days.",
+  "weightLog.remove": "Remove {date}",
+  "adaptive.tooFewWeighIns": "Log at least two weigh-ins to build a weight trend.",
+  "adaptive.windowTooShort": "Need at least {min} days of weigh-ins (have {have}).",
+  "adaptive.tooFewIntakeDays":
+    "Log calorie intake on at least {min} of the last {span} days (have {have}).",
+
+  /* ---- Food log ---- */
+  "foodLog.title": "Food Log",
+  "foodLog.intro":
+    "Log what you ate against the selected goal's targets. Everything stays on this device.",
+  "foodLog.date": "Date",
+  "foodLog.compareAgainst": "Compare against",
+  "foodLog.calories": "Calories",
+  "foodLog.over": "{amount} over",
+  "foodLog.left": "{amount} left",
+  "foodLog.noTargets": "Enter valid profile inputs to see targets.",
+  "foodLog.food": "Food",
+  "foodLog.search": "Search foods...",
+  "foodLog.custom": "custom",
+  "foodLog.per100g": "{energy}/100 g",
+  "foodLog.amount": "Amount",
+  "foodLog.unit": "Unit",
+  "foodLog.grams": "grams",
+  "foodLog.add": "Add",
+  "foodLog.preview": "{energy} - P {protein} / F {fat} / C {carbs}",
+  "foodLog.col.grams": "Grams",
+  "foodLog.col.macros": "P / F / C",
+  "foodLog.remove": "Remove {name}",
+  "foodLog.saveIntake": "Save {energy} as this day's intake in the weight log",
+  "foodLog.myFoods": "My foods ({count})",
+  "foodLog.delete": "Delete {name}",
+  "foodLog.form.name": "Name",
+  "foodLog.form.basis": "Macros are",
+  "foodLog.form.perServing": "Per serving (from the label)",
+  "foodLog.form.per100g": "Per 100 g",
+  "foodLog.form.servingName": "Serving name",
+  "foodLog.form.defaultServing": "1 serving",
+  "foodLog.form.servingWeight": "Serving weight (g)",
+  "foodLog.form.servingWeightOptional": "Serving weight (g), optional",
+  "foodLog.form.contains": "Contains",
+  "foodLog.form.save": "Save food",
+  "foodLog.form.error.name": "Give the food a name.",
+  "foodLog.form.error.negative": "Macros must be zero or more.",
+  "foodLog.form.error.servingWeight": "Per-serving macros need the serving weight in grams.",
+  "foodLog.tag.meat": "Meat",
+  "foodLog.tag.fish": "Fish",
+  "foodLog.tag.dairy": "Dairy",
+  "foodLog.tag.egg": "Egg",
+
+  /* ---- Export ---- */
+  "export.goalOnCard": "Goal on card",
+  "export.rendering": "Rendering...",
+  "export.pngCard": "PNG card",
+  "export.print": "Print / PDF",
+  "export.hint":
+    "Generated in your browser. Use \"Save as PDF\" in the print dialog for a handout.",
+  "export.renderFailed": "Couldn't render the image in this browser.",
+  "export.planTitle": "{goal} plan",
+  "export.percentOfCalories": "{percent} of calories",
+  "export.cardFooter.formula": "BMR {bmr} via {method}; TDEE {tdee} (formula).",
+  "export.cardFooter.adaptive": "BMR {bmr} via {method}; TDEE {tdee} (measured from weight log).",
+  "export.handoutTitle": "Macro plan",
+  "export.handoutTitleFor": "Macro plan for {name}",
+  "export.dailyTargets": "Daily targets",
+  "export.energyExpenditure": "Energy expenditure",
+  "export.bmrFormula": "BMR formula",
+  "export.unitPerDay": "{unit}/day",
+  "export.spread": "Spread across formulas",
+  "export.tdeeUsed.formula": "TDEE used for targets (formula)",
+  "export.tdeeUsed.adaptive": "TDEE used for targets (adaptive)",
+  "export.warnings": "Warnings and notes",
+
+  /* ---- Weekly schedule ---- */
+  "weekly.title": "Weekly Schedule",
+  "weekly.day": "Day",
+  "weekly.dayType": "Type",
+  "weekly.average": "Weekly average",
+
+  /* ---- Meal plan ---- */
+  "mealPlan.title": "Meal Plan",
+  "mealPlan.intro":
+    "Builds a day of meals from the food list that lands near the selected goal's macros. The seed reproduces a plan; custom foods count as meat/dairy only if tagged that way.",
+  "mealPlan.goal": "Goal",
+  "mealPlan.mealsPerDay": "Meals per day",
+  "mealPlan.tolerance": "Tolerance (%)",
+  "mealPlan.vegetarian": "Vegetarian",
+  "mealPlan.dairyFree": "Dairy-free",
+  "mealPlan.seed": "Seed",
+  "mealPlan.regenerate": "Regenerate",
+  "mealPlan.alwaysInclude": "Always include",
+  "mealPlan.lockSearch": "Search foods to lock...",
+  "mealPlan.autoGrams": "auto g",
+  "mealPlan.unlock": "Unlock {food}",
+  "mealPlan.neverInclude": "Never include",
+  "mealPlan.noBans": "Use the ban button on a planned food to exclude it.",
+  "mealPlan.allow": "Allow",
+  "mealPlan.needsProfile": "Enter valid profile inputs to plan meals.",
+  "mealPlan.failure.noCalories": "Targets have no calories to plan for.",
+  "mealPlan.failure.noProtein": "No protein foods are left after exclusions and bans.",
+  "mealPlan.meal": "Meal {n}",
+  "mealPlan.food": "Food",
+  "mealPlan.grams": "Grams",
+  "mealPlan.col.calories": "kcal",
+  "mealPlan.col.protein": "P (g)",
+  "mealPlan.col.fat": "F (g)",
+  "mealPlan.col.carbs": "C (g)",
+  "mealPlan.lockFood": "Always include {food}",
+  "mealPlan.banFood": "Never include {food}",
+  "mealPlan.mealTotal": "Meal total",
+  "mealPlan.day": "Day",
+  "mealPlan.planned": "Planned",
+  "mealPlan.target": "Target",
+  "mealPlan.error": "Error",
+  "mealPlan.withinTolerance": "Within {tolerance} of every target (attempt {attempts}).",
+  "mealPlan.outsideTolerance":
+    "Closest plan after {attempts} attempts is outside the {tolerance} tolerance. Try more meals, fewer exclusions, or another seed.",
+  "mealPlan.deletedFood": "Deleted food",
+  "mealPlan.addToLog": "Add plan to today's food log",
+  "mealPlan.added": "Added to today's food log",
+
+  /* ---- DEXA scans ---- */
+  "dexa.title": "DEXA Scans",
+  "dexa.intro":
+    "Import a CSV or JSON export (Hologic, GE Lunar, BodySpec-style). The file is read locally and never uploaded.",
+  "dexa.import": "Import export file",
+  "dexa.error.empty": "The file is empty.",
+  "dexa.error.invalidJson": "The file is not valid JSON.",
+  "dexa.error.noColumns": "Couldn't find fat / lean / BMC columns in this CSV.",
+  "dexa.error.noTotals": "No whole-body fat or lean totals were found in this file.",
+  "dexa.note.unlabeledGrams": "Some columns had no unit; they were read as grams.",
+  "dexa.note.unlabeledKg": "Some columns had no unit; they were read as kilograms.",
+  "dexa.note.leanIncludesBmc":
+    "{region}: only lean + BMC was reported, so lean mass includes bone.",
+  "dexa.found": "Scans found: {count} ({layout} layout)",
+  "dexa.layout.long": "long",
+  "dexa.layout.wide": "wide",
+  "dexa.layout.json": "JSON",
+  "dexa.latest": "latest {date}",
+  "dexa.weightCheck": "Fat + lean + BMC = {scan} kg vs entered weight {weight} kg ({diff}%).",
+  "dexa.weightMismatch": "That's more than scale noise; check the scan and weight units.",
+  "dexa.saveAndApply": "Save & fill form",
+  "dexa.saveOnly": "Save to history only",
+  "dexa.cancel": "Cancel",
+  "dexa.region": "Region",
+  "dexa.region.total": "Total",
+  "dexa.region.arms": "Arms",
+  "dexa.region.legs": "Legs",
+  "dexa.region.trunk": "Trunk",
+  "dexa.region.android": "Android",
+  "dexa.region.gynoid": "Gynoid",
+  "dexa.fatKg": "Fat (kg)",
+  "dexa.leanKg": "Lean (kg)",
+  "dexa.bmcKg": "BMC (kg)",
+  "dexa.bodyFat": "BF%",
+  "dexa.history": "History",
+  "dexa.date": "Date",
+  "dexa.undated": "undated",
+  "dexa.use": "Use",
+  "dexa.remove": "Remove scan {date}",
+
+  /* ---- Profiles ---- */
+  "profiles.title": "Saved profiles",
+  "profiles.storedLocally": "Stored in this browser",
+  "profiles.new": "New",
+  "profiles.rename": "Rename",
+  "profiles.duplicate": "Duplicate",
+  "profiles.delete": "Delete",
+  "profiles.confirmDelete": "Delete \"{name}\"?",
+  "profiles.share": "Share link",
+  "profiles.linkCopied": "Link copied to clipboard.",
+  "profiles.copyPrompt": "Copy this link:",
+
+  /* ---- Charts ---- */
+  "chart.empty": "Nothing to plot.",
+
+  /* ---- Coach ---- */
+  "coach.title": "Clients",
+  "coach.subtitle": "Every saved profile is a client. Everything stays in this browser.",
+  "coach.back": "Back to calculator",
+  "coach.search": "Search name or tag",
+  "coach.allTags": "All tags",
+  "coach.newClient": "New client",
+  "coach.selectAll": "Select all shown",
+  "coach.selected": "{count} selected",
+  "coach.recompute": "Recompute",
+  "coach.policy": "BMR policy",
+  "coach.policySingle": "Single: {method}",
+  "coach.applyPolicy": "Apply and recompute",
+  "coach.exportCsv": "Export CSV",
+  "coach.col.client": "Client",
+  "coach.col.tags": "Tags",
+  "coach.col.goal": "Goal",
+  "coach.col.calories": "Calories",
+  "coach.col.macros": "Protein / fat / carbs",
+  "coach.col.updated": "Updated",
+  "coach.tagsPlaceholder": "Tags, comma-separated",
+  "coach.open": "Open",
+  "coach.notComputed": "Not computed yet",
+  "coach.outdated": "Changed since computed",
+  "coach.incomplete": "Profile incomplete",
+  "coach.empty": "No clients match.",
+  "coach.recomputed": "Recomputed {count} clients.",
+  "coach.failed": "{count} could not be computed. Open them to finish their profiles.",
+
+  /* ---- Backup ---- */
+  "backup.title": "Backup",
+  "backup.subtitle": "All profiles with their results and logs, as files you keep.",
+  "backup.exportJson": "Export JSON",
+  "backup.exportCsv": "Export CSV",
+  "backup.csv.profiles": "Profiles and targets",
+  "backup.csv.weightLog": "Weight log",
+  "backup.csv.foodLog": "Food log",
+  "backup.csv.dexaScans": "DEXA scans",
+  "backup.import": "Import JSON",
+  "backup.error.invalidJson": "This file isn't valid JSON.",
+  "backup.error.notBackup": "This isn't a backup from this calculator.",
+  "backup.error.newerVersion": "This backup was made by a newer version of the calculator.",
+  "backup.preview": "Backup from {date}. Nothing changes until you confirm.",
+  "backup.replaceNote":
+    "Replacing a profile also replaces its weight log, food log and DEXA scans.",
+  "backup.profiles": "Profiles",
+  "backup.foods": "Custom foods",
+  "backup.status.new": "New",
+  "backup.status.same": "Same as here",
+  "backup.status.newer": "Changed, backup is newer",
+  "backup.status.older": "Changed, this browser's copy is newer",
+  "backup.status.changed": "Changed",
+  "backup.action.add": "Import",
+  "backup.action.replace": "Replace",
+  "backup.action.keepBoth": "Keep both",
+  "backup.action.skip": "Skip",
+  "backup.rejected": "Not valid, won't be imported ({count})",
+  "backup.confirm": "Import",
+  "backup.cancel": "Cancel",
+  "backup.done": "Imported {profiles} profiles and {foods} custom foods.",
+};
@@ -0,0 +1,709 @@
+import type { Messages } from "@/lib/i18n";
+
+export const es: Messages = {
+  /* ---- App ---- */
+  "app.title": "Calculadora de nutrición",
+  "app.tagline": "Calculadora de macros offline, con todo el detalle de TMB/GET a la vista.",
+  "app.language": "Idioma",
+  "app.languageAuto": "Idioma del navegador",
+  "app.loadingProfiles": "Cargando perfiles guardados...",
+  "app.results": "Resultados",
+  "app.enterValidInputs": "Introduce datos válidos para ver los resultados.",
+  "app.coachDashboard": "Panel de entrenador",
+  "app.dismiss": "Cerrar",
+  "app.sharedLinkFailed": "No se pudo cargar este enlace compartido",
+  "app.sharedLinkProfile": "Enlace compartido",
+  "app.engineMissing": "El motor de cálculo aún no está implementado; es el siguiente paso.",
+  "app.inputSnapshot": "Datos de entrada:",
+
+  /* ---- Shared vocabulary ---- */
+  "goal.maintenance": "Mantenimiento",
+  "goal.cut": "Definición",
+  "goal.bulk": "Volumen",
+  "goal.recomp": "Recomposición",
+  "macro.protein": "Proteína",
+  "macro.fat": "Grasa",
+  "macro.carbs": "Carbohidratos",
+  "sex.male": "Hombre",
+  "sex.female": "Mujer",
+  "unit.perDay": "{value} {unit}/día",
+  "unit.kcal": "kcal",
+  "unit.kJ": "kJ",
+  "unit.lb": "lb",
+  "unit.kg": "kg",
+  "unit.st": "st",
+  "unit.stLb": "st / lb",
+  "unit.in": "in",
+  "unit.ft": "ft",
+  "unit.ftIn": "ft / in",
+  "unit.cm": "cm",
+
+  /* ---- Profile ---- */
+  "form.profile": "Perfil",
+  "form.units": "Unidades",
+  "form.units.energy": "Energía",
+  "form.units.mass": "Masa corporal",
+  "form.units.length": "Longitud",
+  "form.sex": "Sexo",
+  "form.age": "Edad (años)",
+  "form.heightIn": "Altura (pulgadas)",
+  "form.weightLb": "Peso (lb)",
+  "form.heightCm": "Altura (cm)",
+  "form.weightKg": "Peso (kg)",
+  "form.heightFtIn": "Altura (ft / in)",
+  "form.weightStLb": "Peso (st / lb)",
+  "form.lifeStage": "Etapa de vida",
+  "form.lifeStageHelp":
+    "Añade la energía del embarazo o la lactancia, sube el mínimo de proteína y limita los déficits. Estándar pasa automáticamente a las reglas de menores de 18 o de 65+ según la edad.",
+
+  "lifeStage.standard": "Adulto estándar (18-64)",
+  "lifeStage.pregnancyT1": "Embarazo, 1.er trimestre",
+  "lifeStage.pregnancyT2": "Embarazo, 2.º trimestre",
+  "lifeStage.pregnancyT3": "Embarazo, 3.er trimestre",
+  "lifeStage.lactationExclusive": "Lactancia exclusiva",
+  "lifeStage.lactationPartial": "Lactancia parcial",
+  "lifeStage.olderAdult": "Adulto mayor (65+)",
+  "lifeStage.adolescent": "Adolescente (menor de 18)",
+
+  /* ---- Body composition ---- */
+  "form.bodyComposition": "Composición corporal",
+  "form.bodyFatInput": "Grasa corporal",
+  "form.bodyFatMode.unknown": "No conozco mi % de grasa",
+  "form.bodyFatMode.known": "Conozco mi % de grasa",
+  "form.bodyFatMode.estimated": "Estimar a partir de medidas",
+  "form.bodyFatPercent": "% de grasa corporal (escribe 20, no 0,2)",
+  "form.densityConversion": "Densidad a % de grasa",
+  "form.densityConversionHelp": "Solo afecta a los métodos de pliegues cutáneos.",
+  "form.bodyFatUnknownHelp":
+    "Usaremos la media de Harris-Benedict revisada y Mifflin-St Jeor para la TMB.",
+  "form.girth.neck": "Cuello",
+  "form.girth.waist": "Cintura",
+  "form.girth.hip": "Cadera",
+  "form.womenOnly": "(solo mujeres)",
+  "form.skinfolds": "Pliegues cutáneos (mm)",
+  "form.skinfoldsHelp": "El de 3 pliegues usa {sites}; el de 7 los usa todos.",
+  "skinfold.chest": "Pecho",
+  "skinfold.abdomen": "Abdomen",
+  "skinfold.thigh": "Muslo",
+  "skinfold.triceps": "Tríceps",
+  "skinfold.suprailiac": "Suprailíaco",
+  "skinfold.subscapular": "Subescapular",
+  "skinfold.midaxillary": "Axilar medio",
+  "form.estimate.use": "Usar",
+  "form.estimate.method": "Método",
+  "form.estimate.bodyFat": "% grasa",
+  "form.estimate.needs": "falta {missing}",
+  "estimate.navy": "Marina de EE. UU. (perímetros)",
+  "estimate.jp3": "Jackson-Pollock, 3 pliegues",
+  "estimate.jp7": "Jackson-Pollock, 7 pliegues",
+  "estimate.bmi": "Según IMC (Deurenberg)",
+  "estimate.waistAboveNeck": "cintura mayor que el cuello",
+  "estimate.plausibleMeasurements": "medidas plausibles",
+  "form.dexaEnabled": "Tengo resultados de DEXA (avanzado)",
+  "form.dexaFatMass": "Masa grasa DEXA (kg)",
+  "form.dexaLeanMass": "Masa magra DEXA (kg)",
+  "form.dexaBoneMineral": "Contenido mineral óseo (kg, opcional)",
+  "form.dexaHelp":
+    "Introduce una o ambas masas; la que falte se deriva de tu peso. La masa magra es la cifra de tejido blando del informe, y el CMO (si aparece) se le suma para obtener la masa libre de grasa.",
+
+  /* ---- BMR ---- */
+  "form.bmr": "Ecuación de TMB",
+  "form.bmr.recommended": "TMB recomendada",
+  "form.bmr.formula": "Fórmula",
+  "form.bmr.help":
+    "Katch-McArdle, Cunningham, Nelson y Muller necesitan la composición corporal de un % de grasa medido o de un DEXA; sin ella quedan fuera de la media, la mediana y la mezcla. Los pesos son relativos.",
+  "bmrPolicy.auto": "Auto (Katch-McArdle con % de grasa medido; si no, media de Mifflin/Harris-Benedict)",
+  "bmrPolicy.single": "Una sola fórmula",
+  "bmrPolicy.mean": "Media de las fórmulas disponibles",
+  "bmrPolicy.median": "Mediana de las fórmulas disponibles",
+  "bmrPolicy.weighted": "Mezcla ponderada",
+
+  /* ---- Activity ---- */
+  "form.activity": "Actividad",
+  "form.preset": "Predefinido",
+  "activityPreset.sedentary": "Sedentario ({value})",
+  "activityPreset.light": "Ligero ({value})",
+  "activityPreset.moderate": "Moderado ({value})",
+  "activityPreset.very": "Muy activo ({value})",
+  "activityPreset.extreme": "Extremo ({value})",
+  "form.activity.useCustom": "Usar multiplicador personalizado",
+  "form.activity.custom": "Multiplicador personalizado",
+  "form.builder.title": "Calcular un multiplicador a partir de pasos y entrenamientos",
+  "form.builder.steps": "Pasos diarios de media",
+  "form.builder.job": "Trabajo",
+  "jobType.desk": "De oficina / sentado",
+  "jobType.standing": "De pie (comercio, laboratorio, docencia)",
+  "jobType.active": "En movimiento (enfermería, hostelería)",
+  "jobType.heavy": "Trabajo físico pesado (construcción, agricultura)",
+  "form.builder.workouts": "Entrenamientos",
+  "form.builder.noWorkouts": "No hay entrenamientos.",
+  "form.builder.type": "Tipo",
+  "form.builder.minutes": "Minutos",
+  "form.builder.perWeek": "Por semana",
+  "form.builder.mets": "MET",
+  "workout.weightsModerate": "Pesas (moderado)",
+  "workout.weightsVigorous": "Pesas (intenso)",
+  "workout.running": "Correr (~10 km/h)",
+  "workout.cycling": "Ciclismo (moderado)",
+  "workout.swimming": "Natación (largos)",
+  "workout.hiit": "HIIT / circuitos",
+  "workout.teamSports": "Deportes de equipo",
+  "workout.walkingBrisk": "Caminar a paso ligero",
+  "workout.yoga": "Yoga / movilidad",
+  "workout.other": "Otro",
+  "form.builder.removeWorkout": "Quitar entrenamiento",
+  "form.builder.addWorkout": "Añadir entrenamiento",
+  "form.builder.component": "Componente",
+  "form.builder.kcalPerDay": "kcal/día",
+  "form.builder.bmr": "TMB",
+  "form.builder.neatSteps": "NEAT (pasos)",
+  "form.builder.neatJob": "NEAT (trabajo)",
+  "form.builder.exercise": "Ejercicio",
+  "form.builder.tef": "ETA",
+  "form.builder.total": "Total",
+  "form.builder.use": "Usar {multiplier} como multiplicador personalizado",
+  "form.builder.fillIn": "Completa el resto del perfil para ver el desglose.",
+  "form.builder.help":
+    "Los entrenamientos y el trabajo usan MET netos (el reposo ya está en la TMB) promediados por semana; el ETA es el 10 % del total. Los pasos dados en el trabajo cuentan como pasos, no como trabajo.",
+
+  /* ---- Goal adjustments ---- */
+  "form.deltas": "Ajustes por objetivo",
+  "form.delta.cut": "Ajuste de definición ({unit}/día)",
+  "form.delta.bulk": "Ajuste de volumen ({unit}/día)",
+  "form.delta.recomp": "Ajuste de recomposición ({unit}/día)",
+
+  /* ---- Macro strategy ---- */
+  "form.macros": "Estrategia de macros",
+  "form.macros.help":
+    "La proteína se fija primero. Los carbohidratos cubren el resto o, con una cantidad fija/cetogénica de carbohidratos, la grasa cubre el resto (nunca por debajo de su propio objetivo); los carbohidratos que no caben se reducen.",
+  "macroPreset.balanced": "Equilibrado",
+  "macroPreset.highCarbAthlete": "Atleta alto en carbohidratos",
+  "macroPreset.keto": "Cetogénico",
+  "macroPreset.lowFat": "Bajo en grasa",
+  "macroPreset.custom": "Personalizado",
+  "proteinBasis.gPerLb": "g por lb de peso corporal",
+  "proteinBasis.gPerKg": "g por kg de peso corporal",
+  "proteinBasis.gPerKgLean": "g por kg de masa magra",
+  "fatBasis.percent": "% de las calorías",
+  "fatBasis.gPerKg": "g por kg de peso corporal",
+  "fatBasis.minGrams": "mínimo (gramos)",
+  "carbBasis.remainder": "resto",
+  "carbBasis.fixed": "fijo (gramos)",
+  "carbBasis.ketoCap": "límite cetogénico (gramos)",
+
+  /* ---- Carb cycling ---- */
+  "form.carbCycling": "Ciclado de carbohidratos",
+  "form.carbCycling.enable": "Repartir los objetivos en un plan semanal",
+  "form.carbCycling.multiplier": "{macro} ×",
+  "form.carbCycling.help":
+    "La proteína es la misma todos los días. Los multiplicadores de carbohidratos y grasa son relativos: se reescalan para que la media semanal coincida con el objetivo de cada meta.",
+  "dayType.training": "Entreno",
+  "dayType.rest": "Descanso",
+  "dayType.highCarb": "Alto en carbohidratos",
+  "dayType.lowCarb": "Bajo en carbohidratos",
+  "weekday.mon": "Lun",
+  "weekday.tue": "Mar",
+  "weekday.wed": "Mié",
+  "weekday.thu": "Jue",
+  "weekday.fri": "Vie",
+  "weekday.sat": "Sáb",
+  "weekday.sun": "Dom",
+
+  /* ---- Form status ---- */
+  "form.status": "Estado del formulario",
+  "form.status.valid": "Datos válidos (se calcularán los resultados)",
+  "form.status.invalid": "Corrige los errores de arriba para calcular",
+
+  /* ---- Validation ---- */
+  "validation.ageWhole": "La edad debe ser un número entero positivo",
+  "validation.heightInRequired": "La altura (pulgadas) es obligatoria",
+  "validation.weightLbRequired": "El peso (lb) es obligatorio",
+  "validation.heightCmRequired": "La altura (cm) es obligatoria",
+  "validation.weightKgRequired": "El peso (kg) es obligatorio",
+  "validation.heightFtInRequired": "La altura (ft / in) es obligatoria",
+  "validation.weightStLbRequired": "El peso (st / lb) es obligatorio",
+  "validation.heightInPositive": "La altura (pulgadas) debe ser mayor que cero",
+  "validation.heightCmPositive": "La altura (cm) debe ser mayor que cero",
+  "validation.heightFtInPositive": "La altura (pies / pulgadas) debe ser mayor que cero",
+  "validation.weightLbPositive": "El peso (lb) debe ser mayor que cero",
+  "validation.weightKgPositive": "El peso (kg) debe ser mayor que cero",
+  "validation.weightStLbPositive": "El peso (st / lb) debe ser mayor que cero",
+  "validation.bodyFatRequired": "El % de grasa es obligatorio si eliges «Conozco mi % de grasa»",
+  "validation.estimateNeeds": "{method} necesita: {missing}",
+  "validation.lifeStageFemaleOnly": "{stage} solo se aplica a perfiles de mujer",
+  "validation.lifeStageOlderAdultAge": "Los ajustes de adulto mayor requieren {age} años o más",
+  "validation.lifeStageAdolescentAge": "Los ajustes de adolescente requieren menos de {age} años",
+  "validation.blendWeightNonNegative": "El peso debe ser cero o mayor",
+  "validation.blendWeightPositive": "Da a al menos una fórmula un peso mayor que cero",
+  "validation.activityCustomRequired": "El multiplicador de actividad personalizado es obligatorio",
+  "validation.activityCustomRange":
+    "El multiplicador de actividad personalizado debe estar entre {min} y {max}",
+  "validation.activityPresetRequired": "Elige un nivel de actividad (o activa el personalizado)",
+  "validation.activityPresetInvalid": "El nivel de actividad debe ser uno de {values}",
+  "validation.dexaMassRequired": "Con DEXA activado, introduce la masa grasa, la magra o ambas.",
+  "validation.ratioRange": "El multiplicador debe estar entre {min} y {max}",
+  "validation.macroNumber": "El objetivo de {macro} debe ser un número",
+  "validation.macroRange": "El objetivo de {macro} debe estar entre {min} y {max} {unit}",
+
+  /* ---- Results ---- */
+  "results.macroEnergy": "{energy} - {percent}",
+  "results.showMath": "Ver los cálculos",
+  "results.severity.danger": "Peligro",
+  "results.severity.warn": "Advertencias",
+  "results.severity.info": "Notas",
+  "results.profileBadge": "Perfil",
+  "results.lifeStageFromAge": "(por edad)",
+  "results.lifeStageNone": "Este perfil no necesitó ningún ajuste.",
+  "results.bmrTdee": "TMB y GET",
+  "results.expandHint": "Pulsa para mostrar u ocultar las fórmulas",
+  "results.expand": "Mostrar",
+  "results.collapse": "Ocultar",
+  "results.recommendedBmr": "TMB recomendada",
+  "results.formulaTdee": "GET por fórmula",
+  "results.adaptiveTdee": "GET adaptativo",
+  "results.used": "(en uso)",
+  "results.notAvailable": "n/d",
+  "results.adaptiveWindow": "Ventana de {days} días, {delta} frente a la fórmula",
+  "results.derivation": "Cómo se obtuvieron la TMB y el GET",
+  "results.allFormulas": "Todas las fórmulas de TMB",
+  "results.recommended": "(recomendada)",
+  "results.spread": "Dispersión",
+  "results.spreadDetail": "Mínima {min}, máxima {max}. Recomendada: {recommended}.",
+  "results.compositionNote":
+    "Katch-McArdle, Cunningham, Nelson y Muller requieren MG y MLG (de un % de grasa o un DEXA).",
+
+  "results.bodyComposition": "Composición corporal",
+  "results.metric": "Métrica",
+  "results.value": "Valor",
+  "results.source": "Fuente",
+  "results.metric.bodyFatPercent": "Grasa corporal",
+  "results.metric.fatMassKg": "Masa grasa",
+  "results.metric.leanMassKg": "Masa magra (libre de grasa)",
+  "results.metric.ffmi": "FFMI",
+  "results.metric.normalizedFfmi": "FFMI normalizado",
+  "results.metric.fmi": "Índice de masa grasa",
+  "results.metric.bmi": "IMC",
+  "composition.source.dexa": "DEXA",
+  "composition.source.dexaDerived": "DEXA + peso",
+  "composition.source.enteredBf": "% de grasa introducido",
+  "composition.source.estimatedBf": "% de grasa estimado",
+  "composition.source.heightWeight": "Altura y peso",
+  "results.compositionDerived.fatMass":
+    "Masa grasa = peso - masa magra DEXA (más CMO, si se introdujo).",
+  "results.compositionDerived.leanMass": "Masa magra = peso - masa grasa DEXA.",
+  "results.compositionBoer":
+    "Sin % de grasa ni DEXA, la masa magra se estima a partir de la altura y el peso (fórmula de Boer).",
+  "results.normalizedFfmiNote": "El FFMI normalizado ajusta el FFMI a una altura de 1,8 m.",
+
+  /* ---- Diagnostics ---- */
+  "diagnostic.bmiImplausible":
+    "Un IMC de {bmi} está fuera del rango plausible de {min}-{max}. Revisa las unidades de peso y altura.",
+  "diagnostic.dexaParts.withBone": "grasa + magra + CMO",
+  "diagnostic.dexaParts.noBone": "masa grasa + magra",
+  "diagnostic.dexaMassMismatch":
+    "La suma DEXA de {parts} ({total} kg) difiere del peso introducido ({weight} kg) en más de un {percent} %.",
+  "diagnostic.dexaMass.fat": "masa grasa",
+  "diagnostic.dexaMass.leanBone": "magra + CMO",
+  "diagnostic.dexaMass.lean": "masa magra",
+  "diagnostic.dexaMassExceedsWeight":
+    "El valor DEXA de {mass} ({value} kg) no es menor que el peso introducido ({weight} kg), así que no se puede calcular la otra masa.",
+  "diagnostic.bmrPolicyFallback.single":
+    "{method} necesita una composición corporal medida (% de grasa o DEXA), así que se usó la regla de TMB por defecto.",
+  "diagnostic.bmrPolicyFallback.blend":
+    "Ninguna fórmula de la mezcla ponderada tiene un peso positivo y un valor, así que se usó la regla de TMB por defecto.",
+  "diagnostic.carbsNegative":
+    "La proteína y la grasa superan el objetivo calórico, así que los carbohidratos se fijaron en 0 g.",
+  "diagnostic.carbsReduced":
+    "Los carbohidratos fijos no caben en el objetivo calórico junto a la proteína y la grasa, así que se bajaron a {carbs} g.",
+  "diagnostic.fatBelowMin": "La ingesta de grasa está por debajo de {min} g/día.",
+  "diagnostic.caloriesBelowBmr": "{calories} está por debajo de tu TMB de {bmr}.",
+  "diagnostic.deficitBlocked.pregnancy":
+    "No se recomiendan déficits calóricos durante el embarazo, así que se ignoró el ajuste de {requested} y las calorías se mantuvieron en mantenimiento. Consulta a un profesional sanitario antes de restringir la ingesta.",
+  "diagnostic.deficitBlocked.minor":
+    "No se recomiendan déficits calóricos en menores de 18 años, así que se ignoró el ajuste de {requested} y las calorías se mantuvieron en mantenimiento. Consulta a un profesional sanitario antes de restringir la ingesta.",
+  "diagnostic.lactationDeficit":
+    "Durante la lactancia, mantén cualquier déficit en {max}/día o menos y la pérdida de peso en unos 0,5 kg/semana, y vigila la producción de leche.",
+  "diagnostic.lactationDeficit.capped":
+    "Durante la lactancia, mantén cualquier déficit en {max}/día o menos y la pérdida de peso en unos 0,5 kg/semana, y vigila la producción de leche. El ajuste de {requested} se limitó a {applied}.",
+  "diagnostic.cutRateTooFast":
+    "Un déficit de {deficit}/día hace perder cerca del {percent} % del peso corporal por semana (más del {max} %).",
+  "diagnostic.proteinAboveSafeLimit":
+    "Una proteína de {perKg} g/kg supera el límite superior tolerable de {max} g/kg.",
+  "diagnostic.proteinAboveAmdr": "La proteína supera el {percent} % de las calorías.",
+  "diagnostic.leanMassEstimated":
+    "La proteína por kg de masa magra usó una masa magra estimada (sin % de grasa ni DEXA).",
+  "diagnostic.short.FAT_BELOW_50G": "Grasa < 50 g",
+  "diagnostic.short.CARBS_NEGATIVE": "Carbohidratos < 0",
+  "diagnostic.short.CARBS_REDUCED": "Carbohidratos reducidos",
+  "diagnostic.short.LEAN_MASS_ESTIMATED": "Masa magra estimada",
+  "diagnostic.short.CALORIES_BELOW_BMR": "Bajo la TMB",
+  "diagnostic.short.CUT_RATE_TOO_FAST": "Definición demasiado rápida",
+  "diagnostic.short.PROTEIN_ABOVE_SAFE_LIMIT": "Proteína > límite",
+  "diagnostic.short.PROTEIN_ABOVE_AMDR": "Proteína > AMDR",
+  "diagnostic.short.BMI_IMPLAUSIBLE": "IMC inverosímil",
+  "diagnostic.short.DEXA_MASS_MISMATCH": "DEXA no cuadra",
+  "diagnostic.short.DEXA_MASS_EXCEEDS_WEIGHT": "DEXA > peso",
+  "diagnostic.short.BMR_POLICY_FALLBACK": "TMB por defecto",
+  "diagnostic.short.DEFICIT_BLOCKED": "Déficit bloqueado",
+  "diagnostic.short.LACTATION_DEFICIT": "Déficit en lactancia",
+
+  /* ---- Life-stage adjustments ---- */
+  "adjustment.ageBandedBmr":
+    "TMB con la ecuación de {method} por franjas de edad en lugar de la de adultos por defecto.",
+  "adjustment.energyAdded": "{stage}: +{energy}/día añadidas al GET por fórmula.",
+  "adjustment.deficitHeld":
+    "{goal}: el déficit de {requested} no se aplica ({stage}); se mantiene en mantenimiento.",
+  "adjustment.deficitHeld.minor":
+    "{goal}: el déficit de {requested} no se aplica en menores de 18 años; se mantiene en mantenimiento.",
+  "adjustment.deficitCapped": "{goal}: déficit limitado a {applied} (se pidió {requested}).",
+  "adjustment.proteinRaised": "Proteína subida a al menos {perKg} g/kg ({grams} g) para {goals}.",
+
+  "lifeStage.source.pregnancyT1": "IOM DRI (2005): sin energía añadida en el 1.er trimestre",
+  "lifeStage.source.pregnancyT2": "IOM DRI (2005): +340 kcal/día; proteína (RDA) 1,1 g/kg",
+  "lifeStage.source.pregnancyT3": "IOM DRI (2005): +452 kcal/día; proteína (RDA) 1,1 g/kg",
+  "lifeStage.source.lactationExclusive":
+    "IOM DRI (2005): +330 kcal/día (0-6 meses); proteína (RDA) 1,3 g/kg",
+  "lifeStage.source.lactationPartial":
+    "La mitad del extra de la lactancia exclusiva, por aproximadamente la mitad de leche; proteína (RDA) 1,3 g/kg",
+  "lifeStage.source.olderAdult": "PROT-AGE (2013): al menos 1,0-1,2 g/kg de proteína",
+  "lifeStage.source.adolescent":
+    "IOM DRI (2005): ~25 kcal/día de depósito de energía para el crecimiento; proteína (RDA) 0,85 g/kg (14-18)",
+
+  /* ---- Shared links ---- */
+  "permalink.notPermalink": "El enlace no es un enlace permanente de la calculadora.",
+  "permalink.unsupportedVersion":
+    "Esta versión de la app no admite enlaces de la versión {version}.",
+  "permalink.corrupted": "El enlace está incompleto o dañado.",
+
+  /* ---- Scenarios ---- */
+  "scenario.title": "Comparar escenarios",
+  "scenario.open": "Comparar hipótesis",
+  "scenario.close": "Cerrar comparación",
+  "scenario.intro":
+    "Clona este perfil en {min}-{max} escenarios, cambia algunos datos en cada uno y compara la TMB, el GET y los macros de cada objetivo uno al lado del otro.",
+  "scenario.defaultName": "Escenario {letter}",
+  "scenario.override": "Cambio",
+  "scenario.remove": "Quitar {name}",
+  "scenario.field.ageYears": "Edad",
+  "scenario.field.weightKg": "Peso",
+  "scenario.field.bodyFatPercent": "% de grasa corporal",
+  "scenario.field.activityMultiplier": "Multiplicador de actividad",
+  "scenario.field.cutDelta": "Ajuste de definición",
+  "scenario.field.bulkDelta": "Ajuste de volumen",
+  "scenario.field.recompDelta": "Ajuste de recomposición",
+  "scenario.field.macroPreset": "Reparto de macros",
+  "scenario.sameAsProfile": "Igual que el perfil",
+  "scenario.add": "Añadir escenario",
+  "scenario.result": "Resultado",
+  "scenario.baseline": "(referencia)",
+  "scenario.row.calories": "Calorías de {goal}",
+  "scenario.row.protein": "Proteína de {goal}",
+  "scenario.row.fat": "Grasa de {goal}",
+  "scenario.row.carbs": "Carbohidratos de {goal}",
+  "scenario.outOfRange": "{field} debe estar entre {min} y {max}",
+  "scenario.unknownPreset": "Reparto de macros desconocido: \"{preset}\"",
+  "scenario.calculationFailed": "No se pudo calcular con estos cambios",
+  "scenario.footer":
+    "Los cambios en blanco usan el valor del perfil. Los escenarios usan el GET por fórmula (no el registro de peso) y se guardan con este perfil. Las diferencias son respecto al primer escenario.",
+
+  /* ---- Sensitivity ---- */
+  "sensitivity.title": "Sensibilidad",
+  "sensitivity.intro":
+    "Recorre un rango de valores de un dato (el resto, como en el perfil) y repite el cálculo en cada paso, en el navegador. Solo GET por fórmula.",
+  "sensitivity.input": "Dato",
+  "sensitivity.from": "Desde",
+  "sensitivity.to": "Hasta",
+  "sensitivity.steps": "Pasos",
+  "sensitivity.goal": "Objetivo",
+  "sensitivity.energy": "Energía",
+  "sensitivity.bmr": "TMB",
+  "sensitivity.tdee": "GET",
+  "sensitivity.macros": "Macros de {goal}",
+  "sensitivity.markerEnds": "Fin: {warning}",
+  "sensitivity.activeAtStart": "Ya activos con {field} {value}: {warnings}",
+  "sensitivity.starts": "{warning} empieza en {value}",
+  "sensitivity.stops": "{warning} termina en {value}",
+
+  /* ---- Timeline ---- */
+  "timeline.title.cut": "Proyección de la definición",
+  "timeline.title.bulk": "Proyección del volumen",
+  "timeline.target": "Meta",
+  "timeline.kind.weight": "Peso ({unit})",
+  "timeline.kind.bodyFat": "% de grasa corporal",
+  "timeline.kind.bodyFatUnavailable": "% de grasa corporal (requiere % de grasa o DEXA)",
+  "timeline.targetWeight": "Peso meta ({unit})",
+  "timeline.targetBodyFat": "% de grasa meta",
+  "timeline.targetDate": "Fecha meta (opcional)",
+  "timeline.needed": "Necesitas {delta} durante {weeks} semanas ({calories}).",
+  "timeline.unreachableByDate":
+    "No se puede llegar a esa meta en esa fecha con un ajuste diario realista.",
+  "timeline.neededLimited":
+    "Es más déficit del que permiten los ajustes por etapa vital; como máximo permiten {delta}.",
+  "timeline.useNeeded": "Proyectar con el ajuste necesario en lugar de {delta}",
+  "timeline.wrongDirection.cut": "Esta meta va en dirección contraria a una definición.",
+  "timeline.wrongDirection.bulk": "Esta meta va en dirección contraria a un volumen.",
+  "timeline.reached": "Con {delta} llegas a la meta en {weeks} semanas ({date}).",
+  "timeline.notReached": "Con {delta} no llegas a la meta en {weeks} semanas.",
+  "timeline.week": "Semana",
+  "timeline.date": "Fecha",
+  "timeline.weight": "Peso",
+  "timeline.leanMass": "Masa magra",
+  "timeline.fatMass": "Masa grasa",
+  "timeline.col.bodyFat": "% grasa",
+  "timeline.col.fat": "Grasa ({unit})",
+  "timeline.col.lean": "Magra ({unit})",
+
+  /* ---- Weight log ---- */
+  "weightLog.title": "Registro de peso e ingesta",
+  "weightLog.intro":
+    "Registra tu peso y tus calorías cada día. Suavizamos la tendencia del peso y calculamos tu GET real a partir del balance energético.",
+  "weightLog.date": "Fecha",
+  "weightLog.weight": "Peso ({unit})",
+  "weightLog.intake": "Ingesta ({unit})",
+  "weightLog.save": "Guardar registro",
+  "weightLog.window": "Ventana móvil (días)",
+  "weightLog.days": "{days} días",
+  "weightLog.useAdaptive": "Usar el GET adaptativo para los objetivos",
+  "weightLog.trend": "Tendencia {trend} {unit}/semana, ingesta media {intake} en {days} días.",
+  "weightLog.remove": "Quitar {date}",
+  "adaptive.tooFewWeighIns": "Registra al menos dos pesajes para calcular la tendencia del peso.",
+  "adaptive.windowTooShort": "Se necesitan pesajes de al menos {min} días (hay {have}).",
+  "adaptive.tooFewIntakeDays":
+    "Registra la ingesta al menos {min} de los últimos {span} días (hay {have}).",
+
+  /* ---- Food log ---- */
+  "foodLog.title": "Registro de comidas",
+  "foodLog.intro":
+    "Registra lo que comiste frente a los objetivos de la meta elegida. Todo se queda en este dispositivo.",
+  "foodLog.date": "Fecha",
+  "foodLog.compareAgainst": "Comparar con",
+  "foodLog.calories": "Calorías",
+  "foodLog.over": "{amount} de más",
+  "foodLog.left": "quedan {amount}",
+  "foodLog.noTargets": "Introduce datos válidos en el perfil para ver los objetivos.",
+  "foodLog.food": "Alimento",
+  "foodLog.search": "Buscar alimentos...",
+  "foodLog.custom": "propio",
+  "foodLog.per100g": "{energy}/100 g",
+  "foodLog.amount": "Cantidad",
+  "foodLog.unit": "Unidad",
+  "foodLog.grams": "gramos",
+  "foodLog.add": "Añadir",
+  "foodLog.preview": "{energy} - P {protein} / G {fat} / C {carbs}",
+  "foodLog.col.grams": "Gramos",
+  "foodLog.col.macros": "P / G / C",
+  "foodLog.remove": "Quitar {name}",
+  "foodLog.saveIntake": "Guardar {energy} como la ingesta de este día en el registro de peso",
+  "foodLog.myFoods": "Mis alimentos ({count})",
+  "foodLog.delete": "Eliminar {name}",
+  "foodLog.form.name": "Nombre",
+  "foodLog.form.basis": "Los macros son",
+  "foodLog.form.perServing": "Por ración (de la etiqueta)",
+  "foodLog.form.per100g": "Por 100 g",
+  "foodLog.form.servingName": "Nombre de la ración",
+  "foodLog.form.defaultServing": "1 ración",
+  "foodLog.form.servingWeight": "Peso de la ración (g)",
+  "foodLog.form.servingWeightOptional": "Peso de la ración (g), opcional",
+  "foodLog.form.contains": "Contiene",
+  "foodLog.form.save": "Guardar alimento",
+  "foodLog.form.error.name": "Ponle un nombre al alimento.",
+  "foodLog.form.error.negative": "Los macros deben ser cero o más.",
+  "foodLog.form.error.servingWeight":
+    "Los macros por ración necesitan el peso de la ración en gramos.",
+  "foodLog.tag.meat": "Carne",
+  "foodLog.tag.fish": "Pescado",
+  "foodLog.tag.dairy": "Lácteos",
+  "foodLog.tag.egg": "Huevo",
+
+  /* ---- Export ---- */
+  "export.goalOnCard": "Objetivo en la tarjeta",
+  "export.rendering": "Generando...",
+  "export.pngCard": "Tarjeta PNG",
+  "export.print": "Imprimir / PDF",
+  "export.hint":
+    "Se genera en tu navegador. Usa \"Guardar como PDF\" en el diálogo de impresión para obtener un documento.",
+  "export.renderFailed": "No se pudo generar la imagen en este navegador.",
+  "export.planTitle": "Plan de {goal}",
+  "export.percentOfCalories": "{percent} de las calorías",
+  "export.cardFooter.formula": "TMB {bmr} con {method}; GET {tdee} (fórmula).",
+  "export.cardFooter.adaptive":
+    "TMB {bmr} con {method}; GET {tdee} (medido con el registro de peso).",
+  "export.handoutTitle": "Plan de macros",
+  "export.handoutTitleFor": "Plan de macros para {name}",
+  "export.dailyTargets": "Objetivos diarios",
+  "export.energyExpenditure": "Gasto energético",
+  "export.bmrFormula": "Fórmula de TMB",
+  "export.unitPerDay": "{unit}/día",
+  "export.spread": "Dispersión entre fórmulas",
+  "export.tdeeUsed.formula": "GET usado para los objetivos (fórmula)",
+  "export.tdeeUsed.adaptive": "GET usado para los objetivos (adaptativo)",
+  "export.warnings": "Avisos y notas",
+
+  /* ---- Weekly schedule ---- */
+  "weekly.title": "Plan semanal",
+  "weekly.day": "Día",
+  "weekly.dayType": "Tipo",
+  "weekly.average": "Media semanal",
+
+  /* ---- Meal plan ---- */
+  "mealPlan.title": "Plan de comidas",
+  "mealPlan.intro":
+    "Crea un día de comidas con la lista de alimentos que se acerca a los macros del objetivo elegido. La semilla reproduce un plan; los alimentos propios solo cuentan como carne o lácteos si están etiquetados así.",
+  "mealPlan.goal": "Objetivo",
+  "mealPlan.mealsPerDay": "Comidas al día",
+  "mealPlan.tolerance": "Tolerancia (%)",
+  "mealPlan.vegetarian": "Vegetariano",
+  "mealPlan.dairyFree": "Sin lácteos",
+  "mealPlan.seed": "Semilla",
+  "mealPlan.regenerate": "Regenerar",
+  "mealPlan.alwaysInclude": "Incluir siempre",
+  "mealPlan.lockSearch": "Busca alimentos para fijar...",
+  "mealPlan.autoGrams": "g auto",
+  "mealPlan.unlock": "Quitar {food}",
+  "mealPlan.neverInclude": "No incluir nunca",
+  "mealPlan.noBans": "Usa el botón de bloqueo de un alimento del plan para excluirlo.",
+  "mealPlan.allow": "Permitir",
+  "mealPlan.needsProfile": "Introduce datos de perfil válidos para planificar comidas.",
+  "mealPlan.failure.noCalories": "Los objetivos no tienen calorías que planificar.",
+  "mealPlan.failure.noProtein": "No quedan alimentos proteicos tras las exclusiones y bloqueos.",
+  "mealPlan.meal": "Comida {n}",
+  "mealPlan.food": "Alimento",
+  "mealPlan.grams": "Gramos",
+  "mealPlan.col.calories": "kcal",
+  "mealPlan.col.protein": "P (g)",
+  "mealPlan.col.fat": "G (g)",
+  "mealPlan.col.carbs": "HC (g)",
+  "mealPlan.lockFood": "Incluir siempre {food}",
+  "mealPlan.banFood": "No incluir nunca {food}",
+  "mealPlan.mealTotal": "Total de la comida",
+  "mealPlan.day": "Día",
+  "mealPlan.planned": "Planificado",
+  "mealPlan.target": "Objetivo",
+  "mealPlan.error": "Error",
+  "mealPlan.withinTolerance": "Dentro del {tolerance} de cada objetivo (intento {attempts}).",
+  "mealPlan.outsideTolerance":
+    "El plan más cercano tras {attempts} intentos queda fuera de la tolerancia del {tolerance}. Prueba con más comidas, menos exclusiones u otra semilla.",
+  "mealPlan.deletedFood": "Alimento eliminado",
+  "mealPlan.addToLog": "Añadir el plan al registro de hoy",
+  "mealPlan.added": "Añadido al registro de hoy",
+
+  /* ---- DEXA scans ---- */
+  "dexa.title": "Escáneres DEXA",
+  "dexa.intro":
+    "Importa una exportación CSV o JSON (Hologic, GE Lunar, estilo BodySpec). El archivo se lee en local y nunca se sube.",
+  "dexa.import": "Importar archivo",
+  "dexa.error.empty": "El archivo está vacío.",
+  "dexa.error.invalidJson": "El archivo no es JSON válido.",
+  "dexa.error.noColumns": "No se encontraron columnas de grasa / magra / CMO en este CSV.",
+  "dexa.error.noTotals":
+    "No se encontraron totales de grasa o masa magra de cuerpo entero en este archivo.",
+  "dexa.note.unlabeledGrams": "Algunas columnas no tenían unidad; se leyeron como gramos.",
+  "dexa.note.unlabeledKg": "Algunas columnas no tenían unidad; se leyeron como kilogramos.",
+  "dexa.note.leanIncludesBmc":
+    "{region}: solo se indicó magra + CMO, así que la masa magra incluye hueso.",
+  "dexa.found": "Escáneres encontrados: {count} (formato {layout})",
+  "dexa.layout.long": "largo",
+  "dexa.layout.wide": "ancho",
+  "dexa.layout.json": "JSON",
+  "dexa.latest": "último {date}",
+  "dexa.weightCheck":
+    "Grasa + magra + CMO = {scan} kg frente al peso introducido {weight} kg ({diff} %).",
+  "dexa.weightMismatch":
+    "Es más que el ruido de la báscula; revisa el escáner y las unidades de peso.",
+  "dexa.saveAndApply": "Guardar y rellenar",
+  "dexa.saveOnly": "Solo guardar en el historial",
+  "dexa.cancel": "Cancelar",
+  "dexa.region": "Región",
+  "dexa.region.total": "Total",
+  "dexa.region.arms": "Brazos",
+  "dexa.region.legs": "Piernas",
+  "dexa.region.trunk": "Tronco",
+  "dexa.region.android": "Androide",
+  "dexa.region.gynoid": "Ginoide",
+  "dexa.fatKg": "Grasa (kg)",
+  "dexa.leanKg": "Magra (kg)",
+  "dexa.bmcKg": "CMO (kg)",
+  "dexa.bodyFat": "% grasa",
+  "dexa.history": "Historial",
+  "dexa.date": "Fecha",
+  "dexa.undated": "sin fecha",
+  "dexa.use": "Usar",
+  "dexa.remove": "Eliminar escáner {date}",
+
+  /* ---- Profiles ---- */
+  "profiles.title": "Perfiles guardados",
+  "profiles.storedLocally": "Guardados en este navegador",
+  "profiles.new": "Nuevo",
+  "profiles.rename": "Renombrar",
+  "profiles.duplicate": "Duplicar",
+  "profiles.delete": "Eliminar",
+  "profiles.confirmDelete": "¿Eliminar \"{name}\"?",
+  "profiles.share": "Compartir enlace",
+  "profiles.linkCopied": "Enlace copiado al portapapeles.",
+  "profiles.copyPrompt": "Copia este enlace:",
+
+  /* ---- Charts ---- */
+  "chart.empty": "Nada que mostrar.",
+
+  /* ---- Coach ---- */
+  "coach.title": "Clientes",
+  "coach.subtitle": "Cada perfil guardado es un cliente. Todo se queda en este navegador.",
+  "coach.back": "Volver a la calculadora",
+  "coach.search": "Buscar nombre o etiqueta",
+  "coach.allTags": "Todas las etiquetas",
+  "coach.newClient": "Nuevo cliente",
+  "coach.selectAll": "Seleccionar los visibles",
+  "coach.selected": "{count} seleccionados",
+  "coach.recompute": "Recalcular",
+  "coach.policy": "Política de TMB",
+  "coach.policySingle": "Una sola: {method}",
+  "coach.applyPolicy": "Aplicar y recalcular",
+  "coach.exportCsv": "Exportar CSV",
+  "coach.col.client": "Cliente",
+  "coach.col.tags": "Etiquetas",
+  "coach.col.goal": "Objetivo",
+  "coach.col.calories": "Calorías",
+  "coach.col.macros": "Proteína / grasa / carbohidratos",
+  "coach.col.updated": "Actualizado",
+  "coach.tagsPlaceholder": "Etiquetas, separadas por comas",
+  "coach.open": "Abrir",
+  "coach.notComputed": "Aún sin calcular",
+  "coach.outdated": "Cambiado desde el cálculo",
+  "coach.incomplete": "Perfil incompleto",
+  "coach.empty": "Ningún cliente coincide.",
+  "coach.recomputed": "{count} clientes recalculados.",
+  "coach.failed": "{count} no se pudieron calcular. Ábrelos para completar sus perfiles.",
+
+  /* ---- Backup ---- */
+  "backup.title": "Copia de seguridad",
+  "backup.subtitle":
+    "Todos los perfiles con sus resultados y registros, en archivos que conservas.",
+  "backup.exportJson": "Exportar JSON",
+  "backup.exportCsv": "Exportar CSV",
+  "backup.csv.profiles": "Perfiles y objetivos",
+  "backup.csv.weightLog": "Registro de peso",
+  "backup.csv.foodLog": "Registro de comidas",
+  "backup.csv.dexaScans": "Escáneres DEXA",
+  "backup.import": "Importar JSON",
+  "backup.error.invalidJson": "Este archivo no es JSON válido.",
+  "backup.error.notBackup": "Esto no es una copia de seguridad de esta calculadora.",
+  "backup.error.newerVersion": "Esta copia se creó con una versión más nueva de la calculadora.",
+  "backup.preview": "Copia del {date}. No cambia nada hasta que confirmes.",
+  "backup.replaceNote":
+    "Reemplazar un perfil también reemplaza su registro de peso, de comidas y sus escáneres DEXA.",
+  "backup.profiles": "Perfiles",
+  "backup.foods": "Alimentos propios",
+  "backup.status.new": "Nuevo",
+  "backup.status.same": "Igual que aquí",
+  "backup.status.newer": "Cambiado, la copia es más reciente",
+  "backup.status.older": "Cambiado, la versión de este navegador es más reciente",
+  "backup.status.changed": "Cambiado",
+  "backup.action.add": "Importar",
+  "backup.action.replace": "Reemplazar",
+  "backup.action.keepBoth": "Conservar ambos",
+  "backup.action.skip": "Omitir",
+  "backup.rejected": "No válidos, no se importarán ({count})",
+  "backup.confirm": "Importar",
+  "backup.cancel": "Cancelar",
+  "backup.done": "Se importaron {profiles} perfiles y {foods} alimentos propios.",
+};
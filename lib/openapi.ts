@@ -0,0 +1,323 @@
+import { z } from "zod";
+import { profileFormSchema, profileInputSchema } from "@/lib/schema";
+import { MAX_BATCH_SIZE } from "@/lib/calculateApi";
+import { LIFE_STAGES } from "@/lib/lifeStage";
+import { COMPOSITION_SOURCE_LABELS, type CompositionSource } from "@/lib/bodyComposition";
+import { DAY_TYPES, WEEKDAYS } from "@/lib/carbCycling";
+
+/**
+ * OpenAPI 3.1 document for the headless API. Request bodies are generated
+ * from the zod schemas, so they can't drift from what the route accepts.
+ * Responses are written by hand (Results is a plain TS type).
+ */
+
+const jsonSchema = (schema: z.ZodType) => {
+  // OpenAPI 3.1 embeds draft 2020-12 schemas, minus the top-level $schema
+  const doc: Record<string, unknown> = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" });
+  delete doc.$schema;
+  return doc;
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const number = { type: "number" } as const;
+
+const COMPOSITION_SOURCES = Object.keys(COMPOSITION_SOURCE_LABELS) as CompositionSource[];
+
+const macroTargets = {
+  type: "object",
+  required: ["calories", "proteinG", "fatG", "carbsG"],
+  properties: { calories: number, proteinG: number, fatG: number, carbsG: number },
+};
+
+const dayTarget = {
+  type: "object",
+  required: ["weekday", "dayType", ...macroTargets.required],
+  properties: {
+    weekday: { type: "string", enum: WEEKDAYS },
+    dayType: { type: "string", enum: DAY_TYPES },
+    ...macroTargets.properties,
+  },
+};
+
+const weekOfDays = { type: "array", items: ref("DayTarget"), minItems: 7, maxItems: 7 };
+
+const results = {
+  type: "object",
+  required: [
+    "bmr",
+    "bodyComposition",
+    "tdee",
+    "formulaTdee",
+    "tdeeSource",
+    "maintenance",
+    "cut",
+    "bulk",
+    "recomp",
+    "warnings",
+    "lifeStage",
+  ],
+  properties: {
+    bmr: {
+      type: "object",
+      properties: {
+        recommendedBmr: number,
+        recommendedMethod: { type: "string" },
+        policy: { type: "string", enum: ["auto", "single", "mean", "median", "weighted"] },
+        policyFellBack: { type: "boolean" },
+        methods: { type: "object", additionalProperties: number },
+        spread: {
+          type: "object",
+          properties: {
+            min: number,
+            max: number,
+            minMethod: { type: "string" },
+            maxMethod: { type: "string" },
+          },
+        },
+      },
+    },
+    bodyComposition: {
+      type: "object",
+      required: ["weightKg", "metrics"],
+      properties: {
+        weightKg: number,
+        fatMassKg: number,
+        leanMassKg: { ...number, description: "Fat-free mass, bone included" },
+        source: { type: "string", enum: COMPOSITION_SOURCES },
+        derived: {
+          type: "string",
+          enum: ["fatMass", "leanMass"],
+          description: "DEXA mass filled in from body weight when only one was given",
+        },
+        metrics: {
+          type: "object",
+          required: ["bmi"],
+          properties: {
+            bodyFatPercent: ref("CompositionMetric"),
+            fatMassKg: ref("CompositionMetric"),
+            leanMassKg: ref("CompositionMetric"),
+            ffmi: ref("CompositionMetric"),
+            normalizedFfmi: ref("CompositionMetric"),
+            fmi: ref("CompositionMetric"),
+            bmi: ref("CompositionMetric"),
+            estimateMethod: { type: "string" },
+          },
+        },
+      },
+    },
+    tdee: number,
+    formulaTdee: number,
+    tdeeSource: { type: "string", enum: ["formula", "adaptive"] },
+    maintenance: ref("MacroTargets"),
+    cut: ref("MacroTargets"),
+    bulk: ref("MacroTargets"),
+    recomp: ref("MacroTargets"),
+    warnings: { type: "array", items: ref("Diagnostic") },
+    lifeStage: {
+      type: "object",
+      description: "Pregnancy, lactation and age adjustments applied to the numbers above",
+      properties: {
+        stage: { type: "string", enum: LIFE_STAGES },
+        fromAge: { type: "boolean" },
+        adjustments: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["kind", "message"],
+            properties: {
+              kind: { type: "string", enum: ["energy", "protein", "deficit", "bmr"] },
+              message: { type: "string" },
+              goal: { type: "string", enum: ["maintenance", "cut", "bulk", "recomp"] },
+            },
+          },
+        },
+      },
+    },
+    weekly: {
+      type: "object",
+      description: "Carb-cycling targets per goal, Monday first; only present when carb cycling is on",
+      required: ["maintenance", "cut", "bulk", "recomp"],
+      properties: { maintenance: weekOfDays, cut: weekOfDays, bulk: weekOfDays, recomp: weekOfDays },
+    },
+    trace: {
+      type: "object",
+      description:
+        "Each value above as formula, substituted formula and unrounded result (see TraceStep)",
+      properties: {
+        inputs: { type: "array", items: ref("TraceStep") },
+        bmr: { type: "object", additionalProperties: ref("TraceStep") },
+        recommendedBmr: ref("TraceStep"),
+        tdee: { type: "array", items: ref("TraceStep") },
+        goals: {
+          type: "object",
+          additionalProperties: { type: "object", additionalProperties: ref("TraceStep") },
+        },
+      },
+    },
+  },
+};
+
+const traceStep = {
+  type: "object",
+  required: ["label", "formula", "substituted", "value", "unit"],
+  properties: {
+    label: { type: "string" },
+    formula: { type: "string" },
+    substituted: { type: "string" },
+    value: number,
+    unit: { type: "string" },
+    note: { type: "string" },
+  },
+};
+
+const compositionMetric = {
+  type: "object",
+  required: ["value", "source"],
+  properties: {
+    value: number,
+    source: { type: "string", enum: COMPOSITION_SOURCES },
+  },
+};
+
+const diagnostic = {
+  type: "object",
+  required: ["code", "severity", "message"],
+  properties: {
+    code: { type: "string" },
+    severity: { type: "string", enum: ["info", "warn", "danger"] },
+    message: { type: "string", description: "In English, without the goal name" },
+    goal: { type: "string", enum: ["maintenance", "cut", "bulk", "recomp"] },
+    field: { type: "string", description: "Form field the diagnostic refers to" },
+  },
+};
+
+const apiIssue = {
+  type: "object",
+  required: ["path", "message"],
+  properties: {
+    path: { type: "string", description: "Dot-joined path in the shape that was sent" },
+    message: { type: "string" },
+  },
+};
+
+const format = { type: "string", enum: ["formValues", "profileInput"] };
+
+const calculateResponse = {
+  oneOf: [
+    {
+      type: "object",
+      required: ["ok", "format", "input", "results"],
+      properties: {
+        ok: { const: true },
+        format,
+        input: ref("ProfileInput"),
+        results: ref("Results"),
+      },
+    },
+    {
+      type: "object",
+      required: ["ok", "errors"],
+      properties: {
+        ok: { const: false },
+        format,
+        errors: { type: "array", items: ref("ApiIssue") },
+      },
+    },
+  ],
+};
+
+const profileBody = { oneOf: [ref("ProfileFormValues"), ref("ProfileInput")] };
+
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Nutrition Calculator API",
+      version: "1.0.0",
+      description:
+        "Same calculations as the UI. Send either ProfileFormValues or ProfileInput; both are validated with the UI's rules. A legacy unitSystem (\"us\" | \"metric\") is still accepted in place of units. ProfileInput deltas are kcal/day; form-value deltas are in units.energy.",
+    },
+    paths: {
+      "/api/calculate": {
+        post: {
+          summary: "Calculate BMR, TDEE and macro targets for one profile",
+          requestBody: { required: true, content: { "application/json": { schema: profileBody } } },
+          responses: {
+            "200": {
+              description: "Results",
+              content: { "application/json": { schema: ref("CalculateResponse") } },
+            },
+            "400": {
+              description: "Malformed JSON or validation errors",
+              content: { "application/json": { schema: ref("CalculateResponse") } },
+            },
+          },
+        },
+      },
+      "/api/calculate/batch": {
+        post: {
+          summary: `Calculate up to ${MAX_BATCH_SIZE} profiles; each item succeeds or fails on its own`,
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["profiles"],
+                  properties: {
+                    profiles: { type: "array", maxItems: MAX_BATCH_SIZE, items: profileBody },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "One CalculateResponse per profile, in request order",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      ok: { const: true },
+                      items: { type: "array", items: ref("CalculateResponse") },
+                    },
+                  },
+                },
+              },
+            },
+            "400": {
+              description: "The body is not a list of profiles",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      ok: { const: false },
+                      errors: { type: "array", items: ref("ApiIssue") },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        ProfileFormValues: jsonSchema(profileFormSchema),
+        ProfileInput: jsonSchema(profileInputSchema),
+        MacroTargets: macroTargets,
+        DayTarget: dayTarget,
+        Diagnostic: diagnostic,
+        TraceStep: traceStep,
+        CompositionMetric: compositionMetric,
+        Results: results,
+        ApiIssue: apiIssue,
+        CalculateResponse: calculateResponse,
+      },
+    },
+  };
+}
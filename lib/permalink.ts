@@ -0,0 +1,279 @@
+import {
+  createProfileFormSchema,
+  profileFormSchema,
+  type ProfileFormValues,
+} from "@/lib/schema";
+import { createTranslator, type Translate } from "@/lib/i18n";
+import {
+  GOALS,
+  MACRO_PRESETS,
+  strategyFromLegacyBulkProtein,
+  strategyFromPreset,
+} from "@/lib/macroStrategy";
+import {
+  lengthFromSimpleUnit,
+  lengthInSimpleUnit,
+  massFromSimpleUnit,
+  massInSimpleUnit,
+  unitsFromSystem,
+} from "@/lib/units";
+import type {
+  Goal,
+  GoalMacroRules,
+  MacroPresetId,
+  MacroStrategy,
+  UnitPreferences,
+  UnitSystem,
+} from "@/types/nutrition";
+
+/**
+ * Permalinks carry the full ProfileFormValues in the URL hash:
+ *   #p=<version>.<base64url(JSON with short keys)>
+ * The hash never reaches the server, so shared setups stay client-side.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export const PERMALINK_VERSION = 3;
+const HASH_KEY = "p";
+
+export type PermalinkIssue = {
+  path: string;
+  message: string;
+};
+
+export type PermalinkDecodeResult =
+  | { ok: true; values: ProfileFormValues }
+  | { ok: false; issues: PermalinkIssue[] };
+
+// Wire format: short keys keep the link compact
+type PayloadBase = {
+  s: ProfileFormValues["sex"];
+  a: number;
+  // In the simple unit: total inches for ft + in, total lb for st + lb
+  h?: number;
+  w?: number;
+  bm: ProfileFormValues["bodyFatMode"];
+  bf?: number;
+  // Raw measurements when bm is "estimated"; the percent is re-derived on load
+  be?: ProfileFormValues["bodyFatEstimate"];
+  // BMR policy, only when not "auto"
+  br?: ProfileFormValues["bmrPolicy"];
+  // Life stage, only when not "standard"
+  ls?: ProfileFormValues["lifeStage"];
+  ap?: number;
+  ac?: number;
+  // Carb cycling schedule, only when enabled
+  cc?: ProfileFormValues["carbCycling"];
+  // In the energy unit
+  cd: number;
+  bd: number;
+  rd: number;
+  df?: number;
+  dl?: number;
+  // DEXA bone mineral content
+  db?: number;
+};
+
+// [protein basis, amount, fat basis, amount, carb basis, amount], in GOALS order
+type PackedRules = [string, number, string, number, string, number];
+
+// v1 and v2 had a single unit system
+type LegacyUnits = { u: UnitSystem };
+
+// v1 only had a bulk protein g/lb slider on top of the balanced split
+type PayloadV1 = PayloadBase & LegacyUnits & { bp: number };
+// v2: a preset id, or every goal's rules when customized
+type PayloadV2 = PayloadBase & LegacyUnits & { ms: MacroPresetId | PackedRules[] };
+// v3: energy, mass and length units chosen separately
+type PayloadV3 = Omit<PayloadV2, "u"> & {
+  ue: UnitPreferences["energy"];
+  um: UnitPreferences["mass"];
+  ul: UnitPreferences["length"];
+};
+
+/* =========================
+   Helpers
+========================= */
+
+const toBase64Url = (text: string) =>
+  btoa(text).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (encoded: string) => {
+  const b64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  return atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+};
+
+const fail = (message: string): PermalinkDecodeResult => ({
+  ok: false,
+  issues: [{ path: "link", message }],
+});
+
+const packRules = (r: GoalMacroRules): PackedRules => [
+  r.protein.basis,
+  r.protein.amount,
+  r.fat.basis,
+  r.fat.amount,
+  r.carbs.basis,
+  r.carbs.amount,
+];
+
+const unpackRules = (p: PackedRules): GoalMacroRules =>
+  ({
+    protein: { basis: p[0], amount: p[1] },
+    fat: { basis: p[2], amount: p[3] },
+    carbs: { basis: p[4], amount: p[5] },
+  }) as GoalMacroRules;
+
+function packStrategy(ms: MacroStrategy): PayloadV2["ms"] {
+  return ms.preset === "custom" ? GOALS.map((g) => packRules(ms.goals[g])) : ms.preset;
+}
+
+// Shape errors here are left for profileFormSchema to report
+function unpackStrategy(ms: unknown): unknown {
+  if (typeof ms === "string") {
+    return ms in MACRO_PRESETS ? strategyFromPreset(ms as MacroPresetId) : { preset: ms };
+  }
+  if (!Array.isArray(ms)) return undefined;
+  const goals = Object.fromEntries(
+    GOALS.map((g, i) => [g, Array.isArray(ms[i]) ? unpackRules(ms[i] as PackedRules) : undefined]),
+  ) as Record<Goal, GoalMacroRules>;
+  return { preset: "custom", goals };
+}
+
+function toPayload(v: ProfileFormValues): PayloadV3 {
+  return {
+    ue: v.units.energy,
+    um: v.units.mass,
+    ul: v.units.length,
+    s: v.sex,
+    a: v.ageYears,
+    h: lengthInSimpleUnit(v.height, v.units.length),
+    w: massInSimpleUnit(v.weight, v.units.mass),
+    bm: v.bodyFatMode,
+    bf: v.bodyFatMode === "known" ? v.bodyFatPercent : undefined,
+    be: v.bodyFatMode === "estimated" ? v.bodyFatEstimate : undefined,
+    br: v.bmrPolicy.mode === "auto" ? undefined : v.bmrPolicy,
+    ls: v.lifeStage === "standard" ? undefined : v.lifeStage,
+    ap: v.activityUseCustom ? undefined : v.activityPreset,
+    ac: v.activityUseCustom ? v.activityCustom : undefined,
+    cd: v.cutDelta,
+    bd: v.bulkDelta,
+    rd: v.recompDelta,
+    ms: packStrategy(v.macroStrategy),
+    cc: v.carbCycling.enabled ? v.carbCycling : undefined,
+    df: v.dexaEnabled ? v.dexaFatMassKg : undefined,
+    dl: v.dexaEnabled ? v.dexaLeanMassKg : undefined,
+    db: v.dexaEnabled ? v.dexaBoneMineralKg : undefined,
+  };
+}
+
+// Units that aren't valid leave height and weight empty; profileFormSchema reports the units
+function fromPayload(
+  p: Partial<PayloadBase>,
+  units: Partial<UnitPreferences>,
+  macroStrategy: unknown,
+): Record<string, unknown> {
+  return {
+    units,
+    sex: p.s,
+    ageYears: p.a,
+    height: p.h != null && units.length ? (lengthFromSimpleUnit(p.h, units.length) ?? {}) : {},
+    weight: p.w != null && units.mass ? (massFromSimpleUnit(p.w, units.mass) ?? {}) : {},
+    bodyFatMode: p.bm,
+    bodyFatPercent: p.bf,
+    bodyFatEstimate: p.be,
+    bmrPolicy: p.br,
+    lifeStage: p.ls,
+    activityPreset: p.ap,
+    activityUseCustom: p.ac != null,
+    activityCustom: p.ac,
+    cutDelta: p.cd,
+    bulkDelta: p.bd,
+    recompDelta: p.rd,
+    macroStrategy,
+    carbCycling: p.cc,
+    dexaEnabled: p.df != null || p.dl != null,
+    dexaFatMassKg: p.df,
+    dexaLeanMassKg: p.dl,
+    dexaBoneMineralKg: p.db,
+  };
+}
+
+/* =========================
+   Encode / decode
+========================= */
+
+export function encodeProfilePermalink(values: ProfileFormValues): string {
+  return `${PERMALINK_VERSION}.${toBase64Url(JSON.stringify(toPayload(values)))}`;
+}
+
+/**
+ * Never throws: anything malformed or out of range comes back as issues,
+ * with paths matching ProfileFormValues so they read like form errors.
+ * Issue messages are in English unless a translator is passed.
+ */
+export function decodeProfilePermalink(token: string, t?: Translate): PermalinkDecodeResult {
+  const text = t ?? createTranslator("en");
+  const dot = token.indexOf(".");
+  const version = Number(token.slice(0, dot));
+  if (dot < 0 || !Number.isInteger(version)) return fail(text("permalink.notPermalink"));
+  if (version < 1 || version > PERMALINK_VERSION) {
+    return fail(text("permalink.unsupportedVersion", { version: String(version) }));
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(token.slice(dot + 1)));
+  } catch {
+    return fail(text("permalink.corrupted"));
+  }
+  if (!payload || typeof payload !== "object") return fail(text("permalink.corrupted"));
+
+  const macroStrategy =
+    version === 1
+      ? strategyFromLegacyBulkProtein((payload as Partial<PayloadV1>).bp)
+      : unpackStrategy((payload as Partial<PayloadV2>).ms);
+
+  let units: Partial<UnitPreferences>;
+  if (version < 3) {
+    const { u } = payload as Partial<LegacyUnits>;
+    units = u === "us" || u === "metric" ? unitsFromSystem(u) : {};
+  } else {
+    const { ue, um, ul } = payload as Partial<PayloadV3>;
+    units = { energy: ue, mass: um, length: ul };
+  }
+
+  const schema = t ? createProfileFormSchema(t) : profileFormSchema;
+  const parsed = schema.safeParse(
+    fromPayload(payload as Partial<PayloadBase>, units, macroStrategy),
+  );
+  if (!parsed.success) {
+    return {
+      ok: false,
+      issues: parsed.error.issues.map((i) => ({
+        path: i.path.join(".") || "link",
+        message: i.message,
+      })),
+    };
+  }
+  return { ok: true, values: parsed.data };
+}
+
+/* =========================
+   URL helpers
+========================= */
+
+export function buildPermalinkUrl(values: ProfileFormValues, base: string): string {
+  const url = new URL(base);
+  url.hash = `${HASH_KEY}=${encodeProfilePermalink(values)}`;
+  return url.toString();
+}
+
+/** Returns the raw permalink token from a location hash, if there is one. */
+export function readPermalinkToken(hash: string): string | undefined {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.get(HASH_KEY) ?? undefined;
+}
@@ -0,0 +1,268 @@
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { withUnitPreferences, type ProfileFormValues } from "@/lib/schema";
+import { strategyFromLegacyBulkProtein } from "@/lib/macroStrategy";
+import { scenarioFromLegacyWeight, type Scenario } from "@/lib/scenarios";
+import { computeClientSnapshot, normalizeTags, type ClientSnapshot } from "@/lib/clients";
+import type { Goal } from "@/types/nutrition";
+import { makeId } from "@/lib/id";
+import { DEFAULT_UNITS } from "@/lib/units";
+
+/* =========================
+   Types
+========================= */
+
+export type SavedProfile = {
+  id: string;
+  name: string;
+  // Partial: a fresh profile has no values yet and falls back to the form defaults
+  values: Partial<ProfileFormValues>;
+  // Comparison variants of this profile; absent until comparison mode is first used
+  scenarios?: Scenario[];
+  // Coach roster (lib/clients.ts); absent until set there. Tags and goal are
+  // roster metadata, so changing them doesn't move updatedAt
+  tags?: string[];
+  goal?: Goal;
+  snapshot?: ClientSnapshot;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type ValuesPatch = (values: Partial<ProfileFormValues>) => Partial<ProfileFormValues>;
+
+type PersistedProfiles = {
+  profiles: SavedProfile[];
+  activeProfileId: string;
+};
+
+export type ProfileStore = PersistedProfiles & {
+  hasHydrated: boolean;
+
+  createProfile: (name?: string) => string;
+  importProfile: (name: string, values: ProfileFormValues) => string;
+  renameProfile: (id: string, name: string) => void;
+  duplicateProfile: (id: string) => string | undefined;
+  deleteProfile: (id: string) => void;
+  setActiveProfile: (id: string) => void;
+  saveProfileValues: (id: string, values: ProfileFormValues) => void;
+  saveScenarios: (id: string, scenarios: Scenario[] | undefined) => void;
+  setClientTags: (id: string, tags: string[]) => void;
+  setClientGoal: (id: string, goal: Goal) => void;
+  // Applies `patch` to each profile's values, then snapshots them; returns the ids that failed
+  recomputeClients: (ids: string[], patch?: ValuesPatch) => string[];
+  // Backup import: replaces profiles with the same id, appends the rest
+  upsertProfiles: (profiles: SavedProfile[]) => void;
+};
+
+/* =========================
+   Helpers
+========================= */
+
+const STORAGE_KEY = "nutrition-calculator:profiles";
+
+/**
+ * Bump this whenever ProfileFormValues (lib/schema.ts) changes shape,
+ * and add a step to `migrations` that upgrades from the previous version.
+ */
+export const PROFILE_STORE_VERSION = 4;
+
+/**
+ * Each entry upgrades persisted state FROM the keyed version to the next one.
+ * e.g. migrations[1] turns a v1 state into a v2 state.
+ */
+const migrations: Record<number, (state: PersistedProfiles) => PersistedProfiles> = {
+  // v1 -> v2: bulkProteinGPerLb became the bulk protein rule of a macro strategy
+  1: (state) => ({
+    ...state,
+    profiles: state.profiles.map((p) => {
+      const { bulkProteinGPerLb, ...rest } = p.values as Partial<ProfileFormValues> & {
+        bulkProteinGPerLb?: number;
+      };
+      return {
+        ...p,
+        values: { ...rest, macroStrategy: strategyFromLegacyBulkProtein(bulkProteinGPerLb) },
+      };
+    }),
+  }),
+  // v2 -> v3: unitSystem split into energy / mass / length units
+  2: (state) => ({
+    ...state,
+    profiles: state.profiles.map((p) => ({
+      ...p,
+      values: withUnitPreferences(p.values) as Partial<ProfileFormValues>,
+    })),
+  }),
+  // v3 -> v4: scenario weight overrides moved from the display mass unit to kg
+  3: (state) => ({
+    ...state,
+    profiles: state.profiles.map((p) => ({
+      ...p,
+      scenarios: p.scenarios?.map((sc) =>
+        scenarioFromLegacyWeight(sc, p.values.units?.mass ?? DEFAULT_UNITS.mass),
+      ),
+    })),
+  }),
+};
+
+export function migrateProfiles(persisted: unknown, fromVersion: number): PersistedProfiles {
+  let state = persisted as PersistedProfiles;
+  for (let v = fromVersion; v < PROFILE_STORE_VERSION; v++) {
+    const step = migrations[v];
+    if (step) state = step(state);
+  }
+  return state;
+}
+
+const makeProfile = (name: string, values: Partial<ProfileFormValues> = {}): SavedProfile => {
+  const now = Date.now();
+  return { id: makeId("p"), name, values, createdAt: now, updatedAt: now };
+};
+
+const nextDefaultName = (profiles: SavedProfile[]) => `Profile ${profiles.length + 1}`;
+
+const initialProfile = makeProfile("Profile 1");
+
+/* =========================
+   Store
+========================= */
+
+export const useProfileStore = create<ProfileStore>()(
+  persist(
+    (set, get) => ({
+      profiles: [initialProfile],
+      activeProfileId: initialProfile.id,
+      hasHydrated: false,
+
+      createProfile: (name) => {
+        const profile = makeProfile(name?.trim() || nextDefaultName(get().profiles));
+        set((s) => ({ profiles: [...s.profiles, profile], activeProfileId: profile.id }));
+        return profile.id;
+      },
+
+      importProfile: (name, values) => {
+        const profile = makeProfile(name.trim() || nextDefaultName(get().profiles), values);
+        set((s) => ({ profiles: [...s.profiles, profile], activeProfileId: profile.id }));
+        return profile.id;
+      },
+
+      renameProfile: (id, name) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        set((s) => ({
+          profiles: s.profiles.map((p) =>
+            p.id === id ? { ...p, name: trimmed, updatedAt: Date.now() } : p,
+          ),
+        }));
+      },
+
+      duplicateProfile: (id) => {
+        const source = get().profiles.find((p) => p.id === id);
+        if (!source) return undefined;
+        const copy = {
+          ...makeProfile(`${source.name} (copy)`, { ...source.values }),
+          scenarios: source.scenarios?.map((sc) => ({ ...sc, overrides: { ...sc.overrides } })),
+          tags: source.tags && [...source.tags],
+          goal: source.goal,
+        };
+        set((s) => ({ profiles: [...s.profiles, copy], activeProfileId: copy.id }));
+        return copy.id;
+      },
+
+      deleteProfile: (id) => {
+        set((s) => {
+          const remaining = s.profiles.filter((p) => p.id !== id);
+          // Always keep at least one profile around so the form has something to bind to
+          const profiles = remaining.length > 0 ? remaining : [makeProfile("Profile 1")];
+          const activeProfileId = profiles.some((p) => p.id === s.activeProfileId)
+            ? s.activeProfileId
+            : profiles[0].id;
+          return { profiles, activeProfileId };
+        });
+      },
+
+      setActiveProfile: (id) => {
+        if (!get().profiles.some((p) => p.id === id)) return;
+        set({ activeProfileId: id });
+      },
+
+      saveProfileValues: (id, values) => {
+        set((s) => ({
+          profiles: s.profiles.map((p) =>
+            // The form emits on load too; an unchanged profile keeps its last-updated date
+            p.id === id && JSON.stringify(p.values) !== JSON.stringify(values)
+              ? { ...p, values, updatedAt: Date.now() }
+              : p,
+          ),
+        }));
+      },
+
+      saveScenarios: (id, scenarios) => {
+        set((s) => ({
+          profiles: s.profiles.map((p) =>
+            p.id === id ? { ...p, scenarios, updatedAt: Date.now() } : p,
+          ),
+        }));
+      },
+
+      setClientTags: (id, tags) => {
+        set((s) => ({
+          profiles: s.profiles.map((p) =>
+            p.id === id ? { ...p, tags: normalizeTags(tags) } : p,
+          ),
+        }));
+      },
+
+      setClientGoal: (id, goal) => {
+        set((s) => ({ profiles: s.profiles.map((p) => (p.id === id ? { ...p, goal } : p)) }));
+      },
+
+      recomputeClients: (ids, patch) => {
+        const now = Date.now();
+        const failed: string[] = [];
+        set((s) => ({
+          profiles: s.profiles.map((p) => {
+            if (!ids.includes(p.id)) return p;
+            const values = patch ? patch(p.values) : p.values;
+            const outcome = computeClientSnapshot(values, now);
+            if (!outcome.ok) failed.push(p.id);
+            return {
+              ...p,
+              values,
+              // A failed recompute drops the old snapshot rather than showing outdated targets
+              snapshot: outcome.ok ? outcome.snapshot : undefined,
+              updatedAt: patch ? now : p.updatedAt,
+            };
+          }),
+        }));
+        return failed;
+      },
+
+      upsertProfiles: (incoming) => {
+        set((s) => {
+          const byId = new Map(incoming.map((p) => [p.id, p]));
+          const replaced = s.profiles.map((p) => byId.get(p.id) ?? p);
+          const added = incoming.filter((p) => !s.profiles.some((x) => x.id === p.id));
+          return { profiles: [...replaced, ...added] };
+        });
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      version: PROFILE_STORE_VERSION,
+      storage: createJSONStorage(() => localStorage),
+      // Hydrate manually from a client effect so SSR markup matches the first client render
+      skipHydration: true,
+      partialize: (s): PersistedProfiles => ({
+        profiles: s.profiles,
+        activeProfileId: s.activeProfileId,
+      }),
+      migrate: migrateProfiles,
+      onRehydrateStorage: () => () => {
+        useProfileStore.setState({ hasHydrated: true });
+      },
+    },
+  ),
+);
+
+export const selectActiveProfile = (s: ProfileStore): SavedProfile | undefined =>
+  s.profiles.find((p) => p.id === s.activeProfileId);
@@ -0,0 +1,188 @@
+/**
+ * Week-by-week weight/body-composition projection for cut and bulk phases.
+ *
+ * The share of each kg gained or lost that is fat follows Forbes' curve
+ * (leaner people partition more of the change into lean tissue), so the
+ * energy cost per kg depends on the current fat mass. The daily delta is
+ * held constant; metabolic adaptation is not modeled.
+ */
+
+import type { Results } from "@/lib/calcs";
+import { ADOLESCENT_MAX_AGE, effectiveDelta, LIFE_STAGE_RULES } from "@/lib/lifeStage";
+
+/* =========================
+   Types
+========================= */
+
+export type ProjectionTarget =
+  | { kind: "weight"; weightKg: number }
+  | { kind: "bodyFat"; percent: number };
+
+export type ProjectionInput = {
+  weightKg: number;
+  fatMassKg?: number;
+  dailyDeltaKcal: number;
+  target: ProjectionTarget;
+  maxWeeks?: number;
+};
+
+export type ProjectionWeek = {
+  week: number;
+  weightKg: number;
+  fatMassKg?: number;
+  leanMassKg?: number;
+  bodyFatPercent?: number;
+};
+
+// Deltas a cut or bulk timeline can project with, after life-stage blocks and caps
+export type PhaseDeltas = {
+  applied: number;
+  needed?: number;
+  // The needed delta was cut back (or held at 0) by the life stage
+  neededLimited: boolean;
+};
+
+export type Projection = {
+  weeks: ProjectionWeek[];
+  // First week at which the target is met, if it is reached within maxWeeks
+  reachedWeek?: number;
+};
+
+/* =========================
+   Helpers
+========================= */
+
+// Hall (2008): energy density of fat and lean tissue
+const KCAL_PER_KG_FAT = 9440;
+const KCAL_PER_KG_LEAN = 1816;
+// Fallback when body composition is unknown
+const KCAL_PER_KG_MIXED = 7700;
+// Forbes' constant: dFFM/dFM = FORBES_C / FM
+const FORBES_C = 10.4;
+
+const DEFAULT_MAX_WEEKS = 104;
+
+/** Fraction of a weight change that comes from (or goes to) fat mass. */
+export function fatFractionOfChange(fatMassKg: number): number {
+  return fatMassKg / (fatMassKg + FORBES_C);
+}
+
+/** kcal stored or released per kg of body-weight change at the current composition. */
+export function energyDensityKcalPerKg(fatMassKg?: number): number {
+  if (fatMassKg == null || !(fatMassKg > 0)) return KCAL_PER_KG_MIXED;
+  const p = fatFractionOfChange(fatMassKg);
+  return p * KCAL_PER_KG_FAT + (1 - p) * KCAL_PER_KG_LEAN;
+}
+
+const targetMet = (target: ProjectionTarget, wk: ProjectionWeek, direction: number) => {
+  if (target.kind === "weight") {
+    return direction < 0 ? wk.weightKg <= target.weightKg : wk.weightKg >= target.weightKg;
+  }
+  if (wk.bodyFatPercent == null) return false;
+  return direction < 0 ? wk.bodyFatPercent <= target.percent : wk.bodyFatPercent >= target.percent;
+};
+
+const toWeek = (week: number, weightKg: number, fatMassKg?: number): ProjectionWeek =>
+  fatMassKg != null
+    ? {
+        week,
+        weightKg,
+        fatMassKg,
+        leanMassKg: weightKg - fatMassKg,
+        bodyFatPercent: (fatMassKg / weightKg) * 100,
+      }
+    : { week, weightKg };
+
+/* =========================
+   Projection
+========================= */
+
+export function projectTimeline(input: ProjectionInput): Projection {
+  const maxWeeks = input.maxWeeks ?? DEFAULT_MAX_WEEKS;
+  const direction = Math.sign(input.dailyDeltaKcal);
+
+  let weightKg = input.weightKg;
+  let fatMassKg = input.fatMassKg;
+
+  const weeks: ProjectionWeek[] = [toWeek(0, weightKg, fatMassKg)];
+  let reachedWeek = targetMet(input.target, weeks[0], direction || -1) ? 0 : undefined;
+
+  for (let week = 1; week <= maxWeeks && reachedWeek == null && direction !== 0; week++) {
+    const weeklyKcal = input.dailyDeltaKcal * 7;
+    const deltaKg = weeklyKcal / energyDensityKcalPerKg(fatMassKg);
+
+    if (fatMassKg != null && fatMassKg > 0) {
+      fatMassKg = Math.max(0, fatMassKg + deltaKg * fatFractionOfChange(fatMassKg));
+    }
+    weightKg += deltaKg;
+
+    const wk = toWeek(week, weightKg, fatMassKg);
+    weeks.push(wk);
+    if (targetMet(input.target, wk, direction)) reachedWeek = week;
+  }
+
+  return { weeks, reachedWeek };
+}
+
+/**
+ * Solve for the constant daily delta that reaches the target in `weeks`.
+ * Returns undefined if the target is already met or needs an implausible delta.
+ */
+export function solveDailyDelta(
+  input: Omit<ProjectionInput, "dailyDeltaKcal" | "maxWeeks">,
+  weeks: number,
+  limitKcal = 2000,
+): number | undefined {
+  if (!(weeks > 0)) return undefined;
+
+  // Gaining toward the target means a surplus, losing means a deficit
+  const start = toWeek(0, input.weightKg, input.fatMassKg);
+  const needsLoss =
+    input.target.kind === "weight"
+      ? input.target.weightKg < start.weightKg
+      : start.bodyFatPercent != null && input.target.percent < start.bodyFatPercent;
+  const sign = needsLoss ? -1 : 1;
+
+  const endValue = (delta: number) => {
+    const end = projectTimeline({ ...input, dailyDeltaKcal: delta, maxWeeks: weeks, target: unreachable(sign) })
+      .weeks[weeks];
+    return input.target.kind === "weight" ? end.weightKg : (end.bodyFatPercent ?? NaN);
+  };
+  const goal = input.target.kind === "weight" ? input.target.weightKg : input.target.percent;
+  const reaches = (delta: number) => (sign < 0 ? endValue(delta) <= goal : endValue(delta) >= goal);
+
+  if (!reaches(sign * limitKcal)) return undefined;
+
+  // Bisect on |delta|; the end value is monotonic in delta
+  let lo = 0;
+  let hi = limitKcal;
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (reaches(sign * mid)) hi = mid;
+    else lo = mid;
+  }
+  return sign * hi;
+}
+
+/**
+ * The delta calculateAll actually applied for a phase, and the delta needed
+ * for a target date limited by the same pregnancy / lactation / under-18 rules.
+ */
+export function phaseDeltas(
+  results: Pick<Results, "tdee" | "cut" | "bulk" | "lifeStage">,
+  phase: "cut" | "bulk",
+  ageYears: number,
+  neededKcal?: number,
+): PhaseDeltas {
+  const applied = results[phase].calories - results.tdee;
+  if (neededKcal == null) return { applied, neededLimited: false };
+  const rules = LIFE_STAGE_RULES[results.lifeStage.stage];
+  const needed = effectiveDelta(rules, neededKcal, ageYears < ADOLESCENT_MAX_AGE);
+  return { applied, needed, neededLimited: needed !== neededKcal };
+}
+
+// A target that is never met, so projectTimeline runs for the full horizon
+const unreachable = (sign: number): ProjectionTarget => ({
+  kind: "weight",
+  weightKg: sign < 0 ? -Infinity : Infinity,
+});
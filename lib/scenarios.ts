@@ -0,0 +1,241 @@
+import type {
+  Goal,
+  MacroPresetId,
+  MassUnit,
+  ProfileInput,
+  UnitPreferences,
+} from "@/types/nutrition";
+import { calculateAll, type Results } from "@/lib/calcs";
+import { GOALS, MACRO_PRESETS, strategyFromPreset } from "@/lib/macroStrategy";
+import type { EngineMessage, MessageKey } from "@/lib/i18n";
+import {
+  convertEnergy,
+  convertSimpleMass,
+  fromKg,
+  massFromSimpleUnit,
+  SIMPLE_MASS_UNIT,
+  toKcal,
+  toKg,
+} from "@/lib/units";
+import { makeId } from "@/lib/id";
+import { ACTIVITY_MULTIPLIER_BOUNDS } from "@/lib/schema";
+
+/**
+ * Scenario comparison: the current ProfileInput cloned into a few variants,
+ * each with a handful of per-field overrides, calculated side by side.
+ * An empty override means "same as the profile". Overrides are kept in kg and
+ * kcal, so changing the profile's units doesn't change what they mean.
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type ScenarioOverrides = {
+  ageYears?: number;
+  weightKg?: number;
+  bodyFatPercent?: number; // switches body fat to "known"
+  activityMultiplier?: number;
+  cutDelta?: number;
+  bulkDelta?: number;
+  recompDelta?: number;
+  macroPreset?: MacroPresetId;
+};
+
+export type Scenario = {
+  id: string;
+  name: string;
+  overrides: ScenarioOverrides;
+};
+
+// Saved before overrides were canonical: weight in the profile's simple mass unit
+export type LegacyScenarioOverrides = ScenarioOverrides & { weight?: number };
+
+export type NumericOverride = Exclude<keyof ScenarioOverrides, "macroPreset">;
+
+// Labelled in the UI as `scenario.field.<key>`
+export type ScenarioField = {
+  min: number;
+  max: number;
+  step: number;
+  // Bounds of a mass are in kg and of an energy in kcal; see fieldInUnits
+  quantity?: "mass" | "energy";
+};
+
+export type ScenarioOutcome =
+  | { ok: true; scenario: Scenario; results: Results }
+  | { ok: false; scenario: Scenario; issues: EngineMessage[] };
+
+export type CompareRow = {
+  label: MessageKey; // "{goal}" is filled in for goal rows
+  unit: "energy" | "g";
+  group: "energy" | Goal;
+  get: (r: Results) => number;
+};
+
+/* =========================
+   Fields
+========================= */
+
+export const MIN_SCENARIOS = 2;
+export const MAX_SCENARIOS = 4;
+
+export const SCENARIO_FIELDS: Record<NumericOverride, ScenarioField> = {
+  ageYears: { min: 1, max: 120, step: 1 },
+  weightKg: { min: 1, max: 450, step: 0.5, quantity: "mass" },
+  bodyFatPercent: { min: 2, max: 70, step: 0.5 },
+  activityMultiplier: { ...ACTIVITY_MULTIPLIER_BOUNDS, step: 0.025 },
+  cutDelta: { min: -2000, max: 0, step: 50, quantity: "energy" },
+  bulkDelta: { min: 0, max: 2000, step: 50, quantity: "energy" },
+  recompDelta: { min: -1000, max: 1000, step: 50, quantity: "energy" },
+};
+
+export const NUMERIC_OVERRIDES = Object.keys(SCENARIO_FIELDS) as NumericOverride[];
+
+export const COMPARE_ROWS: CompareRow[] = [
+  {
+    label: "results.recommendedBmr",
+    unit: "energy",
+    group: "energy",
+    get: (r) => r.bmr.recommendedBmr,
+  },
+  { label: "results.formulaTdee", unit: "energy", group: "energy", get: (r) => r.formulaTdee },
+  ...GOALS.flatMap((goal): CompareRow[] => [
+    { label: "scenario.row.calories", unit: "energy", group: goal, get: (r) => r[goal].calories },
+    { label: "scenario.row.protein", unit: "g", group: goal, get: (r) => r[goal].proteinG },
+    { label: "scenario.row.fat", unit: "g", group: goal, get: (r) => r[goal].fatG },
+    { label: "scenario.row.carbs", unit: "g", group: goal, get: (r) => r[goal].carbsG },
+  ]),
+];
+
+/* =========================
+   Units
+========================= */
+
+// A stored override as shown in the profile's units, rounded for an input field
+export function overrideToUnits(key: NumericOverride, value: number, units: UnitPreferences): number {
+  switch (SCENARIO_FIELDS[key].quantity) {
+    case "mass":
+      return convertSimpleMass(value, "kg", SIMPLE_MASS_UNIT[units.mass]);
+    case "energy":
+      return convertEnergy(value, "kcal", units.energy);
+    default:
+      return value;
+  }
+}
+
+export function overrideFromUnits(
+  key: NumericOverride,
+  value: number,
+  units: UnitPreferences,
+): number {
+  switch (SCENARIO_FIELDS[key].quantity) {
+    case "mass":
+      return toKg(value, SIMPLE_MASS_UNIT[units.mass]);
+    case "energy":
+      return toKcal(value, units.energy);
+    default:
+      return value;
+  }
+}
+
+export function fieldInUnits(key: NumericOverride, units: UnitPreferences): ScenarioField {
+  const field = SCENARIO_FIELDS[key];
+  if (!field.quantity) return field;
+  return {
+    ...field,
+    min: overrideToUnits(key, field.min, units),
+    max: overrideToUnits(key, field.max, units),
+    // As in the profile form: kJ values don't land on round kcal steps
+    step: field.quantity === "energy" && units.energy === "kJ" ? 1 : field.step,
+  };
+}
+
+export function scenarioFromLegacyWeight(
+  scenario: Omit<Scenario, "overrides"> & { overrides: LegacyScenarioOverrides },
+  mass: MassUnit,
+): Scenario {
+  const { weight, ...overrides } = scenario.overrides;
+  if (weight == null) return { ...scenario, overrides };
+  return {
+    ...scenario,
+    overrides: {
+      ...overrides,
+      weightKg: overrides.weightKg ?? toKg(weight, SIMPLE_MASS_UNIT[mass]),
+    },
+  };
+}
+
+/* =========================
+   Apply / compare
+========================= */
+
+export function makeScenario(name: string, overrides: ScenarioOverrides = {}): Scenario {
+  return { id: makeId("s"), name, overrides };
+}
+
+// Bounds are checked in kg / kcal and reported in the profile's units
+export function validateOverrides(
+  overrides: ScenarioOverrides,
+  units: UnitPreferences,
+): EngineMessage[] {
+  const issues: EngineMessage[] = [];
+  for (const key of NUMERIC_OVERRIDES) {
+    const value = overrides[key];
+    if (value == null) continue;
+    const field = SCENARIO_FIELDS[key];
+    if (!Number.isFinite(value) || value < field.min || value > field.max) {
+      const shown = fieldInUnits(key, units);
+      issues.push({
+        key: "scenario.outOfRange",
+        params: { field: { keys: [`scenario.field.${key}`] }, min: shown.min, max: shown.max },
+      });
+    }
+  }
+  if (overrides.macroPreset != null && !(overrides.macroPreset in MACRO_PRESETS)) {
+    issues.push({ key: "scenario.unknownPreset", params: { preset: overrides.macroPreset } });
+  }
+  return issues;
+}
+
+export function applyScenario(input: ProfileInput, o: ScenarioOverrides): ProfileInput {
+  return {
+    ...input,
+    ageYears: o.ageYears ?? input.ageYears,
+    weight:
+      o.weightKg != null
+        ? massFromSimpleUnit(fromKg(o.weightKg, SIMPLE_MASS_UNIT[input.units.mass]), input.units.mass)
+        : input.weight,
+    ...(o.bodyFatPercent != null && {
+      bodyFatMode: "known",
+      bodyFatPercent: o.bodyFatPercent,
+      bodyFatEstimate: undefined,
+    }),
+    activity:
+      o.activityMultiplier != null
+        ? { useCustom: true, customMultiplier: o.activityMultiplier }
+        : input.activity,
+    deltas: {
+      cut: o.cutDelta ?? input.deltas.cut,
+      bulk: o.bulkDelta ?? input.deltas.bulk,
+      recomp: o.recompDelta ?? input.deltas.recomp,
+    },
+    macroStrategy: o.macroPreset ? strategyFromPreset(o.macroPreset) : input.macroStrategy,
+  };
+}
+
+/**
+ * Formula-only: an adaptive TDEE from the weight log would mask activity and
+ * body-composition differences between scenarios.
+ */
+export function compareScenarios(input: ProfileInput, scenarios: Scenario[]): ScenarioOutcome[] {
+  return scenarios.map((scenario) => {
+    const issues = validateOverrides(scenario.overrides, input.units);
+    if (issues.length > 0) return { ok: false, scenario, issues };
+    try {
+      return { ok: true, scenario, results: calculateAll(applyScenario(input, scenario.overrides)) };
+    } catch {
+      return { ok: false, scenario, issues: [{ key: "scenario.calculationFailed" }] };
+    }
+  });
+}
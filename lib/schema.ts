@@ -1,5 +1,50 @@
 import { z } from "zod";
-import type { ProfileInput } from "@/types/nutrition";
+import type {
+  ActivityPreset,
+  BmrMethod,
+  BodyFatEstimateInput,
+  EnergyUnit,
+  Goal,
+  JobType,
+  LengthUnit,
+  LifeStage,
+  MassUnit,
+  ProfileInput,
+} from "@/types/nutrition";
+import { estimateBodyFat, type BodyFatEstimateSubject } from "@/lib/bodyFatEstimate";
+import { defaultActivityBuilder, JOB_TYPE_IDS } from "@/lib/activityBuilder";
+import { BMR_METHODS, DEFAULT_BMR_POLICY } from "@/lib/bmrEquations";
+import {
+  ADOLESCENT_MAX_AGE,
+  LIFE_STAGES,
+  lifeStageIssues,
+  OLDER_ADULT_MIN_AGE,
+} from "@/lib/lifeStage";
+import { createTranslator, type Translate } from "@/lib/i18n";
+import { defaultCarbCycling, DAY_TYPES, RATIO_BOUNDS } from "@/lib/carbCycling";
+import {
+  CARB_BOUNDS,
+  FAT_BOUNDS,
+  GOALS,
+  PROTEIN_BOUNDS,
+  strategyFromPreset,
+} from "@/lib/macroStrategy";
+import {
+  ENERGY_UNITS,
+  fromKcal,
+  LENGTH_FIELD,
+  LENGTH_UNITS,
+  lengthFields,
+  lengthToCm,
+  MASS_FIELD,
+  MASS_UNITS,
+  massFields,
+  massToKg,
+  SIMPLE_LENGTH_UNIT,
+  toCm,
+  toKcal,
+  unitsFromSystem,
+} from "@/lib/units";
 
 /**
  * Helpers
@@ -18,140 +63,409 @@ export function normalizeBodyFatPercent(raw: number): number {
   return raw;
 }
 
+const optionalMeasure = z.coerce.number().optional();
+
+export const bodyFatEstimateSchema = z.object({
+  method: z.enum(["navy", "jp3", "jp7", "bmi"]),
+  conversion: z.enum(["siri", "brozek"]),
+  // In the profile's simple length unit (in or cm)
+  neck: optionalMeasure,
+  waist: optionalMeasure,
+  hip: optionalMeasure,
+  skinfoldsMm: z.object({
+    chest: optionalMeasure,
+    abdomen: optionalMeasure,
+    thigh: optionalMeasure,
+    triceps: optionalMeasure,
+    suprailiac: optionalMeasure,
+    subscapular: optionalMeasure,
+    midaxillary: optionalMeasure,
+  }),
+});
+
+export const DEFAULT_BODY_FAT_ESTIMATE: BodyFatEstimateInput = {
+  method: "navy",
+  conversion: "siri",
+  skinfoldsMm: {},
+};
+
+const goalMacroRulesSchema = z.object({
+  protein: z.object({
+    basis: z.enum(["gPerLb", "gPerKg", "gPerKgLean"]),
+    amount: z.coerce.number(),
+  }),
+  fat: z.object({
+    basis: z.enum(["percent", "gPerKg", "minGrams"]),
+    amount: z.coerce.number(),
+  }),
+  carbs: z.object({
+    basis: z.enum(["remainder", "fixed", "ketoCap"]),
+    amount: z.coerce.number().default(0),
+  }),
+});
+
+export const macroStrategySchema = z.object({
+  preset: z.enum(["balanced", "highCarbAthlete", "keto", "lowFat", "custom"]),
+  goals: z.object({
+    maintenance: goalMacroRulesSchema,
+    cut: goalMacroRulesSchema,
+    bulk: goalMacroRulesSchema,
+    recomp: goalMacroRulesSchema,
+  }),
+});
+
+const dayTypeSchema = z.enum(["training", "rest", "highCarb", "lowCarb"]);
+
+const dayTypeRatiosSchema = z.object({
+  carbs: z.coerce.number(),
+  fat: z.coerce.number(),
+});
+
+export const carbCyclingSchema = z.object({
+  enabled: z.coerce.boolean(),
+  days: z.array(dayTypeSchema).length(7),
+  ratios: z.object({
+    training: dayTypeRatiosSchema,
+    rest: dayTypeRatiosSchema,
+    highCarb: dayTypeRatiosSchema,
+    lowCarb: dayTypeRatiosSchema,
+  }),
+});
+
+const bmrMethodSchema = z.enum(BMR_METHODS as [BmrMethod, ...BmrMethod[]]);
+
+export const bmrPolicySchema = z.object({
+  mode: z.enum(["auto", "single", "mean", "median", "weighted"]),
+  method: bmrMethodSchema,
+  weights: z.partialRecord(bmrMethodSchema, z.coerce.number()),
+});
+
+export const unitPreferencesSchema = z.object({
+  energy: z.enum(ENERGY_UNITS as [EnergyUnit, ...EnergyUnit[]]),
+  mass: z.enum(MASS_UNITS as [MassUnit, ...MassUnit[]]),
+  length: z.enum(LENGTH_UNITS as [LengthUnit, ...LengthUnit[]]),
+});
+
+const HEIGHT_REQUIRED = {
+  in: "validation.heightInRequired",
+  ftIn: "validation.heightFtInRequired",
+  cm: "validation.heightCmRequired",
+} as const;
+
+const WEIGHT_REQUIRED = {
+  lb: "validation.weightLbRequired",
+  stLb: "validation.weightStLbRequired",
+  kg: "validation.weightKgRequired",
+} as const;
+
+const WEIGHT_POSITIVE = {
+  lb: "validation.weightLbPositive",
+  stLb: "validation.weightStLbPositive",
+  kg: "validation.weightKgPositive",
+} as const;
+
+const HEIGHT_POSITIVE = {
+  in: "validation.heightInPositive",
+  ftIn: "validation.heightFtInPositive",
+  cm: "validation.heightCmPositive",
+} as const;
+
+export const ACTIVITY_PRESETS = [
+  { key: "sedentary", value: 1.2 },
+  { key: "light", value: 1.375 },
+  { key: "moderate", value: 1.55 },
+  { key: "very", value: 1.725 },
+  { key: "extreme", value: 1.9 },
+] as const satisfies readonly { key: string; value: ActivityPreset }[];
+
+// Custom multipliers, same range as the scenario override
+export const ACTIVITY_MULTIPLIER_BOUNDS = { min: 1, max: 3 } as const;
+
+export const lifeStageSchema = z.enum(LIFE_STAGES as [LifeStage, ...LifeStage[]]);
+
+const workoutSchema = z.object({
+  type: z.string(),
+  minutes: z.coerce.number(),
+  perWeek: z.coerce.number(),
+  mets: z.coerce.number(),
+});
+
+// Only feeds the custom multiplier when applied, so it never blocks the form
+export const activityBuilderSchema = z.object({
+  avgSteps: z.coerce.number(),
+  jobType: z.enum(JOB_TYPE_IDS as [JobType, ...JobType[]]),
+  workouts: z.array(workoutSchema),
+});
+
 /**
  * Schema for "form values" (strings + numbers).
  * We'll transform this into our ProfileInput shape.
+ * Built per locale so validation messages come out translated; the API and
+ * permalinks use the English profileFormSchema below.
  */
-export const profileFormSchema = z
-  .object({
-    unitSystem: z.enum(["us", "metric"]),
-    sex: z.enum(["male", "female"]),
-    ageYears: z.coerce.number().int().positive("Age must be a positive whole number"),
-
-    // Height/weight are split by unit system; we validate depending on selected unit
-    height: z.object({
-      inches: z.coerce.number().optional(),
-      cm: z.coerce.number().optional(),
-    }),
-    weight: z.object({
-      lb: z.coerce.number().optional(),
-      kg: z.coerce.number().optional(),
-    }),
-
-    bodyFatMode: z.enum(["known", "unknown"]),
-    bodyFatPercent: z.coerce.number().optional(),
-
-    activityPreset: z.coerce.number().optional(), // 1.2, 1.375, ...
-    activityUseCustom: z.coerce.boolean().default(false),
-    activityCustom: z.coerce.number().optional(),
-
-    cutDelta: z.coerce.number().default(-500),
-    bulkDelta: z.coerce.number().default(500),
-    recompDelta: z.coerce.number().default(-200),
-
-    bulkProteinGPerLb: z.coerce.number().default(1.0),
-
-    dexaEnabled: z.coerce.boolean().default(false),
-    dexaFatMassKg: z.coerce.number().optional(),
-    dexaLeanMassKg: z.coerce.number().optional(),
-  })
-  .superRefine((val, ctx) => {
-    // Unit-dependent required fields
-    if (val.unitSystem === "us") {
-      if (!val.height.inches || val.height.inches <= 0) {
+export const createProfileFormSchema = (t: Translate) =>
+  z
+    .object({
+      units: unitPreferencesSchema,
+      sex: z.enum(["male", "female"]),
+      ageYears: z.coerce.number().int().positive(t("validation.ageWhole")),
+
+      // Only the fields of the selected units are read (see MassValue / LengthValue)
+      height: z.object({
+        ft: z.coerce.number().optional(),
+        inches: z.coerce.number().optional(),
+        cm: z.coerce.number().optional(),
+      }),
+      weight: z.object({
+        st: z.coerce.number().optional(),
+        lb: z.coerce.number().optional(),
+        kg: z.coerce.number().optional(),
+      }),
+
+      bodyFatMode: z.enum(["known", "unknown", "estimated"]),
+      bodyFatPercent: z.coerce.number().optional(),
+      bodyFatEstimate: bodyFatEstimateSchema.default(() => ({
+        ...DEFAULT_BODY_FAT_ESTIMATE,
+        skinfoldsMm: {},
+      })),
+
+      bmrPolicy: bmrPolicySchema.default(() => ({ ...DEFAULT_BMR_POLICY, weights: {} })),
+      lifeStage: lifeStageSchema.default("standard"),
+
+      activityPreset: z.coerce.number().optional(), // 1.2, 1.375, ...
+      activityUseCustom: z.coerce.boolean().default(false),
+      activityCustom: z.coerce.number().optional(),
+      activityBuilder: activityBuilderSchema.default(defaultActivityBuilder),
+
+      // In units.energy; toProfileInput converts them to kcal
+      cutDelta: z.coerce.number().default(-500),
+      bulkDelta: z.coerce.number().default(500),
+      recompDelta: z.coerce.number().default(-200),
+
+      macroStrategy: macroStrategySchema.default(() => strategyFromPreset("balanced")),
+      carbCycling: carbCyclingSchema.default(defaultCarbCycling),
+
+      dexaEnabled: z.coerce.boolean().default(false),
+      dexaFatMassKg: z.coerce.number().optional(),
+      dexaLeanMassKg: z.coerce.number().optional(),
+      dexaBoneMineralKg: z.coerce.number().optional(),
+    })
+    .superRefine((val, ctx) => {
+      // Unit-dependent required fields: missing and out-of-range get their own messages
+      const heightCm = lengthToCm(val.height, val.units.length);
+      if (heightCm == null || !Number.isFinite(heightCm) || heightCm <= 0) {
+        const missing = heightCm == null || !Number.isFinite(heightCm);
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: "Height (inches) is required",
-          path: ["height", "inches"],
+          message: t((missing ? HEIGHT_REQUIRED : HEIGHT_POSITIVE)[val.units.length]),
+          path: ["height", LENGTH_FIELD[val.units.length]],
         });
       }
-      if (!val.weight.lb || val.weight.lb <= 0) {
+      const weightKg = massToKg(val.weight, val.units.mass);
+      if (weightKg == null || !Number.isFinite(weightKg) || weightKg <= 0) {
+        const missing = weightKg == null || !Number.isFinite(weightKg);
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: "Weight (lb) is required",
-          path: ["weight", "lb"],
+          message: t((missing ? WEIGHT_REQUIRED : WEIGHT_POSITIVE)[val.units.mass]),
+          path: ["weight", MASS_FIELD[val.units.mass]],
         });
       }
-    } else {
-      if (!val.height.cm || val.height.cm <= 0) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "Height (cm) is required",
-          path: ["height", "cm"],
-        });
+
+      // BF% required if mode is known
+      if (val.bodyFatMode === "known") {
+        if (val.bodyFatPercent == null || !Number.isFinite(val.bodyFatPercent)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: t("validation.bodyFatRequired"),
+            path: ["bodyFatPercent"],
+          });
+        }
       }
-      if (!val.weight.kg || val.weight.kg <= 0) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "Weight (kg) is required",
-          path: ["weight", "kg"],
-        });
+
+      // Estimated BF%: the chosen method needs its measurements and a plausible result
+      if (val.bodyFatMode === "estimated") {
+        const subject = bodyFatSubjectFromForm(val);
+        if (subject) {
+          const est = estimateBodyFat(val.bodyFatEstimate.method, subject);
+          if (est.percent == null) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: t("validation.estimateNeeds", {
+                method: t(`estimate.${est.method}`),
+                missing: est.missing.map((key) => t(key)).join(", "),
+              }),
+              path: ["bodyFatEstimate", "method"],
+            });
+          }
+        }
       }
-    }
 
-    // BF% required if mode is known
-    if (val.bodyFatMode === "known") {
-      if (val.bodyFatPercent == null || !Number.isFinite(val.bodyFatPercent)) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "Body fat % is required when you choose \"I know my BF%\"",
-          path: ["bodyFatPercent"],
-        });
+      // Life stage must fit sex and age; "standard" adapts to age on its own
+      const lifeStageMessages = {
+        femaleOnly: () => t("validation.lifeStageFemaleOnly", { stage: t(`lifeStage.${val.lifeStage}`) }),
+        olderAdultAge: () => t("validation.lifeStageOlderAdultAge", { age: OLDER_ADULT_MIN_AGE }),
+        adolescentAge: () => t("validation.lifeStageAdolescentAge", { age: ADOLESCENT_MAX_AGE }),
+      };
+      for (const issue of lifeStageIssues(val.lifeStage, val.sex, val.ageYears)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: lifeStageMessages[issue](), path: ["lifeStage"] });
       }
-    }
 
-    // Activity multiplier
-    if (val.activityUseCustom) {
-      if (val.activityCustom == null || !Number.isFinite(val.activityCustom)) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "Custom activity multiplier is required",
-          path: ["activityCustom"],
-        });
+      // Weighted BMR blend: relative weights, at least one of them positive
+      if (val.bmrPolicy.mode === "weighted") {
+        const weights = Object.entries(val.bmrPolicy.weights);
+        for (const [method, w] of weights) {
+          if (!Number.isFinite(w) || w < 0) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: t("validation.blendWeightNonNegative"),
+              path: ["bmrPolicy", "weights", method],
+            });
+          }
+        }
+        if (!weights.some(([, w]) => w > 0)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: t("validation.blendWeightPositive"),
+            path: ["bmrPolicy", "mode"],
+          });
+        }
       }
-    } else {
-      if (val.activityPreset == null || !Number.isFinite(val.activityPreset)) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "Choose an activity preset (or enable custom)",
-          path: ["activityPreset"],
-        });
+
+      // Activity multiplier
+      if (val.activityUseCustom) {
+        if (val.activityCustom == null || !Number.isFinite(val.activityCustom)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: t("validation.activityCustomRequired"),
+            path: ["activityCustom"],
+          });
+        } else if (
+          val.activityCustom < ACTIVITY_MULTIPLIER_BOUNDS.min ||
+          val.activityCustom > ACTIVITY_MULTIPLIER_BOUNDS.max
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: t("validation.activityCustomRange", ACTIVITY_MULTIPLIER_BOUNDS),
+            path: ["activityCustom"],
+          });
+        }
+      } else {
+        if (val.activityPreset == null || !Number.isFinite(val.activityPreset)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: t("validation.activityPresetRequired"),
+            path: ["activityPreset"],
+          });
+        } else if (!ACTIVITY_PRESETS.some((p) => p.value === val.activityPreset)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: t("validation.activityPresetInvalid", {
+              values: ACTIVITY_PRESETS.map((p) => p.value).join(", "),
+            }),
+            path: ["activityPreset"],
+          });
+        }
       }
-    }
 
-    // DEXA: if enabled, at least one of the masses should exist
-    if (val.dexaEnabled) {
-      const hasFat = val.dexaFatMassKg != null && Number.isFinite(val.dexaFatMassKg) && val.dexaFatMassKg > 0;
-      const hasLean = val.dexaLeanMassKg != null && Number.isFinite(val.dexaLeanMassKg) && val.dexaLeanMassKg > 0;
-      if (!hasFat && !hasLean) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "If DEXA is enabled, enter fat mass, lean mass, or both.",
-          path: ["dexaFatMassKg"],
-        });
+      // DEXA: if enabled, at least one of the masses should exist
+      if (val.dexaEnabled) {
+        const hasFat = val.dexaFatMassKg != null && Number.isFinite(val.dexaFatMassKg) && val.dexaFatMassKg > 0;
+        const hasLean = val.dexaLeanMassKg != null && Number.isFinite(val.dexaLeanMassKg) && val.dexaLeanMassKg > 0;
+        if (!hasFat && !hasLean) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: t("validation.dexaMassRequired"),
+            path: ["dexaFatMassKg"],
+          });
+        }
       }
-    }
-
-    // Bulk protein slider bounds (0.7 to 1.0)
-    if (!Number.isFinite(val.bulkProteinGPerLb)) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "Bulk protein target must be a number",
-        path: ["bulkProteinGPerLb"],
-      });
-    } else {
-      if (val.bulkProteinGPerLb < 0.7 || val.bulkProteinGPerLb > 1.0) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "Bulk protein target should be between 0.7 and 1.0 g/lb",
-          path: ["bulkProteinGPerLb"],
-        });
+
+      // Carb cycling multipliers only matter (and are only editable) when it's on
+      if (val.carbCycling.enabled) {
+        for (const dayType of DAY_TYPES) {
+          for (const key of ["carbs", "fat"] as const) {
+            const n = val.carbCycling.ratios[dayType][key];
+            if (!Number.isFinite(n) || n < RATIO_BOUNDS.min || n > RATIO_BOUNDS.max) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: t("validation.ratioRange", RATIO_BOUNDS),
+                path: ["carbCycling", "ratios", dayType, key],
+              });
+            }
+          }
+        }
+      }
+
+      // Macro strategy: each rule's amount must sit inside its basis' bounds
+      for (const goal of GOALS) {
+        const rules = val.macroStrategy.goals[goal];
+        const checks = [
+          { key: "protein" as const, amount: rules.protein.amount, bounds: PROTEIN_BOUNDS[rules.protein.basis] },
+          { key: "fat" as const, amount: rules.fat.amount, bounds: FAT_BOUNDS[rules.fat.basis] },
+          ...(rules.carbs.basis === "remainder"
+            ? []
+            : [{ key: "carbs" as const, amount: rules.carbs.amount, bounds: CARB_BOUNDS[rules.carbs.basis] }]),
+        ];
+        for (const { key, amount, bounds } of checks) {
+          if (!Number.isFinite(amount)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: t("validation.macroNumber", { macro: t(`macro.${key}`) }),
+              path: ["macroStrategy", "goals", goal, key, "amount"],
+            });
+          } else if (amount < bounds.min || amount > bounds.max) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: t("validation.macroRange", { macro: t(`macro.${key}`), ...bounds }),
+              path: ["macroStrategy", "goals", goal, key, "amount"],
+            });
+          }
+        }
       }
-    }
-  });
+    });
+
+export const profileFormSchema = createProfileFormSchema(createTranslator("en"));
 
 export type ProfileFormValues = z.infer<typeof profileFormSchema>;
 
+/**
+ * Height and weight from form values, normalized to cm/kg.
+ * Undefined while either is still missing.
+ */
+export function bodySizeFromForm(
+  v: Pick<ProfileFormValues, "units" | "height" | "weight">,
+): { heightCm: number; weightKg: number } | undefined {
+  const heightCm = lengthToCm(v.height, v.units.length);
+  const weightKg = massToKg(v.weight, v.units.mass);
+  if (!heightCm || !weightKg) return undefined;
+  return { heightCm, weightKg };
+}
+
+/**
+ * Body-fat estimate inputs from form values, normalized to cm/kg.
+ * Undefined while height or weight is still missing.
+ */
+export function bodyFatSubjectFromForm(
+  v: Pick<ProfileFormValues, "units" | "sex" | "ageYears" | "height" | "weight" | "bodyFatEstimate">,
+): BodyFatEstimateSubject | undefined {
+  const size = bodySizeFromForm(v);
+  if (!size || !v.bodyFatEstimate) return undefined;
+
+  const girthUnit = SIMPLE_LENGTH_UNIT[v.units.length];
+  const girthCm = (n?: number) => (n != null ? toCm(n, girthUnit) : n);
+  const est = v.bodyFatEstimate;
+  return {
+    sex: v.sex,
+    ageYears: v.ageYears,
+    ...size,
+    neckCm: girthCm(est.neck),
+    waistCm: girthCm(est.waist),
+    hipCm: girthCm(est.hip),
+    skinfoldsMm: est.skinfoldsMm,
+    conversion: est.conversion,
+  };
+}
+
 /**
  * Convert validated form values into ProfileInput (our app's canonical shape).
  */
@@ -160,32 +474,32 @@ export function toProfileInput(v: ProfileFormValues): ProfileInput {
     ? (v.activityCustom as number)
     : (v.activityPreset as number);
 
+  const subject = v.bodyFatMode === "estimated" ? bodyFatSubjectFromForm(v) : undefined;
   const bfPercent =
     v.bodyFatMode === "known" && v.bodyFatPercent != null
       ? normalizeBodyFatPercent(v.bodyFatPercent)
-      : undefined;
+      : subject
+        ? estimateBodyFat(v.bodyFatEstimate.method, subject).percent
+        : undefined;
 
   // Give a gentle clamp to BF% if user enters something wild (still allow Zod to enforce presence)
   const normalizedBf =
     bfPercent != null ? clamp(bfPercent, 0, 80) : undefined;
 
   return {
-    unitSystem: v.unitSystem,
+    units: v.units,
     sex: v.sex,
     ageYears: v.ageYears,
 
-    height: {
-      inches: v.unitSystem === "us" ? v.height.inches : undefined,
-      cm: v.unitSystem === "metric" ? v.height.cm : undefined,
-    },
-
-    weight: {
-      lb: v.unitSystem === "us" ? v.weight.lb : undefined,
-      kg: v.unitSystem === "metric" ? v.weight.kg : undefined,
-    },
+    height: lengthFields(v.height, v.units.length),
+    weight: massFields(v.weight, v.units.mass),
 
     bodyFatMode: v.bodyFatMode,
     bodyFatPercent: normalizedBf,
+    bodyFatEstimate: v.bodyFatMode === "estimated" ? v.bodyFatEstimate : undefined,
+
+    bmrPolicy: v.bmrPolicy.mode === "auto" ? undefined : v.bmrPolicy,
+    lifeStage: v.lifeStage === "standard" ? undefined : v.lifeStage,
 
     activity: {
       preset: v.activityUseCustom ? undefined : (v.activityPreset as any),
@@ -194,17 +508,234 @@ export function toProfileInput(v: ProfileFormValues): ProfileInput {
     },
 
     deltas: {
-      cut: v.cutDelta,
-      bulk: v.bulkDelta,
-      recomp: v.recompDelta,
+      cut: toKcal(v.cutDelta, v.units.energy),
+      bulk: toKcal(v.bulkDelta, v.units.energy),
+      recomp: toKcal(v.recompDelta, v.units.energy),
     },
 
-    bulkProteinGPerLb: v.bulkProteinGPerLb,
+    macroStrategy: v.macroStrategy,
+    carbCycling: v.carbCycling.enabled ? v.carbCycling : undefined,
 
     dexa: {
       enabled: v.dexaEnabled,
       fatMassKg: v.dexaEnabled ? v.dexaFatMassKg : undefined,
       leanMassKg: v.dexaEnabled ? v.dexaLeanMassKg : undefined,
+      boneMineralKg: v.dexaEnabled ? v.dexaBoneMineralKg : undefined,
     },
   };
 }
+
+/**
+ * Saved profiles, links and API bodies from before the unit split carry a
+ * single unitSystem; swap it for the matching units so they still parse.
+ */
+export function withUnitPreferences(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw) || "units" in raw) return raw;
+  const { unitSystem, ...rest } = raw as Record<string, unknown>;
+  if (unitSystem !== "us" && unitSystem !== "metric") return raw;
+  return { ...rest, units: unitsFromSystem(unitSystem) };
+}
+
+/**
+ * ProfileInput as sent by API callers that already work in the canonical shape.
+ * Only checks structure; profileFormSchema still does the real validation.
+ */
+export const profileInputSchema = z.object({
+  units: unitPreferencesSchema,
+  sex: z.enum(["male", "female"]),
+  ageYears: z.number(),
+  height: z.object({
+    cm: z.number().optional(),
+    inches: z.number().optional(),
+    ft: z.number().optional(),
+  }),
+  weight: z.object({
+    kg: z.number().optional(),
+    lb: z.number().optional(),
+    st: z.number().optional(),
+  }),
+  bodyFatMode: z.enum(["known", "unknown", "estimated"]),
+  bodyFatPercent: z.number().optional(),
+  bodyFatEstimate: bodyFatEstimateSchema.optional(),
+  bmrPolicy: bmrPolicySchema.optional(),
+  lifeStage: lifeStageSchema.optional(),
+  activity: z.object({
+    preset: z.number().optional(),
+    useCustom: z.boolean(),
+    customMultiplier: z.number().optional(),
+  }),
+  deltas: z.object({ cut: z.number(), bulk: z.number(), recomp: z.number() }),
+  macroStrategy: macroStrategySchema.optional(),
+  carbCycling: carbCyclingSchema.optional(),
+  dexa: z
+    .object({
+      enabled: z.boolean(),
+      fatMassKg: z.number().optional(),
+      leanMassKg: z.number().optional(),
+      boneMineralKg: z.number().optional(),
+    })
+    .optional(),
+});
+
+// Form field -> ProfileInput path, so validation errors point at what the caller sent
+export const PROFILE_INPUT_PATHS: Record<string, string> = {
+  activityPreset: "activity.preset",
+  activityUseCustom: "activity.useCustom",
+  activityCustom: "activity.customMultiplier",
+  cutDelta: "deltas.cut",
+  bulkDelta: "deltas.bulk",
+  recompDelta: "deltas.recomp",
+  dexaEnabled: "dexa.enabled",
+  dexaFatMassKg: "dexa.fatMassKg",
+  dexaLeanMassKg: "dexa.leanMassKg",
+  dexaBoneMineralKg: "dexa.boneMineralKg",
+};
+
+/**
+ * Inverse of toProfileInput: ProfileInput -> unvalidated form values.
+ * Feed the result through profileFormSchema before using it.
+ */
+export function fromProfileInput(p: z.infer<typeof profileInputSchema>): Record<string, unknown> {
+  return {
+    units: p.units,
+    sex: p.sex,
+    ageYears: p.ageYears,
+    height: p.height,
+    weight: p.weight,
+    bodyFatMode: p.bodyFatMode,
+    bodyFatPercent: p.bodyFatPercent,
+    bodyFatEstimate: p.bodyFatEstimate,
+    bmrPolicy: p.bmrPolicy,
+    lifeStage: p.lifeStage,
+    activityPreset: p.activity.preset,
+    activityUseCustom: p.activity.useCustom,
+    activityCustom: p.activity.customMultiplier,
+    cutDelta: fromKcal(p.deltas.cut, p.units.energy),
+    bulkDelta: fromKcal(p.deltas.bulk, p.units.energy),
+    recompDelta: fromKcal(p.deltas.recomp, p.units.energy),
+    macroStrategy: p.macroStrategy,
+    carbCycling: p.carbCycling,
+    dexaEnabled: p.dexa?.enabled ?? false,
+    dexaFatMassKg: p.dexa?.fatMassKg,
+    dexaLeanMassKg: p.dexa?.leanMassKg,
+    dexaBoneMineralKg: p.dexa?.boneMineralKg,
+  };
+}
+
+/**
+ * Records in a backup file (lib/backup.ts). Each one is checked on its own so
+ * a bad record doesn't sink the rest; profile values still go through
+ * profileFormSchema.
+ */
+const isoDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+const nutrientsSchema = z.object({
+  calories: z.number().nonnegative(),
+  proteinG: z.number().nonnegative(),
+  fatG: z.number().nonnegative(),
+  carbsG: z.number().nonnegative(),
+});
+
+const goalSchema = z.enum(GOALS as [Goal, ...Goal[]]);
+
+export const clientSnapshotSchema = z.object({
+  input: profileInputSchema,
+  bmr: z.number(),
+  tdee: z.number(),
+  targets: z.object({
+    maintenance: nutrientsSchema,
+    cut: nutrientsSchema,
+    bulk: nutrientsSchema,
+    recomp: nutrientsSchema,
+  }),
+  computedAt: z.number(),
+});
+
+export const scenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  overrides: z.object({
+    ageYears: z.number().optional(),
+    weightKg: z.number().optional(),
+    // Backups before version 2: in the profile's simple mass unit, see scenarioFromLegacyWeight
+    weight: z.number().optional(),
+    bodyFatPercent: z.number().optional(),
+    activityMultiplier: z.number().optional(),
+    cutDelta: z.number().optional(),
+    bulkDelta: z.number().optional(),
+    recompDelta: z.number().optional(),
+    macroPreset: z.enum(["balanced", "highCarbAthlete", "keto", "lowFat"]).optional(),
+  }),
+});
+
+export const weightLogEntrySchema = z.object({
+  date: isoDaySchema,
+  weightKg: z.number().positive().optional(),
+  intakeKcal: z.number().nonnegative().optional(),
+});
+
+export const weightLogSettingsSchema = z.object({
+  windowDays: z.number().int().positive(),
+  useAdaptiveTdee: z.boolean(),
+});
+
+const dexaRegionMassesSchema = z.object({
+  fatMassKg: z.number().nonnegative().optional(),
+  leanMassKg: z.number().nonnegative().optional(),
+  bmcKg: z.number().nonnegative().optional(),
+});
+
+export const dexaScanSchema = z.object({
+  id: z.string().min(1),
+  date: isoDaySchema.optional(),
+  source: z.string().optional(),
+  regions: z.partialRecord(
+    z.enum(["total", "arms", "legs", "trunk", "android", "gynoid"]),
+    dexaRegionMassesSchema,
+  ),
+});
+
+export const foodSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  brand: z.string().optional(),
+  per100g: nutrientsSchema,
+  serving: z.object({ label: z.string(), grams: z.number().positive() }).optional(),
+  tags: z.array(z.enum(["meat", "fish", "dairy", "egg"])).optional(),
+  custom: z.boolean().optional(),
+});
+
+export const foodLogEntrySchema = z.object({
+  id: z.string().min(1),
+  foodId: z.string(),
+  name: z.string(),
+  grams: z.number().positive(),
+  per100g: nutrientsSchema,
+});
+
+// Values are checked separately: empty for a profile nobody has filled in yet, else profileFormSchema
+export const backupProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  values: z.record(z.string(), z.unknown()),
+  scenarios: z.array(scenarioSchema).optional(),
+  tags: z.array(z.string()).optional(),
+  goal: goalSchema.optional(),
+  snapshot: clientSnapshotSchema.optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  weightLog: z.array(weightLogEntrySchema).optional(),
+  weightLogSettings: weightLogSettingsSchema.optional(),
+  // Keyed by YYYY-MM-DD
+  foodLog: z.record(isoDaySchema, z.array(foodLogEntrySchema)).optional(),
+  dexaScans: z.array(dexaScanSchema).optional(),
+});
+
+// The envelope only; profiles and foods are validated one by one
+export const backupFileSchema = z.object({
+  format: z.literal("nutrition-calculator-backup"),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  profiles: z.array(z.unknown()),
+  customFoods: z.array(z.unknown()).default([]),
+});
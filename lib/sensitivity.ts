@@ -0,0 +1,161 @@
+import type { Goal, ProfileInput } from "@/types/nutrition";
+import { calculateAll } from "@/lib/calcs";
+import type { DiagnosticCode } from "@/lib/diagnostics";
+import {
+  applyScenario,
+  fieldInUnits,
+  overrideFromUnits,
+  overrideToUnits,
+  type NumericOverride,
+} from "@/lib/scenarios";
+import { massInSimpleUnit } from "@/lib/units";
+
+/**
+ * Sensitivity sweep: re-run calculateAll while one input moves across a range,
+ * and note where warnings switch on or off along the way. x is in the
+ * profile's units (lb or kg, kcal or kJ).
+ */
+
+/* =========================
+   Types
+========================= */
+
+export type SweepParam = Extract<
+  NumericOverride,
+  "weightKg" | "bodyFatPercent" | "ageYears" | "activityMultiplier" | "cutDelta"
+>;
+
+export type SweepRange = { from: number; to: number; steps: number };
+
+export type SweepPoint = {
+  x: number;
+  bmr: number;
+  tdee: number;
+  calories: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  warnings: DiagnosticCode[];
+};
+
+export type WarningChange = {
+  x: number;
+  code: DiagnosticCode;
+  starts: boolean; // false = stops firing at x
+};
+
+export type SweepResult = {
+  points: SweepPoint[];
+  changes: WarningChange[];
+  // Firing at the very first point, so there's no onset to mark
+  activeAtStart: DiagnosticCode[];
+};
+
+/* =========================
+   Params
+========================= */
+
+export const SWEEP_PARAMS: SweepParam[] = [
+  "weightKg",
+  "bodyFatPercent",
+  "ageYears",
+  "activityMultiplier",
+  "cutDelta",
+];
+
+export const DEFAULT_SWEEP_STEPS = 40;
+export const MAX_SWEEP_STEPS = 100;
+
+export function currentValue(input: ProfileInput, param: SweepParam): number | undefined {
+  switch (param) {
+    case "weightKg":
+      return massInSimpleUnit(input.weight, input.units.mass);
+    case "bodyFatPercent":
+      return input.bodyFatMode === "unknown" ? undefined : input.bodyFatPercent;
+    case "ageYears":
+      return input.ageYears;
+    case "activityMultiplier":
+      return input.activity.useCustom ? input.activity.customMultiplier : input.activity.preset;
+    case "cutDelta":
+      return overrideToUnits(param, input.deltas.cut, input.units);
+  }
+}
+
+function clampToField(input: ProfileInput, param: SweepParam, n: number) {
+  const field = fieldInUnits(param, input.units);
+  return Math.max(field.min, Math.min(field.max, n));
+}
+
+// A range around the profile's current value
+export function defaultRange(input: ProfileInput, param: SweepParam): SweepRange {
+  const current = currentValue(input, param);
+  const around = (lo: number, hi: number) => ({
+    from: clampToField(input, param, lo),
+    to: clampToField(input, param, hi),
+    steps: DEFAULT_SWEEP_STEPS,
+  });
+  switch (param) {
+    case "weightKg":
+      return around(Math.round((current ?? 70) * 0.8), Math.round((current ?? 70) * 1.2));
+    case "bodyFatPercent":
+      return around(8, 40);
+    case "ageYears":
+      return around(18, 80);
+    case "activityMultiplier":
+      return around(1.2, 1.9);
+    case "cutDelta":
+      // Mild to aggressive, so warnings read as "starts"
+      return around(
+        overrideToUnits(param, -100, input.units),
+        overrideToUnits(param, -1200, input.units),
+      );
+  }
+}
+
+/* =========================
+   Sweep
+========================= */
+
+export function runSweep(
+  input: ProfileInput,
+  param: SweepParam,
+  range: SweepRange,
+  goal: Goal,
+): SweepResult {
+  const from = clampToField(input, param, range.from);
+  const to = clampToField(input, param, range.to);
+  const steps = Math.max(2, Math.min(MAX_SWEEP_STEPS, Math.round(range.steps)));
+
+  const points: SweepPoint[] = [];
+  for (let i = 0; i < steps; i++) {
+    const x = from + ((to - from) * i) / (steps - 1);
+    try {
+      const r = calculateAll(
+        applyScenario(input, { [param]: overrideFromUnits(param, x, input.units) }),
+      );
+      points.push({
+        x,
+        bmr: r.bmr.recommendedBmr,
+        tdee: r.formulaTdee,
+        calories: r[goal].calories,
+        proteinG: r[goal].proteinG,
+        fatG: r[goal].fatG,
+        carbsG: r[goal].carbsG,
+        // Profile-wide warnings plus the ones for the goal being plotted
+        warnings: r.warnings.filter((w) => !w.goal || w.goal === goal).map((w) => w.code),
+      });
+    } catch {
+      // Skip points the engine can't handle; the line just has a gap
+    }
+  }
+
+  const changes: WarningChange[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const before = new Set(points[i - 1].warnings);
+    const now = new Set(points[i].warnings);
+    for (const code of now) if (!before.has(code)) changes.push({ x: points[i].x, code, starts: true });
+    for (const code of before) if (!now.has(code)) changes.push({ x: points[i].x, code, starts: false });
+  }
+
+  return { points, changes, activeAtStart: [...new Set(points[0]?.warnings ?? [])] };
+}
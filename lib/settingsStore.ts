@@ -0,0 +1,55 @@
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { DEFAULT_LOCALE, detectLocale, type Locale } from "@/lib/i18n";
+
+/* =========================
+   Types
+========================= */
+
+type PersistedSettings = {
+  // "auto" follows the browser's language list
+  locale: Locale | "auto";
+};
+
+export type SettingsStore = PersistedSettings & {
+  // Resolved from navigator.languages after hydration; not persisted
+  browserLocale: Locale;
+  setLocale: (locale: Locale | "auto") => void;
+};
+
+/* =========================
+   Helpers
+========================= */
+
+const STORAGE_KEY = "nutrition-calculator:settings";
+
+export const SETTINGS_STORE_VERSION = 1;
+
+/* =========================
+   Store
+========================= */
+
+export const useSettingsStore = create<SettingsStore>()(
+  persist(
+    (set) => ({
+      locale: "auto",
+      browserLocale: DEFAULT_LOCALE,
+
+      setLocale: (locale) => set({ locale }),
+    }),
+    {
+      name: STORAGE_KEY,
+      version: SETTINGS_STORE_VERSION,
+      storage: createJSONStorage(() => localStorage),
+      // Hydrate from a client effect so SSR markup (English) matches the first client render
+      skipHydration: true,
+      partialize: (s): PersistedSettings => ({ locale: s.locale }),
+      onRehydrateStorage: () => () => {
+        useSettingsStore.setState({ browserLocale: detectLocale(navigator.languages ?? []) });
+      },
+    },
+  ),
+);
+
+export const selectLocale = (s: SettingsStore): Locale =>
+  s.locale === "auto" ? s.browserLocale : s.locale;
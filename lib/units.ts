@@ -0,0 +1,227 @@
+import type {
+  EnergyUnit,
+  LengthUnit,
+  LengthValue,
+  MassUnit,
+  MassValue,
+  UnitPreferences,
+  UnitSystem,
+} from "@/types/nutrition";
+
+/**
+ * Unit conversion. The engine works in kg / cm / kcal; profiles keep what the
+ * user typed in their own units (see ProfileInput) and are normalized here.
+ * Compound units keep the whole part and the remainder in separate fields:
+ * 12 st 8 lb is { st: 12, lb: 8 }, 5 ft 11 in is { ft: 5, inches: 11 }.
+ */
+
+/* =========================
+   Units
+========================= */
+
+export const ENERGY_UNITS: EnergyUnit[] = ["kcal", "kJ"];
+export const MASS_UNITS: MassUnit[] = ["lb", "kg", "stLb"];
+export const LENGTH_UNITS: LengthUnit[] = ["in", "ftIn", "cm"];
+
+// Single-number unit for values a compound unit can't express (log entries, girths, sweeps)
+export type SimpleMassUnit = "lb" | "kg";
+export type SimpleLengthUnit = "in" | "cm";
+
+export const SIMPLE_MASS_UNIT: Record<MassUnit, SimpleMassUnit> = {
+  lb: "lb",
+  kg: "kg",
+  stLb: "lb",
+};
+
+export const SIMPLE_LENGTH_UNIT: Record<LengthUnit, SimpleLengthUnit> = {
+  in: "in",
+  ftIn: "in",
+  cm: "cm",
+};
+
+// The MassValue / LengthValue field holding the whole part, e.g. for pointing errors at it
+export const MASS_FIELD: Record<MassUnit, keyof MassValue> = { lb: "lb", kg: "kg", stLb: "st" };
+export const LENGTH_FIELD: Record<LengthUnit, keyof LengthValue> = {
+  in: "inches",
+  ftIn: "ft",
+  cm: "cm",
+};
+
+export const DEFAULT_UNITS: UnitPreferences = { energy: "kcal", mass: "lb", length: "in" };
+
+// Profiles saved before the preferences were split had a single system
+export function unitsFromSystem(system: UnitSystem): UnitPreferences {
+  return system === "metric"
+    ? { energy: "kcal", mass: "kg", length: "cm" }
+    : { energy: "kcal", mass: "lb", length: "in" };
+}
+
+/* =========================
+   Factors
+========================= */
+
+export const KG_PER_LB = 0.45359237;
+export const LB_PER_ST = 14;
+export const CM_PER_IN = 2.54;
+export const IN_PER_FT = 12;
+export const KJ_PER_KCAL = 4.184;
+
+export const lbToKg = (lb: number) => lb * KG_PER_LB;
+export const kgToLb = (kg: number) => kg / KG_PER_LB;
+export const inToCm = (inches: number) => inches * CM_PER_IN;
+export const cmToIn = (cm: number) => cm / CM_PER_IN;
+
+export const toKg = (n: number, unit: SimpleMassUnit) => (unit === "lb" ? lbToKg(n) : n);
+export const fromKg = (kg: number, unit: SimpleMassUnit) => (unit === "lb" ? kgToLb(kg) : kg);
+export const toCm = (n: number, unit: SimpleLengthUnit) => (unit === "in" ? inToCm(n) : n);
+export const fromCm = (cm: number, unit: SimpleLengthUnit) => (unit === "in" ? cmToIn(cm) : cm);
+export const toKcal = (n: number, unit: EnergyUnit) => (unit === "kJ" ? n / KJ_PER_KCAL : n);
+export const fromKcal = (kcal: number, unit: EnergyUnit) =>
+  unit === "kJ" ? kcal * KJ_PER_KCAL : kcal;
+
+/* =========================
+   Compound values
+========================= */
+
+const finite = (n?: number): n is number => n != null && Number.isFinite(n);
+
+// A blank remainder counts as zero; undefined while both parts are blank
+function combine(whole: number | undefined, rest: number | undefined, perWhole: number) {
+  if (!finite(whole) && !finite(rest)) return undefined;
+  return (finite(whole) ? whole * perWhole : 0) + (finite(rest) ? rest : 0);
+}
+
+function split(total: number, perWhole: number) {
+  const whole = Math.floor(total / perWhole);
+  return { whole, rest: total - whole * perWhole };
+}
+
+const roundTo = (n: number, digits: number) => {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+};
+
+/** A mass as one number in the unit's SIMPLE_MASS_UNIT (st + lb -> lb). */
+export function massInSimpleUnit(value: MassValue, unit: MassUnit): number | undefined {
+  switch (unit) {
+    case "kg":
+      return value.kg;
+    case "lb":
+      return value.lb;
+    case "stLb":
+      return combine(value.st, value.lb, LB_PER_ST);
+  }
+}
+
+export function massFromSimpleUnit(n: number, unit: MassUnit): MassValue {
+  switch (unit) {
+    case "kg":
+      return { kg: n };
+    case "lb":
+      return { lb: n };
+    case "stLb": {
+      const { whole, rest } = split(n, LB_PER_ST);
+      return { st: whole, lb: rest };
+    }
+  }
+}
+
+export function lengthInSimpleUnit(value: LengthValue, unit: LengthUnit): number | undefined {
+  switch (unit) {
+    case "cm":
+      return value.cm;
+    case "in":
+      return value.inches;
+    case "ftIn":
+      return combine(value.ft, value.inches, IN_PER_FT);
+  }
+}
+
+export function lengthFromSimpleUnit(n: number, unit: LengthUnit): LengthValue {
+  switch (unit) {
+    case "cm":
+      return { cm: n };
+    case "in":
+      return { inches: n };
+    case "ftIn": {
+      const { whole, rest } = split(n, IN_PER_FT);
+      return { ft: whole, inches: rest };
+    }
+  }
+}
+
+// Just the fields the unit reads, dropping leftovers from another unit
+export function massFields(value: MassValue, unit: MassUnit): MassValue {
+  return unit === "stLb"
+    ? { st: value.st, lb: value.lb }
+    : { [MASS_FIELD[unit]]: value[MASS_FIELD[unit]] };
+}
+
+export function lengthFields(value: LengthValue, unit: LengthUnit): LengthValue {
+  return unit === "ftIn"
+    ? { ft: value.ft, inches: value.inches }
+    : { [LENGTH_FIELD[unit]]: value[LENGTH_FIELD[unit]] };
+}
+
+export function massToKg(value: MassValue, unit: MassUnit): number | undefined {
+  const n = massInSimpleUnit(value, unit);
+  return n != null ? toKg(n, SIMPLE_MASS_UNIT[unit]) : undefined;
+}
+
+export function lengthToCm(value: LengthValue, unit: LengthUnit): number | undefined {
+  const n = lengthInSimpleUnit(value, unit);
+  return n != null ? toCm(n, SIMPLE_LENGTH_UNIT[unit]) : undefined;
+}
+
+/**
+ * Re-express an entered value in another unit, rounded for an input field.
+ * The total is rounded before splitting, so 179.96 lb never becomes 12 st 14 lb.
+ * Empty when the value isn't entered yet.
+ */
+export function convertMass(value: MassValue, from: MassUnit, to: MassUnit, digits = 1): MassValue {
+  const kg = massToKg(value, from);
+  if (kg == null) return {};
+  const total = roundTo(fromKg(kg, SIMPLE_MASS_UNIT[to]), digits);
+  const converted = massFromSimpleUnit(total, to);
+  // Splitting leaves float noise in the remainder (11.900000000000006)
+  return to === "stLb" ? { ...converted, lb: roundTo(converted.lb as number, digits) } : converted;
+}
+
+export function convertLength(
+  value: LengthValue,
+  from: LengthUnit,
+  to: LengthUnit,
+  digits = 1,
+): LengthValue {
+  const cm = lengthToCm(value, from);
+  if (cm == null) return {};
+  const total = roundTo(fromCm(cm, SIMPLE_LENGTH_UNIT[to]), digits);
+  const converted = lengthFromSimpleUnit(total, to);
+  return to === "ftIn"
+    ? { ...converted, inches: roundTo(converted.inches as number, digits) }
+    : converted;
+}
+
+/** A single number from one unit to another, e.g. a scenario weight from kg to lb. */
+export function convertSimpleMass(
+  n: number,
+  from: SimpleMassUnit,
+  to: SimpleMassUnit,
+  digits = 1,
+): number {
+  return from === to ? n : roundTo(fromKg(toKg(n, from), to), digits);
+}
+
+/** A single number from one unit to another, e.g. a girth from in to cm. */
+export function convertSimpleLength(
+  n: number,
+  from: SimpleLengthUnit,
+  to: SimpleLengthUnit,
+  digits = 1,
+): number {
+  return from === to ? n : roundTo(fromCm(toCm(n, from), to), digits);
+}
+
+export function convertEnergy(n: number, from: EnergyUnit, to: EnergyUnit, digits = 0): number {
+  return from === to ? n : roundTo(fromKcal(toKcal(n, from), to), digits);
+}
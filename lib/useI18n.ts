@@ -0,0 +1,13 @@
+import { useMemo } from "react";
+import { createTranslator } from "@/lib/i18n";
+import { formatters } from "@/lib/format";
+import { selectLocale, useSettingsStore } from "@/lib/settingsStore";
+
+/** The active locale with its translator and number formatters. */
+export function useI18n() {
+  const locale = useSettingsStore(selectLocale);
+  return useMemo(
+    () => ({ locale, t: createTranslator(locale), fmt: formatters(locale) }),
+    [locale],
+  );
+}
@@ -0,0 +1,128 @@
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import type { WeightLogEntry } from "@/lib/adaptiveTdee";
+
+/* =========================
+   Types
+========================= */
+
+export type WeightLogSettings = {
+  windowDays: number;
+  useAdaptiveTdee: boolean;
+};
+
+type PersistedWeightLogs = {
+  // Keyed by SavedProfile.id; entries are kept sorted by date, one per day
+  logs: Record<string, WeightLogEntry[]>;
+  settings: Record<string, WeightLogSettings>;
+};
+
+export type WeightLogStore = PersistedWeightLogs & {
+  upsertEntry: (profileId: string, entry: WeightLogEntry) => void;
+  removeEntry: (profileId: string, date: string) => void;
+  updateSettings: (profileId: string, patch: Partial<WeightLogSettings>) => void;
+  // Backup import: the profile's whole log, and its settings when given
+  replaceLog: (profileId: string, entries: WeightLogEntry[], settings?: WeightLogSettings) => void;
+  // Drops the log and settings of a deleted profile
+  removeProfile: (profileId: string) => void;
+};
+
+/* =========================
+   Helpers
+========================= */
+
+const STORAGE_KEY = "nutrition-calculator:weight-logs";
+
+export const WEIGHT_LOG_STORE_VERSION = 1;
+
+export const DEFAULT_WEIGHT_LOG_SETTINGS: WeightLogSettings = {
+  windowDays: 21,
+  useAdaptiveTdee: false,
+};
+
+const EMPTY_LOG: WeightLogEntry[] = [];
+
+/* =========================
+   Store
+========================= */
+
+export const useWeightLogStore = create<WeightLogStore>()(
+  persist(
+    (set) => ({
+      logs: {},
+      settings: {},
+
+      upsertEntry: (profileId, entry) => {
+        set((s) => {
+          const existing = s.logs[profileId] ?? [];
+          const prev = existing.find((e) => e.date === entry.date);
+          // Merge so logging intake later in the day keeps the morning weigh-in
+          const merged: WeightLogEntry = {
+            date: entry.date,
+            weightKg: entry.weightKg ?? prev?.weightKg,
+            intakeKcal: entry.intakeKcal ?? prev?.intakeKcal,
+          };
+          const next = [...existing.filter((e) => e.date !== entry.date), merged].sort((a, b) =>
+            a.date.localeCompare(b.date),
+          );
+          return { logs: { ...s.logs, [profileId]: next } };
+        });
+      },
+
+      removeEntry: (profileId, date) => {
+        set((s) => ({
+          logs: {
+            ...s.logs,
+            [profileId]: (s.logs[profileId] ?? []).filter((e) => e.date !== date),
+          },
+        }));
+      },
+
+      updateSettings: (profileId, patch) => {
+        set((s) => ({
+          settings: {
+            ...s.settings,
+            [profileId]: {
+              ...DEFAULT_WEIGHT_LOG_SETTINGS,
+              ...s.settings[profileId],
+              ...patch,
+            },
+          },
+        }));
+      },
+
+      replaceLog: (profileId, entries, settings) => {
+        set((s) => ({
+          logs: {
+            ...s.logs,
+            [profileId]: [...entries].sort((a, b) => a.date.localeCompare(b.date)),
+          },
+          settings: settings ? { ...s.settings, [profileId]: settings } : s.settings,
+        }));
+      },
+
+      removeProfile: (profileId) => {
+        set((s) => {
+          const logs = { ...s.logs };
+          delete logs[profileId];
+          const settings = { ...s.settings };
+          delete settings[profileId];
+          return { logs, settings };
+        });
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      version: WEIGHT_LOG_STORE_VERSION,
+      storage: createJSONStorage(() => localStorage),
+      skipHydration: true,
+      partialize: (s): PersistedWeightLogs => ({ logs: s.logs, settings: s.settings }),
+    },
+  ),
+);
+
+export const selectWeightLog = (profileId?: string) => (s: WeightLogStore) =>
+  (profileId && s.logs[profileId]) || EMPTY_LOG;
+
+export const selectWeightLogSettings = (profileId?: string) => (s: WeightLogStore) =>
+  (profileId && s.settings[profileId]) || DEFAULT_WEIGHT_LOG_SETTINGS;
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  backupCsv,
+  backupJson,
+  buildBackup,
+  parseBackup,
+  resolveImport,
+  type BackupSource,
+} from "@/lib/backup";
+import { parseCsv } from "@/lib/csv";
+import type { SavedProfile } from "@/lib/profileStore";
+import type { Food } from "@/types/nutrition";
+import { parseForm } from "./fixtures/profiles";
+
+const profile = (overrides: Partial<SavedProfile> = {}): SavedProfile => ({
+  id: "a",
+  name: "Ana",
+  values: parseForm({}),
+  createdAt: 1000,
+  updatedAt: 2000,
+  ...overrides,
+});
+
+const oats: Food = {
+  id: "custom:oats",
+  name: "Oats",
+  per100g: { calories: 380, proteinG: 13, fatG: 7, carbsG: 60 },
+  custom: true,
+};
+
+const source = (overrides: Partial<BackupSource> = {}): BackupSource => ({
+  profiles: [profile(), profile({ id: "b", name: "Blank", values: {} })],
+  weightLogs: { a: [{ date: "2026-01-02", weightKg: 80, intakeKcal: 2500 }] },
+  weightLogSettings: {},
+  foodLogs: {
+    a: {
+      "2026-01-02": [
+        { id: "e1", foodId: oats.id, name: "Oats", grams: 50, per100g: oats.per100g },
+      ],
+    },
+  },
+  dexaScans: {},
+  customFoods: [oats],
+  ...overrides,
+});
+
+const exported = (s = source()) => backupJson(buildBackup(s, new Date("2026-02-01T00:00:00Z")));
+
+describe("backup export", () => {
+  it("recalculates snapshots and carries each profile's logs", () => {
+    const backup = buildBackup(source(), new Date("2026-02-01T00:00:00Z"));
+    const [ana, blank] = backup.profiles;
+    expect(ana.snapshot?.targets.cut.calories).toBeGreaterThan(0);
+    expect(ana.weightLog).toHaveLength(1);
+    expect(blank.snapshot).toBeUndefined();
+    expect(blank.weightLog).toEqual([]);
+  });
+
+  it("writes spreadsheet rows per log entry, with logged amounts", () => {
+    const [header, row] = parseCsv(backupCsv(buildBackup(source()), "foodLog"));
+    expect(header.slice(0, 5)).toEqual(["Profile", "Date", "Food", "Grams", "Calories (kcal)"]);
+    expect(row).toEqual(["Ana", "2026-01-02", "Oats", "50", "190", "6.5", "3.5", "30"]);
+  });
+});
+
+describe("backup import", () => {
+  it("adds everything into an empty browser", () => {
+    const result = parseBackup(exported(), { profiles: [], customFoods: [] });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.plan.profiles.map((p) => p.action)).toEqual(["add", "add"]);
+    expect(result.plan.foods.map((f) => f.action)).toEqual(["add"]);
+    expect(result.plan.rejected).toEqual([]);
+
+    const { profiles } = resolveImport(result.plan);
+    expect(profiles[0].values).toEqual(parseForm({}));
+    expect(profiles[0].foodLog?.["2026-01-02"]).toHaveLength(1);
+  });
+
+  it("only replaces a local profile by default when the backup's copy is newer", () => {
+    const local = {
+      profiles: [
+        profile({ values: parseForm({ ageYears: 40 }), updatedAt: 1500 }),
+        profile({ id: "b", name: "Blank", values: {}, updatedAt: 5000 }),
+      ],
+      customFoods: [{ ...oats, name: "Rolled oats" }],
+    };
+    const result = parseBackup(exported(), local);
+    if (!result.ok) throw new Error(result.error);
+
+    const [ana, blank] = result.plan.profiles;
+    expect([ana.changed, ana.action]).toEqual([true, "replace"]);
+    expect([blank.changed, blank.action]).toEqual([false, "skip"]);
+    expect([result.plan.foods[0].changed, result.plan.foods[0].action]).toEqual([true, "skip"]);
+  });
+
+  it("imports a kept-both profile under a new id", () => {
+    const result = parseBackup(exported(), { profiles: [profile()], customFoods: [] });
+    if (!result.ok) throw new Error(result.error);
+    result.plan.profiles[0].action = "keepBoth";
+    const { profiles } = resolveImport(result.plan, () => "new-id");
+    expect(profiles[0]).toMatchObject({ id: "new-id", name: "Ana (imported)" });
+  });
+
+  it("rejects records that fail the schemas and keeps the rest", () => {
+    const file = JSON.parse(exported());
+    file.profiles[0].values.ageYears = -5;
+    file.profiles[1].weightLog = [{ date: "Jan 2", weightKg: 80 }];
+    file.customFoods.push({ id: "custom:x", name: "" });
+    file.profiles.push({ ...file.profiles[1], id: "c", name: "Cleo", weightLog: [] });
+
+    const result = parseBackup(JSON.stringify(file), { profiles: [], customFoods: [] });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.plan.profiles.map((p) => p.profile.name)).toEqual(["Cleo"]);
+    expect(result.plan.rejected.map((r) => r.label)).toEqual(["Ana", "Blank", "Food 2"]);
+    expect(result.plan.rejected[0].issues[0]).toMatch(/^values\.ageYears:/);
+    expect(result.plan.rejected[1].issues[0]).toMatch(/^weightLog\.0\.date:/);
+  });
+
+  it("keeps the first of several records sharing an id and rejects the rest", () => {
+    const file = JSON.parse(exported());
+    file.profiles.push({ ...file.profiles[0], name: "Ana again" });
+    file.customFoods.push({ ...file.customFoods[0], name: "Oats again" });
+
+    const result = parseBackup(JSON.stringify(file), { profiles: [], customFoods: [] });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.plan.profiles.map((p) => p.profile.name)).toEqual(["Ana", "Blank"]);
+    expect(result.plan.foods.map((f) => f.food.name)).toEqual(["Oats"]);
+    expect(result.plan.rejected.map((r) => [r.kind, r.label])).toEqual([
+      ["profile", "Ana again"],
+      ["food", "Oats again"],
+    ]);
+    expect(result.plan.rejected[0].issues[0]).toMatch(/^id:/);
+
+    const { profiles } = resolveImport(result.plan);
+    expect(new Set(profiles.map((p) => p.id)).size).toBe(profiles.length);
+  });
+
+  it("reads version 1 scenario weights in the profile's mass unit", () => {
+    const file = JSON.parse(exported());
+    file.version = 1;
+    file.profiles[0].values.units.mass = "lb";
+    file.profiles[0].values.weight = { lb: 176 };
+    file.profiles[0].scenarios = [{ id: "s", name: "A", overrides: { weight: 180 } }];
+    const result = parseBackup(JSON.stringify(file), { profiles: [], customFoods: [] });
+    const overrides = result.ok ? result.plan.profiles[0].profile.scenarios?.[0].overrides : undefined;
+    expect(Object.keys(overrides ?? {})).toEqual(["weightKg"]);
+    expect(overrides?.weightKg).toBeCloseTo(180 * 0.45359237, 10);
+  });
+
+  it("refuses files that aren't backups or come from a newer version", () => {
+    const local = { profiles: [], customFoods: [] };
+    expect(parseBackup("{", local)).toEqual({ ok: false, error: "invalidJson" });
+    expect(parseBackup('{"profiles":[]}', local)).toEqual({ ok: false, error: "notBackup" });
+    const newer = JSON.stringify({ ...JSON.parse(exported()), version: 99 });
+    expect(parseBackup(newer, local)).toEqual({ ok: false, error: "newerVersion" });
+  });
+});
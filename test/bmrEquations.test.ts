@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { computeBmrMethods, resolveRecommendedBmr } from "@/lib/bmrEquations";
+import type { BmrMethod } from "@/types/nutrition";
+import { BMR_COEFFICIENT_CHECKS, BMR_GOLDEN, type BmrGoldenCase } from "./fixtures/bmrGolden";
+
+const checkCases = (cases: BmrGoldenCase[]) => {
+  for (const { name, source, subject, expected, toleranceKcal } of cases) {
+    describe(`${name} (${source})`, () => {
+      const methods = computeBmrMethods(subject);
+      for (const [method, kcal] of Object.entries(expected) as [BmrMethod, number][]) {
+        it(method, () => {
+          const diff = Math.abs((methods[method] ?? Number.NaN) - kcal);
+          expect(diff).toBeLessThanOrEqual(toleranceKcal);
+        });
+      }
+    });
+  }
+};
+
+describe("BMR equations match independent reference calculators", () => {
+  checkCases(BMR_GOLDEN);
+});
+
+describe("BMR equations match the published coefficients", () => {
+  checkCases(BMR_COEFFICIENT_CHECKS);
+
+  it("leaves lean-mass equations out without body composition", () => {
+    const methods = computeBmrMethods({ sex: "male", ageYears: 30, weightKg: 80, heightCm: 180 });
+    expect(methods.katchMcArdle).toBeUndefined();
+    expect(methods.cunningham).toBeUndefined();
+    expect(methods.nelson).toBeUndefined();
+    expect(methods.muller).toBeUndefined();
+  });
+});
+
+describe("recommended BMR policy", () => {
+  const [man] = BMR_GOLDEN;
+  const methods = computeBmrMethods(man.subject);
+
+  it("auto uses Katch-McArdle when composition is measured", () => {
+    const r = resolveRecommendedBmr(methods, undefined, true);
+    expect(r.method).toBe("katchMcArdle");
+    expect(r.bmr).toBeCloseTo(1752.4, 3);
+  });
+
+  it("auto averages Mifflin and revised Harris-Benedict otherwise", () => {
+    const r = resolveRecommendedBmr(methods, undefined, false);
+    expect(r.method).toBe("mifflinHarrisAverage");
+    expect(r.bmr).toBeCloseTo((1780 + 1853.632) / 2, 3);
+  });
+
+  it("falls back to auto when a single lean-mass formula has no measured composition", () => {
+    const r = resolveRecommendedBmr(
+      methods,
+      { mode: "single", method: "cunningham", weights: {} },
+      false,
+    );
+    expect(r.fellBack).toBe(true);
+    expect(r.method).toBe("mifflinHarrisAverage");
+  });
+});
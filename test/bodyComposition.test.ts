@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { bodyCompositionMetrics, resolveComposition } from "@/lib/bodyComposition";
+import { makeProfile } from "./fixtures/profiles";
+
+const body = { weightKg: 80, heightCm: 180, sex: "male" as const };
+
+describe("resolveComposition", () => {
+  it("adds BMC to DEXA lean tissue when both masses are given", () => {
+    const c = resolveComposition(
+      makeProfile({ dexa: { enabled: true, fatMassKg: 16, leanMassKg: 61, boneMineralKg: 3 } }),
+      80,
+    );
+    expect(c).toEqual({ fatMassKg: 16, leanMassKg: 64, source: "dexa" });
+  });
+
+  it("treats blank or zero DEXA fields as not entered", () => {
+    const c = resolveComposition(
+      makeProfile({ dexa: { enabled: true, fatMassKg: 16, leanMassKg: Number.NaN } }),
+      80,
+    );
+    expect(c.derived).toBe("leanMass");
+  });
+
+  it("ignores DEXA values while DEXA is switched off", () => {
+    expect(resolveComposition(makeProfile({ dexa: { enabled: false, fatMassKg: 16 } }), 80)).toEqual({});
+  });
+
+  it("labels BF% from the estimate methods as estimated", () => {
+    const c = resolveComposition(makeProfile({ bodyFatMode: "estimated", bodyFatPercent: 20 }), 80);
+    expect(c.source).toBe("estimatedBf");
+    expect(c.fatMassKg).toBeCloseTo(16, 10);
+  });
+});
+
+describe("bodyCompositionMetrics", () => {
+  it("derives BF%, FFMI, normalized FFMI, FMI and BMI", () => {
+    const m = bodyCompositionMetrics({ fatMassKg: 16, leanMassKg: 64, source: "dexa" }, body);
+    expect(m.bodyFatPercent?.value).toBeCloseTo(20, 10);
+    // 64 / 1.8²
+    expect(m.ffmi?.value).toBeCloseTo(19.753, 3);
+    // At 1.8 m the height adjustment is zero
+    expect(m.normalizedFfmi?.value).toBeCloseTo(19.753, 3);
+    expect(m.fmi?.value).toBeCloseTo(4.938, 3);
+    expect(m.bmi).toEqual({ value: expect.closeTo(24.691, 3), source: "heightWeight" });
+    expect(m.ffmi?.source).toBe("dexa");
+  });
+
+  it("normalizes FFMI by 6.1 per metre of height below 1.8 m", () => {
+    const m = bodyCompositionMetrics(
+      { fatMassKg: 10, leanMassKg: 50, source: "enteredBf" },
+      { ...body, weightKg: 60, heightCm: 160 },
+    );
+    expect(m.normalizedFfmi!.value - m.ffmi!.value).toBeCloseTo(6.1 * 0.2, 10);
+  });
+
+  it("falls back to the Boer lean-mass estimate without a composition source", () => {
+    const m = bodyCompositionMetrics({}, body);
+    // 0.407 × 80 + 0.267 × 180 - 19.2
+    expect(m.leanMassKg).toEqual({ value: expect.closeTo(61.42, 6), source: "heightWeight" });
+  });
+
+  it("only reports BMI when the estimate leaves no fat mass", () => {
+    const m = bodyCompositionMetrics({}, { weightKg: 40, heightCm: 200, sex: "female" });
+    expect(Object.keys(m)).toEqual(["bmi"]);
+  });
+});
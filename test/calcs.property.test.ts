@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { calculateAll, type Results } from "@/lib/calcs";
+import { GOALS, MACRO_PRESETS, strategyFromPreset } from "@/lib/macroStrategy";
+import type { ActivityPreset, MacroPresetId, ProfileInput } from "@/types/nutrition";
+import { CM_PER_IN, IN_PER_FT, KG_PER_LB, LB_PER_ST } from "@/lib/units";
+import { makeProfile } from "./fixtures/profiles";
+
+/**
+ * Invariants of calculateAll over randomly generated adult profiles.
+ * Weights and heights stay within plausible human ranges so every profile is
+ * one the form would accept.
+ */
+
+const ACTIVITY_PRESETS: ActivityPreset[] = [1.2, 1.375, 1.55, 1.725, 1.9];
+
+// Rounding each of P/F/C to whole grams can move the total by up to 4 × 0.5 + 9 × 0.5 + 4 × 0.5
+const MACRO_ROUNDING_KCAL = 9;
+
+const profileArb = fc.record({
+  sex: fc.constantFrom("male" as const, "female" as const),
+  ageYears: fc.integer({ min: 18, max: 80 }),
+  heightCm: fc.double({ min: 150, max: 205, noNaN: true }),
+  weightKg: fc.double({ min: 45, max: 160, noNaN: true }),
+  bodyFatPercent: fc.option(fc.double({ min: 8, max: 45, noNaN: true }), { nil: undefined }),
+  preset: fc.constantFrom(...(Object.keys(MACRO_PRESETS) as MacroPresetId[])),
+  activity: fc.constantFrom(...ACTIVITY_PRESETS),
+});
+
+type ProfileSample = typeof profileArb extends fc.Arbitrary<infer T> ? T : never;
+
+function toInput(s: ProfileSample, overrides: Partial<ProfileInput> = {}): ProfileInput {
+  return makeProfile({
+    sex: s.sex,
+    ageYears: s.ageYears,
+    height: { cm: s.heightCm },
+    weight: { kg: s.weightKg },
+    bodyFatMode: s.bodyFatPercent != null ? "known" : "unknown",
+    bodyFatPercent: s.bodyFatPercent,
+    activity: { preset: s.activity, useCustom: false },
+    macroStrategy: strategyFromPreset(s.preset),
+    ...overrides,
+  });
+}
+
+// The user-facing numbers, leaving out the trace (its substituted strings name the input units)
+const headline = (r: Results) => ({
+  bmr: r.bmr,
+  tdee: r.tdee,
+  maintenance: r.maintenance,
+  cut: r.cut,
+  bulk: r.bulk,
+  recomp: r.recomp,
+  warnings: r.warnings.map((w) => `${w.code}:${w.goal ?? ""}`),
+});
+
+describe("calculateAll properties", () => {
+  it("macro calories add up to each goal's target within rounding", () => {
+    fc.assert(
+      fc.property(profileArb, (s) => {
+        const r = calculateAll(toInput(s));
+        for (const goal of GOALS) {
+          const t = r[goal];
+          const kcal = t.proteinG * 4 + t.fatG * 9 + t.carbsG * 4;
+          // With no room left for carbs, protein and the fat rule can only overshoot
+          expect(kcal).toBeGreaterThanOrEqual(t.calories - MACRO_ROUNDING_KCAL);
+          if (r.trace.goals[goal].carbs.value > 0) {
+            expect(kcal).toBeLessThanOrEqual(t.calories + MACRO_ROUNDING_KCAL);
+          }
+        }
+      }),
+    );
+  });
+
+  it("never decreases TDEE or protein as weight goes up", () => {
+    fc.assert(
+      fc.property(profileArb, fc.double({ min: 0, max: 30, noNaN: true }), (s, extraKg) => {
+        const lighter = calculateAll(toInput(s));
+        const heavier = calculateAll(toInput({ ...s, weightKg: s.weightKg + extraKg }));
+        expect(heavier.bmr.recommendedBmr).toBeGreaterThanOrEqual(lighter.bmr.recommendedBmr);
+        expect(heavier.tdee).toBeGreaterThanOrEqual(lighter.tdee);
+        for (const goal of GOALS) {
+          expect(heavier[goal].calories).toBeGreaterThanOrEqual(lighter[goal].calories);
+          expect(heavier[goal].proteinG).toBeGreaterThanOrEqual(lighter[goal].proteinG);
+        }
+      }),
+    );
+  });
+
+  it("never decreases TDEE or calorie targets as activity goes up", () => {
+    fc.assert(
+      fc.property(profileArb, fc.constantFrom(...ACTIVITY_PRESETS), (s, other) => {
+        const [low, high] = [s.activity, other].sort((a, b) => a - b);
+        const less = calculateAll(toInput({ ...s, activity: low }));
+        const more = calculateAll(toInput({ ...s, activity: high }));
+        expect(more.tdee).toBeGreaterThanOrEqual(less.tdee);
+        for (const goal of GOALS) {
+          expect(more[goal].calories).toBeGreaterThanOrEqual(less[goal].calories);
+        }
+      }),
+    );
+  });
+
+  it("gives identical results for the same body in any mass and length units", () => {
+    const imperialArb = fc.record({
+      feet: fc.integer({ min: 5, max: 6 }),
+      inches: fc.double({ min: 0, max: 11.9, noNaN: true }),
+      stone: fc.integer({ min: 7, max: 24 }),
+      pounds: fc.double({ min: 0, max: 13.9, noNaN: true }),
+    });
+    const energyArb = fc.constantFrom("kcal" as const, "kJ" as const);
+    fc.assert(
+      fc.property(profileArb, imperialArb, energyArb, (s, b, energy) => {
+        const heightIn = b.feet * IN_PER_FT + b.inches;
+        const weightLb = b.stone * LB_PER_ST + b.pounds;
+        const metric = calculateAll(
+          toInput({ ...s, heightCm: heightIn * CM_PER_IN, weightKg: weightLb * KG_PER_LB }),
+        );
+        const us = calculateAll(
+          toInput(s, {
+            units: { energy, mass: "lb", length: "in" },
+            height: { inches: heightIn },
+            weight: { lb: weightLb },
+          }),
+        );
+        const british = calculateAll(
+          toInput(s, {
+            units: { energy, mass: "stLb", length: "ftIn" },
+            height: { ft: b.feet, inches: b.inches },
+            weight: { st: b.stone, lb: b.pounds },
+          }),
+        );
+        expect(headline(us)).toEqual(headline(metric));
+        expect(headline(british)).toEqual(headline(metric));
+      }),
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { calculateFromBody } from "@/lib/calculateApi";
+import { makeProfile } from "./fixtures/profiles";
+
+const formBody = (overrides: Record<string, unknown> = {}) => ({
+  units: { energy: "kcal", mass: "kg", length: "cm" },
+  sex: "male",
+  ageYears: 30,
+  height: { cm: 180 },
+  weight: { kg: 80 },
+  bodyFatMode: "unknown",
+  activityPreset: 1.55,
+  ...overrides,
+});
+
+const errorsOf = (body: unknown) => {
+  const res = calculateFromBody(body);
+  return res.ok ? [] : res.errors;
+};
+
+describe("calculate API validation", () => {
+  it("only accepts the listed activity presets", () => {
+    expect(calculateFromBody(formBody({ activityPreset: 1.725 })).ok).toBe(true);
+    expect(errorsOf(formBody({ activityPreset: 1.33 }))).toEqual([
+      {
+        path: "activityPreset",
+        message: "Activity preset must be one of 1.2, 1.375, 1.55, 1.725, 1.9",
+      },
+    ]);
+    const input = makeProfile({ activity: { preset: 1.33 as 1.2, useCustom: false } });
+    expect(errorsOf(input).map((e) => e.path)).toEqual(["activity.preset"]);
+  });
+
+  it("keeps a custom activity multiplier between 1 and 3", () => {
+    const custom = (activityCustom: number) => formBody({ activityUseCustom: true, activityCustom });
+    expect(calculateFromBody(custom(1.8)).ok).toBe(true);
+    for (const value of [-3, 0.5, 3.5]) {
+      expect(errorsOf(custom(value))).toEqual([
+        { path: "activityCustom", message: "Custom activity multiplier should be between 1 and 3" },
+      ]);
+    }
+    const input = makeProfile({ activity: { useCustom: true, customMultiplier: -3 } });
+    expect(errorsOf(input).map((e) => e.path)).toEqual(["activity.customMultiplier"]);
+  });
+
+  it("tells a missing weight or height apart from one that isn't positive", () => {
+    expect(errorsOf(formBody({ weight: {} }))).toEqual([
+      { path: "weight.kg", message: "Weight (kg) is required" },
+    ]);
+    expect(errorsOf(formBody({ weight: { kg: -80 } }))).toEqual([
+      { path: "weight.kg", message: "Weight (kg) must be greater than zero" },
+    ]);
+    expect(errorsOf(formBody({ height: { cm: 0 } }))).toEqual([
+      { path: "height.cm", message: "Height (cm) must be greater than zero" },
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { calculateAll } from "@/lib/calcs";
+import { toProfileInput } from "@/lib/schema";
+import {
+  clientRow,
+  computeClientSnapshot,
+  filterClients,
+  normalizeTags,
+  rosterCsv,
+  withBmrPolicy,
+} from "@/lib/clients";
+import { parseCsv } from "@/lib/csv";
+import type { SavedProfile } from "@/lib/profileStore";
+import { parseForm } from "./fixtures/profiles";
+
+const client = (overrides: Partial<SavedProfile> = {}): SavedProfile => ({
+  id: "a",
+  name: "Ana",
+  values: parseForm({}),
+  createdAt: 1000,
+  updatedAt: 1000,
+  ...overrides,
+});
+
+describe("client snapshots", () => {
+  it("keeps the ProfileInput and the targets calculateAll gives for it", () => {
+    const values = parseForm({ weight: { kg: 70 } });
+    const outcome = computeClientSnapshot(values, 5000);
+    const results = calculateAll(toProfileInput(values));
+
+    expect(outcome.ok).toBe(true);
+    if (!outcome.ok) return;
+    expect(outcome.snapshot.input).toEqual(toProfileInput(values));
+    expect(outcome.snapshot.targets.cut).toEqual(results.cut);
+    expect(outcome.snapshot.bmr).toBe(results.bmr.recommendedBmr);
+    expect(outcome.snapshot.computedAt).toBe(5000);
+  });
+
+  it("lists the missing fields of an incomplete profile", () => {
+    const outcome = computeClientSnapshot({});
+    expect(outcome.ok).toBe(false);
+    expect(!outcome.ok && outcome.reason === "invalid" && outcome.paths).toContain("sex");
+  });
+
+  it("changes the recommended BMR when a new policy is applied", () => {
+    const values = withBmrPolicy(parseForm({}), { mode: "single", method: "harrisBenedict" });
+    const outcome = computeClientSnapshot(values);
+    expect(outcome.ok && outcome.snapshot.bmr).toBe(
+      calculateAll(toProfileInput(parseForm({}))).bmr.methods.harrisBenedict,
+    );
+  });
+});
+
+describe("roster", () => {
+  it("marks a snapshot taken before the last edit as stale", () => {
+    const outcome = computeClientSnapshot(parseForm({}), 2000);
+    const snapshot = outcome.ok ? outcome.snapshot : undefined;
+    expect(clientRow(client({ snapshot, updatedAt: 1500 })).stale).toBe(false);
+    expect(clientRow(client({ snapshot, updatedAt: 2500 })).stale).toBe(true);
+    expect(clientRow(client()).goal).toBe("maintenance");
+  });
+
+  it("dedupes tags case-insensitively", () => {
+    expect(normalizeTags([" Team A", "team a", "", "online "])).toEqual(["Team A", "online"]);
+  });
+
+  it("searches names and tags and filters by tag", () => {
+    const rows = [
+      clientRow(client({ id: "a", name: "Ana", tags: ["online"] })),
+      clientRow(client({ id: "b", name: "Ben", tags: ["Gym"] })),
+      clientRow(client({ id: "c", name: "Cleo" })),
+    ];
+    const ids = (r: { id: string }[]) => r.map((x) => x.id);
+    expect(ids(filterClients(rows, { query: "gy" }))).toEqual(["b"]);
+    expect(ids(filterClients(rows, { query: "  CLE" }))).toEqual(["c"]);
+    expect(ids(filterClients(rows, { query: "", tag: "gym" }))).toEqual(["b"]);
+    expect(ids(filterClients(rows, { query: "" }))).toEqual(["a", "b", "c"]);
+  });
+
+  it("exports the chosen goal's targets in kcal", () => {
+    const values = parseForm({ units: { energy: "kJ", mass: "kg", length: "cm" }, cutDelta: -2092 });
+    const outcome = computeClientSnapshot(values, 2000);
+    const snapshot = outcome.ok ? outcome.snapshot : undefined;
+    const row = clientRow(client({ name: "Ana, B.", tags: ["x", "y"], goal: "cut", snapshot }));
+
+    const [header, line] = parseCsv(rosterCsv([row, clientRow(client({ name: "New" }))]));
+    expect(header[3]).toBe("Calories (kcal)");
+    expect(line.slice(0, 4)).toEqual(["Ana, B.", "x; y", "cut", String(snapshot?.targets.cut.calories)]);
+  });
+
+  it("keeps names and tags from running as spreadsheet formulas", () => {
+    const row = clientRow(client({ name: '=HYPERLINK("http://x","y")', tags: ["@cmd", "-2+3"] }));
+    const [, line] = parseCsv(rosterCsv([row]));
+    expect(line[0]).toBe(`'=HYPERLINK("http://x","y")`);
+    expect(line[1]).toBe("'@cmd; -2+3");
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { parseDexaExport } from "@/lib/dexaImport";
+
+describe("parseDexaExport", () => {
+  it("reads a CSV without region names in its headers as whole-body totals", () => {
+    const csv = ["Scan Date,Fat Mass (kg),Lean Mass (kg)", "2026-01-02,16.2,61.5", "2026-03-01,15.1,62"];
+    const result = parseDexaExport(csv.join("\n"), "scans.csv");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.layout).toBe("wide");
+    expect(result.scans.map((s) => [s.date, s.regions.total])).toEqual([
+      ["2026-01-02", { fatMassKg: 16.2, leanMassKg: 61.5 }],
+      ["2026-03-01", { fatMassKg: 15.1, leanMassKg: 62 }],
+    ]);
+  });
+
+  it("still reads a table with one row per region as long", () => {
+    const csv = ["Region,Fat (g),Lean (g),BMC (g)", "Trunk,8000,28000,900", "Total,16000,61000,3000"];
+    const result = parseDexaExport(csv.join("\n"));
+    expect(result.ok && result.layout).toBe("long");
+    expect(result.ok && result.scans[0].regions.total).toEqual({
+      fatMassKg: 16,
+      leanMassKg: 61,
+      bmcKg: 3,
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import type { BmrSubject } from "@/lib/bmrEquations";
+import type { BmrMethod } from "@/types/nutrition";
+
+/**
+ * Reference BMR values from calculators written independently of lib/bmrEquations.ts,
+ * so a mistyped coefficient there can't also end up in the expected value.
+ * Each case names its source; `toleranceKcal` covers that source's rounding.
+ */
+
+export type BmrGoldenCase = {
+  name: string;
+  source: string;
+  subject: BmrSubject;
+  expected: Partial<Record<BmrMethod, number>>;
+  toleranceKcal: number;
+};
+
+// health-calculator 1.0.0 (npm, github.com/gedex/health-calculator), bmr(gender, age, kg, cm,
+// false, equation). Returns whole kcal, and its Harris-Benedict uses the rounded
+// 66.5 + 13.75 W + 5.003 H - 6.755 A form, hence the 1 kcal tolerance
+const HEALTH_CALCULATOR = "health-calculator 1.0.0, bmr()";
+
+// tdee-calculator 1.0.0 (npm, github.com/timotheebeaugas/node-package-tdee),
+// BASAL_METABOLISM_RATE_METHODS["Katch and McArdle (2001)"] with weight and body fat %
+const TDEE_CALCULATOR = "tdee-calculator 1.0.0, Katch and McArdle (2001)";
+
+export const BMR_GOLDEN: BmrGoldenCase[] = [
+  {
+    name: "man, 30 y, 80 kg, 180 cm, 16 kg fat",
+    source: HEALTH_CALCULATOR,
+    subject: { sex: "male", ageYears: 30, weightKg: 80, heightCm: 180, fatMassKg: 16, leanMassKg: 64 },
+    expected: { mifflin: 1780, harrisBenedict: 1864, revisedHarrisBenedict: 1854 },
+    toleranceKcal: 1,
+  },
+  {
+    name: "woman, 25 y, 60 kg, 165 cm",
+    source: HEALTH_CALCULATOR,
+    subject: { sex: "female", ageYears: 25, weightKg: 60, heightCm: 165 },
+    expected: { mifflin: 1345, harrisBenedict: 1417, revisedHarrisBenedict: 1405 },
+    toleranceKcal: 1,
+  },
+  {
+    name: "man, 45 y, 95 kg, 175 cm",
+    source: HEALTH_CALCULATOR,
+    subject: { sex: "male", ageYears: 45, weightKg: 95, heightCm: 175 },
+    expected: { mifflin: 1824, harrisBenedict: 1944, revisedHarrisBenedict: 1945 },
+    toleranceKcal: 1,
+  },
+  {
+    name: "woman, 52 y, 70 kg, 168 cm",
+    source: HEALTH_CALCULATOR,
+    subject: { sex: "female", ageYears: 52, weightKg: 70, heightCm: 168 },
+    expected: { mifflin: 1329, harrisBenedict: 1392, revisedHarrisBenedict: 1390 },
+    toleranceKcal: 1,
+  },
+  {
+    name: "man, 80 kg at 20% fat",
+    source: TDEE_CALCULATOR,
+    subject: { sex: "male", ageYears: 30, weightKg: 80, heightCm: 180, fatMassKg: 16, leanMassKg: 64 },
+    expected: { katchMcArdle: 1752.4 },
+    toleranceKcal: 0.01,
+  },
+  {
+    name: "woman, 60 kg at 25% fat",
+    source: TDEE_CALCULATOR,
+    subject: { sex: "female", ageYears: 25, weightKg: 60, heightCm: 165, fatMassKg: 15, leanMassKg: 45 },
+    expected: { katchMcArdle: 1342 },
+    toleranceKcal: 0.01,
+  },
+];
+
+/**
+ * Equations no independent calculator was available for. These are worked by hand from
+ * the coefficients in each source paper, so they only catch a coefficient that differs
+ * from the paper; swap in a reference value when one is found.
+ * Henry is converted from MJ/day at 239.006 kcal/MJ.
+ */
+export const BMR_COEFFICIENT_CHECKS: BmrGoldenCase[] = [
+  {
+    name: "man, 30 y, 80 kg, 180 cm, 16 kg fat",
+    source:
+      "Schofield 1985 (Hum Nutr Clin Nutr 39 Suppl 1), Henry 2005 (Public Health Nutr 8(7A)), " +
+      "Owen 1986 (Am J Clin Nutr 44), Cunningham 1980 (Am J Clin Nutr 33), " +
+      "Nelson 1992 (Am J Clin Nutr 56), Müller 2004 (Am J Clin Nutr 80)",
+    subject: { sex: "male", ageYears: 30, weightKg: 80, heightCm: 180, fatMassKg: 16, leanMassKg: 64 },
+    expected: {
+      // 30-60 band: 11.472 × 80 + 873.1
+      schofield: 1790.86,
+      // 30-60 band: (0.0476 × 80 + 2.26 × 1.8 - 0.574) MJ = 7.302 MJ
+      henry: 1745.2218,
+      // 879 + 10.2 × 80
+      owen: 1695,
+      // 500 + 22 × 64
+      cunningham: 1908,
+      // 25.8 × 64 + 4.04 × 16
+      nelson: 1715.84,
+      // 13.587 × 64 + 9.613 × 16 + 198
+      muller: 1221.376,
+    },
+    toleranceKcal: 0.001,
+  },
+  {
+    name: "woman, 25 y, 60 kg, 165 cm, 15 kg fat",
+    source:
+      "Schofield 1985, Henry 2005, Owen 1987 (Am J Clin Nutr 46), Cunningham 1980, " +
+      "Nelson 1992, Müller 2004",
+    subject: { sex: "female", ageYears: 25, weightKg: 60, heightCm: 165, fatMassKg: 15, leanMassKg: 45 },
+    expected: {
+      // 18-30 band: 14.818 × 60 + 486.6
+      schofield: 1375.68,
+      // 18-30 band: (0.0433 × 60 + 2.57 × 1.65 - 1.18) MJ = 5.6585 MJ
+      henry: 1352.4155,
+      // 795 + 7.18 × 60
+      owen: 1225.8,
+      // 500 + 22 × 45
+      cunningham: 1490,
+      // 25.8 × 45 + 4.04 × 15
+      nelson: 1221.6,
+      // 13.587 × 45 + 9.613 × 15 + 198
+      muller: 953.61,
+    },
+    toleranceKcal: 0.001,
+  },
+  {
+    name: "boy, 16 y, 60 kg, 170 cm (10-18 band)",
+    source: "Schofield 1985, Henry 2005",
+    subject: { sex: "male", ageYears: 16, weightKg: 60, heightCm: 170 },
+    expected: {
+      // 17.686 × 60 + 658.2
+      schofield: 1719.36,
+      // (0.0651 × 60 + 1.11 × 1.7 + 1.25) MJ = 7.043 MJ
+      henry: 1683.3193,
+    },
+    toleranceKcal: 0.001,
+  },
+  {
+    name: "woman, 70 y, 65 kg, 160 cm (60+ band)",
+    source: "Schofield 1985, Henry 2005",
+    subject: { sex: "female", ageYears: 70, weightKg: 65, heightCm: 160 },
+    expected: {
+      // 9.082 × 65 + 658.5
+      schofield: 1248.83,
+      // (0.0356 × 65 + 1.76 × 1.6 + 0.0448) MJ = 5.1748 MJ
+      henry: 1236.8082,
+    },
+    toleranceKcal: 0.001,
+  },
+];
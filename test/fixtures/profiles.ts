@@ -0,0 +1,47 @@
+import { strategyFromPreset } from "@/lib/macroStrategy";
+import { profileFormSchema, type ProfileFormValues } from "@/lib/schema";
+import type { ProfileInput } from "@/types/nutrition";
+
+/**
+ * Baseline profiles for the engine tests. Each test overrides only the fields
+ * it is about, so the rest stay at plain adult defaults.
+ */
+
+/* =========================
+   ProfileInput
+========================= */
+
+// 30-year-old man, 80 kg / 180 cm, BF% unknown, moderate activity, balanced macros
+export function makeProfile(overrides: Partial<ProfileInput> = {}): ProfileInput {
+  return {
+    units: { energy: "kcal", mass: "kg", length: "cm" },
+    sex: "male",
+    ageYears: 30,
+    height: { cm: 180 },
+    weight: { kg: 80 },
+    bodyFatMode: "unknown",
+    activity: { preset: 1.55, useCustom: false },
+    deltas: { cut: -500, bulk: 500, recomp: -200 },
+    macroStrategy: strategyFromPreset("balanced"),
+    dexa: { enabled: false },
+    ...overrides,
+  };
+}
+
+/* =========================
+   Form values
+========================= */
+
+// Raw form input as the page would submit it; schema defaults fill in the rest
+export function parseForm(values: Record<string, unknown>): ProfileFormValues {
+  return profileFormSchema.parse({
+    units: { energy: "kcal", mass: "kg", length: "cm" },
+    sex: "male",
+    ageYears: 30,
+    height: { cm: 180 },
+    weight: { kg: 80 },
+    bodyFatMode: "unknown",
+    activityPreset: 1.55,
+    ...values,
+  });
+}
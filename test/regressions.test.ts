@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { calculateAll } from "@/lib/calcs";
+import { normalizeBodyFatPercent, profileFormSchema, toProfileInput } from "@/lib/schema";
+import { resolveMacros } from "@/lib/macroStrategy";
+import { phaseDeltas, projectTimeline } from "@/lib/projection";
+import type { GoalMacroRules } from "@/types/nutrition";
+import { makeProfile, parseForm } from "./fixtures/profiles";
+
+describe("body fat entered as a fraction", () => {
+  it("reads 0 < value <= 1 as a fraction", () => {
+    expect(normalizeBodyFatPercent(0.2)).toBeCloseTo(20, 10);
+    expect(normalizeBodyFatPercent(0.155)).toBeCloseTo(15.5, 10);
+  });
+
+  it("leaves percentages and non-positive values alone", () => {
+    expect(normalizeBodyFatPercent(20)).toBe(20);
+    expect(normalizeBodyFatPercent(1.5)).toBe(1.5);
+    expect(normalizeBodyFatPercent(0)).toBe(0);
+    expect(normalizeBodyFatPercent(Number.NaN)).toBeNaN();
+  });
+
+  it("gives the same results for 0.2 and 20 through the form", () => {
+    const fraction = toProfileInput(parseForm({ bodyFatMode: "known", bodyFatPercent: 0.2 }));
+    const percent = toProfileInput(parseForm({ bodyFatMode: "known", bodyFatPercent: 20 }));
+    expect(fraction.bodyFatPercent).toBeCloseTo(20, 10);
+
+    const a = calculateAll(fraction);
+    const b = calculateAll(percent);
+    expect(a.bmr).toEqual(b.bmr);
+    expect(a.maintenance).toEqual(b.maintenance);
+    expect(a.bodyComposition.fatMassKg).toBeCloseTo(16, 10);
+  });
+});
+
+describe("DEXA with only one mass", () => {
+  it("is rejected by the form when neither mass is entered", () => {
+    const parsed = profileFormSchema.safeParse({
+      units: { energy: "kcal", mass: "kg", length: "cm" },
+      sex: "male",
+      ageYears: 30,
+      height: { cm: 180 },
+      weight: { kg: 80 },
+      bodyFatMode: "unknown",
+      activityPreset: 1.55,
+      dexaEnabled: true,
+    });
+    expect(parsed.success).toBe(false);
+  });
+
+  it("derives lean mass from weight when only fat mass is given", () => {
+    const r = calculateAll(makeProfile({ dexa: { enabled: true, fatMassKg: 16 } }));
+    expect(r.bodyComposition.fatMassKg).toBe(16);
+    expect(r.bodyComposition.leanMassKg).toBeCloseTo(64, 10);
+    expect(r.bodyComposition.derived).toBe("leanMass");
+    expect(r.bmr.recommendedMethod).toBe("katchMcArdle");
+    expect(r.bmr.methods.nelson).toBe(Math.round(25.8 * 64 + 4.04 * 16));
+  });
+
+  it("derives fat mass from weight, lean mass and BMC when only lean mass is given", () => {
+    const r = calculateAll(makeProfile({ dexa: { enabled: true, leanMassKg: 61, boneMineralKg: 3 } }));
+    expect(r.bodyComposition.leanMassKg).toBeCloseTo(64, 10);
+    expect(r.bodyComposition.fatMassKg).toBeCloseTo(16, 10);
+    expect(r.bodyComposition.derived).toBe("fatMass");
+    expect(r.bmr.recommendedBmr).toBe(Math.round(370 + 21.6 * 64));
+  });
+
+  it("prefers a single DEXA mass over an entered BF%", () => {
+    const r = calculateAll(
+      makeProfile({
+        bodyFatMode: "known",
+        bodyFatPercent: 25,
+        dexa: { enabled: true, fatMassKg: 16 },
+      }),
+    );
+    expect(r.bodyComposition.source).toBe("dexaDerived");
+    expect(r.bodyComposition.fatMassKg).toBe(16);
+  });
+
+  it("falls back to BF% when the single mass leaves nothing for the other", () => {
+    const r = calculateAll(
+      makeProfile({
+        bodyFatMode: "known",
+        bodyFatPercent: 25,
+        dexa: { enabled: true, leanMassKg: 85 },
+      }),
+    );
+    expect(r.bodyComposition.source).toBe("enteredBf");
+    expect(r.bodyComposition.fatMassKg).toBeCloseTo(20, 10);
+    expect(r.warnings.map((w) => w.code)).toContain("DEXA_MASS_EXCEEDS_WEIGHT");
+  });
+});
+
+describe("fixed carbs that don't fit the calorie target", () => {
+  const rules = (carbsG: number): GoalMacroRules => ({
+    protein: { basis: "gPerKg", amount: 2 },
+    fat: { basis: "minGrams", amount: 60 },
+    carbs: { basis: "fixed", amount: carbsG },
+  });
+  const ctx = { weightKg: 80, heightCm: 180, sex: "male" as const };
+
+  it("lowers carbs to the room left after protein and the fat floor", () => {
+    // 2000 - 160 g × 4 - 60 g × 9 = 820 kcal, room for 205 g of carbs
+    const m = resolveMacros(2000, rules(300), ctx);
+    expect(m.carbsG).toBe(205);
+    expect(m.fatG).toBe(60);
+    expect(m.proteinG * 4 + m.fatG * 9 + m.carbsG * 4).toBe(2000);
+    expect([m.carbsReduced, m.carbsClamped]).toEqual([true, false]);
+  });
+
+  it("keeps fat at or above its floor when the carbs fit", () => {
+    const m = resolveMacros(2000, rules(100), ctx);
+    expect(m.fatG).toBeCloseTo((2000 - 160 * 4 - 100 * 4) / 9, 10);
+    expect(m.carbsReduced).toBe(false);
+  });
+
+  it("warns about the lowered carbs on the goal they belong to", () => {
+    const strategy = { ...makeProfile().macroStrategy };
+    strategy.goals = { ...strategy.goals, cut: rules(600) };
+    const r = calculateAll(makeProfile({ macroStrategy: strategy }));
+    const kcal = r.cut.proteinG * 4 + r.cut.fatG * 9 + r.cut.carbsG * 4;
+    expect(Math.abs(kcal - r.cut.calories)).toBeLessThanOrEqual(9);
+    expect(r.warnings.filter((w) => w.code === "CARBS_REDUCED").map((w) => w.goal)).toEqual(["cut"]);
+  });
+});
+
+describe("cut timeline with a blocked or capped deficit", () => {
+  const female = { sex: "female" as const, weight: { kg: 70 }, height: { cm: 165 } };
+
+  it("projects no weight change when pregnancy holds the cut at maintenance", () => {
+    const r = calculateAll(makeProfile({ ...female, lifeStage: "pregnancyT2" }));
+    const deltas = phaseDeltas(r, "cut", 30);
+    expect(deltas.applied).toBe(0);
+
+    const projection = projectTimeline({
+      weightKg: 70,
+      dailyDeltaKcal: deltas.applied,
+      target: { kind: "weight", weightKg: 65 },
+    });
+    expect(projection.reachedWeek).toBeUndefined();
+    expect(projection.weeks.at(-1)?.weightKg).toBe(70);
+  });
+
+  it("holds the cut at maintenance for under-18s", () => {
+    const r = calculateAll(makeProfile({ ageYears: 16 }));
+    expect(phaseDeltas(r, "cut", 16).applied).toBe(0);
+  });
+
+  it("uses the capped deficit while breastfeeding and limits the needed delta the same way", () => {
+    const deltasIn = { cut: -800, bulk: 300, recomp: -200 };
+    const r = calculateAll(makeProfile({ ...female, lifeStage: "lactationExclusive", deltas: deltasIn }));
+    const deltas = phaseDeltas(r, "cut", 30, -900);
+    expect(deltas.applied).toBe(-500);
+    expect(deltas).toMatchObject({ needed: -500, neededLimited: true });
+    expect(phaseDeltas(r, "cut", 30, -300)).toMatchObject({ needed: -300, neededLimited: false });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertEnergy,
+  convertLength,
+  convertMass,
+  lengthToCm,
+  massToKg,
+} from "@/lib/units";
+import { profileFormSchema, toProfileInput, withUnitPreferences } from "@/lib/schema";
+import { migrateProfiles } from "@/lib/profileStore";
+import { decodeProfilePermalink, encodeProfilePermalink } from "@/lib/permalink";
+import { applyScenario, validateOverrides } from "@/lib/scenarios";
+import { createTranslator, translateEngineMessage } from "@/lib/i18n";
+import { makeProfile, parseForm } from "./fixtures/profiles";
+
+describe("compound units", () => {
+  it("reads st + lb and ft + in as one mass / length", () => {
+    expect(massToKg({ st: 12, lb: 8 }, "stLb")).toBeCloseTo(176 * 0.45359237, 10);
+    expect(lengthToCm({ ft: 5, inches: 11 }, "ftIn")).toBeCloseTo(71 * 2.54, 10);
+  });
+
+  it("treats a blank remainder as zero but needs one of the parts", () => {
+    expect(massToKg({ st: 12, lb: Number.NaN }, "stLb")).toBeCloseTo(168 * 0.45359237, 10);
+    expect(lengthToCm({ ft: 6 }, "ftIn")).toBeCloseTo(72 * 2.54, 10);
+    expect(massToKg({}, "stLb")).toBeUndefined();
+    expect(lengthToCm({ cm: 180 }, "ftIn")).toBeUndefined();
+  });
+
+  it("rounds the total before splitting, so the remainder never reaches a whole unit", () => {
+    // 81.6466 kg is 179.9999 lb
+    expect(convertMass({ kg: 81.6466 }, "kg", "stLb")).toEqual({ st: 12, lb: 12 });
+    expect(convertLength({ cm: 182.87 }, "cm", "ftIn")).toEqual({ ft: 6, inches: 0 });
+  });
+});
+
+describe("converting entered values", () => {
+  it("keeps the body the same across units, to input precision", () => {
+    const lb = convertMass({ kg: 80 }, "kg", "lb");
+    expect(lb).toEqual({ lb: 176.4 });
+    expect(convertMass(lb, "lb", "stLb")).toEqual({ st: 12, lb: 8.4 });
+    expect(convertMass({ st: 12, lb: 8.4 }, "stLb", "kg")).toEqual({ kg: 80 });
+
+    expect(convertLength({ cm: 180 }, "cm", "ftIn")).toEqual({ ft: 5, inches: 10.9 });
+    expect(convertLength({ ft: 5, inches: 10.9 }, "ftIn", "in")).toEqual({ inches: 70.9 });
+  });
+
+  it("leaves a value that isn't entered yet empty", () => {
+    expect(convertMass({}, "lb", "kg")).toEqual({});
+    expect(convertLength({ inches: undefined }, "in", "cm")).toEqual({});
+  });
+
+  it("converts calorie adjustments to whole kJ and back", () => {
+    expect(convertEnergy(-500, "kcal", "kJ")).toBe(-2092);
+    expect(convertEnergy(-2092, "kJ", "kcal")).toBe(-500);
+  });
+});
+
+describe("form values", () => {
+  it("sends kJ adjustments to the engine as kcal", () => {
+    const input = toProfileInput(
+      parseForm({ units: { energy: "kJ", mass: "kg", length: "cm" }, cutDelta: -2092 }),
+    );
+    expect(input.deltas.cut).toBeCloseTo(-500, 1);
+  });
+
+  it("points the missing-weight error at the whole-stone field", () => {
+    const parsed = profileFormSchema.safeParse({
+      units: { energy: "kcal", mass: "stLb", length: "ftIn" },
+      sex: "female",
+      ageYears: 40,
+      height: { ft: 5, inches: 6 },
+      weight: {},
+      bodyFatMode: "unknown",
+      activityPreset: 1.375,
+    });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues.map((i) => i.path.join("."))).toEqual(["weight.st"]);
+  });
+});
+
+describe("profiles from before the unit split", () => {
+  it("maps unitSystem to units", () => {
+    expect(withUnitPreferences({ unitSystem: "us", sex: "male" })).toEqual({
+      units: { energy: "kcal", mass: "lb", length: "in" },
+      sex: "male",
+    });
+    expect(withUnitPreferences({ units: { energy: "kJ" }, unitSystem: "metric" })).toEqual({
+      units: { energy: "kJ" },
+      unitSystem: "metric",
+    });
+  });
+
+  it("migrates saved v2 profiles", () => {
+    const state = migrateProfiles(
+      {
+        activeProfileId: "a",
+        profiles: [{ id: "a", name: "A", values: { unitSystem: "metric", weight: { kg: 70 } } }],
+      },
+      2,
+    );
+    expect(state.profiles[0].values).toEqual({
+      units: { energy: "kcal", mass: "kg", length: "cm" },
+      weight: { kg: 70 },
+    });
+  });
+
+  it("decodes v2 permalinks with a unit system", () => {
+    const payload = {
+      u: "us",
+      s: "male",
+      a: 30,
+      h: 70,
+      w: 180,
+      bm: "unknown",
+      ap: 1.55,
+      cd: -500,
+      bd: 500,
+      rd: -200,
+      ms: "balanced",
+    };
+    const token = `2.${btoa(JSON.stringify(payload)).replace(/=+$/, "")}`;
+    const decoded = decodeProfilePermalink(token);
+    expect(decoded.ok && decoded.values.units).toEqual({ energy: "kcal", mass: "lb", length: "in" });
+    expect(decoded.ok && decoded.values.weight.lb).toBe(180);
+  });
+
+  it("round-trips st + lb and ft + in through a v3 permalink", () => {
+    const values = parseForm({
+      units: { energy: "kJ", mass: "stLb", length: "ftIn" },
+      height: { ft: 5, inches: 9 },
+      weight: { st: 11, lb: 4 },
+      cutDelta: -2092,
+    });
+    const decoded = decodeProfilePermalink(encodeProfilePermalink(values));
+    expect(decoded.ok && decoded.values.height).toEqual({ ft: 5, inches: 9 });
+    expect(decoded.ok && decoded.values.weight).toEqual({ st: 11, lb: 4 });
+    expect(decoded.ok && decoded.values.cutDelta).toBe(-2092);
+  });
+});
+
+describe("scenario overrides", () => {
+  it("keep their meaning when the profile switches units", () => {
+    const overrides = { weightKg: 90, cutDelta: -500 };
+    for (const units of [
+      { energy: "kcal", mass: "kg", length: "cm" },
+      { energy: "kJ", mass: "stLb", length: "ftIn" },
+    ] as const) {
+      const input = applyScenario(makeProfile({ units }), overrides);
+      expect(massToKg(input.weight, units.mass)).toBeCloseTo(90, 10);
+      expect(input.deltas.cut).toBe(-500);
+    }
+    const kJ = { energy: "kJ", mass: "lb", length: "in" } as const;
+    const t = createTranslator("en");
+    const issues = validateOverrides({ cutDelta: -2500 }, kJ);
+    expect(issues.map((issue) => translateEngineMessage(t, issue, String))).toEqual([
+      "Cut adjustment should be between -8,368 and 0",
+    ]);
+  });
+
+  it("migrates v3 weights from the display unit to kg", () => {
+    const scenario = { id: "s", name: "A", overrides: { weight: 180, ageYears: 40 } };
+    const state = migrateProfiles(
+      {
+        activeProfileId: "a",
+        profiles: [
+          { id: "a", name: "A", values: { units: { mass: "stLb" } }, scenarios: [scenario] },
+          { id: "b", name: "B", values: { units: { mass: "kg" } }, scenarios: [scenario] },
+        ],
+      },
+      3,
+    );
+    const [lb, kg] = state.profiles.map((p) => p.scenarios?.[0].overrides);
+    expect(lb?.weightKg).toBeCloseTo(180 * 0.45359237, 10);
+    expect(kg).toEqual({ weightKg: 180, ageYears: 40 });
+  });
+});
@@ -1,25 +1,166 @@
 export type Sex = "male" | "female";
+export type EnergyUnit = "kcal" | "kJ";
+export type MassUnit = "lb" | "kg" | "stLb";
+export type LengthUnit = "in" | "ftIn" | "cm";
+
+// Chosen independently, e.g. kg with ft/in, or lb with kJ
+export type UnitPreferences = {
+  energy: EnergyUnit;
+  mass: MassUnit;
+  length: LengthUnit;
+};
+
+// The single preference profiles had before the split: "us" = lb / in, "metric" = kg / cm
 export type UnitSystem = "us" | "metric";
 
+// Only the fields of the profile's unit are read; st + lb and ft + in keep the remainder in lb / inches
+export type MassValue = { kg?: number; lb?: number; st?: number };
+export type LengthValue = { cm?: number; inches?: number; ft?: number };
+
 export type ActivityPreset = 1.2 | 1.375 | 1.55 | 1.725 | 1.9;
-export type BodyFatMode = "known" | "unknown";
+export type BodyFatMode = "known" | "unknown" | "estimated";
+
+export type BodyFatEstimateMethod = "navy" | "jp3" | "jp7" | "bmi";
+export type DensityConversion = "siri" | "brozek";
+
+export type Skinfolds = {
+  chest?: number;
+  abdomen?: number;
+  thigh?: number;
+  triceps?: number;
+  suprailiac?: number;
+  subscapular?: number;
+  midaxillary?: number;
+};
+
+// Circumferences are in the profile's simple length unit (in for ft/in); skinfolds are always mm
+export type BodyFatEstimateInput = {
+  method: BodyFatEstimateMethod;
+  conversion: DensityConversion;
+  neck?: number;
+  waist?: number;
+  hip?: number;
+  skinfoldsMm: Skinfolds;
+};
+
+// "standard" picks adolescent / olderAdult automatically from age
+export type LifeStage =
+  | "standard"
+  | "pregnancyT1"
+  | "pregnancyT2"
+  | "pregnancyT3"
+  | "lactationExclusive"
+  | "lactationPartial"
+  | "olderAdult"
+  | "adolescent";
+
+export type BmrMethod =
+  | "mifflin"
+  | "revisedHarrisBenedict"
+  | "harrisBenedict"
+  | "schofield"
+  | "henry"
+  | "owen"
+  | "katchMcArdle"
+  | "cunningham"
+  | "nelson"
+  | "muller";
+
+// How recommendedBmr is picked from the individual equations
+export type BmrPolicyMode = "auto" | "single" | "mean" | "median" | "weighted";
+
+export type BmrPolicy = {
+  mode: BmrPolicyMode;
+  method: BmrMethod; // used by "single"
+  weights: Partial<Record<BmrMethod, number>>; // used by "weighted"; relative, need not sum to 1
+};
+
+// Occupation's energy cost beyond sitting, separate from the steps walked at work
+export type JobType = "desk" | "standing" | "active" | "heavy";
+
+export type Workout = {
+  type: string; // WORKOUT_PRESETS id, or "other"
+  minutes: number; // per session
+  perWeek: number;
+  mets: number;
+};
+
+// Inputs for building a custom activity multiplier from steps and training
+export type ActivityBuilderInput = {
+  avgSteps: number;
+  jobType: JobType;
+  workouts: Workout[];
+};
+
+export type Goal = "maintenance" | "cut" | "bulk" | "recomp";
+
+export type ProteinBasis = "gPerLb" | "gPerKg" | "gPerKgLean";
+export type FatBasis = "percent" | "gPerKg" | "minGrams";
+export type CarbBasis = "remainder" | "fixed" | "ketoCap";
+
+// amount is in the basis' unit: g/lb, g/kg, % of calories, grams, ...
+export type GoalMacroRules = {
+  protein: { basis: ProteinBasis; amount: number };
+  fat: { basis: FatBasis; amount: number };
+  carbs: { basis: CarbBasis; amount: number }; // amount unused for "remainder"
+};
+
+export type MacroPresetId = "balanced" | "highCarbAthlete" | "keto" | "lowFat";
+
+export type MacroStrategy = {
+  preset: MacroPresetId | "custom";
+  goals: Record<Goal, GoalMacroRules>;
+};
+
+export type DayType = "training" | "rest" | "highCarb" | "lowCarb";
+
+// Multipliers on the goal's flat carb/fat grams; normalized so the week still averages out
+export type DayTypeRatios = { carbs: number; fat: number };
+
+export type CarbCycling = {
+  enabled: boolean;
+  days: DayType[]; // Monday first, 7 entries
+  ratios: Record<DayType, DayTypeRatios>;
+};
 
 export type DexaInput = {
   enabled: boolean;
   fatMassKg?: number;
+  // Lean soft tissue as the scan reports it; with boneMineralKg unset it's taken as fat-free mass
   leanMassKg?: number;
+  boneMineralKg?: number;
+};
+
+export type DexaRegion = "total" | "arms" | "legs" | "trunk" | "android" | "gynoid";
+
+export type DexaRegionMasses = {
+  fatMassKg?: number;
+  leanMassKg?: number; // lean soft tissue, excluding bone
+  bmcKg?: number; // bone mineral content
+};
+
+// A full scan report (e.g. imported from a vendor export), kept in the scan history
+export type DexaScan = {
+  id: string;
+  date?: string; // YYYY-MM-DD
+  source?: string; // file name / vendor layout it was read from
+  regions: Partial<Record<DexaRegion, DexaRegionMasses>>;
 };
 
 export type ProfileInput = {
-  unitSystem: UnitSystem;
+  units: UnitPreferences;
   sex: Sex;
   ageYears: number;
 
-  height: { cm?: number; inches?: number };
-  weight: { kg?: number; lb?: number };
+  height: LengthValue;
+  weight: MassValue;
 
   bodyFatMode: BodyFatMode;
-  bodyFatPercent?: number;
+  bodyFatPercent?: number; // entered, or the chosen estimate when bodyFatMode is "estimated"
+  bodyFatEstimate?: BodyFatEstimateInput;
+
+  lifeStage?: LifeStage; // undefined = "standard"
+  bmrPolicy?: BmrPolicy; // undefined = "auto"
 
   activity: {
     preset?: ActivityPreset;
@@ -27,12 +168,44 @@ export type ProfileInput = {
     customMultiplier?: number;
   };
 
+  // kcal/day whatever units.energy is
   deltas: {
     cut: number;
     bulk: number;
     recomp: number;
   };
 
-  bulkProteinGPerLb: number;
+  macroStrategy: MacroStrategy;
+  carbCycling?: CarbCycling; // only when enabled
   dexa: DexaInput;
 };
+
+export type Nutrients = {
+  calories: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+};
+
+// Animal-product tags used for diet exclusions
+export type FoodTag = "meat" | "fish" | "dairy" | "egg";
+
+// Macros are stored per 100 g; a serving is a named gram weight ("1 scoop" = 30 g)
+export type Food = {
+  id: string;
+  name: string;
+  brand?: string;
+  per100g: Nutrients;
+  serving?: { label: string; grams: number };
+  tags?: FoodTag[];
+  custom?: boolean;
+};
+
+// Snapshots the food's name and macros so deleting/editing a custom food doesn't rewrite history
+export type FoodLogEntry = {
+  id: string;
+  foodId: string;
+  name: string;
+  grams: number;
+  per100g: Nutrients;
+};